@@ -4,7 +4,13 @@ import Login from './pages/Login';
 import Register from './pages/Register';
 import Dashboard from './pages/Dashboard';
 import Portfolios from './pages/Portfolios';
+import RealizedGains from './pages/RealizedGains';
+import Securities from './pages/Securities';
+import Watchlists from './pages/Watchlists';
+import Alerts from './pages/Alerts';
+import Report from './pages/Report';
 import Settings from './pages/Settings';
+import Trash from './pages/Trash';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
@@ -79,6 +85,46 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/realized-gains"
+            element={
+              <ProtectedRoute>
+                <RealizedGains />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/report"
+            element={
+              <ProtectedRoute>
+                <Report />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/securities"
+            element={
+              <ProtectedRoute>
+                <Securities />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/watchlists"
+            element={
+              <ProtectedRoute>
+                <Watchlists />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/alerts"
+            element={
+              <ProtectedRoute>
+                <Alerts />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/settings"
             element={
@@ -87,6 +133,14 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/trash"
+            element={
+              <ProtectedRoute>
+                <Trash />
+              </ProtectedRoute>
+            }
+          />
           <Route path="/" element={<Navigate to="/dashboard" replace />} />
         </Routes>
       </AuthProvider>
@@ -0,0 +1,123 @@
+import { useMemo, useState } from 'react';
+import { format, startOfYear, subMonths, subYears } from 'date-fns';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { PortfolioSnapshot } from '../types';
+import { snapshotDateKey } from '../lib/snapshots';
+import { formatCurrency } from '../lib/currency';
+
+const RANGES = ['1M', '3M', 'YTD', '1Y', 'All'] as const;
+type Range = (typeof RANGES)[number];
+
+const rangeStart = (range: Range, now: Date): Date | null => {
+  switch (range) {
+    case '1M':
+      return subMonths(now, 1);
+    case '3M':
+      return subMonths(now, 3);
+    case 'YTD':
+      return startOfYear(now);
+    case '1Y':
+      return subYears(now, 1);
+    default:
+      return null;
+  }
+};
+
+interface EquityCurveChartProps {
+  snapshots: PortfolioSnapshot[];
+  currency: string;
+}
+
+export default function EquityCurveChart({ snapshots, currency }: EquityCurveChartProps) {
+  const [range, setRange] = useState<Range>('All');
+
+  const data = useMemo(() => {
+    const start = rangeStart(range, new Date());
+    const startKey = start ? format(start, 'yyyy-MM-dd') : '';
+    return snapshots
+      .map((snapshot) => ({
+        date: snapshotDateKey(snapshot),
+        value: snapshot.total_value,
+        invested: snapshot.invested_capital,
+      }))
+      .filter((point) => point.date >= startKey);
+  }, [snapshots, range]);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-900">Portfolio Value</h2>
+        <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
+          {RANGES.map((option) => (
+            <button
+              key={option}
+              onClick={() => setRange(option)}
+              className={`px-3 py-1 text-sm font-medium rounded-md transition ${
+                range === option ? 'bg-white text-blue-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+      {data.length > 1 ? (
+        <ResponsiveContainer width="100%" height={300}>
+          <ComposedChart data={data}>
+            <defs>
+              <linearGradient id="equityValue" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3} />
+                <stop offset="95%" stopColor="#3b82f6" stopOpacity={0} />
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis
+              dataKey="date"
+              tickFormatter={(date: string) => format(new Date(`${date}T00:00:00`), 'MMM d')}
+              minTickGap={32}
+              tick={{ fontSize: 12 }}
+            />
+            <YAxis
+              tickFormatter={(value: number) => formatCurrency(value, currency, 0)}
+              width={80}
+              tick={{ fontSize: 12 }}
+            />
+            <Tooltip
+              labelFormatter={(date: string) => format(new Date(`${date}T00:00:00`), 'MMM d, yyyy')}
+              formatter={(value: number) => formatCurrency(value, currency)}
+            />
+            <Legend />
+            <Area
+              type="monotone"
+              dataKey="value"
+              name="Portfolio Value"
+              stroke="#3b82f6"
+              fill="url(#equityValue)"
+              strokeWidth={2}
+            />
+            <Line
+              type="stepAfter"
+              dataKey="invested"
+              name="Invested Capital"
+              stroke="#6b7280"
+              strokeDasharray="5 5"
+              dot={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      ) : (
+        <p className="text-gray-500 text-center py-12">Not enough history for this range</p>
+      )}
+    </div>
+  );
+}
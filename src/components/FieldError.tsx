@@ -0,0 +1,6 @@
+// Shown under a form input when its value fails validation
+export default function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+
+  return <p className="text-xs text-red-600 mt-1">{message}</p>;
+}
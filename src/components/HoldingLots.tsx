@@ -0,0 +1,47 @@
+import { Holding } from '../types';
+import { costPerShare } from '../lib/lots';
+import { formatCurrency } from '../lib/currency';
+
+interface HoldingLotsProps {
+  holding: Holding;
+}
+
+export default function HoldingLots({ holding }: HoldingLotsProps) {
+  // Lot amounts stay in the stock's own currency
+  const currency = holding.stock.currency;
+  const lots = [...holding.lots].sort((a, b) => a.acquiredDate.localeCompare(b.acquiredDate));
+
+  return (
+    <table className="w-full">
+      <thead>
+        <tr>
+          <th className="text-left py-2 px-4 text-xs font-medium text-gray-500 uppercase">Acquired</th>
+          <th className="text-right py-2 px-4 text-xs font-medium text-gray-500 uppercase">Remaining</th>
+          <th className="text-right py-2 px-4 text-xs font-medium text-gray-500 uppercase">Cost/Share</th>
+          <th className="text-right py-2 px-4 text-xs font-medium text-gray-500 uppercase">Basis</th>
+          <th className="text-right py-2 px-4 text-xs font-medium text-gray-500 uppercase">Gain/Loss</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {lots.map((lot) => {
+          const gain = lot.quantity * holding.currentPrice - lot.costBasis;
+          return (
+            <tr key={lot.id}>
+              <td className="py-2 px-4 text-sm text-gray-900">{new Date(lot.acquiredDate).toLocaleDateString()}</td>
+              <td className="py-2 px-4 text-sm text-gray-900 text-right">{Number(lot.quantity.toFixed(4))}</td>
+              <td className="py-2 px-4 text-sm text-gray-900 text-right">{formatCurrency(costPerShare(lot), currency)}</td>
+              <td className="py-2 px-4 text-sm text-gray-900 text-right">{formatCurrency(lot.costBasis, currency)}</td>
+              {holding.isPriced ? (
+                <td className={`py-2 px-4 text-sm text-right ${gain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {gain >= 0 ? '+' : ''}{formatCurrency(gain, currency)}
+                </td>
+              ) : (
+                <td className="py-2 px-4 text-sm text-gray-400 text-right">—</td>
+              )}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,368 @@
+import { useMemo, useState } from 'react';
+import { Upload, AlertCircle, CheckCircle, Copy } from 'lucide-react';
+import { getDataStore } from '../lib/data';
+import { getMarketDataProvider } from '../lib/marketData';
+import { settlesInStockCurrency, wouldOverdraw } from '../lib/ledger';
+import { loadFxRate } from '../lib/fx';
+import { assertImportFits, TransactionErrors, ValidationError } from '../lib/validation';
+import {
+  buildImportRows,
+  ColumnMapping,
+  CsvRow,
+  guessColumnMapping,
+  hasDraft,
+  IMPORT_FIELD_LABELS,
+  IMPORT_FIELDS,
+  ImportDateFormat,
+  importListingKey,
+  ImportRow,
+  parseCsv,
+  REQUIRED_IMPORT_FIELDS,
+} from '../lib/csvImport';
+import { isSameListing } from '../lib/securities';
+import { Portfolio, Stock, Transaction } from '../types';
+
+interface ImportTransactionsModalProps {
+  portfolio: Portfolio;
+  // Existing transactions with their stocks, used to skip rows already recorded
+  // and to tell which listing a row without an exchange refers to
+  transactions: Transaction[];
+  stocks: Stock[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const DATE_FORMATS: ImportDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+export default function ImportTransactionsModal({
+  portfolio,
+  transactions,
+  stocks,
+  onClose,
+  onImported,
+}: ImportTransactionsModalProps) {
+  const [fileName, setFileName] = useState('');
+  const [csvRows, setCsvRows] = useState<CsvRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>('YYYY-MM-DD');
+  const [importing, setImporting] = useState(false);
+  // Why the last import attempt was refused
+  const [importError, setImportError] = useState('');
+
+  const headers = csvRows[0]?.cells || [];
+
+  const rows = useMemo<ImportRow[]>(
+    () => (mapping ? buildImportRows(csvRows, mapping, dateFormat, transactions, stocks) : []),
+    [csvRows, mapping, dateFormat, transactions, stocks]
+  );
+
+  // Rows with errors are left out, including sales the rows before them cannot cover
+  const importable = rows.filter(hasDraft).filter((row) => !row.duplicate && row.errors.length === 0);
+  const invalidCount = rows.filter((row) => row.errors.length > 0).length;
+  const duplicateCount = rows.filter((row) => row.duplicate).length;
+  const missingRequired = mapping ? REQUIRED_IMPORT_FIELDS.filter((field) => mapping[field] < 0) : [];
+  // Listings no stock is recorded for yet, by symbol and exchange
+  const newListings = new Map(
+    importable.filter((row) => row.draft.symbol && !row.stock).map((row) => [importListingKey(row), row.draft])
+  );
+
+  const handleFile = async (file: File) => {
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.length < 2) {
+        alert('The file has no data rows.');
+        return;
+      }
+
+      setFileName(file.name);
+      setCsvRows(parsed);
+      setImportError('');
+      setMapping(guessColumnMapping(parsed[0].cells));
+      // Slashed dates are assumed month-first, as most US brokers export them
+      const slashedDates = parsed
+        .slice(1, 6)
+        .some((row) => row.cells.some((c) => /^\d{1,2}\/\d{1,2}\/\d{2,4}/.test(c)));
+      setDateFormat(slashedDates ? 'MM/DD/YYYY' : 'YYYY-MM-DD');
+    } catch (error) {
+      console.error('Error reading CSV file:', error);
+      alert('Failed to read file');
+    }
+  };
+
+  const importTransactions = async () => {
+    if (importable.length === 0) return;
+
+    setImportError('');
+    setImporting(true);
+    try {
+      assertImportFits(importable.length + newListings.size);
+
+      // Fill in names, sectors and currencies for listings the app has not seen
+      // yet; without an exchange in the file, the provider's listing is used
+      const provider = getMarketDataProvider();
+      const now = new Date().toISOString();
+      const newStocks = new Map<string, Stock>();
+      for (const [key, { symbol, exchange: fileExchange }] of newListings) {
+        const matches = await provider.searchSymbols(symbol).catch(() => []);
+        const match = matches.find(
+          (m) => m.symbol === symbol && (!fileExchange || isSameListing(m, { symbol, exchange: fileExchange }))
+        );
+        const exchange = fileExchange || match?.exchange || '';
+        const stock: Stock = {
+          id: getDataStore().stocks.newId({ symbol, exchange }),
+          symbol,
+          name: match?.name || symbol,
+          sector: match?.sector || '',
+          industry: match?.industry || '',
+          exchange,
+          currency: match?.currency || portfolio.currency,
+          created_at: now,
+          updated_at: now,
+        };
+        newStocks.set(key, stock);
+      }
+
+      const fxRates = new Map<string, number | undefined>();
+      const candidates: Transaction[] = [];
+      for (const row of importable) {
+        const { draft } = row;
+        const stock = draft.symbol ? row.stock || newStocks.get(importListingKey(row)) : undefined;
+        const currency = settlesInStockCurrency(draft.transaction_type) && stock ? stock.currency : portfolio.currency;
+
+        let fxRate = 1;
+        if (currency !== portfolio.currency) {
+          const key = `${currency}:${draft.date}`;
+          if (!fxRates.has(key)) fxRates.set(key, await loadFxRate(currency, portfolio.currency, draft.date));
+          const rate = fxRates.get(key);
+          // Settling at a made-up rate would misstate cash, so the file waits
+          // until the rate is known
+          if (rate === undefined) {
+            setImportError(
+              `Line ${row.line}: no ${currency}/${portfolio.currency} rate is known for ${draft.date}. ` +
+                'Add the trade by hand with its rate, or leave it out of the file.'
+            );
+            return;
+          }
+          fxRate = rate;
+        }
+
+        candidates.push({
+          id: `import-${row.line}`,
+          portfolio_id: portfolio.id,
+          stock_id: stock?.id || '',
+          transaction_type: draft.transaction_type,
+          quantity: draft.quantity,
+          price: draft.price,
+          fees: draft.fees,
+          transaction_date: new Date(draft.date).toISOString(),
+          notes: draft.notes,
+          created_at: new Date().toISOString(),
+          ...(fxRate !== 1 ? { fx_rate: fxRate } : {}),
+          stock,
+        });
+      }
+
+      if (!portfolio.allow_margin) {
+        const accepted = [...transactions];
+        const overdrawn = candidates.findIndex((candidate) => {
+          const overdraws = wouldOverdraw(portfolio, accepted, candidate);
+          accepted.push(candidate);
+          return overdraws;
+        });
+        if (overdrawn >= 0) {
+          setImportError(
+            `Line ${importable[overdrawn].line} would take cash below zero. ` +
+              'Add the missing deposits or allow margin for this portfolio.'
+          );
+          return;
+        }
+      }
+
+      await getDataStore().transactions.createMany(candidates, Array.from(newStocks.values()));
+
+      onImported();
+    } catch (error) {
+      // The portfolio may have changed on another device since the preview
+      if (error instanceof ValidationError) {
+        setImportError((error.errors as TransactionErrors).general || 'The import does not fit the portfolio history.');
+      } else {
+        console.error('Error importing transactions:', error);
+        alert('Failed to import transactions');
+      }
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl p-6 max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">Import Transactions</h2>
+
+        <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-6 cursor-pointer hover:bg-gray-50 transition">
+          <Upload className="w-6 h-6 text-gray-400 mb-2" />
+          <span className="text-sm text-gray-700">{fileName || 'Choose a CSV export from your broker'}</span>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+
+        {mapping && (
+          <>
+            <div className="mt-6">
+              <h3 className="font-semibold text-gray-900 mb-3">Columns</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {IMPORT_FIELDS.map((field) => (
+                  <div key={field}>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">
+                      {IMPORT_FIELD_LABELS[field]}
+                      {REQUIRED_IMPORT_FIELDS.includes(field) && ' *'}
+                    </label>
+                    <select
+                      value={mapping[field]}
+                      onChange={(e) => setMapping({ ...mapping, [field]: parseInt(e.target.value) })}
+                      className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value={-1}>Not in file</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `Column ${index + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Date Format</label>
+                  <select
+                    value={dateFormat}
+                    onChange={(e) => setDateFormat(e.target.value as ImportDateFormat)}
+                    className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {DATE_FORMATS.map((format) => (
+                      <option key={format} value={format}>
+                        {format}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-red-600 mt-2">
+                  Map a column for {missingRequired.map((field) => IMPORT_FIELD_LABELS[field]).join(' and ')}.
+                </p>
+              )}
+            </div>
+
+            <div className="mt-6">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold text-gray-900">Preview</h3>
+                <div className="flex space-x-4 text-sm">
+                  <span className="flex items-center text-green-700">
+                    <CheckCircle className="w-4 h-4 mr-1" />
+                    {importable.length} to import
+                  </span>
+                  <span className="flex items-center text-gray-500">
+                    <Copy className="w-4 h-4 mr-1" />
+                    {duplicateCount} already recorded
+                  </span>
+                  <span className="flex items-center text-red-600">
+                    <AlertCircle className="w-4 h-4 mr-1" />
+                    {invalidCount} with errors
+                  </span>
+                </div>
+              </div>
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="py-2 px-3 text-left text-xs font-medium text-gray-500 uppercase">Line</th>
+                      <th className="py-2 px-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                      <th className="py-2 px-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                      <th className="py-2 px-3 text-left text-xs font-medium text-gray-500 uppercase">Symbol</th>
+                      <th className="py-2 px-3 text-right text-xs font-medium text-gray-500 uppercase">Quantity</th>
+                      <th className="py-2 px-3 text-right text-xs font-medium text-gray-500 uppercase">Price</th>
+                      <th className="py-2 px-3 text-right text-xs font-medium text-gray-500 uppercase">Fees</th>
+                      <th className="py-2 px-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {rows.map((row) => (
+                      <tr
+                        key={row.line}
+                        className={row.errors.length > 0 ? 'bg-red-50' : row.duplicate ? 'bg-gray-50 text-gray-400' : ''}
+                      >
+                        <td className="py-2 px-3 text-sm text-gray-500">{row.line}</td>
+                        {row.draft ? (
+                          <>
+                            <td className="py-2 px-3 text-sm">{row.draft.date}</td>
+                            <td className="py-2 px-3 text-sm">{row.draft.transaction_type}</td>
+                            <td className="py-2 px-3 text-sm font-medium">
+                              {row.draft.symbol || 'Cash'}
+                              {(row.stock?.exchange || row.draft.exchange) && (
+                                <span className="ml-1 text-xs font-normal text-gray-500">
+                                  {row.stock?.exchange || row.draft.exchange}
+                                </span>
+                              )}
+                            </td>
+                            <td className="py-2 px-3 text-sm text-right">{row.draft.quantity}</td>
+                            <td className="py-2 px-3 text-sm text-right">{row.draft.price.toFixed(2)}</td>
+                            <td className="py-2 px-3 text-sm text-right">{row.draft.fees.toFixed(2)}</td>
+                          </>
+                        ) : (
+                          <td colSpan={6} className="py-2 px-3 text-sm text-gray-500 truncate max-w-md">
+                            {csvRows.find((csvRow) => csvRow.line === row.line)?.cells.join(', ')}
+                          </td>
+                        )}
+                        <td className="py-2 px-3 text-sm">
+                          {row.errors.length > 0 ? (
+                            <span className="text-red-600">{row.errors.join('; ')}</span>
+                          ) : row.duplicate ? (
+                            <span>Already recorded</span>
+                          ) : (
+                            <span className="text-green-700">Ready</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {newListings.size > 0 && (
+                <p className="text-xs text-gray-500 mt-2">
+                  {newListings.size} listing{newListings.size === 1 ? '' : 's'} not seen before will be added as new
+                  stocks.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+
+        {importError && <p className="text-sm text-red-600 mt-4">{importError}</p>}
+
+        <div className="flex space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={importTransactions}
+            disabled={importing || importable.length === 0 || missingRequired.length > 0}
+            className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {importing ? 'Importing...' : `Import ${importable.length} Transaction${importable.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { Info } from 'lucide-react';
+
+interface InfoTooltipProps {
+  text: string;
+}
+
+export default function InfoTooltip({ text }: InfoTooltipProps) {
+  return (
+    <span className="relative inline-flex group">
+      <Info className="w-4 h-4 text-gray-400 cursor-help" aria-label={text} />
+      <span
+        role="tooltip"
+        className="pointer-events-none absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-64 rounded-lg bg-gray-900 px-3 py-2 text-xs font-normal text-white opacity-0 group-hover:opacity-100 transition z-20"
+      >
+        {text}
+      </span>
+    </span>
+  );
+}
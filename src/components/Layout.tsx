@@ -1,7 +1,9 @@
 import { ReactNode } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { TrendingUp, BarChart3, Briefcase, Settings, LogOut } from 'lucide-react';
+import { TrendingUp, BarChart3, Briefcase, Eye, Receipt, Landmark, Settings, Trash2, LogOut } from 'lucide-react';
+import SyncStatusBadge from './SyncStatusBadge';
+import NotificationCenter from './NotificationCenter';
 
 interface LayoutProps {
   children: ReactNode;
@@ -24,8 +26,8 @@ export default function Layout({ children }: LayoutProps) {
   const isActive = (path: string) => location.pathname === path;
 
   return (
-    <div className="min-h-screen bg-gray-50">
-      <nav className="bg-white shadow-sm border-b border-gray-200">
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      <nav className="bg-white shadow-sm border-b border-gray-200 print:hidden">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between h-16">
             <div className="flex items-center">
@@ -58,6 +60,39 @@ export default function Layout({ children }: LayoutProps) {
                   <Briefcase className="w-4 h-4 mr-2" />
                   Portfolios
                 </Link>
+                <Link
+                  to="/watchlists"
+                  className={`flex items-center px-3 py-2 rounded-lg text-sm font-medium transition ${
+                    isActive('/watchlists')
+                      ? 'bg-blue-50 text-blue-700'
+                      : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  <Eye className="w-4 h-4 mr-2" />
+                  Watchlists
+                </Link>
+                <Link
+                  to="/realized-gains"
+                  className={`flex items-center px-3 py-2 rounded-lg text-sm font-medium transition ${
+                    isActive('/realized-gains')
+                      ? 'bg-blue-50 text-blue-700'
+                      : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  <Receipt className="w-4 h-4 mr-2" />
+                  Realized Gains
+                </Link>
+                <Link
+                  to="/securities"
+                  className={`flex items-center px-3 py-2 rounded-lg text-sm font-medium transition ${
+                    isActive('/securities')
+                      ? 'bg-blue-50 text-blue-700'
+                      : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  <Landmark className="w-4 h-4 mr-2" />
+                  Securities
+                </Link>
                 <Link
                   to="/settings"
                   className={`flex items-center px-3 py-2 rounded-lg text-sm font-medium transition ${
@@ -69,9 +104,22 @@ export default function Layout({ children }: LayoutProps) {
                   <Settings className="w-4 h-4 mr-2" />
                   Settings
                 </Link>
+                <Link
+                  to="/trash"
+                  className={`flex items-center px-3 py-2 rounded-lg text-sm font-medium transition ${
+                    isActive('/trash')
+                      ? 'bg-blue-50 text-blue-700'
+                      : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Trash
+                </Link>
               </div>
             </div>
             <div className="flex items-center space-x-4">
+              <SyncStatusBadge />
+              <NotificationCenter />
               <div className="text-sm">
                 <p className="text-gray-700 font-medium">{user?.email}</p>
               </div>
@@ -86,7 +134,7 @@ export default function Layout({ children }: LayoutProps) {
           </div>
         </div>
       </nav>
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">{children}</main>
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 print:max-w-none print:p-0">{children}</main>
     </div>
   );
 }
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell, BellOff } from 'lucide-react';
+import { getDataStore } from '../lib/data';
+import { useAlertRules, useNotifications } from '../hooks/useLiveData';
+import { useAuth } from '../contexts/AuthContext';
+import { AlertNotification, AlertRule } from '../types';
+
+export default function NotificationCenter() {
+  const { user } = useAuth();
+  const { notifications } = useNotifications(user?.uid);
+  const { rules } = useAlertRules(user?.uid);
+  const [open, setOpen] = useState(false);
+
+  const unread = notifications.filter((notification) => !notification.read);
+
+  const markRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    try {
+      await getDataStore().notifications.markRead(ids);
+    } catch (error) {
+      console.error('Error updating notifications:', error);
+    }
+  };
+
+  const clearAll = async () => {
+    if (!confirm('Clear every notification?')) return;
+    try {
+      await getDataStore().notifications.remove(notifications.map((notification) => notification.id));
+    } catch (error) {
+      console.error('Error clearing notifications:', error);
+      alert('Failed to clear notifications');
+    }
+  };
+
+  const toggleMute = async (rule: AlertRule) => {
+    try {
+      await getDataStore().alerts.update(rule.id, { muted: !rule.muted });
+    } catch (error) {
+      console.error('Error updating alert:', error);
+      alert('Failed to update alert');
+    }
+  };
+
+  const ruleFor = (notification: AlertNotification) => rules.find((rule) => rule.id === notification.rule_id);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 text-gray-700 hover:bg-gray-100 rounded-lg transition"
+        title="Notifications"
+      >
+        <Bell className="w-5 h-5" />
+        {unread.length > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 flex items-center justify-center rounded-full bg-red-600 text-white text-xs font-medium">
+            {unread.length > 99 ? '99+' : unread.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white rounded-xl shadow-xl border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h3 className="font-semibold text-gray-900">Notifications</h3>
+            <div className="flex items-center space-x-3 text-xs">
+              <button
+                onClick={() => markRead(unread.map((notification) => notification.id))}
+                disabled={unread.length === 0}
+                className="text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+              >
+                Mark all read
+              </button>
+              <button
+                onClick={clearAll}
+                disabled={notifications.length === 0}
+                className="text-gray-600 hover:text-gray-800 disabled:text-gray-400"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {notifications.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">No notifications yet</p>
+            ) : (
+              notifications.map((notification) => {
+                const rule = ruleFor(notification);
+                return (
+                  <div
+                    key={notification.id}
+                    onClick={() => !notification.read && markRead([notification.id])}
+                    className={`flex items-start px-4 py-3 ${
+                      notification.read ? '' : 'bg-blue-50 cursor-pointer hover:bg-blue-100'
+                    }`}
+                  >
+                    <span
+                      className={`w-2 h-2 mt-1.5 mr-3 rounded-full flex-shrink-0 ${
+                        notification.read ? 'bg-transparent' : 'bg-blue-600'
+                      }`}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                      <p className="text-xs text-gray-600 mt-0.5">{notification.message}</p>
+                      <p className="text-xs text-gray-400 mt-1">{new Date(notification.created_at).toLocaleString()}</p>
+                    </div>
+                    {rule && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          toggleMute(rule);
+                        }}
+                        className="ml-2 text-gray-400 hover:text-gray-700"
+                        title={rule.muted ? 'Unmute this alert' : 'Mute this alert'}
+                      >
+                        {rule.muted ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                      </button>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          <div className="px-4 py-2 border-t border-gray-200 text-right">
+            <Link to="/alerts" onClick={() => setOpen(false)} className="text-sm text-blue-600 hover:text-blue-700">
+              Manage alerts
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
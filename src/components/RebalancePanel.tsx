@@ -0,0 +1,459 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Scale, Plus, Trash2 } from 'lucide-react';
+import { getDataStore } from '../lib/data';
+import { getMarketDataProvider } from '../lib/marketData';
+import { createDefaultTargets, loadPortfolioTargets, savePortfolioTargets } from '../lib/targets';
+import { calculateDrift, planRebalance, PlannerPosition, ProposedOrder, RebalancePlan } from '../lib/rebalance';
+import { todayKey } from '../lib/dates';
+import { formatCurrency } from '../lib/currency';
+import { loadFxRate } from '../lib/fx';
+import { TransactionErrors, ValidationError } from '../lib/validation';
+import { Holding, PortfolioTargets } from '../types';
+
+interface RebalancePanelProps {
+  portfolioId: string;
+  userId: string;
+  holdings: Holding[];
+  // Holdings, cash and the plan are in this currency; trades settle in the portfolio's
+  currency: string;
+  portfolioCurrency: string;
+  cashBalance: number;
+}
+
+export default function RebalancePanel({
+  portfolioId,
+  userId,
+  holdings,
+  currency,
+  portfolioCurrency,
+  cashBalance,
+}: RebalancePanelProps) {
+  const [targets, setTargets] = useState<PortfolioTargets>(() => createDefaultTargets(portfolioId, userId));
+  const [targetForm, setTargetForm] = useState<PortfolioTargets | null>(null);
+  const [extraPositions, setExtraPositions] = useState<PlannerPosition[]>([]);
+  const [cash, setCash] = useState(Math.max(0, cashBalance));
+  const [plan, setPlan] = useState<RebalancePlan | null>(null);
+  const [recording, setRecording] = useState(false);
+  // Set when the store refuses the trades, e.g. when the cash entered above is
+  // more than the portfolio holds
+  const [recordError, setRecordError] = useState('');
+
+  useEffect(() => {
+    setCash(Math.max(0, cashBalance));
+  }, [cashBalance]);
+
+  useEffect(() => {
+    setPlan(null);
+    loadPortfolioTargets(portfolioId)
+      .then((loaded) => setTargets(loaded || createDefaultTargets(portfolioId, userId)))
+      .catch((error) => console.error('Error loading targets:', error));
+  }, [portfolioId, userId]);
+
+  // Symbol targets the portfolio does not hold yet still need a price to plan a buy
+  useEffect(() => {
+    if (targets.basis !== 'symbol') {
+      setExtraPositions([]);
+      return;
+    }
+
+    const held = new Set(holdings.map((h) => h.stock.symbol));
+    const missing = targets.targets.map((t) => t.key).filter((symbol) => !held.has(symbol));
+    const provider = getMarketDataProvider();
+
+    Promise.all(
+      missing.map(async (symbol) => {
+        const [quote, matches] = await Promise.all([
+          provider.getQuote({ symbol, exchange: '' }),
+          provider.searchSymbols(symbol),
+        ]);
+        const match = matches.find((m) => m.symbol === symbol);
+        const quoteCurrency = quote?.currency || match?.currency || currency;
+        // Without a rate the quote cannot be valued here, so it stays unpriced
+        const fxRate = await loadFxRate(quoteCurrency, currency);
+        return {
+          symbol,
+          name: match?.name || symbol,
+          sector: match?.sector || '',
+          quantity: 0,
+          currency: quoteCurrency,
+          price: fxRate === undefined ? 0 : quote?.price || 0,
+          fxRate: fxRate ?? 0,
+        };
+      })
+    )
+      .then(setExtraPositions)
+      .catch((error) => console.error('Error pricing target symbols:', error));
+  }, [targets, holdings, currency]);
+
+  const positions = useMemo<PlannerPosition[]>(
+    () => [
+      ...holdings
+        .filter((h) => h.isPriced)
+        .map((h) => ({
+          symbol: h.stock.symbol,
+          name: h.stock.name,
+          sector: h.stock.sector || 'Unknown',
+          stock: h.stock,
+          quantity: h.quantity,
+          currency: h.stock.currency,
+          price: h.currentPrice,
+          fxRate: h.fxRate,
+        })),
+      ...extraPositions,
+    ],
+    [holdings, extraPositions]
+  );
+
+  const drift = useMemo(
+    () => (targets.targets.length > 0 ? calculateDrift(positions, targets, cash) : []),
+    [positions, targets, cash]
+  );
+
+  const targetTotal = targetForm ? targetForm.targets.reduce((sum, t) => sum + (t.weight || 0), 0) : 0;
+
+  const saveTargets = async () => {
+    if (!targetForm) return;
+
+    try {
+      const cleaned = {
+        ...targetForm,
+        targets: targetForm.targets
+          .filter((t) => t.key.trim() && t.weight > 0)
+          .map((t) => ({ key: targetForm.basis === 'symbol' ? t.key.trim().toUpperCase() : t.key.trim(), weight: t.weight })),
+      };
+      await savePortfolioTargets(cleaned);
+      setTargets(cleaned);
+      setTargetForm(null);
+      setPlan(null);
+    } catch (error) {
+      console.error('Error saving targets:', error);
+      alert('Failed to save targets');
+    }
+  };
+
+  const findOrCreateStock = async (order: ProposedOrder) => {
+    if (order.stock) return order.stock.id;
+
+    const existing = await getDataStore().stocks.findBySymbol(order.symbol);
+    if (existing) return existing.id;
+
+    const stock = await getDataStore().stocks.create({
+      symbol: order.symbol,
+      name: order.name,
+      sector: order.sector,
+      industry: '',
+      exchange: '',
+      currency: order.currency,
+    });
+    return stock.id;
+  };
+
+  const recordTrades = async () => {
+    if (!plan || plan.orders.length === 0) return;
+
+    setRecordError('');
+    setRecording(true);
+    try {
+      const settlementRates = await Promise.all(
+        plan.orders.map((order) => loadFxRate(order.currency, portfolioCurrency))
+      );
+      const unsettled = plan.orders.find((_, index) => settlementRates[index] === undefined);
+      if (unsettled) {
+        setRecordError(
+          `No ${unsettled.currency}/${portfolioCurrency} rate is known for today. ` +
+            `Record the ${unsettled.symbol} trade by hand with its rate.`
+        );
+        return;
+      }
+      const stockIds = await Promise.all(plan.orders.map(findOrCreateStock));
+      await getDataStore().transactions.createMany(
+        plan.orders.map((order, index) => {
+          const fxRate = settlementRates[index]!;
+          return {
+            portfolio_id: portfolioId,
+            stock_id: stockIds[index],
+            transaction_type: order.side,
+            quantity: order.quantity,
+            price: order.price,
+            // Fees were planned in the panel's currency; transactions carry them in the trade's
+            fees: order.fxRate > 0 ? order.fees / order.fxRate : order.fees,
+            ...(fxRate !== 1 ? { fx_rate: fxRate } : {}),
+            transaction_date: new Date(todayKey()).toISOString(),
+            notes: 'Rebalance',
+          };
+        })
+      );
+
+      setPlan(null);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setRecordError((error.errors as TransactionErrors).general || 'These trades do not fit the portfolio history.');
+      } else {
+        console.error('Error recording rebalance trades:', error);
+        alert('Failed to record trades');
+      }
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <Scale className="w-5 h-5 text-blue-600 mr-2" />
+          <h2 className="text-lg font-bold text-gray-900">Target Allocation</h2>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setTargetForm({ ...targets, targets: targets.targets.map((t) => ({ ...t })) })}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition"
+          >
+            Edit Targets
+          </button>
+          <button
+            onClick={() => {
+              setPlan(planRebalance(positions, targets, cash));
+              setRecordError('');
+            }}
+            disabled={targets.targets.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Plan Rebalance
+          </button>
+        </div>
+      </div>
+
+      {targets.targets.length === 0 ? (
+        <p className="text-gray-500 text-center py-6">No target weights set for this portfolio</p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-3 text-sm text-gray-600">
+            <span>
+              By {targets.basis} · ±{targets.tolerance}% band · {targets.fractional_shares ? 'fractional' : 'whole'} shares
+            </span>
+            <label className="flex items-center">
+              Cash available ({currency})
+              <input
+                type="number"
+                step="0.01"
+                value={cash}
+                onChange={(e) => setCash(parseFloat(e.target.value) || 0)}
+                className="ml-2 w-32 px-2 py-1 border border-gray-300 rounded-lg text-right"
+              />
+            </label>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="border-b border-gray-200">
+                <tr>
+                  <th className="text-left py-2 px-4 text-sm font-semibold text-gray-700">{targets.basis === 'sector' ? 'Sector' : 'Symbol'}</th>
+                  <th className="text-right py-2 px-4 text-sm font-semibold text-gray-700">Current</th>
+                  <th className="text-right py-2 px-4 text-sm font-semibold text-gray-700">Target</th>
+                  <th className="text-right py-2 px-4 text-sm font-semibold text-gray-700">Drift</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {drift.map((row) => (
+                  <tr key={row.key} className={row.outsideBand ? 'bg-amber-50' : ''}>
+                    <td className="py-2 px-4 text-sm font-medium text-gray-900">{row.key}</td>
+                    <td className="py-2 px-4 text-sm text-gray-900 text-right">{row.currentWeight.toFixed(2)}%</td>
+                    <td className="py-2 px-4 text-sm text-gray-900 text-right">{row.targetWeight.toFixed(2)}%</td>
+                    <td className={`py-2 px-4 text-sm text-right ${row.outsideBand ? 'text-amber-700 font-medium' : 'text-gray-500'}`}>
+                      {row.drift >= 0 ? '+' : ''}{row.drift.toFixed(2)} pp
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {plan && (
+        <div className="mt-6 border-t border-gray-200 pt-4">
+          <h3 className="font-semibold text-gray-900 mb-2">Proposed Trades</h3>
+          {plan.orders.length > 0 ? (
+            <table className="w-full">
+              <thead className="border-b border-gray-200">
+                <tr>
+                  <th className="text-left py-2 px-4 text-sm font-semibold text-gray-700">Side</th>
+                  <th className="text-left py-2 px-4 text-sm font-semibold text-gray-700">Symbol</th>
+                  <th className="text-right py-2 px-4 text-sm font-semibold text-gray-700">Quantity</th>
+                  <th className="text-right py-2 px-4 text-sm font-semibold text-gray-700">Price</th>
+                  <th className="text-right py-2 px-4 text-sm font-semibold text-gray-700">Fees</th>
+                  <th className="text-right py-2 px-4 text-sm font-semibold text-gray-700">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {plan.orders.map((order) => (
+                  <tr key={`${order.side}-${order.symbol}`}>
+                    <td className="py-2 px-4">
+                      <span
+                        className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${
+                          order.side === 'buy' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}
+                      >
+                        {order.side.toUpperCase()}
+                      </span>
+                    </td>
+                    <td className="py-2 px-4 text-sm font-medium text-gray-900">{order.symbol}</td>
+                    <td className="py-2 px-4 text-sm text-gray-900 text-right">{order.quantity}</td>
+                    <td className="py-2 px-4 text-sm text-gray-900 text-right">{formatCurrency(order.price, order.currency)}</td>
+                    <td className="py-2 px-4 text-sm text-gray-900 text-right">{formatCurrency(order.fees, currency)}</td>
+                    <td className="py-2 px-4 text-sm text-gray-900 text-right">
+                      {formatCurrency(order.quantity * order.price * order.fxRate, currency)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-gray-500 text-sm">Everything is within the tolerance band.</p>
+          )}
+          {plan.unplaced.length > 0 && (
+            <ul className="mt-3 text-sm text-amber-700 space-y-1">
+              {plan.unplaced.map((item) => (
+                <li key={item.key}>
+                  {item.key}: {formatCurrency(Math.abs(item.amount), currency)} not placed — {item.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+          {recordError && <p className="mt-3 text-sm text-red-600">{recordError}</p>}
+          <div className="flex items-center justify-between mt-4">
+            <p className="text-sm text-gray-600">
+              Cash {formatCurrency(plan.cashBefore, currency)} → {formatCurrency(plan.cashAfter, currency)}
+            </p>
+            {plan.orders.length > 0 && (
+              <button
+                onClick={recordTrades}
+                disabled={recording}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {recording ? 'Recording...' : 'Record as Transactions'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {targetForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl font-bold text-gray-900 mb-4">Target Weights</h2>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Targets By</label>
+                  <select
+                    value={targetForm.basis}
+                    onChange={(e) =>
+                      setTargetForm({ ...targetForm, basis: e.target.value as PortfolioTargets['basis'], targets: [] })
+                    }
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="symbol">Symbol</option>
+                    <option value="sector">Sector</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Tolerance (± pp)</label>
+                  <input
+                    type="number"
+                    step="0.5"
+                    value={targetForm.tolerance}
+                    onChange={(e) => setTargetForm({ ...targetForm, tolerance: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Fee per Trade</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={targetForm.fee_per_trade}
+                    onChange={(e) => setTargetForm({ ...targetForm, fee_per_trade: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <label className="flex items-center mt-8">
+                  <input
+                    type="checkbox"
+                    checked={targetForm.fractional_shares}
+                    onChange={(e) => setTargetForm({ ...targetForm, fractional_shares: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">Fractional shares</span>
+                </label>
+              </div>
+
+              <div className="space-y-2">
+                {targetForm.targets.map((target, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={target.key}
+                      onChange={(e) => {
+                        const next = [...targetForm.targets];
+                        next[index] = { ...target, key: e.target.value };
+                        setTargetForm({ ...targetForm, targets: next });
+                      }}
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder={targetForm.basis === 'sector' ? 'Technology' : 'AAPL'}
+                    />
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={target.weight}
+                      onChange={(e) => {
+                        const next = [...targetForm.targets];
+                        next[index] = { ...target, weight: parseFloat(e.target.value) || 0 };
+                        setTargetForm({ ...targetForm, targets: next });
+                      }}
+                      className="w-24 px-4 py-2 border border-gray-300 rounded-lg text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <span className="text-sm text-gray-500">%</span>
+                    <button
+                      onClick={() =>
+                        setTargetForm({ ...targetForm, targets: targetForm.targets.filter((_, i) => i !== index) })
+                      }
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setTargetForm({ ...targetForm, targets: [...targetForm.targets, { key: '', weight: 0 }] })}
+                  className="flex items-center text-sm text-blue-600 hover:text-blue-700"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Target
+                </button>
+                <p className={`text-sm ${Math.abs(targetTotal - 100) < 0.01 ? 'text-gray-500' : 'text-amber-700'}`}>
+                  Total {targetTotal.toFixed(2)}%{Math.abs(targetTotal - 100) >= 0.01 && ' — the remainder is held as cash'}
+                </p>
+              </div>
+            </div>
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={() => setTargetForm(null)}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveTargets}
+                disabled={targetTotal > 100}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
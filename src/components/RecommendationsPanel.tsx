@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { addDays } from 'date-fns';
+import { Lightbulb, Clock, X } from 'lucide-react';
+import { Recommendation } from '../types';
+import {
+  RecommendationState,
+  isRecommendationHidden,
+  loadRecommendationState,
+  saveRecommendationState,
+} from '../lib/recommendationState';
+
+const SNOOZE_DAYS = 7;
+
+const TYPE_STYLES: Record<Recommendation['type'], string> = {
+  buy: 'bg-green-100 text-green-800',
+  sell: 'bg-red-100 text-red-800',
+  hold: 'bg-gray-100 text-gray-800',
+  rebalance: 'bg-blue-100 text-blue-800',
+};
+
+const PRIORITY_STYLES: Record<Recommendation['priority'], string> = {
+  high: 'text-red-600',
+  medium: 'text-amber-600',
+  low: 'text-gray-500',
+};
+
+interface RecommendationsPanelProps {
+  userId: string;
+  recommendations: Recommendation[];
+}
+
+export default function RecommendationsPanel({ userId, recommendations }: RecommendationsPanelProps) {
+  const [state, setState] = useState<RecommendationState>(() => loadRecommendationState(userId));
+
+  useEffect(() => {
+    setState(loadRecommendationState(userId));
+  }, [userId]);
+
+  const updateState = (next: RecommendationState) => {
+    setState(next);
+    saveRecommendationState(userId, next);
+  };
+
+  const dismiss = (id: string) => {
+    updateState({ ...state, dismissed: [...state.dismissed, id] });
+  };
+
+  const snooze = (id: string) => {
+    updateState({
+      ...state,
+      snoozed: { ...state.snoozed, [id]: addDays(new Date(), SNOOZE_DAYS).toISOString() },
+    });
+  };
+
+  const restoreHidden = () => {
+    updateState({ dismissed: [], snoozed: {} });
+  };
+
+  const visible = recommendations.filter((r) => !isRecommendationHidden(state, r.id));
+  const hiddenCount = recommendations.length - visible.length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <Lightbulb className="w-5 h-5 text-amber-500 mr-2" />
+          <h2 className="text-lg font-bold text-gray-900">Recommendations</h2>
+        </div>
+        {hiddenCount > 0 && (
+          <button onClick={restoreHidden} className="text-sm text-blue-600 hover:text-blue-700">
+            Show {hiddenCount} hidden
+          </button>
+        )}
+      </div>
+      {visible.length > 0 ? (
+        <div className="divide-y divide-gray-200">
+          {visible.map((recommendation) => (
+            <div key={recommendation.id} className="py-3 flex items-start justify-between">
+              <div className="flex-1">
+                <div className="flex items-center space-x-2">
+                  <span
+                    className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${TYPE_STYLES[recommendation.type]}`}
+                  >
+                    {recommendation.type.toUpperCase()}
+                  </span>
+                  <span className="font-medium text-gray-900">
+                    {recommendation.symbol || recommendation.sector || 'Portfolio'}
+                  </span>
+                  <span className={`text-xs font-medium uppercase ${PRIORITY_STYLES[recommendation.priority]}`}>
+                    {recommendation.priority}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 mt-1">{recommendation.reason}</p>
+                {recommendation.action && <p className="text-sm text-gray-900 mt-1">{recommendation.action}</p>}
+              </div>
+              <div className="flex items-center space-x-2 ml-4">
+                <button
+                  onClick={() => snooze(recommendation.id)}
+                  title={`Snooze for ${SNOOZE_DAYS} days`}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <Clock className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => dismiss(recommendation.id)}
+                  title="Dismiss"
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-500 text-center py-6">No recommendations right now</p>
+      )}
+    </div>
+  );
+}
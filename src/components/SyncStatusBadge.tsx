@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { useSyncStatus } from '../hooks/useLiveData';
+import { useAuth } from '../contexts/AuthContext';
+import { getDataStore } from '../lib/data';
+
+const plural = (count: number) => `${count} change${count === 1 ? '' : 's'}`;
+
+const badgeClass = 'flex items-center px-3 py-1 rounded-full text-xs font-medium';
+
+export default function SyncStatusBadge() {
+  const { user } = useAuth();
+  const { online, pendingWrites, syncing, failedWrites, conflicts } = useSyncStatus(user?.uid);
+  const [open, setOpen] = useState(false);
+
+  const retry = async (id: string) => {
+    try {
+      await getDataStore().retryFailedWrite(id);
+    } catch (error) {
+      console.error('Error retrying write:', error);
+    }
+  };
+
+  const problems = failedWrites.length + conflicts.length;
+
+  if (problems > 0) {
+    return (
+      <div className="relative">
+        <button
+          onClick={() => setOpen(!open)}
+          className={`${badgeClass} bg-red-50 text-red-700 hover:bg-red-100`}
+          title="Some changes need your attention"
+        >
+          <AlertTriangle className="w-3 h-3 mr-1" />
+          {failedWrites.length > 0 && `${plural(failedWrites.length)} not saved`}
+          {failedWrites.length > 0 && conflicts.length > 0 && ' · '}
+          {conflicts.length > 0 && `${conflicts.length} conflict${conflicts.length === 1 ? '' : 's'}`}
+        </button>
+
+        {open && (
+          <div className="absolute right-0 mt-2 w-96 bg-white rounded-xl shadow-xl border border-gray-200 z-50">
+            <div className="px-4 py-3 border-b border-gray-200">
+              <h3 className="font-semibold text-gray-900">Sync problems</h3>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {conflicts.map((conflict) => (
+                <div key={conflict.portfolioId} className="px-4 py-3">
+                  <p className="text-sm font-medium text-gray-900">{conflict.portfolioName}</p>
+                  <p className="text-xs text-gray-600 mt-0.5">
+                    {conflict.message} Changes made on another device while offline may overlap with yours.
+                  </p>
+                  <Link
+                    to="/portfolios"
+                    onClick={() => setOpen(false)}
+                    className="inline-block text-xs text-blue-600 hover:text-blue-700 mt-1"
+                  >
+                    Review transactions
+                  </Link>
+                </div>
+              ))}
+
+              {failedWrites.map((write) => (
+                <div key={write.id} className="flex items-start px-4 py-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900">{write.label}</p>
+                    <p className="text-xs text-gray-600 mt-0.5 break-words">{write.message}</p>
+                    <p className="text-xs text-gray-400 mt-1">{new Date(write.failedAt).toLocaleString()}</p>
+                  </div>
+                  <div className="flex items-center space-x-3 ml-2 text-xs">
+                    <button onClick={() => retry(write.id)} className="text-blue-600 hover:text-blue-700">
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => getDataStore().dismissFailedWrite(write.id)}
+                      className="text-gray-600 hover:text-gray-800"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (!online) {
+    return (
+      <span
+        className={`${badgeClass} bg-amber-50 text-amber-700`}
+        title="Changes are kept on this device and sync when you are back online"
+      >
+        <CloudOff className="w-3 h-3 mr-1" />
+        Offline{pendingWrites > 0 && ` · ${plural(pendingWrites)} pending`}
+      </span>
+    );
+  }
+
+  if (pendingWrites > 0 || syncing) {
+    return (
+      <span className={`${badgeClass} bg-blue-50 text-blue-700`}>
+        <RefreshCw className="w-3 h-3 mr-1 animate-spin" />
+        Syncing{pendingWrites > 0 && ` ${plural(pendingWrites)}`}
+      </span>
+    );
+  }
+
+  return (
+    <span className={`${badgeClass} bg-green-50 text-green-700`}>
+      <Cloud className="w-3 h-3 mr-1" />
+      Online
+    </span>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import { getDataStore } from '../lib/data';
+import { REVISION_FIELD_LABELS } from '../lib/revisions';
+import { useAuth } from '../contexts/AuthContext';
+import { FieldChange, RevisionValue, Stock, Transaction, TransactionRevision } from '../types';
+
+interface TransactionRevisionsModalProps {
+  transaction: Transaction;
+  // Used to show stock ids as symbols
+  stocks: Stock[];
+  onClose: () => void;
+}
+
+export default function TransactionRevisionsModal({ transaction, stocks, onClose }: TransactionRevisionsModalProps) {
+  const { user } = useAuth();
+  const [revisions, setRevisions] = useState<TransactionRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    getDataStore()
+      .revisions.listByTransaction(transaction.portfolio_id, transaction.id)
+      .then(setRevisions)
+      .catch((error) => console.error('Error loading revisions:', error))
+      .finally(() => setLoading(false));
+  }, [transaction.portfolio_id, transaction.id]);
+
+  const formatValue = (field: FieldChange['field'], value: RevisionValue) => {
+    if (value === null) return '—';
+    if (Array.isArray(value)) {
+      const shares = value.reduce((sum, selection) => sum + selection.quantity, 0);
+      return `${shares} shares from ${value.length} lot${value.length === 1 ? '' : 's'}`;
+    }
+    if (field === 'stock_id' || field === 'parent_stock_id') {
+      return stocks.find((stock) => stock.id === value)?.symbol || String(value);
+    }
+    if (field === 'transaction_date') return new Date(value).toLocaleDateString();
+    if (field === 'transaction_type') return String(value).replace('_', ' ');
+    return String(value);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <h2 className="flex items-center text-xl font-bold text-gray-900 mb-1">
+          <History className="w-5 h-5 mr-2" />
+          Change History
+        </h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Recorded {new Date(transaction.created_at).toLocaleString()}
+        </p>
+
+        {loading ? (
+          <p className="text-gray-600 text-center py-8">Loading...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">This transaction has not been edited</p>
+        ) : (
+          <div className="space-y-4">
+            {revisions.map((revision) => (
+              <div key={revision.id} className="border border-gray-200 rounded-lg">
+                <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 text-sm text-gray-700">
+                  {new Date(revision.created_at).toLocaleString()} by{' '}
+                  {revision.user_id === user?.uid ? 'you' : revision.user_email || revision.user_id}
+                </div>
+                <table className="w-full text-sm">
+                  <tbody className="divide-y divide-gray-100">
+                    {revision.changes.map((change) => (
+                      <tr key={change.field}>
+                        <td className="py-2 px-4 font-medium text-gray-700 w-1/4">
+                          {REVISION_FIELD_LABELS[change.field as keyof typeof REVISION_FIELD_LABELS] || change.field}
+                        </td>
+                        <td className="py-2 px-4 text-red-700 line-through">
+                          {formatValue(change.field, change.before)}
+                        </td>
+                        <td className="py-2 px-4 text-green-700">{formatValue(change.field, change.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
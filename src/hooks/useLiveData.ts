@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { getDataStore, SyncStatus, Unsubscribe, WatchErrorHandler } from '../lib/data';
+import { AlertNotification, AlertRule, Portfolio, Transaction, UserPreferences, Watchlist } from '../types';
+
+type Watch<T> = (key: string, onChange: (value: T) => void, onError: WatchErrorHandler) => Unsubscribe;
+
+// Subscribes while `key` is set and unsubscribes when it changes or the
+// component unmounts. Results are tagged with the key they were loaded for, so
+// a page never sees the previous key's data while the next key loads.
+const useWatch = <T>(key: string | undefined, empty: T, label: string, watch: Watch<T>) => {
+  const [result, setResult] = useState<{ key: string; value: T } | null>(null);
+
+  useEffect(() => {
+    if (!key) return;
+
+    return watch(
+      key,
+      (value) => setResult({ key, value }),
+      (error) => {
+        console.error(`Error loading ${label}:`, error);
+        setResult({ key, value: empty });
+      }
+    );
+  }, [key]);
+
+  const loaded = !!key && result?.key === key;
+  return { value: loaded ? result.value : empty, loading: !!key && !loaded };
+};
+
+const NO_PORTFOLIOS: Portfolio[] = [];
+const NO_TRANSACTIONS: Transaction[] = [];
+const NO_WATCHLISTS: Watchlist[] = [];
+const NO_ALERT_RULES: AlertRule[] = [];
+const NO_NOTIFICATIONS: AlertNotification[] = [];
+
+export const usePortfolios = (userId: string | undefined) => {
+  const { value, loading } = useWatch(userId, NO_PORTFOLIOS, 'portfolios', (key, onChange, onError) =>
+    getDataStore().portfolios.watchByUser(key, onChange, onError)
+  );
+  return { portfolios: value, loading };
+};
+
+// Oldest first, like TransactionRepository.listByPortfolio
+export const useTransactions = (portfolioId: string | undefined) => {
+  const { value, loading } = useWatch(portfolioId, NO_TRANSACTIONS, 'transactions', (key, onChange, onError) =>
+    getDataStore().transactions.watchByPortfolio(key, onChange, onError)
+  );
+  return { transactions: value, loading };
+};
+
+export const useTrashedPortfolios = (userId: string | undefined) => {
+  const { value, loading } = useWatch(userId, NO_PORTFOLIOS, 'trash', (key, onChange, onError) =>
+    getDataStore().portfolios.watchTrash(key, onChange, onError)
+  );
+  return { portfolios: value, loading };
+};
+
+// Keyed by the joined ids, so passing a new array with the same portfolios
+// keeps the subscription
+export const useTrashedTransactions = (portfolioIds: string[]) => {
+  const { value, loading } = useWatch(portfolioIds.join(','), NO_TRANSACTIONS, 'trash', (key, onChange, onError) =>
+    getDataStore().transactions.watchTrash(key.split(','), onChange, onError)
+  );
+  return { transactions: value, loading };
+};
+
+export const usePreferences = (userId: string | undefined) => {
+  const { value, loading } = useWatch<UserPreferences | null>(userId, null, 'preferences', (key, onChange, onError) =>
+    getDataStore().preferences.watchByUser(key, onChange, onError)
+  );
+  return { preferences: value, loading };
+};
+
+// Ordered by position
+export const useWatchlists = (userId: string | undefined) => {
+  const { value, loading } = useWatch(userId, NO_WATCHLISTS, 'watchlists', (key, onChange, onError) =>
+    getDataStore().watchlists.watchByUser(key, onChange, onError)
+  );
+  return { watchlists: value, loading };
+};
+
+export const useAlertRules = (userId: string | undefined) => {
+  const { value, loading } = useWatch(userId, NO_ALERT_RULES, 'alerts', (key, onChange, onError) =>
+    getDataStore().alerts.watchByUser(key, onChange, onError)
+  );
+  return { rules: value, loading };
+};
+
+// Newest first
+export const useNotifications = (userId: string | undefined) => {
+  const { value, loading } = useWatch(userId, NO_NOTIFICATIONS, 'notifications', (key, onChange, onError) =>
+    getDataStore().notifications.watchByUser(key, onChange, onError)
+  );
+  return { notifications: value, loading };
+};
+
+const SYNCED: SyncStatus = { online: true, pendingWrites: 0, syncing: false, failedWrites: [], conflicts: [] };
+
+export const useSyncStatus = (userId: string | undefined) => {
+  const [status, setStatus] = useState<SyncStatus>(SYNCED);
+
+  useEffect(() => {
+    if (!userId) return;
+    return getDataStore().watchSyncStatus(userId, setStatus);
+  }, [userId]);
+
+  return status;
+};
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { checkAlertRule, checkAlerts } from './alerts';
+import { createMemoryStore, DataStore, setDataStore } from './data';
+import { AlertRule, Stock } from '../types';
+
+const stock = (id: string, symbol: string, exchange = ''): Stock => ({
+  id,
+  symbol,
+  name: symbol,
+  sector: 'Technology',
+  industry: '',
+  exchange,
+  currency: 'USD',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+});
+
+const aapl = stock('AAPL', 'AAPL');
+
+const rule = (fields: Partial<AlertRule>): AlertRule => ({
+  id: 'rule',
+  user_id: 'user-1',
+  type: 'price_above',
+  stock_id: 'AAPL',
+  threshold: 200,
+  muted: false,
+  triggered: false,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  ...fields,
+});
+
+describe('checkAlertRule', () => {
+  it('compares the price of the watched stock with the threshold', () => {
+    const prices = [{ stock: aapl, price: 210, previousClose: 200 }];
+    expect(checkAlertRule(rule({}), { prices })).toMatchObject({ holds: true, title: 'AAPL rose to $210.00' });
+    expect(checkAlertRule(rule({ type: 'daily_move', threshold: 5 }), { prices })?.holds).toBe(true);
+    expect(checkAlertRule(rule({ stock_id: 'MSFT' }), { prices })).toBeNull();
+  });
+
+  it('watches the largest position when a weight rule names none', () => {
+    const portfolios = [
+      {
+        portfolio: { id: 'p', name: 'Growth' },
+        drawdown: 12,
+        weights: [
+          { stock: aapl, weight: 30 },
+          { stock: stock('MSFT', 'MSFT'), weight: 45 },
+        ],
+      },
+    ];
+    const weightRule = rule({ type: 'position_weight', stock_id: undefined, portfolio_id: 'p', threshold: 40 });
+    expect(checkAlertRule(weightRule, { portfolios })?.title).toBe('MSFT is 45% of Growth');
+    expect(checkAlertRule(rule({ type: 'drawdown', portfolio_id: 'p', threshold: 15 }), { portfolios })?.holds).toBe(
+      false
+    );
+  });
+});
+
+describe('checkAlerts', () => {
+  let store: DataStore;
+
+  beforeEach(() => {
+    store = createMemoryStore({ stocks: [aapl, stock('AAPL-DUP', 'AAPL', 'NASDAQ')] });
+    setDataStore(store);
+  });
+
+  it('notifies once when a condition starts to hold', async () => {
+    await store.alerts.create({ user_id: 'user-1', type: 'price_above', stock_id: 'AAPL', threshold: 200, muted: false });
+    const prices = [{ stock: aapl, price: 210, previousClose: 200 }];
+
+    expect((await checkAlerts('user-1', { prices })).map((notification) => notification.title)).toEqual([
+      'AAPL rose to $210.00',
+    ]);
+    expect(await checkAlerts('user-1', { prices })).toEqual([]);
+  });
+
+  it('fires rules saved against a stock that was merged into the observed one', async () => {
+    await store.alerts.create({
+      user_id: 'user-1',
+      type: 'price_above',
+      stock_id: 'AAPL-DUP',
+      threshold: 200,
+      muted: false,
+    });
+    await store.stocks.merge('AAPL-DUP', 'AAPL', { id: 'user-1', email: 'user@example.com' });
+
+    const fired = await checkAlerts('user-1', { prices: [{ stock: aapl, price: 210, previousClose: 200 }] });
+    expect(fired).toHaveLength(1);
+  });
+});
@@ -0,0 +1,175 @@
+import { getDataStore, NewAlertNotification } from './data';
+import { formatCurrency } from './currency';
+import { toDateKey } from './dates';
+import { ClosePoint, CurrentPrice } from './prices';
+import { ValuePoint } from './valuation';
+import type { PriceSummary } from './watchlists';
+import { calculateCurrentDrawdown, calculateDailyReturns } from './riskMetrics';
+import { DEFAULT_NOTIFICATION_SETTINGS } from './preferences';
+import { AlertNotification, AlertRule, AlertType, Portfolio, PortfolioMetrics, Stock } from '../types';
+
+export const ALERT_TYPE_LABELS: Record<AlertType, string> = {
+  price_above: 'Price rises to',
+  price_below: 'Price falls to',
+  daily_move: 'Daily move of at least',
+  drawdown: 'Portfolio drawdown of at least',
+  position_weight: 'Position weight above',
+};
+
+// Price alerts watch a stock; the others watch a portfolio
+export const isPriceAlert = (type: AlertType) =>
+  type === 'price_above' || type === 'price_below' || type === 'daily_move';
+
+// A stock's latest price and the close of the trading day before it
+export interface PriceObservation {
+  stock: Stock;
+  price: number;
+  previousClose: number | null;
+}
+
+export interface PortfolioObservation {
+  portfolio: Pick<Portfolio, 'id' | 'name'>;
+  // Decline from the highest point of the return index, in percent
+  drawdown: number;
+  // Percent of the portfolio's value in each priced holding
+  weights: { stock: Stock; weight: number }[];
+}
+
+export interface AlertObservations {
+  prices?: PriceObservation[];
+  portfolios?: PortfolioObservation[];
+}
+
+interface AlertCheck {
+  holds: boolean;
+  title: string;
+  message: string;
+}
+
+const formatPercent = (value: number) => `${+value.toFixed(2)}%`;
+
+// `closes` are oldest first; the previous close is the last one before the
+// current price's day
+export const toPriceObservation = (stock: Stock, current: CurrentPrice, closes: ClosePoint[]): PriceObservation => {
+  const day = toDateKey(current.date);
+  const previous = closes.filter((point) => point.date < day).pop();
+  return { stock, price: current.close, previousClose: previous?.close ?? null };
+};
+
+export const summaryToPriceObservation = (stock: Stock, summary: PriceSummary): PriceObservation => ({
+  stock,
+  price: summary.lastPrice,
+  previousClose: summary.change !== null ? summary.lastPrice - summary.change : null,
+});
+
+export const toPortfolioObservation = (
+  portfolio: Pick<Portfolio, 'id' | 'name'>,
+  metrics: PortfolioMetrics,
+  series: ValuePoint[]
+): PortfolioObservation => ({
+  portfolio,
+  drawdown: calculateCurrentDrawdown(calculateDailyReturns(series)),
+  weights: metrics.holdings
+    .filter((holding) => holding.isPriced)
+    .map((holding) => ({ stock: holding.stock, weight: holding.weight })),
+});
+
+// Whether the rule's condition holds, or null when the observations say
+// nothing about what it watches
+export const checkAlertRule = (rule: AlertRule, observations: AlertObservations): AlertCheck | null => {
+  if (isPriceAlert(rule.type)) {
+    const observation = observations.prices?.find((price) => price.stock.id === rule.stock_id);
+    if (!observation) return null;
+    const { stock, price, previousClose } = observation;
+    const format = (value: number) => formatCurrency(value, stock.currency);
+
+    if (rule.type === 'daily_move') {
+      if (!previousClose || previousClose <= 0) return null;
+      const change = (price / previousClose - 1) * 100;
+      return {
+        holds: Math.abs(change) >= rule.threshold,
+        title: `${stock.symbol} ${change >= 0 ? 'up' : 'down'} ${formatPercent(Math.abs(change))} on the day`,
+        message: `Now ${format(price)}, from a previous close of ${format(previousClose)}.`,
+      };
+    }
+
+    return {
+      holds: rule.type === 'price_above' ? price >= rule.threshold : price <= rule.threshold,
+      title: `${stock.symbol} ${rule.type === 'price_above' ? 'rose' : 'fell'} to ${format(price)}`,
+      message: `It crossed your alert price of ${format(rule.threshold)}.`,
+    };
+  }
+
+  const observation = observations.portfolios?.find((portfolio) => portfolio.portfolio.id === rule.portfolio_id);
+  if (!observation) return null;
+  const { portfolio, drawdown, weights } = observation;
+
+  if (rule.type === 'drawdown') {
+    return {
+      holds: drawdown >= rule.threshold,
+      title: `${portfolio.name} is ${formatPercent(drawdown)} below its peak`,
+      message: `Your drawdown alert is set at ${formatPercent(rule.threshold)}.`,
+    };
+  }
+
+  // The largest of the watched positions; one no longer held weighs nothing
+  const largest = weights
+    .filter((position) => !rule.stock_id || position.stock.id === rule.stock_id)
+    .sort((a, b) => b.weight - a.weight)[0];
+  if (!largest) return { holds: false, title: '', message: '' };
+  return {
+    holds: largest.weight > rule.threshold,
+    title: `${largest.stock.symbol} is ${formatPercent(largest.weight)} of ${portfolio.name}`,
+    message: `That is above your limit of ${formatPercent(rule.threshold)} for ${
+      rule.stock_id ? 'this position' : 'any one position'
+    }.`,
+  };
+};
+
+const showBrowserNotifications = (notifications: AlertNotification[]) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  notifications.forEach(
+    (notification) => new Notification(notification.title, { body: notification.message, tag: notification.rule_id })
+  );
+};
+
+// Checks the user's rules against freshly loaded prices or portfolio values.
+// Each rule remembers whether its condition held, so it notifies once when
+// the condition starts to hold and again only after it has cleared. Muted
+// rules and kinds of alert turned off in Settings are tracked but stay quiet.
+export const checkAlerts = async (userId: string, observations: AlertObservations): Promise<AlertNotification[]> => {
+  const store = getDataStore();
+  const [rules, preferences] = await Promise.all([
+    store.alerts.listByUser(userId),
+    store.preferences.getByUser(userId),
+  ]);
+  const settings = preferences?.notifications || DEFAULT_NOTIFICATION_SETTINGS;
+  const now = new Date().toISOString();
+  const fired: NewAlertNotification[] = [];
+
+  // A rule saved against a stock that has since been merged into another
+  // watches the stock it was merged into, as observations only carry that one
+  const stocks = await store.stocks.getMany(rules.map((rule) => rule.stock_id || ''));
+
+  await Promise.all(
+    rules.map(async (rule) => {
+      const stockId = (rule.stock_id && stocks.get(rule.stock_id)?.id) || rule.stock_id;
+      const check = checkAlertRule({ ...rule, stock_id: stockId }, observations);
+      if (!check || check.holds === rule.triggered) return;
+
+      await store.alerts.update(
+        rule.id,
+        check.holds ? { triggered: true, last_triggered_at: now } : { triggered: false }
+      );
+      const enabled = isPriceAlert(rule.type) ? settings.price_alerts : settings.portfolio_alerts;
+      if (check.holds && enabled && !rule.muted) {
+        fired.push({ user_id: userId, rule_id: rule.id, title: check.title, message: check.message });
+      }
+    })
+  );
+
+  if (fired.length === 0) return [];
+  const created = await store.notifications.createMany(fired);
+  if (settings.browser) showBrowserNotifications(created);
+  return created;
+};
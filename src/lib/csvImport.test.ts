@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildImportRows,
+  guessColumnMapping,
+  parseCsv,
+  parseDate,
+  parseNumber,
+  parseSide,
+} from './csvImport';
+import { Stock, Transaction } from '../types';
+
+describe('parseCsv', () => {
+  it('handles quoted commas, doubled quotes and line breaks inside quotes', () => {
+    expect(parseCsv('Symbol,Notes\r\nAAPL,"Bought, ""early""\r\nsecond line"').map((row) => row.cells)).toEqual([
+      ['Symbol', 'Notes'],
+      ['AAPL', 'Bought, "early"\nsecond line'],
+    ]);
+  });
+
+  it('numbers each row by the line it starts on, past blank lines and quoted line breaks', () => {
+    const rows = parseCsv('a,b\n\n1,"x\ny"\n2,z\r\n\r\n3,w\n');
+    expect(rows.map((row) => [row.line, row.cells[0]])).toEqual([
+      [1, 'a'],
+      [3, '1'],
+      [5, '2'],
+      [7, '3'],
+    ]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('recognizes common broker headers and leaves the rest unmapped', () => {
+    const mapping = guessColumnMapping(['﻿Run Date', 'Action', 'Symbol', 'Quantity', 'Price ($)', 'Commission ($)']);
+    expect(mapping).toEqual({
+      date: 0,
+      side: 1,
+      symbol: 2,
+      quantity: 3,
+      price: 4,
+      fees: 5,
+      exchange: -1,
+      amount: -1,
+      notes: -1,
+    });
+  });
+});
+
+describe('cell parsers', () => {
+  it('reads broker wording for each transaction type, longest match first', () => {
+    expect(parseSide('YOU BOUGHT APPLE INC')).toBe('buy');
+    expect(parseSide('Dividend Reinvestment')).toBe('dividend_reinvest');
+    expect(parseSide('Qualified Dividend')).toBe('dividend');
+    expect(parseSide('Transfer')).toBeNull();
+  });
+
+  it('reads currency symbols, thousands separators and bracketed negatives', () => {
+    expect(parseNumber('$1,234.50')).toBe(1234.5);
+    expect(parseNumber('(12.00)')).toBe(-12);
+    expect(parseNumber('')).toBeNull();
+    expect(parseNumber('n/a')).toBeNull();
+  });
+
+  it('reads dates in the chosen format and rejects impossible ones', () => {
+    expect(parseDate('2024-03-01, 10:15:00', 'YYYY-MM-DD')).toBe('2024-03-01');
+    expect(parseDate('03/01/24', 'MM/DD/YYYY')).toBe('2024-03-01');
+    expect(parseDate('03/01/2024', 'DD/MM/YYYY')).toBe('2024-01-03');
+    expect(parseDate('02/30/2024', 'MM/DD/YYYY')).toBeNull();
+  });
+});
+
+describe('buildImportRows', () => {
+  const header = 'Date,Action,Symbol,Quantity,Price,Fees';
+  const mapping = guessColumnMapping(header.split(','));
+  const stock = { id: 'aapl-id', symbol: 'AAPL', exchange: 'NASDAQ' } as Stock;
+  const recorded: Transaction = {
+    id: 'existing',
+    portfolio_id: 'p',
+    stock_id: 'aapl-id',
+    transaction_type: 'buy',
+    quantity: 10,
+    price: 100,
+    fees: 1,
+    transaction_date: '2024-01-02T00:00:00.000Z',
+    notes: '',
+    created_at: '2024-01-02T00:00:00.000Z',
+    stock,
+  };
+
+  const build = (...lines: string[]) =>
+    buildImportRows(parseCsv([header, ...lines].join('\n')), mapping, 'YYYY-MM-DD', [recorded]);
+
+  it('turns each row into a draft', () => {
+    const [row] = build('2024-02-01,Sell,aapl,4,"1,150.25",$1.50');
+    expect(row).toEqual({
+      line: 2,
+      draft: {
+        symbol: 'AAPL',
+        exchange: '',
+        transaction_type: 'sell',
+        quantity: 4,
+        price: 1150.25,
+        fees: 1.5,
+        date: '2024-02-01',
+        notes: '',
+      },
+      stock,
+      errors: [],
+      duplicate: false,
+    });
+  });
+
+  it('collects every problem with a row, reported at its line in the file', () => {
+    const [row] = build('', 'yesterday,Transfer,AAPL,,,');
+    expect(row.line).toBe(3);
+    expect(row.draft).toBeNull();
+    expect(row.errors).toEqual(['Unrecognized date "yesterday"', 'Unrecognized type "Transfer"']);
+  });
+
+  it('marks rows already recorded, ignoring a restated fee', () => {
+    expect(build('2024-01-02,Buy,AAPL,10,100,0').map((row) => row.duplicate)).toEqual([true]);
+  });
+
+  it('tells listings of a symbol apart by the exchange column', () => {
+    const xetra = { id: 'AAPL:XETRA', symbol: 'AAPL', exchange: 'XETRA' } as Stock;
+    const withExchange = 'Date,Action,Symbol,Exchange,Quantity,Price,Fees';
+    const rows = buildImportRows(
+      parseCsv([withExchange, '2024-01-02,Buy,AAPL,xetra,10,100,0', '2024-01-02,Buy,AAPL,NASDAQ,10,100,0'].join('\n')),
+      guessColumnMapping(withExchange.split(',')),
+      'YYYY-MM-DD',
+      [recorded],
+      [xetra, stock]
+    );
+    expect(rows.map((row) => [row.stock?.id, row.duplicate])).toEqual([
+      ['AAPL:XETRA', false],
+      ['aapl-id', true],
+    ]);
+  });
+
+  it("reads rows without an exchange as the portfolio's holding", () => {
+    const xetra = { id: 'AAPL:XETRA', symbol: 'AAPL', exchange: 'XETRA' } as Stock;
+    const rows = buildImportRows(
+      parseCsv([header, '2024-01-02,Buy,AAPL,10,100,0'].join('\n')),
+      mapping,
+      'YYYY-MM-DD',
+      [recorded],
+      [xetra, stock]
+    );
+    expect(rows[0]).toMatchObject({ stock, duplicate: true });
+  });
+
+  it('flags sales of more shares than the portfolio and earlier rows hold', () => {
+    const rows = build('2024-02-01,Buy,AAPL,5,110,0', '2024-03-01,Sell,AAPL,20,120,0');
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[1].errors).toEqual(['Sells more AAPL than held on 2024-03-01']);
+  });
+});
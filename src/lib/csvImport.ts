@@ -0,0 +1,415 @@
+import { Stock, Transaction, TransactionType } from '../types';
+import { isAmountTransaction, isCashTransaction } from './ledger';
+import { toDateKey } from './dates';
+import { findOversoldSales, validateTransaction } from './validation';
+import { findListing, stockKey } from './securities';
+
+export type ImportField =
+  | 'date'
+  | 'symbol'
+  | 'exchange'
+  | 'side'
+  | 'quantity'
+  | 'price'
+  | 'amount'
+  | 'fees'
+  | 'notes';
+
+// Column index for each field; -1 when the file has no such column
+export type ColumnMapping = Record<ImportField, number>;
+
+export type ImportDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export interface ImportDraft {
+  symbol: string;
+  // Empty when the file has no exchange column
+  exchange: string;
+  transaction_type: TransactionType;
+  quantity: number;
+  price: number;
+  fees: number;
+  // YYYY-MM-DD
+  date: string;
+  notes: string;
+}
+
+export interface ImportRow {
+  // 1-based line in the file where the row starts, counting the header
+  line: number;
+  draft: ImportDraft | null;
+  // The recorded stock the row refers to; none for cash rows and listings
+  // not recorded yet
+  stock?: Stock;
+  errors: string[];
+  // Already recorded in the portfolio
+  duplicate: boolean;
+}
+
+export type DraftRow = ImportRow & { draft: ImportDraft };
+
+export const hasDraft = (row: ImportRow): row is DraftRow => row.draft !== null;
+
+// One row of a CSV file; `line` is the 1-based line it starts on, so rows
+// after blank lines or quoted line breaks still point at the right place
+export interface CsvRow {
+  line: number;
+  cells: string[];
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'date',
+  'symbol',
+  'exchange',
+  'side',
+  'quantity',
+  'price',
+  'amount',
+  'fees',
+  'notes',
+];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: 'Date',
+  symbol: 'Symbol',
+  exchange: 'Exchange',
+  side: 'Type / Side',
+  quantity: 'Quantity',
+  price: 'Price',
+  amount: 'Amount',
+  fees: 'Fees',
+  notes: 'Notes',
+};
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['date', 'side'];
+
+// Header names used by common broker exports, lower-cased
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  date: ['date', 'trade date', 'run date', 'transaction date', 'date/time', 'settlement date'],
+  symbol: ['symbol', 'ticker', 'security', 'instrument', 'stock'],
+  exchange: ['exchange', 'market', 'exch', 'listing exchange', 'primary exchange'],
+  side: ['side', 'action', 'type', 'transaction type', 'activity', 'buy/sell'],
+  quantity: ['quantity', 'qty', 'shares', 'units'],
+  price: ['price', 'price ($)', 'trade price', 'unit price', 't. price'],
+  amount: ['amount', 'amount ($)', 'net amount', 'proceeds', 'value'],
+  fees: ['fees', 'fee', 'commission', 'commissions', 'fees & comm', 'comm/fee', 'commission ($)'],
+  notes: ['notes', 'description', 'memo', 'comment'],
+};
+
+// Broker wording for each transaction type, matched against the start of the
+// lower-cased side column, e.g. "YOU BOUGHT APPLE INC" or "Reinvestment"
+const SIDE_ALIASES: [string, TransactionType][] = [
+  ['you bought', 'buy'],
+  ['bought', 'buy'],
+  ['buy', 'buy'],
+  ['you sold', 'sell'],
+  ['sold', 'sell'],
+  ['sell', 'sell'],
+  ['reinvest', 'dividend_reinvest'],
+  ['dividend reinvest', 'dividend_reinvest'],
+  ['dividend', 'dividend'],
+  ['qualified dividend', 'dividend'],
+  ['cash dividend', 'dividend'],
+  ['div', 'dividend'],
+  ['deposit', 'deposit'],
+  ['electronic funds transfer received', 'deposit'],
+  ['withdrawal', 'withdrawal'],
+  ['withdraw', 'withdrawal'],
+  ['fee', 'fee'],
+  ['split', 'split'],
+  ['stock split', 'split'],
+];
+
+// Splits CSV text into rows of cells. Handles quoted cells with embedded
+// commas, quotes ("") and line breaks; blank lines are dropped.
+export const parseCsv = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const lineBreak = char === '\n' || char === '\r';
+    if (char === '\r' && text[i + 1] === '\n') i++;
+    if (lineBreak) line++;
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += lineBreak ? '\n' : char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (lineBreak) {
+      row.push(cell);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      cell = '';
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push({ line: rowLine, cells: row });
+
+  return rows
+    .map((csvRow) => ({ ...csvRow, cells: csvRow.cells.map((c) => c.trim()) }))
+    .filter((csvRow) => csvRow.cells.some((c) => c !== ''));
+};
+
+// Picks a column for each field from the header names, so most broker files
+// need no manual mapping
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map((h) => h.replace(/^\uFEFF/, '').trim().toLowerCase());
+  const taken = new Set<number>();
+
+  return IMPORT_FIELDS.reduce((mapping, field) => {
+    const index = normalized.findIndex((header, i) => !taken.has(i) && HEADER_ALIASES[field].includes(header));
+    if (index >= 0) taken.add(index);
+    return { ...mapping, [field]: index };
+  }, {} as ColumnMapping);
+};
+
+export const parseSide = (value: string): TransactionType | null => {
+  const side = value.trim().toLowerCase();
+  if (!side) return null;
+
+  // Longest alias first, so "dividend reinvest" beats "dividend"
+  const match = [...SIDE_ALIASES]
+    .sort((a, b) => b[0].length - a[0].length)
+    .find(([alias]) => side.startsWith(alias));
+  return match ? match[1] : null;
+};
+
+// Accepts broker number formats: "$1,234.50", "(12.00)" for negatives, "-3"
+export const parseNumber = (value: string): number | null => {
+  const cleaned = value.replace(/[$€£¥,\s]/g, '');
+  if (!cleaned) return null;
+
+  const negative = /^\(.*\)$/.test(cleaned);
+  const parsed = Number(cleaned.replace(/[()]/g, ''));
+  if (!Number.isFinite(parsed)) return null;
+  return negative ? -parsed : parsed;
+};
+
+export const parseDate = (value: string, format: ImportDateFormat): string | null => {
+  // Drop any time of day, e.g. "2024-03-01, 10:15:00" or "03/01/2024 10:15"
+  const datePart = value.trim().split(/[ ,T]/)[0];
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (format === 'YYYY-MM-DD') {
+    const match = datePart.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (!match) return null;
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    const match = datePart.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+    if (!match) return null;
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    year = Number(match[3]) < 100 ? 2000 + Number(match[3]) : Number(match[3]);
+    [month, day] = format === 'MM/DD/YYYY' ? [first, second] : [second, first];
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return toDateKey(date);
+};
+
+const cellAt = (cells: string[], index: number) => (index >= 0 ? cells[index] || '' : '');
+
+// Turns one data row into a transaction draft, collecting every problem
+// instead of stopping at the first so the preview can show them all
+export const parseImportRow = (
+  cells: string[],
+  line: number,
+  mapping: ColumnMapping,
+  dateFormat: ImportDateFormat
+): ImportRow => {
+  const errors: string[] = [];
+  const cell = (field: ImportField) => cellAt(cells, mapping[field]);
+
+  const date = parseDate(cell('date'), dateFormat);
+  if (!date) errors.push(`Unrecognized date "${cell('date')}"`);
+
+  const type = parseSide(cell('side'));
+  if (!type) errors.push(`Unrecognized type "${cell('side')}"`);
+
+  const symbol = cell('symbol').toUpperCase();
+  if (type && !isCashTransaction(type) && !symbol) errors.push('Missing symbol');
+
+  const quantity = parseNumber(cell('quantity'));
+  const price = parseNumber(cell('price'));
+  const amount = parseNumber(cell('amount'));
+  const fees = Math.abs(parseNumber(cell('fees')) ?? 0);
+
+  let draftQuantity = 0;
+  let draftPrice = 0;
+  if (type && isAmountTransaction(type)) {
+    // Amount-only transactions store the amount as price with a quantity of 1
+    const value = amount ?? (quantity !== null && price !== null ? quantity * price : price);
+    if (value === null || value === 0) errors.push('Missing amount');
+    draftQuantity = 1;
+    draftPrice = Math.abs(value ?? 0);
+  } else if (type === 'split') {
+    // Split rows carry the ratio in the quantity column
+    if (!quantity || quantity <= 0) errors.push('Missing split ratio');
+    draftQuantity = Math.abs(quantity ?? 0);
+  } else if (type) {
+    if (!quantity) errors.push('Missing quantity');
+    // Some brokers only export the net amount; back out the price from it
+    const unitPrice = price ?? (amount !== null && quantity ? Math.abs(amount) / Math.abs(quantity) : null);
+    if (unitPrice === null || unitPrice <= 0) errors.push('Missing price');
+    draftQuantity = Math.abs(quantity ?? 0);
+    draftPrice = Math.abs(unitPrice ?? 0);
+  }
+
+  // The rest of the rules, such as no future dates, are shared with the forms
+  if (errors.length === 0 && type && date) {
+    const invalid = validateTransaction({
+      transaction_type: type,
+      stock_id: symbol,
+      quantity: draftQuantity,
+      price: draftPrice,
+      fees,
+      transaction_date: new Date(date).toISOString(),
+    });
+    errors.push(...Object.values(invalid));
+  }
+
+  if (errors.length > 0 || !type || !date) {
+    return { line, draft: null, errors, duplicate: false };
+  }
+
+  return {
+    line,
+    draft: {
+      symbol: isCashTransaction(type) ? '' : symbol,
+      exchange: isCashTransaction(type) ? '' : cell('exchange').toUpperCase(),
+      transaction_type: type,
+      quantity: draftQuantity,
+      price: draftPrice,
+      fees,
+      date,
+      notes: cell('notes'),
+    },
+    errors,
+    duplicate: false,
+  };
+};
+
+const roundKey = (value: number) => value.toFixed(6);
+
+// The listing a row refers to, as symbol and exchange; empty for cash rows
+export const importListingKey = (row: DraftRow) =>
+  stockKey(row.stock || { symbol: row.draft.symbol, exchange: row.draft.exchange });
+
+// Rows name a symbol and, when the file has the column, an exchange. Without
+// one, the portfolio's holding of the symbol wins over other listings of it.
+export const findImportStocks = (rows: ImportRow[], existing: Transaction[], stocks: Stock[]): ImportRow[] => {
+  const held = existing.flatMap((txn) => (txn.stock ? [txn.stock] : []));
+  return rows.map((row) => {
+    if (!row.draft?.symbol) return row;
+    const { symbol, exchange } = row.draft;
+    const stock = findListing(held, symbol, exchange) || findListing(stocks, symbol, exchange);
+    return stock ? { ...row, stock } : row;
+  });
+};
+
+// Two transactions are the same when they match on day, listing, type,
+// quantity and price; fees and notes are often restated between exports
+const duplicateKey = (date: string, listing: string, type: TransactionType, quantity: number, price: number) =>
+  [toDateKey(date), listing, type, roundKey(quantity), roundKey(price)].join('|');
+
+// Marks rows already present among the portfolio's transactions. Identical
+// rows inside the file are kept, since partial fills look exactly alike.
+export const markDuplicates = (rows: ImportRow[], existing: Transaction[]): ImportRow[] => {
+  const recorded = new Set(
+    existing.map((txn) =>
+      duplicateKey(
+        txn.transaction_date,
+        txn.stock ? stockKey(txn.stock) : '',
+        txn.transaction_type,
+        txn.quantity,
+        txn.price
+      )
+    )
+  );
+
+  return rows.map((row) => ({
+    ...row,
+    duplicate:
+      hasDraft(row) &&
+      recorded.has(
+        duplicateKey(
+          row.draft.date,
+          importListingKey(row),
+          row.draft.transaction_type,
+          row.draft.quantity,
+          row.draft.price
+        )
+      ),
+  }));
+};
+
+// Flags sales that would sell more shares than the portfolio holds on their
+// date once the other new rows are imported. Rows of listings not recorded
+// yet are grouped by symbol and exchange.
+export const markOversoldSales = (rows: ImportRow[], existing: Transaction[]): ImportRow[] => {
+  const now = new Date().toISOString();
+  const imported: Transaction[] = rows
+    .filter(hasDraft)
+    .filter((row) => !row.duplicate)
+    .map((row) => ({
+      id: `import-${row.line}`,
+      portfolio_id: '',
+      stock_id: row.stock?.id || importListingKey(row),
+      transaction_type: row.draft.transaction_type,
+      quantity: row.draft.quantity,
+      price: row.draft.price,
+      fees: row.draft.fees,
+      transaction_date: new Date(row.draft.date).toISOString(),
+      notes: '',
+      created_at: now,
+    }));
+
+  const oversold = findOversoldSales([...existing, ...imported]);
+  return rows.map((row) =>
+    hasDraft(row) && oversold.has(`import-${row.line}`)
+      ? { ...row, errors: [...row.errors, `Sells more ${row.draft.symbol} than held on ${row.draft.date}`] }
+      : row
+  );
+};
+
+// The first row holds the headers. `existing` are the portfolio's
+// transactions with their stocks, `stocks` every recorded stock.
+export const buildImportRows = (
+  rows: CsvRow[],
+  mapping: ColumnMapping,
+  dateFormat: ImportDateFormat,
+  existing: Transaction[],
+  stocks: Stock[] = []
+): ImportRow[] =>
+  markOversoldSales(
+    markDuplicates(
+      findImportStocks(
+        rows.slice(1).map((row) => parseImportRow(row.cells, row.line, mapping, dateFormat)),
+        existing,
+        stocks
+      ),
+      existing
+    ),
+    existing
+  );
@@ -0,0 +1,28 @@
+export const DEFAULT_CURRENCY = 'USD';
+
+// Currencies offered in pickers; any ISO 4217 code works elsewhere
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'CHF', 'CAD', 'JPY'];
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+// fractionDigits defaults to the currency's usual minor units
+export const formatCurrency = (value: number, currency = DEFAULT_CURRENCY, fractionDigits?: number) => {
+  const key = `${currency}:${fractionDigits ?? ''}`;
+  if (!formatters.has(key)) {
+    try {
+      formatters.set(
+        key,
+        new Intl.NumberFormat(undefined, {
+          style: 'currency',
+          currency,
+          minimumFractionDigits: fractionDigits,
+          maximumFractionDigits: fractionDigits,
+        })
+      );
+    } catch {
+      // Not a code Intl knows about
+      return `${currency} ${value.toFixed(fractionDigits ?? 2)}`;
+    }
+  }
+  return formatters.get(key)!.format(value);
+};
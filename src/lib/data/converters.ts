@@ -0,0 +1,421 @@
+import {
+  deleteField,
+  DocumentData,
+  FirestoreDataConverter,
+  QueryDocumentSnapshot,
+  serverTimestamp,
+  Timestamp,
+  UpdateData,
+} from 'firebase/firestore';
+import { DEFAULT_COST_BASIS_METHOD } from '../lots';
+import { DEFAULT_CURRENCY } from '../currency';
+import { DEFAULT_BENCHMARK_SYMBOL, DEFAULT_NOTIFICATION_SETTINGS, DEFAULT_RISK_FREE_RATE } from '../preferences';
+import { DEFAULT_TOLERANCE } from '../targets';
+import { TransactionChanges } from './types';
+import {
+  AlertNotification,
+  AlertRule,
+  FxRate,
+  Portfolio,
+  PortfolioSnapshot,
+  PortfolioTargets,
+  Stock,
+  StockPrice,
+  Transaction,
+  TransactionRevision,
+  UserPreferences,
+  Watchlist,
+  WatchlistItem,
+} from '../../types';
+
+// Converters map between stored documents and the app's types. Dates are
+// Timestamps in Firestore and ISO strings in the app. created_at and
+// updated_at are always set by the server on write, and fields added after a
+// document was written fall back to their defaults on read.
+
+// Audit timestamps read as null while a local write is still pending
+const toIso = (value: Timestamp | null | undefined) => value?.toDate().toISOString() || new Date().toISOString();
+
+const toTimestamp = (iso: string) => Timestamp.fromDate(new Date(iso));
+
+export const portfolioConverter: FirestoreDataConverter<Portfolio> = {
+  toFirestore: (model) => {
+    const portfolio = model as Portfolio;
+    return {
+      user_id: portfolio.user_id,
+      name: portfolio.name,
+      description: portfolio.description,
+      initial_capital: portfolio.initial_capital,
+      allow_margin: portfolio.allow_margin,
+      cost_basis_method: portfolio.cost_basis_method,
+      currency: portfolio.currency,
+      created_at: serverTimestamp(),
+      updated_at: serverTimestamp(),
+    };
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): Portfolio => {
+    const data = snapshot.data();
+    return {
+      id: snapshot.id,
+      user_id: data.user_id,
+      name: data.name,
+      description: data.description || '',
+      initial_capital: data.initial_capital,
+      allow_margin: data.allow_margin ?? false,
+      cost_basis_method: data.cost_basis_method || DEFAULT_COST_BASIS_METHOD,
+      currency: data.currency || DEFAULT_CURRENCY,
+      created_at: toIso(data.created_at),
+      updated_at: toIso(data.updated_at),
+      ...('deleted_at' in data ? { deleted_at: toIso(data.deleted_at) } : {}),
+    };
+  },
+};
+
+// The stock is attached by the repository; it is never stored on the transaction
+export const transactionConverter: FirestoreDataConverter<Transaction> = {
+  toFirestore: (model) => {
+    const txn = model as Transaction;
+    return {
+      portfolio_id: txn.portfolio_id,
+      stock_id: txn.stock_id,
+      transaction_type: txn.transaction_type,
+      quantity: txn.quantity,
+      price: txn.price,
+      fees: txn.fees,
+      transaction_date: toTimestamp(txn.transaction_date),
+      notes: txn.notes,
+      ...(txn.fx_rate && txn.fx_rate !== 1 ? { fx_rate: txn.fx_rate } : {}),
+      ...(txn.parent_stock_id ? { parent_stock_id: txn.parent_stock_id } : {}),
+      ...(txn.lot_selections && txn.lot_selections.length > 0 ? { lot_selections: txn.lot_selections } : {}),
+      created_at: serverTimestamp(),
+    };
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): Transaction => {
+    const data = snapshot.data();
+    return {
+      id: snapshot.id,
+      portfolio_id: data.portfolio_id,
+      stock_id: data.stock_id || '',
+      transaction_type: data.transaction_type,
+      quantity: data.quantity,
+      price: data.price,
+      fees: data.fees || 0,
+      transaction_date: data.transaction_date.toDate().toISOString(),
+      notes: data.notes || '',
+      created_at: toIso(data.created_at),
+      ...(data.fx_rate ? { fx_rate: data.fx_rate } : {}),
+      ...(data.parent_stock_id ? { parent_stock_id: data.parent_stock_id } : {}),
+      ...(data.lot_selections ? { lot_selections: data.lot_selections } : {}),
+      ...('updated_at' in data ? { updated_at: toIso(data.updated_at) } : {}),
+      ...('deleted_at' in data ? { deleted_at: toIso(data.deleted_at) } : {}),
+    };
+  },
+};
+
+// Partial updates can't go through a converter. Optional fields set to their
+// empty value are removed, as they are never stored on a new transaction.
+export const transactionChangesToFirestore = (changes: TransactionChanges): UpdateData<DocumentData> => {
+  const { transaction_date, fx_rate, parent_stock_id, lot_selections, ...fields } = changes;
+  return {
+    ...fields,
+    ...(transaction_date !== undefined ? { transaction_date: toTimestamp(transaction_date) } : {}),
+    ...('fx_rate' in changes ? { fx_rate: fx_rate && fx_rate !== 1 ? fx_rate : deleteField() } : {}),
+    ...('parent_stock_id' in changes ? { parent_stock_id: parent_stock_id || deleteField() } : {}),
+    ...('lot_selections' in changes
+      ? { lot_selections: lot_selections && lot_selections.length > 0 ? lot_selections : deleteField() }
+      : {}),
+    updated_at: serverTimestamp(),
+  };
+};
+
+export const revisionConverter: FirestoreDataConverter<TransactionRevision> = {
+  toFirestore: (model) => {
+    const revision = model as TransactionRevision;
+    return {
+      transaction_id: revision.transaction_id,
+      portfolio_id: revision.portfolio_id,
+      user_id: revision.user_id,
+      user_email: revision.user_email,
+      changes: revision.changes,
+      created_at: serverTimestamp(),
+    };
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): TransactionRevision => {
+    const data = snapshot.data();
+    return {
+      id: snapshot.id,
+      transaction_id: data.transaction_id,
+      portfolio_id: data.portfolio_id,
+      user_id: data.user_id,
+      user_email: data.user_email || '',
+      changes: data.changes || [],
+      created_at: toIso(data.created_at),
+    };
+  },
+};
+
+export const stockConverter: FirestoreDataConverter<Stock> = {
+  toFirestore: (model) => {
+    const stock = model as Stock;
+    return {
+      symbol: stock.symbol,
+      name: stock.name,
+      sector: stock.sector,
+      industry: stock.industry,
+      exchange: stock.exchange,
+      currency: stock.currency,
+      created_at: serverTimestamp(),
+      updated_at: serverTimestamp(),
+    };
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): Stock => {
+    const data = snapshot.data();
+    return {
+      id: snapshot.id,
+      symbol: data.symbol,
+      name: data.name || data.symbol,
+      sector: data.sector || '',
+      industry: data.industry || '',
+      exchange: data.exchange || '',
+      currency: data.currency || DEFAULT_CURRENCY,
+      created_at: toIso(data.created_at),
+      updated_at: toIso(data.updated_at),
+      ...(data.merged_into ? { merged_into: data.merged_into } : {}),
+    };
+  },
+};
+
+export const preferencesConverter: FirestoreDataConverter<UserPreferences> = {
+  toFirestore: (model) => {
+    const preferences = model as UserPreferences;
+    return {
+      user_id: preferences.user_id,
+      risk_profile: preferences.risk_profile,
+      investment_horizon: preferences.investment_horizon,
+      preferred_sectors: preferences.preferred_sectors,
+      risk_free_rate: preferences.risk_free_rate,
+      benchmark_symbol: preferences.benchmark_symbol,
+      base_currency: preferences.base_currency,
+      notifications: preferences.notifications,
+      created_at: serverTimestamp(),
+      updated_at: serverTimestamp(),
+    };
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): UserPreferences => {
+    const data = snapshot.data();
+    return {
+      id: snapshot.id,
+      user_id: data.user_id,
+      risk_profile: data.risk_profile || 'moderate',
+      investment_horizon: data.investment_horizon || 'medium',
+      preferred_sectors: data.preferred_sectors || [],
+      risk_free_rate: data.risk_free_rate ?? DEFAULT_RISK_FREE_RATE,
+      benchmark_symbol: data.benchmark_symbol || DEFAULT_BENCHMARK_SYMBOL,
+      base_currency: data.base_currency || DEFAULT_CURRENCY,
+      notifications: { ...DEFAULT_NOTIFICATION_SETTINGS, ...data.notifications },
+      created_at: toIso(data.created_at),
+      updated_at: toIso(data.updated_at),
+    };
+  },
+};
+
+export const stockPriceConverter: FirestoreDataConverter<StockPrice> = {
+  toFirestore: (model) => {
+    const price = model as StockPrice;
+    return {
+      stock_id: price.stock_id,
+      date: toTimestamp(price.date),
+      open: price.open,
+      high: price.high,
+      low: price.low,
+      close: price.close,
+      volume: price.volume,
+      created_at: serverTimestamp(),
+    };
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): StockPrice => {
+    const data = snapshot.data();
+    return {
+      id: snapshot.id,
+      stock_id: data.stock_id,
+      date: data.date.toDate().toISOString(),
+      open: data.open,
+      high: data.high,
+      low: data.low,
+      close: data.close,
+      volume: data.volume,
+      created_at: toIso(data.created_at),
+    };
+  },
+};
+
+export const fxRateConverter: FirestoreDataConverter<FxRate> = {
+  toFirestore: (model) => {
+    const rate = model as FxRate;
+    return {
+      from_currency: rate.from_currency,
+      to_currency: rate.to_currency,
+      date: toTimestamp(rate.date),
+      rate: rate.rate,
+      created_at: serverTimestamp(),
+    };
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): FxRate => {
+    const data = snapshot.data();
+    return {
+      id: snapshot.id,
+      from_currency: data.from_currency,
+      to_currency: data.to_currency,
+      date: data.date.toDate().toISOString(),
+      rate: data.rate,
+      created_at: toIso(data.created_at),
+    };
+  },
+};
+
+export const snapshotConverter: FirestoreDataConverter<PortfolioSnapshot> = {
+  toFirestore: (model) => {
+    const snapshot = model as PortfolioSnapshot;
+    return {
+      portfolio_id: snapshot.portfolio_id,
+      snapshot_date: toTimestamp(snapshot.snapshot_date),
+      total_value: snapshot.total_value,
+      cash_balance: snapshot.cash_balance,
+      invested_capital: snapshot.invested_capital,
+      total_return: snapshot.total_return,
+      created_at: serverTimestamp(),
+    };
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): PortfolioSnapshot => {
+    const data = snapshot.data();
+    return {
+      id: snapshot.id,
+      portfolio_id: data.portfolio_id,
+      snapshot_date: data.snapshot_date.toDate().toISOString(),
+      total_value: data.total_value,
+      cash_balance: data.cash_balance,
+      invested_capital: data.invested_capital ?? 0,
+      total_return: data.total_return,
+      created_at: toIso(data.created_at),
+    };
+  },
+};
+
+export const targetsConverter: FirestoreDataConverter<PortfolioTargets> = {
+  toFirestore: (model) => {
+    const targets = model as PortfolioTargets;
+    return {
+      portfolio_id: targets.portfolio_id,
+      user_id: targets.user_id,
+      basis: targets.basis,
+      targets: targets.targets,
+      tolerance: targets.tolerance,
+      fractional_shares: targets.fractional_shares,
+      fee_per_trade: targets.fee_per_trade,
+      updated_at: serverTimestamp(),
+    };
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): PortfolioTargets => {
+    const data = snapshot.data();
+    return {
+      id: snapshot.id,
+      portfolio_id: data.portfolio_id,
+      user_id: data.user_id,
+      basis: data.basis,
+      targets: data.targets || [],
+      tolerance: data.tolerance ?? DEFAULT_TOLERANCE,
+      fractional_shares: data.fractional_shares ?? false,
+      fee_per_trade: data.fee_per_trade ?? 0,
+      updated_at: toIso(data.updated_at),
+    };
+  },
+};
+
+// Firestore rejects undefined values, so an unset target price is left out
+export const watchlistItemsToFirestore = (items: WatchlistItem[]) =>
+  items.map(({ target_price, ...item }) => (target_price !== undefined ? { ...item, target_price } : item));
+
+export const watchlistConverter: FirestoreDataConverter<Watchlist> = {
+  toFirestore: (model) => {
+    const watchlist = model as Watchlist;
+    return {
+      user_id: watchlist.user_id,
+      name: watchlist.name,
+      position: watchlist.position,
+      items: watchlistItemsToFirestore(watchlist.items),
+      created_at: serverTimestamp(),
+      updated_at: serverTimestamp(),
+    };
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): Watchlist => {
+    const data = snapshot.data();
+    return {
+      id: snapshot.id,
+      user_id: data.user_id,
+      name: data.name,
+      position: data.position ?? 0,
+      items: data.items || [],
+      created_at: toIso(data.created_at),
+      updated_at: toIso(data.updated_at),
+    };
+  },
+};
+
+export const alertRuleConverter: FirestoreDataConverter<AlertRule> = {
+  toFirestore: (model) => {
+    const rule = model as AlertRule;
+    return {
+      user_id: rule.user_id,
+      type: rule.type,
+      ...(rule.stock_id ? { stock_id: rule.stock_id } : {}),
+      ...(rule.portfolio_id ? { portfolio_id: rule.portfolio_id } : {}),
+      threshold: rule.threshold,
+      muted: rule.muted,
+      triggered: rule.triggered,
+      created_at: serverTimestamp(),
+      updated_at: serverTimestamp(),
+    };
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): AlertRule => {
+    const data = snapshot.data();
+    return {
+      id: snapshot.id,
+      user_id: data.user_id,
+      type: data.type,
+      ...(data.stock_id ? { stock_id: data.stock_id } : {}),
+      ...(data.portfolio_id ? { portfolio_id: data.portfolio_id } : {}),
+      threshold: data.threshold,
+      muted: data.muted ?? false,
+      triggered: data.triggered ?? false,
+      ...(data.last_triggered_at ? { last_triggered_at: toIso(data.last_triggered_at) } : {}),
+      created_at: toIso(data.created_at),
+      updated_at: toIso(data.updated_at),
+    };
+  },
+};
+
+export const notificationConverter: FirestoreDataConverter<AlertNotification> = {
+  toFirestore: (model) => {
+    const notification = model as AlertNotification;
+    return {
+      user_id: notification.user_id,
+      rule_id: notification.rule_id,
+      title: notification.title,
+      message: notification.message,
+      read: notification.read,
+      created_at: serverTimestamp(),
+    };
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot<DocumentData>): AlertNotification => {
+    const data = snapshot.data();
+    return {
+      id: snapshot.id,
+      user_id: data.user_id,
+      rule_id: data.rule_id,
+      title: data.title,
+      message: data.message || '',
+      read: data.read ?? false,
+      created_at: toIso(data.created_at),
+    };
+  },
+};
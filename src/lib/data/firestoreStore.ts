@@ -0,0 +1,892 @@
+import {
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  DocumentData,
+  DocumentReference,
+  documentId,
+  Firestore,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  QuerySnapshot,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  UpdateData,
+  where,
+  WriteBatch,
+  writeBatch,
+} from 'firebase/firestore';
+import {
+  alertRuleConverter,
+  fxRateConverter,
+  notificationConverter,
+  portfolioConverter,
+  preferencesConverter,
+  revisionConverter,
+  snapshotConverter,
+  stockConverter,
+  stockPriceConverter,
+  targetsConverter,
+  transactionChangesToFirestore,
+  transactionConverter,
+  watchlistConverter,
+  watchlistItemsToFirestore,
+} from './converters';
+import { DataStore, NewTransaction, StockRepository } from './types';
+import { isCashTransaction } from '../ledger';
+import {
+  AlertNotification,
+  AlertRule,
+  Portfolio,
+  Stock,
+  Transaction,
+  TransactionRevision,
+  UserPreferences,
+  Watchlist,
+} from '../../types';
+import { diffTransaction } from '../revisions';
+import {
+  assertValidAlertRule,
+  assertValidPortfolio,
+  assertValidStock,
+  assertValidTransaction,
+  assertValidHistoryChange,
+  assertValidWatchlist,
+  assertImportFits,
+  findHistoryProblem,
+} from '../validation';
+import { isSameListing, stockKey } from '../securities';
+import { createSyncTracker } from './syncTracker';
+
+// Firestore caps a batch at 500 writes
+const BATCH_SIZE = 500;
+
+// Firestore caps an `in` filter at 30 values
+const IN_QUERY_LIMIT = 30;
+
+const startOfDay = (date: string) => Timestamp.fromDate(new Date(`${date}T00:00:00Z`));
+const endOfDay = (date: string) => Timestamp.fromDate(new Date(`${date}T23:59:59Z`));
+
+// Firestore cannot query for a missing field, so trashed documents are
+// filtered out after they are read
+const isTrashed = (item: Portfolio | Transaction) => !!item.deleted_at;
+const byDeletedDesc = (a: Portfolio | Transaction, b: Portfolio | Transaction) =>
+  (b.deleted_at || '').localeCompare(a.deleted_at || '');
+
+const chunk = <T>(items: T[], size: number) => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+export const createFirestoreStore = (db: Firestore): DataStore => {
+  const portfoliosRef = collection(db, 'portfolios').withConverter(portfolioConverter);
+  const transactionsRef = collection(db, 'transactions').withConverter(transactionConverter);
+  const stocksRef = collection(db, 'stocks').withConverter(stockConverter);
+  const preferencesRef = collection(db, 'user_preferences').withConverter(preferencesConverter);
+  const pricesRef = collection(db, 'stock_prices').withConverter(stockPriceConverter);
+  const fxRatesRef = collection(db, 'fx_rates').withConverter(fxRateConverter);
+  const snapshotsRef = collection(db, 'portfolio_snapshots').withConverter(snapshotConverter);
+  const targetsRef = collection(db, 'portfolio_targets').withConverter(targetsConverter);
+  const revisionsRef = collection(db, 'transaction_revisions').withConverter(revisionConverter);
+  const watchlistsRef = collection(db, 'watchlists').withConverter(watchlistConverter);
+  const alertRulesRef = collection(db, 'alert_rules').withConverter(alertRuleConverter);
+  const notificationsRef = collection(db, 'notifications').withConverter(notificationConverter);
+
+  const userPortfolios = (userId: string) =>
+    query(portfoliosRef, where('user_id', '==', userId), orderBy('created_at', 'desc'));
+  const portfolioTransactions = (portfolioId: string) =>
+    query(transactionsRef, where('portfolio_id', '==', portfolioId), orderBy('transaction_date', 'asc'));
+  const userPreferences = (userId: string) => query(preferencesRef, where('user_id', '==', userId), limit(1));
+  // The rules check revisions through their portfolio, so every query names it
+  const transactionRevisions = (portfolioId: string, transactionId: string) =>
+    query(revisionsRef, where('portfolio_id', '==', portfolioId), where('transaction_id', '==', transactionId));
+  // Sorted after reading, so the query needs no composite index
+  const userWatchlists = (userId: string) => query(watchlistsRef, where('user_id', '==', userId));
+  const byPosition = (a: Watchlist, b: Watchlist) =>
+    a.position - b.position || a.created_at.localeCompare(b.created_at);
+  const userAlertRules = (userId: string) => query(alertRulesRef, where('user_id', '==', userId));
+  const byCreated = (a: AlertRule, b: AlertRule) => a.created_at.localeCompare(b.created_at);
+  const userNotifications = (userId: string) =>
+    query(notificationsRef, where('user_id', '==', userId), orderBy('created_at', 'desc'), limit(100));
+
+  const sync = createSyncTracker(db);
+
+  // The batch is built anew for every attempt, as Firestore commits it only once
+  const queueBatch = (label: string, build: (batch: WriteBatch) => void) =>
+    sync.queue(label, () => {
+      const batch = writeBatch(db);
+      build(batch);
+      return batch.commit();
+    });
+
+  // Stocks are shared by every portfolio and rarely change, so each one is
+  // read at most once per session. Ids that were not found are not cached, as
+  // another device may create the stock later.
+  const stockCache = new Map<string, Stock>();
+  const cacheStock = (stock: Stock) => {
+    stockCache.set(stock.id, stock);
+    return stock;
+  };
+
+  const fetchStocks = async (ids: string[]) => {
+    const missing = ids.filter((id) => !stockCache.has(id));
+    const querySnapshots = await Promise.all(
+      chunk(missing, IN_QUERY_LIMIT).map((batchIds) => getDocs(query(stocksRef, where(documentId(), 'in', batchIds))))
+    );
+    querySnapshots.forEach((querySnapshot) => querySnapshot.docs.forEach((docSnap) => cacheStock(docSnap.data())));
+  };
+
+  // Follows merges through the cache to the stock still in use
+  const resolveStock = (id: string) => {
+    let stock = stockCache.get(id);
+    const seen = new Set<string>();
+    while (stock?.merged_into && stockCache.has(stock.merged_into) && !seen.has(stock.id)) {
+      seen.add(stock.id);
+      stock = stockCache.get(stock.merged_into);
+    }
+    return stock;
+  };
+
+  const stocks: StockRepository = {
+    list: async () => {
+      const querySnapshot = await getDocs(query(stocksRef, orderBy('symbol')));
+      return querySnapshot.docs.map((docSnap) => cacheStock(docSnap.data())).filter((stock) => !stock.merged_into);
+    },
+
+    getMany: async (ids) => {
+      const uniqueIds = Array.from(new Set(ids.filter(Boolean)));
+
+      // A stock may have been merged into one that was merged again since
+      const requested = new Set(uniqueIds);
+      let pending = uniqueIds;
+      while (pending.length > 0) {
+        await fetchStocks(pending);
+        pending = pending
+          .map((id) => resolveStock(id)?.merged_into || '')
+          .filter((id) => id && !requested.has(id));
+        pending.forEach((id) => requested.add(id));
+      }
+
+      const stockMap = new Map<string, Stock>();
+      uniqueIds.forEach((id) => {
+        const stock = resolveStock(id);
+        if (stock) stockMap.set(id, stock);
+      });
+      return stockMap;
+    },
+
+    findBySymbol: async (symbol, exchange) => {
+      const matches = (stock: Stock) =>
+        stock.symbol === symbol &&
+        !stock.merged_into &&
+        (exchange === undefined || isSameListing(stock, { symbol, exchange }));
+      const cached = Array.from(stockCache.values()).find(matches);
+      if (cached) return cached;
+
+      const querySnapshot = await getDocs(query(stocksRef, where('symbol', '==', symbol)));
+      return querySnapshot.docs.map((docSnap) => cacheStock(docSnap.data())).find(matches) || null;
+    },
+
+    create: async (input) => {
+      assertValidStock(input);
+      const existing = await stocks.findBySymbol(input.symbol, input.exchange);
+      if (existing) return existing;
+
+      const stockRef = doc(stocksRef, stockKey(input));
+      const now = new Date().toISOString();
+      const stock: Stock = { ...input, id: stockRef.id, created_at: now, updated_at: now };
+      sync.queue('Add stock', () => setDoc(stockRef, stock));
+      return cacheStock(stock);
+    },
+
+    update: async (id, changes) => {
+      assertValidStock(changes);
+      const stockDoc = await getDoc(doc(stocksRef, id));
+      if (!stockDoc.exists()) throw new Error(`Stock ${id} not found`);
+
+      sync.queue('Edit stock', () => updateDoc(doc(db, 'stocks', id), { ...changes, updated_at: serverTimestamp() }));
+      cacheStock({ ...stockDoc.data(), ...changes, updated_at: new Date().toISOString() });
+    },
+
+    merge: async (duplicateId, targetId, author) => {
+      if (duplicateId === targetId) throw new Error('A stock cannot be merged into itself');
+      const [duplicateDoc, targetDoc] = await Promise.all([
+        getDoc(doc(stocksRef, duplicateId)),
+        getDoc(doc(stocksRef, targetId)),
+      ]);
+      if (!duplicateDoc.exists() || !targetDoc.exists()) throw new Error('Stock not found');
+
+      // Trashed portfolios included, so their transactions follow on restore
+      const portfolioDocs = await getDocs(query(portfoliosRef, where('user_id', '==', author.id)));
+      const transactionSnapshots = await Promise.all(
+        portfolioDocs.docs.map((docSnap) => getDocs(query(transactionsRef, where('portfolio_id', '==', docSnap.id))))
+      );
+      const affected = transactionSnapshots
+        .flatMap((querySnapshot) => querySnapshot.docs.map((docSnap) => docSnap.data()))
+        .filter((txn) => txn.stock_id === duplicateId || txn.parent_stock_id === duplicateId);
+
+      const updates = affected.map((txn) => {
+        const changes = {
+          ...(txn.stock_id === duplicateId ? { stock_id: targetId } : {}),
+          ...(txn.parent_stock_id === duplicateId ? { parent_stock_id: targetId } : {}),
+        };
+        const revisionRef = doc(revisionsRef);
+        const revision: TransactionRevision = {
+          id: revisionRef.id,
+          transaction_id: txn.id,
+          portfolio_id: txn.portfolio_id,
+          user_id: author.id,
+          user_email: author.email,
+          changes: diffTransaction(txn, changes),
+          created_at: new Date().toISOString(),
+        };
+        return { txn, changes, revisionRef, revision };
+      });
+
+      // Each transaction takes two writes: the change and its revision
+      chunk(updates, BATCH_SIZE / 2).forEach((updateBatch) =>
+        queueBatch('Merge stocks', (batch) =>
+          updateBatch.forEach(({ txn, changes, revisionRef, revision }) => {
+            batch.update(doc(db, 'transactions', txn.id), transactionChangesToFirestore(changes));
+            batch.set(revisionRef, revision);
+          })
+        )
+      );
+
+      sync.queue('Merge stocks', () =>
+        updateDoc(doc(db, 'stocks', duplicateId), { merged_into: targetId, updated_at: serverTimestamp() })
+      );
+      cacheStock({ ...duplicateDoc.data(), merged_into: targetId });
+      cacheStock(targetDoc.data());
+      return affected.length;
+    },
+
+    newId: (listing) => stockKey(listing),
+  };
+
+  // Transactions pointing at a merged stock are read as pointing at the stock
+  // it was merged into
+  const attachStocks = async (transactions: Transaction[]) => {
+    const stockMap = await stocks.getMany(
+      transactions
+        .filter((txn) => !isCashTransaction(txn.transaction_type))
+        .flatMap((txn) => [txn.stock_id, txn.parent_stock_id || ''])
+    );
+    return transactions.map((txn) => {
+      const stock = isCashTransaction(txn.transaction_type) ? undefined : stockMap.get(txn.stock_id);
+      const parent = txn.parent_stock_id ? stockMap.get(txn.parent_stock_id) : undefined;
+      return {
+        ...txn,
+        ...(stock ? { stock_id: stock.id, stock } : {}),
+        ...(parent ? { parent_stock_id: parent.id } : {}),
+      };
+    });
+  };
+
+  const deleteInBatches = (label: string, refs: DocumentReference[]) =>
+    chunk(refs, BATCH_SIZE).forEach((refsBatch) =>
+      queueBatch(label, (batch) => refsBatch.forEach((ref) => batch.delete(ref)))
+    );
+
+  const updatePortfolio = (label: string, id: string, fields: UpdateData<DocumentData>) =>
+    sync.queue(label, () => updateDoc(doc(db, 'portfolios', id), { ...fields, updated_at: serverTimestamp() }));
+
+  // Attaching stocks is async, so a slow lookup must not overwrite the result
+  // of a later snapshot
+  const watchWithStocks = (
+    subscribe: (onTransactions: (transactions: Transaction[]) => void) => () => void,
+    onChange: (transactions: Transaction[]) => void,
+    onError?: (error: Error) => void
+  ) => {
+    let latest = 0;
+    return subscribe((transactions) => {
+      const version = ++latest;
+      attachStocks(transactions)
+        .then((withStocks) => {
+          if (version === latest) onChange(withStocks);
+        })
+        .catch((error) => onError?.(error));
+    });
+  };
+
+  const listTransactions = async (portfolioId: string) => {
+    const querySnapshot = await getDocs(portfolioTransactions(portfolioId));
+    return attachStocks(querySnapshot.docs.map((docSnap) => docSnap.data()).filter((txn) => !isTrashed(txn)));
+  };
+
+  // Checks a change to a portfolio's transactions the way the forms do, so no
+  // caller can record a sale of shares that were not held or, without margin,
+  // overdraw the cash
+  const assertHistory = async (portfolioId: string, change: (transactions: Transaction[]) => Transaction[]) => {
+    const [portfolioDoc, before] = await Promise.all([
+      getDoc(doc(portfoliosRef, portfolioId)),
+      listTransactions(portfolioId),
+    ]);
+    if (!portfolioDoc.exists()) throw new Error(`Portfolio ${portfolioId} not found`);
+    assertValidHistoryChange(portfolioDoc.data(), before, await attachStocks(change(before)));
+  };
+
+  // A transaction about to be stored, as the history checks see it
+  const pendingTransaction = (input: NewTransaction, index = 0): Transaction => ({
+    ...input,
+    id: `pending-${index}`,
+    created_at: new Date().toISOString(),
+  });
+
+  const getTransaction = async (id: string) => {
+    const transactionDoc = await getDoc(doc(transactionsRef, id));
+    if (!transactionDoc.exists()) throw new Error(`Transaction ${id} not found`);
+    return transactionDoc.data();
+  };
+
+  // Counts the user's documents with writes the server has not confirmed,
+  // whichever tab or session made them, and checks each portfolio's history
+  // again whenever the server has confirmed all of it
+  const watchUserWrites = (userId: string) => {
+    const withMetadata = { includeMetadataChanges: true };
+    const onError = (error: Error) => console.error('Error watching sync status:', error);
+    const countPending = (source: string) => <T>(querySnapshot: QuerySnapshot<T>) =>
+      sync.setPending(source, querySnapshot.docs.filter((docSnap) => docSnap.metadata.hasPendingWrites).length);
+
+    const portfolios = new Map<string, Portfolio>();
+    const histories = new Map<string, () => void>();
+    const checks = new Map<string, number>();
+
+    const checkHistory = async (portfolioId: string, transactions: Transaction[]) => {
+      const check = (checks.get(portfolioId) || 0) + 1;
+      checks.set(portfolioId, check);
+      const portfolio = portfolios.get(portfolioId);
+      const problem =
+        portfolio && !isTrashed(portfolio) ? findHistoryProblem(portfolio, await attachStocks(transactions)) : null;
+      // A later snapshot, or the portfolio being purged, supersedes this check
+      if (checks.get(portfolioId) !== check || !histories.has(portfolioId)) return;
+      sync.setConflict(
+        portfolioId,
+        portfolio && problem ? { portfolioId, portfolioName: portfolio.name, message: problem } : null
+      );
+    };
+
+    const watchHistory = (portfolioId: string) =>
+      onSnapshot(
+        portfolioTransactions(portfolioId),
+        withMetadata,
+        (querySnapshot) => {
+          countPending(`transactions:${portfolioId}`)(querySnapshot);
+          if (querySnapshot.metadata.hasPendingWrites || querySnapshot.metadata.fromCache) return;
+          const transactions = querySnapshot.docs.map((docSnap) => docSnap.data()).filter((txn) => !isTrashed(txn));
+          checkHistory(portfolioId, transactions).catch(onError);
+        },
+        onError
+      );
+
+    const unsubscribes = [
+      onSnapshot(userPreferences(userId), withMetadata, countPending('preferences'), onError),
+      onSnapshot(query(targetsRef, where('user_id', '==', userId)), withMetadata, countPending('targets'), onError),
+      onSnapshot(userWatchlists(userId), withMetadata, countPending('watchlists'), onError),
+      onSnapshot(userAlertRules(userId), withMetadata, countPending('alerts'), onError),
+      onSnapshot(userNotifications(userId), withMetadata, countPending('notifications'), onError),
+      onSnapshot(
+        userPortfolios(userId),
+        withMetadata,
+        (querySnapshot) => {
+          countPending('portfolios')(querySnapshot);
+          portfolios.clear();
+          querySnapshot.docs.forEach((docSnap) => portfolios.set(docSnap.id, docSnap.data()));
+
+          portfolios.forEach((_, id) => {
+            if (!histories.has(id)) histories.set(id, watchHistory(id));
+          });
+          histories.forEach((unsubscribe, id) => {
+            if (portfolios.has(id)) return;
+            unsubscribe();
+            histories.delete(id);
+            sync.setPending(`transactions:${id}`, 0);
+            sync.setConflict(id, null);
+          });
+        },
+        onError
+      ),
+    ];
+
+    return () => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      histories.forEach((unsubscribe, id) => {
+        unsubscribe();
+        sync.setPending(`transactions:${id}`, 0);
+        sync.setConflict(id, null);
+      });
+      ['preferences', 'targets', 'watchlists', 'alerts', 'notifications', 'portfolios'].forEach((source) =>
+        sync.setPending(source, 0)
+      );
+    };
+  };
+
+  return {
+    name: 'firestore',
+
+    portfolios: {
+      listByUser: async (userId) => {
+        const querySnapshot = await getDocs(userPortfolios(userId));
+        return querySnapshot.docs.map((docSnap) => docSnap.data()).filter((portfolio) => !isTrashed(portfolio));
+      },
+
+      watchByUser: (userId, onChange, onError) =>
+        onSnapshot(
+          userPortfolios(userId),
+          (querySnapshot) =>
+            onChange(querySnapshot.docs.map((docSnap) => docSnap.data()).filter((portfolio) => !isTrashed(portfolio))),
+          onError
+        ),
+
+      watchTrash: (userId, onChange, onError) =>
+        onSnapshot(
+          userPortfolios(userId),
+          (querySnapshot) =>
+            onChange(querySnapshot.docs.map((docSnap) => docSnap.data()).filter(isTrashed).sort(byDeletedDesc)),
+          onError
+        ),
+
+      create: async (input) => {
+        assertValidPortfolio(input);
+        const portfolioRef = doc(portfoliosRef);
+        const now = new Date().toISOString();
+        const portfolio = { ...input, id: portfolioRef.id, created_at: now, updated_at: now };
+        sync.queue('Add portfolio', () => setDoc(portfolioRef, portfolio));
+        return portfolio;
+      },
+
+      // Only the changed fields are sent, so edits made to different fields
+      // on two devices both survive; the same field keeps the last write
+      update: async (id, changes) => {
+        assertValidPortfolio(changes);
+        updatePortfolio('Edit portfolio', id, changes);
+      },
+
+      remove: async (id) => updatePortfolio('Move portfolio to trash', id, { deleted_at: serverTimestamp() }),
+
+      restore: async (id) => updatePortfolio('Restore portfolio', id, { deleted_at: deleteField() }),
+
+      purge: async (id) => {
+        const portfolioDoc = await getDoc(doc(portfoliosRef, id));
+        if (!portfolioDoc.exists()) return;
+
+        // Alert rules are only readable by their user, so the query names them
+        const [transactionDocs, revisionDocs, snapshotDocs, targetsDoc, alertRuleDocs] = await Promise.all([
+          getDocs(query(collection(db, 'transactions'), where('portfolio_id', '==', id))),
+          getDocs(query(collection(db, 'transaction_revisions'), where('portfolio_id', '==', id))),
+          getDocs(query(collection(db, 'portfolio_snapshots'), where('portfolio_id', '==', id))),
+          getDoc(doc(db, 'portfolio_targets', id)),
+          getDocs(
+            query(
+              collection(db, 'alert_rules'),
+              where('user_id', '==', portfolioDoc.data().user_id),
+              where('portfolio_id', '==', id)
+            )
+          ),
+        ]);
+
+        // The rules check every other document's owner through the portfolio,
+        // so it is deleted last
+        deleteInBatches('Delete portfolio', [
+          ...transactionDocs.docs.map((docSnap) => docSnap.ref),
+          ...revisionDocs.docs.map((docSnap) => docSnap.ref),
+          ...snapshotDocs.docs.map((docSnap) => docSnap.ref),
+          ...(targetsDoc.exists() ? [targetsDoc.ref] : []),
+          ...alertRuleDocs.docs.map((docSnap) => docSnap.ref),
+          doc(db, 'portfolios', id),
+        ]);
+      },
+    },
+
+    transactions: {
+      listByPortfolio: listTransactions,
+
+      watchByPortfolio: (portfolioId, onChange, onError) =>
+        watchWithStocks(
+          (onTransactions) =>
+            onSnapshot(
+              portfolioTransactions(portfolioId),
+              (querySnapshot) =>
+                onTransactions(querySnapshot.docs.map((docSnap) => docSnap.data()).filter((txn) => !isTrashed(txn))),
+              onError
+            ),
+          onChange,
+          onError
+        ),
+
+      // One listener per portfolio; results are held back until every
+      // portfolio has reported once
+      watchTrash: (portfolioIds, onChange, onError) =>
+        watchWithStocks(
+          (onTransactions) => {
+            if (portfolioIds.length === 0) onTransactions([]);
+
+            const trashed = new Map<string, Transaction[]>();
+            const unsubscribes = portfolioIds.map((portfolioId) =>
+              onSnapshot(
+                portfolioTransactions(portfolioId),
+                (querySnapshot) => {
+                  trashed.set(portfolioId, querySnapshot.docs.map((docSnap) => docSnap.data()).filter(isTrashed));
+                  if (trashed.size === portfolioIds.length) {
+                    onTransactions(Array.from(trashed.values()).flat().sort(byDeletedDesc));
+                  }
+                },
+                onError
+              )
+            );
+            return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+          },
+          onChange,
+          onError
+        ),
+
+      create: async (input) => {
+        assertValidTransaction(input);
+        await assertHistory(input.portfolio_id, (current) => [...current, pendingTransaction(input)]);
+        const transactionRef = doc(transactionsRef);
+        const transaction: Transaction = { ...input, id: transactionRef.id, created_at: new Date().toISOString() };
+        sync.queue('Add transaction', () => setDoc(transactionRef, transaction));
+        return transaction;
+      },
+
+      remove: async (id) => {
+        const transaction = await getTransaction(id);
+        await assertHistory(transaction.portfolio_id, (current) => current.filter((txn) => txn.id !== id));
+        sync.queue('Move transaction to trash', () =>
+          updateDoc(doc(db, 'transactions', id), { deleted_at: serverTimestamp() })
+        );
+      },
+
+      restore: async (id) => {
+        const transaction = await getTransaction(id);
+        await assertHistory(transaction.portfolio_id, (current) => [...current, { ...transaction, deleted_at: undefined }]);
+        sync.queue('Restore transaction', () => updateDoc(doc(db, 'transactions', id), { deleted_at: deleteField() }));
+      },
+
+      update: async (transaction, changes, author) => {
+        const fieldChanges = diffTransaction(transaction, changes);
+        if (fieldChanges.length === 0) return null;
+        assertValidTransaction({ ...transaction, ...changes });
+        await assertHistory(transaction.portfolio_id, (current) =>
+          current.map((txn) => (txn.id === transaction.id ? { ...txn, ...changes } : txn))
+        );
+
+        const revisionRef = doc(revisionsRef);
+        const revision: TransactionRevision = {
+          id: revisionRef.id,
+          transaction_id: transaction.id,
+          portfolio_id: transaction.portfolio_id,
+          user_id: author.id,
+          user_email: author.email,
+          changes: fieldChanges,
+          created_at: new Date().toISOString(),
+        };
+        queueBatch('Edit transaction', (batch) => {
+          batch.update(doc(db, 'transactions', transaction.id), transactionChangesToFirestore(changes));
+          batch.set(revisionRef, revision);
+        });
+        return revision;
+      },
+
+      purge: async (id) => {
+        const transactionDoc = await getDoc(doc(transactionsRef, id));
+        if (!transactionDoc.exists()) return;
+
+        const revisionDocs = await getDocs(transactionRevisions(transactionDoc.data().portfolio_id, id));
+        deleteInBatches('Delete transaction', [...revisionDocs.docs.map((docSnap) => docSnap.ref), transactionDoc.ref]);
+      },
+
+      // The rules refuse to overwrite a stock, so stocks already stored are
+      // left out of the batch
+      createMany: async (inputs, newStocks = []) => {
+        assertImportFits(inputs.length + newStocks.length);
+        inputs.forEach(assertValidTransaction);
+        const portfolioIds = Array.from(new Set(inputs.map((input) => input.portfolio_id)));
+        await Promise.all(
+          portfolioIds.map((portfolioId) =>
+            assertHistory(portfolioId, (current) => [
+              ...current,
+              ...inputs.filter((input) => input.portfolio_id === portfolioId).map(pendingTransaction),
+            ])
+          )
+        );
+
+        const stored = await stocks.getMany(newStocks.map((stock) => stock.id));
+        const missingStocks = newStocks.filter((stock) => !stored.has(stock.id));
+        const now = new Date().toISOString();
+        const transactions = inputs.map((input) => ({
+          ref: doc(transactionsRef),
+          transaction: { ...input, id: '', created_at: now },
+        }));
+
+        queueBatch('Import transactions', (batch) => {
+          missingStocks.forEach((stock) => batch.set(doc(stocksRef, stock.id), stock));
+          transactions.forEach(({ ref, transaction }) => batch.set(ref, transaction));
+        });
+        missingStocks.forEach(cacheStock);
+      },
+    },
+
+    revisions: {
+      listByTransaction: async (portfolioId, transactionId) => {
+        const querySnapshot = await getDocs(transactionRevisions(portfolioId, transactionId));
+        return querySnapshot.docs
+          .map((docSnap) => docSnap.data())
+          .sort((a, b) => b.created_at.localeCompare(a.created_at));
+      },
+    },
+
+    stocks,
+
+    preferences: {
+      getByUser: async (userId) => {
+        const querySnapshot = await getDocs(userPreferences(userId));
+        return querySnapshot.empty ? null : querySnapshot.docs[0].data();
+      },
+
+      watchByUser: (userId, onChange, onError) =>
+        onSnapshot(
+          userPreferences(userId),
+          (querySnapshot) => onChange(querySnapshot.empty ? null : querySnapshot.docs[0].data()),
+          onError
+        ),
+
+      save: async ({ id, created_at, ...input }) => {
+        const now = new Date().toISOString();
+
+        if (id) {
+          sync.queue('Save preferences', () =>
+            updateDoc(doc(db, 'user_preferences', id), {
+              risk_profile: input.risk_profile,
+              investment_horizon: input.investment_horizon,
+              preferred_sectors: input.preferred_sectors,
+              risk_free_rate: input.risk_free_rate,
+              benchmark_symbol: input.benchmark_symbol,
+              base_currency: input.base_currency,
+              notifications: input.notifications,
+              updated_at: serverTimestamp(),
+            })
+          );
+          return { ...input, id, created_at: created_at || now, updated_at: now };
+        }
+
+        // Keyed by user, so devices that both create preferences while
+        // offline write to the same document instead of adding a second one
+        const preferences: UserPreferences = { ...input, id: input.user_id, created_at: now, updated_at: now };
+        sync.queue('Save preferences', () => setDoc(doc(preferencesRef, input.user_id), preferences));
+        return preferences;
+      },
+    },
+
+    prices: {
+      latest: async (stockId) => {
+        const q = query(pricesRef, where('stock_id', '==', stockId), orderBy('date', 'desc'), limit(1));
+        const querySnapshot = await getDocs(q);
+        return querySnapshot.empty ? null : querySnapshot.docs[0].data();
+      },
+
+      history: async (stockId, from, to) => {
+        const q = query(
+          pricesRef,
+          where('stock_id', '==', stockId),
+          where('date', '>=', startOfDay(from)),
+          where('date', '<=', endOfDay(to)),
+          orderBy('date', 'asc')
+        );
+        const querySnapshot = await getDocs(q);
+        return querySnapshot.docs.map((docSnap) => docSnap.data());
+      },
+
+      fxHistory: async (fromCurrency, toCurrency, from, to) => {
+        const q = query(
+          fxRatesRef,
+          where('from_currency', '==', fromCurrency),
+          where('to_currency', '==', toCurrency),
+          where('date', '>=', startOfDay(from)),
+          where('date', '<=', endOfDay(to)),
+          orderBy('date', 'asc')
+        );
+        const querySnapshot = await getDocs(q);
+        return querySnapshot.docs.map((docSnap) => docSnap.data());
+      },
+    },
+
+    snapshots: {
+      listByPortfolio: async (portfolioId) => {
+        const q = query(snapshotsRef, where('portfolio_id', '==', portfolioId), orderBy('snapshot_date', 'asc'));
+        const querySnapshot = await getDocs(q);
+        return querySnapshot.docs.map((docSnap) => docSnap.data());
+      },
+
+      apply: async (writes, deleteIds) => {
+        const operations = [
+          ...writes.map((snapshot) => ({ id: snapshot.id, snapshot })),
+          ...deleteIds.map((id) => ({ id, snapshot: null })),
+        ];
+
+        for (const operationsBatch of chunk(operations, BATCH_SIZE)) {
+          queueBatch('Save snapshots', (batch) =>
+            operationsBatch.forEach(({ id, snapshot }) => {
+              const snapshotRef = doc(snapshotsRef, id);
+              if (snapshot) {
+                batch.set(snapshotRef, snapshot);
+              } else {
+                batch.delete(snapshotRef);
+              }
+            })
+          );
+        }
+      },
+    },
+
+    targets: {
+      get: async (portfolioId) => {
+        const targetsDoc = await getDoc(doc(targetsRef, portfolioId));
+        return targetsDoc.exists() ? targetsDoc.data() : null;
+      },
+
+      save: async (targets) => {
+        sync.queue('Save targets', () => setDoc(doc(targetsRef, targets.portfolio_id), targets));
+      },
+    },
+
+    watchlists: {
+      watchByUser: (userId, onChange, onError) =>
+        onSnapshot(
+          userWatchlists(userId),
+          (querySnapshot) => onChange(querySnapshot.docs.map((docSnap) => docSnap.data()).sort(byPosition)),
+          onError
+        ),
+
+      create: async (input) => {
+        assertValidWatchlist(input);
+        const watchlistRef = doc(watchlistsRef);
+        const now = new Date().toISOString();
+        const watchlist = { ...input, id: watchlistRef.id, created_at: now, updated_at: now };
+        sync.queue('Add watchlist', () => setDoc(watchlistRef, watchlist));
+        return watchlist;
+      },
+
+      update: async (id, changes) => {
+        assertValidWatchlist(changes);
+        const { items, ...fields } = changes;
+        sync.queue('Edit watchlist', () =>
+          updateDoc(doc(db, 'watchlists', id), {
+            ...fields,
+            ...(items ? { items: watchlistItemsToFirestore(items) } : {}),
+            updated_at: serverTimestamp(),
+          })
+        );
+      },
+
+      reorder: async (ids) => {
+        queueBatch('Reorder watchlists', (batch) =>
+          ids.forEach((id, position) =>
+            batch.update(doc(db, 'watchlists', id), { position, updated_at: serverTimestamp() })
+          )
+        );
+      },
+
+      remove: async (id) => sync.queue('Delete watchlist', () => deleteDoc(doc(db, 'watchlists', id))),
+    },
+
+    alerts: {
+      listByUser: async (userId) => {
+        const querySnapshot = await getDocs(userAlertRules(userId));
+        return querySnapshot.docs.map((docSnap) => docSnap.data()).sort(byCreated);
+      },
+
+      watchByUser: (userId, onChange, onError) =>
+        onSnapshot(
+          userAlertRules(userId),
+          (querySnapshot) => onChange(querySnapshot.docs.map((docSnap) => docSnap.data()).sort(byCreated)),
+          onError
+        ),
+
+      create: async (input) => {
+        assertValidAlertRule(input);
+        const ruleRef = doc(alertRulesRef);
+        const now = new Date().toISOString();
+        const rule: AlertRule = { ...input, id: ruleRef.id, triggered: false, created_at: now, updated_at: now };
+        sync.queue('Add alert', () => setDoc(ruleRef, rule));
+        return rule;
+      },
+
+      update: async (id, changes) => {
+        const { last_triggered_at, ...fields } = changes;
+        sync.queue('Edit alert', () =>
+          updateDoc(doc(db, 'alert_rules', id), {
+            ...fields,
+            ...(last_triggered_at ? { last_triggered_at: Timestamp.fromDate(new Date(last_triggered_at)) } : {}),
+            updated_at: serverTimestamp(),
+          })
+        );
+      },
+
+      remove: async (id) => sync.queue('Delete alert', () => deleteDoc(doc(db, 'alert_rules', id))),
+    },
+
+    notifications: {
+      watchByUser: (userId, onChange, onError) =>
+        onSnapshot(
+          userNotifications(userId),
+          (querySnapshot) => onChange(querySnapshot.docs.map((docSnap) => docSnap.data())),
+          onError
+        ),
+
+      createMany: async (inputs) => {
+        const now = new Date().toISOString();
+        const created: AlertNotification[] = [];
+        chunk(inputs, BATCH_SIZE).forEach((batchInputs) => {
+          const notifications = batchInputs.map((input) => {
+            const notificationRef = doc(notificationsRef);
+            const notification = { ...input, id: notificationRef.id, read: false, created_at: now };
+            created.push(notification);
+            return { notificationRef, notification };
+          });
+          queueBatch('Add notifications', (batch) =>
+            notifications.forEach(({ notificationRef, notification }) => batch.set(notificationRef, notification))
+          );
+        });
+        return created;
+      },
+
+      markRead: async (ids) => {
+        chunk(ids, BATCH_SIZE).forEach((batchIds) =>
+          queueBatch('Mark notifications read', (batch) =>
+            batchIds.forEach((id) => batch.update(doc(db, 'notifications', id), { read: true }))
+          )
+        );
+      },
+
+      remove: async (ids) => {
+        chunk(ids, BATCH_SIZE).forEach((batchIds) =>
+          queueBatch('Delete notifications', (batch) =>
+            batchIds.forEach((id) => batch.delete(doc(db, 'notifications', id)))
+          )
+        );
+      },
+    },
+
+    watchSyncStatus: (userId, onChange) => {
+      const unwatchStatus = sync.watch(onChange);
+      const unwatchWrites = watchUserWrites(userId);
+      return () => {
+        unwatchWrites();
+        unwatchStatus();
+      };
+    },
+
+    retryFailedWrite: sync.retry,
+
+    dismissFailedWrite: sync.dismiss,
+  };
+};
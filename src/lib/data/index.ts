@@ -0,0 +1,50 @@
+import { DataStore } from './types';
+
+export type {
+  DataStore,
+  PortfolioRepository,
+  TransactionRepository,
+  RevisionRepository,
+  StockRepository,
+  PreferencesRepository,
+  PriceRepository,
+  SnapshotRepository,
+  TargetRepository,
+  WatchlistRepository,
+  AlertRepository,
+  NotificationRepository,
+  NewPortfolio,
+  PortfolioChanges,
+  NewTransaction,
+  TransactionChanges,
+  NewStock,
+  NewWatchlist,
+  WatchlistChanges,
+  NewAlertRule,
+  AlertRuleChanges,
+  NewAlertNotification,
+  StockChanges,
+  PreferencesInput,
+  Unsubscribe,
+  WatchErrorHandler,
+  RevisionAuthor,
+  SyncStatus,
+  FailedWrite,
+  SyncConflict,
+} from './types';
+export { createMemoryStore } from './memoryStore';
+export type { MemoryStoreSeed } from './memoryStore';
+
+// Unlike market data there is no safe default: the Firestore store needs the
+// Firebase app, so main.tsx registers it before the app renders and tests
+// register an in-memory store instead.
+let store: DataStore | null = null;
+
+export const getDataStore = () => {
+  if (!store) throw new Error('No data store registered; call setDataStore first');
+  return store;
+};
+
+export const setDataStore = (next: DataStore) => {
+  store = next;
+};
@@ -0,0 +1,268 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryStore } from './memoryStore';
+import { NewPortfolio, NewTransaction } from './types';
+import { ValidationError } from '../validation';
+import { Stock, Transaction } from '../../types';
+
+const author = { id: 'user-1', email: 'user@example.com' };
+
+const stock = (id: string, symbol: string, exchange = ''): Stock => ({
+  id,
+  symbol,
+  name: symbol,
+  sector: 'Technology',
+  industry: '',
+  exchange,
+  currency: 'USD',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+});
+
+const newPortfolio: NewPortfolio = {
+  user_id: author.id,
+  name: 'Growth',
+  description: '',
+  initial_capital: 10000,
+  currency: 'USD',
+  allow_margin: false,
+  cost_basis_method: 'fifo',
+};
+
+const newTransaction = (portfolioId: string, fields: Partial<NewTransaction> = {}): NewTransaction => ({
+  portfolio_id: portfolioId,
+  stock_id: 'AAPL',
+  transaction_type: 'buy',
+  quantity: 10,
+  price: 100,
+  fees: 0,
+  transaction_date: '2024-01-02T00:00:00.000Z',
+  notes: '',
+  ...fields,
+});
+
+// Lets watchers finish the reads that follow a write
+const flush = () => new Promise((resolve) => setTimeout(resolve));
+
+const setup = async () => {
+  const store = createMemoryStore({ stocks: [stock('AAPL', 'AAPL'), stock('AAPL-DUP', 'AAPL', 'NASDAQ')] });
+  const portfolio = await store.portfolios.create(newPortfolio);
+  return { store, portfolio };
+};
+
+describe('memory store', () => {
+  it('lists transactions oldest first with their stocks attached', async () => {
+    const { store, portfolio } = await setup();
+    await store.transactions.create(newTransaction(portfolio.id, { transaction_date: '2024-03-01T00:00:00.000Z' }));
+    await store.transactions.create(
+      newTransaction(portfolio.id, { transaction_type: 'deposit', stock_id: '', quantity: 1, price: 500 })
+    );
+
+    const transactions = await store.transactions.listByPortfolio(portfolio.id);
+    expect(transactions.map((txn) => [txn.transaction_type, txn.stock?.symbol])).toEqual([
+      ['deposit', undefined],
+      ['buy', 'AAPL'],
+    ]);
+  });
+
+  it('refuses invalid input with a ValidationError', async () => {
+    const { store, portfolio } = await setup();
+    await expect(store.portfolios.create({ ...newPortfolio, name: '' })).rejects.toBeInstanceOf(ValidationError);
+    await expect(store.transactions.create(newTransaction(portfolio.id, { quantity: 0 }))).rejects.toMatchObject({
+      errors: { quantity: 'Quantity must be greater than zero.' },
+    });
+  });
+
+  it('tells watchers about every change until they unsubscribe', async () => {
+    const { store, portfolio } = await setup();
+    const seen: Transaction[][] = [];
+    const unsubscribe = store.transactions.watchByPortfolio(portfolio.id, (transactions) => seen.push(transactions));
+    await flush();
+
+    await store.transactions.create(newTransaction(portfolio.id));
+    await flush();
+    unsubscribe();
+    await store.transactions.create(newTransaction(portfolio.id));
+    await flush();
+
+    expect(seen.map((transactions) => transactions.length)).toEqual([0, 1]);
+  });
+
+  it('moves transactions to the trash and back', async () => {
+    const { store, portfolio } = await setup();
+    const txn = await store.transactions.create(newTransaction(portfolio.id));
+
+    await store.transactions.remove(txn.id);
+    expect(await store.transactions.listByPortfolio(portfolio.id)).toEqual([]);
+
+    const trash: Transaction[][] = [];
+    store.transactions.watchTrash([portfolio.id], (transactions) => trash.push(transactions));
+    await flush();
+    expect(trash[0].map((trashed) => trashed.id)).toEqual([txn.id]);
+
+    await store.transactions.restore(txn.id);
+    expect((await store.transactions.listByPortfolio(portfolio.id)).map((restored) => restored.id)).toEqual([txn.id]);
+  });
+
+  it('refuses writes that leave a sale selling shares that were not held', async () => {
+    const { store, portfolio } = await setup();
+    const buy = await store.transactions.create(newTransaction(portfolio.id));
+    const sale = newTransaction(portfolio.id, {
+      transaction_type: 'sell',
+      quantity: 10,
+      transaction_date: '2024-03-01T00:00:00.000Z',
+    });
+
+    await expect(store.transactions.create({ ...sale, quantity: 11 })).rejects.toBeInstanceOf(ValidationError);
+    await expect(store.transactions.createMany([sale, sale])).rejects.toBeInstanceOf(ValidationError);
+    await store.transactions.create(sale);
+
+    await expect(store.transactions.update(buy, { quantity: 5 }, author)).rejects.toMatchObject({
+      errors: { general: 'This would leave the sale on 2024-03-01 selling more shares than were held.' },
+    });
+    await expect(store.transactions.remove(buy.id)).rejects.toBeInstanceOf(ValidationError);
+    expect(await store.transactions.listByPortfolio(portfolio.id)).toHaveLength(2);
+  });
+
+  it('imports a file whole, keeping stocks that are already stored', async () => {
+    const { store, portfolio } = await setup();
+    const renamed = { ...stock('AAPL', 'AAPL'), name: 'Imported name' };
+    await store.transactions.createMany([newTransaction(portfolio.id)], [renamed, stock('MSFT', 'MSFT')]);
+
+    const stocks = await store.stocks.getMany(['AAPL', 'MSFT']);
+    expect(stocks.get('AAPL')?.name).toBe('AAPL');
+    expect(stocks.get('MSFT')?.symbol).toBe('MSFT');
+
+    const tooMany = Array.from({ length: 501 }, () =>
+      newTransaction(portfolio.id, { transaction_type: 'deposit', stock_id: '', quantity: 1, price: 1 })
+    );
+    await expect(store.transactions.createMany(tooMany)).rejects.toBeInstanceOf(ValidationError);
+    expect(await store.transactions.listByPortfolio(portfolio.id)).toHaveLength(1);
+  });
+
+  it('refuses to restore a transaction the cash no longer covers', async () => {
+    const { store, portfolio } = await setup();
+    const withdrawal = await store.transactions.create(
+      newTransaction(portfolio.id, { transaction_type: 'withdrawal', stock_id: '', quantity: 1, price: 6000 })
+    );
+    await store.transactions.remove(withdrawal.id);
+    await store.transactions.create(newTransaction(portfolio.id, { quantity: 50 }));
+
+    await expect(store.transactions.restore(withdrawal.id)).rejects.toMatchObject({
+      errors: { general: expect.stringMatching(/^This would take the cash balance below zero/) },
+    });
+  });
+
+  it('records a revision with the fields that changed, and none when nothing did', async () => {
+    const { store, portfolio } = await setup();
+    const txn = await store.transactions.create(newTransaction(portfolio.id));
+
+    expect(await store.transactions.update(txn, { quantity: 10 }, author)).toBeNull();
+    const revision = await store.transactions.update(txn, { quantity: 12, fx_rate: 1 }, author);
+
+    expect(revision?.changes).toEqual([{ field: 'quantity', before: 10, after: 12 }]);
+    expect(await store.revisions.listByTransaction(portfolio.id, txn.id)).toHaveLength(1);
+    const [updated] = await store.transactions.listByPortfolio(portfolio.id);
+    expect(updated.quantity).toBe(12);
+    expect(updated.fx_rate).toBeUndefined();
+  });
+
+  it('purges a portfolio with its transactions, revisions, snapshots, targets and alert rules', async () => {
+    const { store, portfolio } = await setup();
+    const txn = await store.transactions.create(newTransaction(portfolio.id));
+    await store.transactions.update(txn, { notes: 'First lot' }, author);
+    await store.targets.save({
+      id: portfolio.id,
+      portfolio_id: portfolio.id,
+      user_id: author.id,
+      basis: 'symbol',
+      targets: [],
+      tolerance: 5,
+      fractional_shares: false,
+      fee_per_trade: 0,
+      updated_at: '2024-01-02T00:00:00.000Z',
+    });
+    await store.snapshots.apply(
+      [
+        {
+          id: `${portfolio.id}_2024-01-02`,
+          portfolio_id: portfolio.id,
+          snapshot_date: '2024-01-02T00:00:00.000Z',
+          total_value: 10000,
+          cash_balance: 9000,
+          invested_capital: 10000,
+          total_return: 0,
+          created_at: '2024-01-02T00:00:00.000Z',
+        },
+      ],
+      []
+    );
+
+    await store.alerts.create({
+      user_id: author.id,
+      type: 'drawdown',
+      portfolio_id: portfolio.id,
+      threshold: 10,
+      muted: false,
+    });
+    const priceRule = await store.alerts.create({
+      user_id: author.id,
+      type: 'price_below',
+      stock_id: 'AAPL',
+      threshold: 100,
+      muted: false,
+    });
+
+    await store.portfolios.remove(portfolio.id);
+    expect(await store.portfolios.listByUser(author.id)).toEqual([]);
+    await store.portfolios.purge(portfolio.id);
+
+    expect(await store.transactions.listByPortfolio(portfolio.id)).toEqual([]);
+    expect(await store.revisions.listByTransaction(portfolio.id, txn.id)).toEqual([]);
+    expect(await store.snapshots.listByPortfolio(portfolio.id)).toEqual([]);
+    expect(await store.targets.get(portfolio.id)).toBeNull();
+    expect((await store.alerts.listByUser(author.id)).map((rule) => rule.id)).toEqual([priceRule.id]);
+  });
+
+  it('keeps one stock per listing', async () => {
+    const { store } = await setup();
+    const created = await store.stocks.create({
+      symbol: 'MSFT',
+      name: 'Microsoft',
+      sector: '',
+      industry: '',
+      exchange: 'nasdaq',
+      currency: 'USD',
+    });
+    const again = await store.stocks.create({ ...created, name: 'Microsoft Corp', exchange: 'NASDAQ ' });
+
+    expect(created.id).toBe('MSFT:NASDAQ');
+    expect(again.id).toBe(created.id);
+  });
+
+  it('edits the description of a stock', async () => {
+    const { store } = await setup();
+    await store.stocks.update('AAPL', { name: 'Apple Inc.', sector: 'Consumer Electronics' });
+    await expect(store.stocks.update('AAPL', { name: ' ' })).rejects.toBeInstanceOf(ValidationError);
+
+    expect(await store.stocks.findBySymbol('AAPL', '')).toMatchObject({
+      id: 'AAPL',
+      name: 'Apple Inc.',
+      sector: 'Consumer Electronics',
+    });
+  });
+
+  it('merges a duplicate stock, re-pointing the author’s transactions and reads', async () => {
+    const { store, portfolio } = await setup();
+    const txn = await store.transactions.create(newTransaction(portfolio.id, { stock_id: 'AAPL-DUP' }));
+
+    expect(await store.stocks.merge('AAPL-DUP', 'AAPL', author)).toBe(1);
+
+    const [merged] = await store.transactions.listByPortfolio(portfolio.id);
+    expect(merged.stock_id).toBe('AAPL');
+    expect((await store.revisions.listByTransaction(portfolio.id, txn.id))[0].changes).toEqual([
+      { field: 'stock_id', before: 'AAPL-DUP', after: 'AAPL' },
+    ]);
+    expect((await store.stocks.getMany(['AAPL-DUP'])).get('AAPL-DUP')?.id).toBe('AAPL');
+    expect((await store.stocks.list()).map((listed) => listed.id)).toEqual(['AAPL']);
+  });
+});
@@ -0,0 +1,613 @@
+import { DataStore, NewTransaction, StockRepository, Unsubscribe, WatchErrorHandler } from './types';
+import { isCashTransaction } from '../ledger';
+import { toDateKey } from '../dates';
+import { diffTransaction } from '../revisions';
+import {
+  assertValidAlertRule,
+  assertValidPortfolio,
+  assertValidStock,
+  assertValidTransaction,
+  assertValidHistoryChange,
+  assertValidWatchlist,
+  assertImportFits,
+} from '../validation';
+import { isSameListing, stockKey } from '../securities';
+import {
+  AlertNotification,
+  AlertRule,
+  FxRate,
+  Portfolio,
+  PortfolioSnapshot,
+  PortfolioTargets,
+  Stock,
+  StockPrice,
+  Transaction,
+  TransactionRevision,
+  UserPreferences,
+  Watchlist,
+} from '../../types';
+
+export interface MemoryStoreSeed {
+  portfolios?: Portfolio[];
+  transactions?: Transaction[];
+  revisions?: TransactionRevision[];
+  stocks?: Stock[];
+  preferences?: UserPreferences[];
+  stockPrices?: StockPrice[];
+  fxRates?: FxRate[];
+  snapshots?: PortfolioSnapshot[];
+  targets?: PortfolioTargets[];
+  watchlists?: Watchlist[];
+  alertRules?: AlertRule[];
+  notifications?: AlertNotification[];
+}
+
+const byId = <T extends { id: string }>(items: T[] = []) => new Map(items.map((item) => [item.id, { ...item }]));
+
+const isTrashed = (item: Portfolio | Transaction) => !!item.deleted_at;
+const byDeletedDesc = (a: Portfolio | Transaction, b: Portfolio | Transaction) =>
+  (b.deleted_at || '').localeCompare(a.deleted_at || '');
+
+const inRange = (date: string, from: string, to: string) => {
+  const key = toDateKey(date);
+  return key >= from && key <= to;
+};
+
+// Keeps every collection in memory. Data lives as long as the store, which
+// makes it suitable for tests, demos and running the app without Firebase.
+export const createMemoryStore = (seed: MemoryStoreSeed = {}): DataStore => {
+  const portfolios = byId(seed.portfolios);
+  const transactions = byId(seed.transactions);
+  const revisions = byId(seed.revisions);
+  const stockMap = byId(seed.stocks);
+  const preferences = byId(seed.preferences);
+  const stockPrices = byId(seed.stockPrices);
+  const fxRates = byId(seed.fxRates);
+  const snapshots = byId(seed.snapshots);
+  const targets = byId(seed.targets);
+  const watchlists = byId(seed.watchlists);
+  const alertRules = byId(seed.alertRules);
+  const notifications = byId(seed.notifications);
+
+  let nextId = 1;
+  const newId = (prefix: string) => `${prefix}-${nextId++}`;
+  const now = () => new Date().toISOString();
+
+  // Every watcher reruns its read after any write, like a listener that is
+  // told about every change
+  const watchers = new Set<() => void>();
+  const notify = () => watchers.forEach((rerun) => rerun());
+  const watch = <T>(read: () => Promise<T>, onChange: (value: T) => void, onError?: WatchErrorHandler): Unsubscribe => {
+    const rerun = () => {
+      read()
+        .then(onChange)
+        .catch((error) => onError?.(error));
+    };
+    watchers.add(rerun);
+    rerun();
+    return () => {
+      watchers.delete(rerun);
+    };
+  };
+
+  const isMerged = (stock: Stock) => !!stock.merged_into;
+
+  // Follows merges through to the stock still in use
+  const resolveStock = (id: string) => {
+    let stock = stockMap.get(id);
+    const seen = new Set<string>();
+    while (stock?.merged_into && !seen.has(stock.id)) {
+      seen.add(stock.id);
+      stock = stockMap.get(stock.merged_into) || stock;
+    }
+    return stock;
+  };
+
+  const findListing = (symbol: string, exchange?: string) =>
+    Array.from(stockMap.values()).find(
+      (stock) =>
+        !isMerged(stock) &&
+        stock.symbol === symbol &&
+        (exchange === undefined || isSameListing(stock, { symbol, exchange }))
+    );
+
+  const stocks: StockRepository = {
+    list: async () =>
+      Array.from(stockMap.values())
+        .filter((stock) => !isMerged(stock))
+        .sort((a, b) => a.symbol.localeCompare(b.symbol))
+        .map((stock) => ({ ...stock })),
+
+    getMany: async (ids) =>
+      new Map(
+        ids
+          .map((id) => [id, resolveStock(id)] as const)
+          .filter(([, stock]) => stock)
+          .map(([id, stock]) => [id, { ...stock! }])
+      ),
+
+    findBySymbol: async (symbol, exchange) => {
+      const stock = findListing(symbol, exchange);
+      return stock ? { ...stock } : null;
+    },
+
+    create: async (input) => {
+      assertValidStock(input);
+      const existing = findListing(input.symbol, input.exchange);
+      if (existing) return { ...existing };
+
+      const stock: Stock = { ...input, id: stockKey(input), created_at: now(), updated_at: now() };
+      stockMap.set(stock.id, stock);
+      notify();
+      return { ...stock };
+    },
+
+    update: async (id, changes) => {
+      const stock = stockMap.get(id);
+      if (!stock) throw new Error(`Stock ${id} not found`);
+      assertValidStock(changes);
+
+      stockMap.set(id, { ...stock, ...changes, updated_at: now() });
+      notify();
+    },
+
+    merge: async (duplicateId, targetId, author) => {
+      if (duplicateId === targetId) throw new Error('A stock cannot be merged into itself');
+      const duplicate = stockMap.get(duplicateId);
+      if (!duplicate || !stockMap.has(targetId)) throw new Error('Stock not found');
+
+      const ownPortfolios = new Set(
+        Array.from(portfolios.values())
+          .filter((portfolio) => portfolio.user_id === author.id)
+          .map((portfolio) => portfolio.id)
+      );
+      const affected = Array.from(transactions.values()).filter(
+        (txn) =>
+          ownPortfolios.has(txn.portfolio_id) && (txn.stock_id === duplicateId || txn.parent_stock_id === duplicateId)
+      );
+
+      affected.forEach((txn) => {
+        const changes = {
+          ...(txn.stock_id === duplicateId ? { stock_id: targetId } : {}),
+          ...(txn.parent_stock_id === duplicateId ? { parent_stock_id: targetId } : {}),
+        };
+        transactions.set(txn.id, { ...txn, ...changes, updated_at: now() });
+        const revision: TransactionRevision = {
+          id: newId('revision'),
+          transaction_id: txn.id,
+          portfolio_id: txn.portfolio_id,
+          user_id: author.id,
+          user_email: author.email,
+          changes: diffTransaction(txn, changes),
+          created_at: now(),
+        };
+        revisions.set(revision.id, revision);
+      });
+
+      stockMap.set(duplicateId, { ...duplicate, merged_into: targetId, updated_at: now() });
+      notify();
+      return affected.length;
+    },
+
+    newId: (listing) => stockKey(listing),
+  };
+
+  // Transactions pointing at a merged stock are read as pointing at the stock
+  // it was merged into
+  const withStock = (txn: Transaction): Transaction => {
+    const stock = isCashTransaction(txn.transaction_type) ? undefined : resolveStock(txn.stock_id);
+    const parent = txn.parent_stock_id ? resolveStock(txn.parent_stock_id) : undefined;
+    return {
+      ...txn,
+      ...(stock ? { stock_id: stock.id, stock: { ...stock } } : {}),
+      ...(parent ? { parent_stock_id: parent.id } : {}),
+    };
+  };
+
+  const storeTransaction = (input: Omit<Transaction, 'id' | 'created_at' | 'stock'>) => {
+    const { stock: _stock, ...fields } = input as Transaction;
+    const transaction: Transaction = { ...fields, id: newId('transaction'), created_at: now() };
+    transactions.set(transaction.id, transaction);
+    return transaction;
+  };
+
+  const listPortfolios = async (userId: string) =>
+    Array.from(portfolios.values())
+      .filter((portfolio) => portfolio.user_id === userId && !isTrashed(portfolio))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map((portfolio) => ({ ...portfolio }));
+
+  const listTrashedPortfolios = async (userId: string) =>
+    Array.from(portfolios.values())
+      .filter((portfolio) => portfolio.user_id === userId && isTrashed(portfolio))
+      .sort(byDeletedDesc)
+      .map((portfolio) => ({ ...portfolio }));
+
+  const listTransactions = async (portfolioId: string) =>
+    Array.from(transactions.values())
+      .filter((txn) => txn.portfolio_id === portfolioId && !isTrashed(txn))
+      .sort((a, b) => a.transaction_date.localeCompare(b.transaction_date))
+      .map(withStock);
+
+  const listTrashedTransactions = async (portfolioIds: string[]) =>
+    Array.from(transactions.values())
+      .filter((txn) => portfolioIds.includes(txn.portfolio_id) && isTrashed(txn))
+      .sort(byDeletedDesc)
+      .map(withStock);
+
+  const updatePortfolio = (id: string, changes: Partial<Portfolio>) => {
+    const portfolio = portfolios.get(id);
+    if (!portfolio) throw new Error(`Portfolio ${id} not found`);
+    portfolios.set(id, { ...portfolio, ...changes, updated_at: now() });
+    notify();
+  };
+
+  const deleteRevisions = (matches: (revision: TransactionRevision) => boolean) =>
+    Array.from(revisions.values())
+      .filter(matches)
+      .forEach((revision) => revisions.delete(revision.id));
+
+  const updateTransaction = (id: string, changes: Partial<Transaction>) => {
+    const transaction = transactions.get(id);
+    if (!transaction) throw new Error(`Transaction ${id} not found`);
+    transactions.set(id, { ...transaction, ...changes });
+    notify();
+  };
+
+  // Checks a change to a portfolio's transactions the way the forms do, so no
+  // caller can record a sale of shares that were not held or, without margin,
+  // overdraw the cash
+  const assertHistory = async (portfolioId: string, change: (transactions: Transaction[]) => Transaction[]) => {
+    const portfolio = portfolios.get(portfolioId);
+    if (!portfolio) throw new Error(`Portfolio ${portfolioId} not found`);
+    const before = await listTransactions(portfolioId);
+    assertValidHistoryChange(portfolio, before, change(before).map(withStock));
+  };
+
+  // A transaction about to be stored, as the history checks see it
+  const pendingTransaction = (input: NewTransaction, index = 0): Transaction => ({
+    ...input,
+    id: `pending-${index}`,
+    created_at: now(),
+  });
+
+  const findPreferences = async (userId: string) => {
+    const found = Array.from(preferences.values()).find((prefs) => prefs.user_id === userId);
+    return found ? { ...found } : null;
+  };
+
+  const listAlertRules = async (userId: string) =>
+    Array.from(alertRules.values())
+      .filter((rule) => rule.user_id === userId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map((rule) => ({ ...rule }));
+
+  return {
+    name: 'memory',
+
+    portfolios: {
+      listByUser: listPortfolios,
+
+      watchByUser: (userId, onChange, onError) => watch(() => listPortfolios(userId), onChange, onError),
+
+      watchTrash: (userId, onChange, onError) => watch(() => listTrashedPortfolios(userId), onChange, onError),
+
+      create: async (input) => {
+        assertValidPortfolio(input);
+        const portfolio: Portfolio = { ...input, id: newId('portfolio'), created_at: now(), updated_at: now() };
+        portfolios.set(portfolio.id, portfolio);
+        notify();
+        return { ...portfolio };
+      },
+
+      update: async (id, changes) => {
+        assertValidPortfolio(changes);
+        updatePortfolio(id, changes);
+      },
+
+      remove: async (id) => updatePortfolio(id, { deleted_at: now() }),
+
+      restore: async (id) => updatePortfolio(id, { deleted_at: undefined }),
+
+      purge: async (id) => {
+        Array.from(transactions.values())
+          .filter((txn) => txn.portfolio_id === id)
+          .forEach((txn) => transactions.delete(txn.id));
+        deleteRevisions((revision) => revision.portfolio_id === id);
+        Array.from(snapshots.values())
+          .filter((snapshot) => snapshot.portfolio_id === id)
+          .forEach((snapshot) => snapshots.delete(snapshot.id));
+        targets.delete(id);
+        Array.from(alertRules.values())
+          .filter((rule) => rule.portfolio_id === id)
+          .forEach((rule) => alertRules.delete(rule.id));
+        portfolios.delete(id);
+        notify();
+      },
+    },
+
+    transactions: {
+      listByPortfolio: listTransactions,
+
+      watchByPortfolio: (portfolioId, onChange, onError) =>
+        watch(() => listTransactions(portfolioId), onChange, onError),
+
+      watchTrash: (portfolioIds, onChange, onError) =>
+        watch(() => listTrashedTransactions(portfolioIds), onChange, onError),
+
+      create: async (input) => {
+        assertValidTransaction(input);
+        await assertHistory(input.portfolio_id, (current) => [...current, pendingTransaction(input)]);
+        const transaction = storeTransaction(input);
+        notify();
+        return withStock(transaction);
+      },
+
+      remove: async (id) => {
+        const transaction = transactions.get(id);
+        if (!transaction) throw new Error(`Transaction ${id} not found`);
+        await assertHistory(transaction.portfolio_id, (current) => current.filter((txn) => txn.id !== id));
+        updateTransaction(id, { deleted_at: now() });
+      },
+
+      restore: async (id) => {
+        const transaction = transactions.get(id);
+        if (!transaction) throw new Error(`Transaction ${id} not found`);
+        await assertHistory(transaction.portfolio_id, (current) => [...current, { ...transaction, deleted_at: undefined }]);
+        updateTransaction(id, { deleted_at: undefined });
+      },
+
+      purge: async (id) => {
+        deleteRevisions((revision) => revision.transaction_id === id);
+        transactions.delete(id);
+        notify();
+      },
+
+      update: async (transaction, changes, author) => {
+        const fieldChanges = diffTransaction(transaction, changes);
+        if (fieldChanges.length === 0) return null;
+        assertValidTransaction({ ...transaction, ...changes });
+        await assertHistory(transaction.portfolio_id, (current) =>
+          current.map((txn) => (txn.id === transaction.id ? { ...txn, ...changes } : txn))
+        );
+
+        const { fx_rate, parent_stock_id, lot_selections } = { ...transaction, ...changes };
+        updateTransaction(transaction.id, {
+          ...changes,
+          // Optional fields are dropped once emptied, as in the Firestore store
+          fx_rate: fx_rate && fx_rate !== 1 ? fx_rate : undefined,
+          parent_stock_id: parent_stock_id || undefined,
+          lot_selections: lot_selections && lot_selections.length > 0 ? lot_selections : undefined,
+          updated_at: now(),
+        });
+
+        const revision: TransactionRevision = {
+          id: newId('revision'),
+          transaction_id: transaction.id,
+          portfolio_id: transaction.portfolio_id,
+          user_id: author.id,
+          user_email: author.email,
+          changes: fieldChanges,
+          created_at: now(),
+        };
+        revisions.set(revision.id, revision);
+        return { ...revision };
+      },
+
+      createMany: async (inputs, newStocks = []) => {
+        assertImportFits(inputs.length + newStocks.length);
+        inputs.forEach(assertValidTransaction);
+        const portfolioIds = Array.from(new Set(inputs.map((input) => input.portfolio_id)));
+        await Promise.all(
+          portfolioIds.map((portfolioId) =>
+            assertHistory(portfolioId, (current) => [
+              ...current,
+              ...inputs.filter((input) => input.portfolio_id === portfolioId).map(pendingTransaction),
+            ])
+          )
+        );
+        newStocks.filter((stock) => !stockMap.has(stock.id)).forEach((stock) => stockMap.set(stock.id, { ...stock }));
+        inputs.forEach(storeTransaction);
+        notify();
+      },
+    },
+
+    revisions: {
+      listByTransaction: async (portfolioId, transactionId) =>
+        Array.from(revisions.values())
+          .filter((revision) => revision.portfolio_id === portfolioId && revision.transaction_id === transactionId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map((revision) => ({ ...revision })),
+    },
+
+    stocks,
+
+    preferences: {
+      getByUser: findPreferences,
+
+      watchByUser: (userId, onChange, onError) => watch(() => findPreferences(userId), onChange, onError),
+
+      save: async ({ id, created_at: _createdAt, ...input }) => {
+        const existing = id ? preferences.get(id) : undefined;
+        const saved: UserPreferences = {
+          ...input,
+          id: existing?.id || input.user_id,
+          created_at: existing?.created_at || now(),
+          updated_at: now(),
+        };
+        preferences.set(saved.id, saved);
+        notify();
+        return { ...saved };
+      },
+    },
+
+    prices: {
+      latest: async (stockId) => {
+        const history = Array.from(stockPrices.values())
+          .filter((price) => price.stock_id === stockId)
+          .sort((a, b) => b.date.localeCompare(a.date));
+        return history.length > 0 ? { ...history[0] } : null;
+      },
+
+      history: async (stockId, from, to) =>
+        Array.from(stockPrices.values())
+          .filter((price) => price.stock_id === stockId && inRange(price.date, from, to))
+          .sort((a, b) => a.date.localeCompare(b.date))
+          .map((price) => ({ ...price })),
+
+      fxHistory: async (fromCurrency, toCurrency, from, to) =>
+        Array.from(fxRates.values())
+          .filter(
+            (rate) =>
+              rate.from_currency === fromCurrency && rate.to_currency === toCurrency && inRange(rate.date, from, to)
+          )
+          .sort((a, b) => a.date.localeCompare(b.date))
+          .map((rate) => ({ ...rate })),
+    },
+
+    snapshots: {
+      listByPortfolio: async (portfolioId) =>
+        Array.from(snapshots.values())
+          .filter((snapshot) => snapshot.portfolio_id === portfolioId)
+          .sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date))
+          .map((snapshot) => ({ ...snapshot })),
+
+      apply: async (writes, deleteIds) => {
+        writes.forEach((snapshot) => snapshots.set(snapshot.id, { ...snapshot }));
+        deleteIds.forEach((id) => snapshots.delete(id));
+      },
+    },
+
+    targets: {
+      get: async (portfolioId) => {
+        const found = targets.get(portfolioId);
+        return found ? { ...found } : null;
+      },
+
+      save: async (next) => {
+        targets.set(next.portfolio_id, { ...next, id: next.portfolio_id, updated_at: now() });
+      },
+    },
+
+    watchlists: {
+      watchByUser: (userId, onChange, onError) =>
+        watch(
+          async () =>
+            Array.from(watchlists.values())
+              .filter((watchlist) => watchlist.user_id === userId)
+              .sort((a, b) => a.position - b.position || a.created_at.localeCompare(b.created_at))
+              .map((watchlist) => ({ ...watchlist, items: watchlist.items.map((item) => ({ ...item })) })),
+          onChange,
+          onError
+        ),
+
+      create: async (input) => {
+        assertValidWatchlist(input);
+        const watchlist: Watchlist = { ...input, id: newId('watchlist'), created_at: now(), updated_at: now() };
+        watchlists.set(watchlist.id, watchlist);
+        notify();
+        return { ...watchlist };
+      },
+
+      update: async (id, changes) => {
+        assertValidWatchlist(changes);
+        const watchlist = watchlists.get(id);
+        if (!watchlist) return;
+        watchlists.set(id, { ...watchlist, ...changes, updated_at: now() });
+        notify();
+      },
+
+      reorder: async (ids) => {
+        ids.forEach((id, position) => {
+          const watchlist = watchlists.get(id);
+          if (watchlist) watchlists.set(id, { ...watchlist, position, updated_at: now() });
+        });
+        notify();
+      },
+
+      remove: async (id) => {
+        watchlists.delete(id);
+        notify();
+      },
+    },
+
+    alerts: {
+      listByUser: listAlertRules,
+
+      watchByUser: (userId, onChange, onError) => watch(() => listAlertRules(userId), onChange, onError),
+
+      create: async (input) => {
+        assertValidAlertRule(input);
+        const rule: AlertRule = {
+          ...input,
+          id: newId('alert'),
+          triggered: false,
+          created_at: now(),
+          updated_at: now(),
+        };
+        alertRules.set(rule.id, rule);
+        notify();
+        return { ...rule };
+      },
+
+      update: async (id, changes) => {
+        const rule = alertRules.get(id);
+        if (!rule) return;
+        alertRules.set(id, { ...rule, ...changes, updated_at: now() });
+        notify();
+      },
+
+      remove: async (id) => {
+        alertRules.delete(id);
+        notify();
+      },
+    },
+
+    notifications: {
+      watchByUser: (userId, onChange, onError) =>
+        watch(
+          async () =>
+            Array.from(notifications.values())
+              .filter((notification) => notification.user_id === userId)
+              .sort((a, b) => b.created_at.localeCompare(a.created_at))
+              .slice(0, 100)
+              .map((notification) => ({ ...notification })),
+          onChange,
+          onError
+        ),
+
+      createMany: async (inputs) => {
+        const created = inputs.map(
+          (input): AlertNotification => ({ ...input, id: newId('notification'), read: false, created_at: now() })
+        );
+        created.forEach((notification) => notifications.set(notification.id, notification));
+        notify();
+        return created.map((notification) => ({ ...notification }));
+      },
+
+      markRead: async (ids) => {
+        ids.forEach((id) => {
+          const notification = notifications.get(id);
+          if (notification) notifications.set(id, { ...notification, read: true });
+        });
+        notify();
+      },
+
+      remove: async (ids) => {
+        ids.forEach((id) => notifications.delete(id));
+        notify();
+      },
+    },
+
+    // Writes apply immediately, so nothing is ever pending
+    // Writes apply at once and cannot fail to sync
+    watchSyncStatus: (_userId, onChange) => {
+      onChange({ online: true, pendingWrites: 0, syncing: false, failedWrites: [], conflicts: [] });
+      return () => {};
+    },
+
+    retryFailedWrite: async () => {},
+
+    dismissFailedWrite: () => {},
+  };
+};
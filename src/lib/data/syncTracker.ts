@@ -0,0 +1,110 @@
+import { Firestore, waitForPendingWrites } from 'firebase/firestore';
+import { FailedWrite, SyncConflict, SyncStatus } from './types';
+
+// Firestore applies a write to its local cache straight away and sends it once
+// the server is reachable, but the promise it returns waits for the server.
+// Repository writes resolve as soon as the write is queued, so nothing hangs
+// while offline. The tracker follows the queued writes in the background and
+// keeps the ones the server rejects, so they can be sent again. The store's
+// snapshot listeners report the documents still pending and any conflicts.
+export const createSyncTracker = (db: Firestore) => {
+  let online = navigator.onLine;
+  let syncing = false;
+  // Pending documents by the listener that counted them
+  const pending = new Map<string, number>();
+  const failed = new Map<string, { write: FailedWrite; commit: () => Promise<void> }>();
+  const conflicts = new Map<string, SyncConflict>();
+  const listeners = new Set<(status: SyncStatus) => void>();
+  let failures = 0;
+  let waits = 0;
+
+  const status = (): SyncStatus => ({
+    online,
+    pendingWrites: Array.from(pending.values()).reduce((sum, count) => sum + count, 0),
+    syncing,
+    failedWrites: Array.from(failed.values()).map(({ write }) => write),
+    conflicts: Array.from(conflicts.values()),
+  });
+
+  const publish = () => {
+    const current = status();
+    listeners.forEach((listener) => listener(current));
+  };
+
+  window.addEventListener('online', () => {
+    online = true;
+    publish();
+  });
+  window.addEventListener('offline', () => {
+    online = false;
+    publish();
+  });
+
+  // waitForPendingWrites covers the writes made before it was called, so a
+  // write made while waiting starts a new wait and only the last one counts
+  const waitForServer = () => {
+    const wait = ++waits;
+    syncing = true;
+    publish();
+    waitForPendingWrites(db)
+      .catch((error) => console.error('Error waiting for pending writes:', error))
+      .then(() => {
+        if (wait !== waits) return;
+        syncing = false;
+        publish();
+      });
+  };
+
+  // `commit` sends the write and is called again on retry, so a batch must be
+  // built inside it: Firestore commits a batch only once
+  const queue = (label: string, commit: () => Promise<void>) => {
+    commit().catch((error) => {
+      // Usually a rules rejection; the local change has been rolled back
+      console.error(`Error syncing write (${label}):`, error);
+      const id = String(++failures);
+      const message = error instanceof Error ? error.message : String(error);
+      failed.set(id, { write: { id, label, message, failedAt: new Date().toISOString() }, commit });
+      publish();
+    });
+    waitForServer();
+  };
+
+  return {
+    queue,
+
+    retry: async (id: string) => {
+      const failure = failed.get(id);
+      if (!failure) return;
+      failed.delete(id);
+      queue(failure.write.label, failure.commit);
+    },
+
+    dismiss: (id: string) => {
+      if (failed.delete(id)) publish();
+    },
+
+    setPending: (source: string, count: number) => {
+      if ((pending.get(source) || 0) === count) return;
+      if (count > 0) pending.set(source, count);
+      else pending.delete(source);
+      publish();
+    },
+
+    setConflict: (portfolioId: string, conflict: SyncConflict | null) => {
+      const current = conflicts.get(portfolioId);
+      if (!conflict && !current) return;
+      if (conflict && current?.message === conflict.message && current.portfolioName === conflict.portfolioName) return;
+      if (conflict) conflicts.set(portfolioId, conflict);
+      else conflicts.delete(portfolioId);
+      publish();
+    },
+
+    watch: (onChange: (status: SyncStatus) => void) => {
+      listeners.add(onChange);
+      onChange(status());
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+};
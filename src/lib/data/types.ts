@@ -0,0 +1,243 @@
+import {
+  AlertNotification,
+  AlertRule,
+  FxRate,
+  Portfolio,
+  PortfolioSnapshot,
+  PortfolioTargets,
+  Stock,
+  StockPrice,
+  Transaction,
+  TransactionRevision,
+  UserPreferences,
+  Watchlist,
+} from '../../types';
+
+export type NewPortfolio = Omit<Portfolio, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>;
+export type PortfolioChanges = Partial<Omit<Portfolio, 'id' | 'user_id' | 'created_at' | 'updated_at' | 'deleted_at'>>;
+export type NewTransaction = Omit<Transaction, 'id' | 'created_at' | 'updated_at' | 'deleted_at' | 'stock'>;
+// Optional fields set to their empty value (fx_rate 1, no parent stock, no
+// lot selections) are removed from the transaction
+export type TransactionChanges = Partial<Omit<NewTransaction, 'portfolio_id'>>;
+export type NewAlertRule = Omit<AlertRule, 'id' | 'triggered' | 'last_triggered_at' | 'created_at' | 'updated_at'>;
+export type AlertRuleChanges = Partial<Pick<AlertRule, 'muted' | 'triggered' | 'last_triggered_at'>>;
+export type NewAlertNotification = Omit<AlertNotification, 'id' | 'read' | 'created_at'>;
+export type NewWatchlist = Omit<Watchlist, 'id' | 'created_at' | 'updated_at'>;
+export type WatchlistChanges = Partial<Pick<Watchlist, 'name' | 'items'>>;
+export type NewStock = Omit<Stock, 'id' | 'created_at' | 'updated_at' | 'merged_into'>;
+// The symbol, exchange and currency identify a listing for everyone holding it
+export type StockChanges = Partial<Pick<NewStock, 'name' | 'sector' | 'industry'>>;
+// Preferences without an id have not been saved yet
+export type PreferencesInput = Omit<UserPreferences, 'id' | 'created_at' | 'updated_at'> &
+  Partial<Pick<UserPreferences, 'id' | 'created_at'>>;
+
+// Watchers call onChange with the full result once it first loads and again
+// after every change, until the returned function is called
+export type Unsubscribe = () => void;
+export type WatchErrorHandler = (error: Error) => void;
+
+export interface RevisionAuthor {
+  id: string;
+  email: string;
+}
+
+// A write the server rejected, usually because the security rules refused
+// it. Its local change has been rolled back.
+export interface FailedWrite {
+  id: string;
+  // What the write did, e.g. "Add transaction"
+  label: string;
+  message: string;
+  failedAt: string;
+}
+
+// Changes made on two offline devices can each pass the checks on their own
+// device but not together, e.g. two sales of the same shares. Histories are
+// checked again once the server has confirmed them.
+export interface SyncConflict {
+  portfolioId: string;
+  portfolioName: string;
+  message: string;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  // The user's documents changed on this device that the server has not
+  // confirmed yet, including changes made in another tab or an earlier session
+  pendingWrites: number;
+  // Writes from this tab still waiting for the server, some of which (deletes,
+  // shared stocks) are not among the documents counted above
+  syncing: boolean;
+  // Writes the server rejected since the app started, until retried or dismissed
+  failedWrites: FailedWrite[];
+  conflicts: SyncConflict[];
+}
+
+// Creating or updating a portfolio or transaction throws a ValidationError
+// (see lib/validation) when the input breaks a rule that does not depend on
+// the rest of the portfolio.
+//
+// Removing a portfolio or transaction moves it to the trash, from where it can
+// be restored until it is purged. Lists and watchers leave trashed items out
+// unless they are for the trash itself.
+export interface PortfolioRepository {
+  // Newest first
+  listByUser(userId: string): Promise<Portfolio[]>;
+  watchByUser(userId: string, onChange: (portfolios: Portfolio[]) => void, onError?: WatchErrorHandler): Unsubscribe;
+  // Most recently trashed first
+  watchTrash(userId: string, onChange: (portfolios: Portfolio[]) => void, onError?: WatchErrorHandler): Unsubscribe;
+  create(input: NewPortfolio): Promise<Portfolio>;
+  update(id: string, changes: PortfolioChanges): Promise<void>;
+  // The portfolio's transactions stay with it and come back on restore
+  remove(id: string): Promise<void>;
+  restore(id: string): Promise<void>;
+  // Deletes the portfolio for good together with its transactions, their
+  // revisions, snapshots, targets and the alert rules watching it
+  purge(id: string): Promise<void>;
+}
+
+export interface TransactionRepository {
+  // Oldest first, each with its stock attached when the stock still exists
+  listByPortfolio(portfolioId: string): Promise<Transaction[]>;
+  watchByPortfolio(
+    portfolioId: string,
+    onChange: (transactions: Transaction[]) => void,
+    onError?: WatchErrorHandler
+  ): Unsubscribe;
+  // Trashed transactions of the given portfolios, most recently trashed first
+  watchTrash(
+    portfolioIds: string[],
+    onChange: (transactions: Transaction[]) => void,
+    onError?: WatchErrorHandler
+  ): Unsubscribe;
+  // Creating, updating, removing and restoring reject with a ValidationError
+  // when the change would leave a sale selling shares that were not held, or
+  // overdraw the cash of a portfolio without margin
+  create(input: NewTransaction): Promise<Transaction>;
+  // Applies the changes and records a revision with the fields that actually
+  // changed, both or neither. Returns null when nothing changed.
+  update(
+    transaction: Transaction,
+    changes: TransactionChanges,
+    author: RevisionAuthor
+  ): Promise<TransactionRevision | null>;
+  remove(id: string): Promise<void>;
+  restore(id: string): Promise<void>;
+  // Also deletes the transaction's revisions
+  purge(id: string): Promise<void>;
+  // Writes the new stocks and the transactions in one batch, so they are
+  // stored whole or not at all, and throws a ValidationError above 500 writes.
+  // New stocks need ids from StockRepository.newId; one stored meanwhile,
+  // e.g. by another user, is left as it is.
+  createMany(inputs: NewTransaction[], newStocks?: Stock[]): Promise<void>;
+}
+
+// Stocks are shared by every user and unique by symbol and exchange. Stocks
+// merged into another are left out of lists and searches, and looking one up
+// by id returns the stock it was merged into.
+export interface StockRepository {
+  // Ordered by symbol
+  list(): Promise<Stock[]>;
+  // Ids without a stored stock are left out of the map
+  getMany(ids: string[]): Promise<Map<string, Stock>>;
+  // With an exchange, only the stock listed there matches
+  findBySymbol(symbol: string, exchange?: string): Promise<Stock | null>;
+  // Returns the stored stock instead when one with the same symbol and
+  // exchange already exists
+  create(input: NewStock): Promise<Stock>;
+  update(id: string, changes: StockChanges): Promise<void>;
+  // Points the author's transactions at the target, recording a revision for
+  // each, and marks the duplicate as merged so everyone else's transactions
+  // follow. Returns how many transactions were changed. The Firestore rules
+  // only let admins mark a stock as merged.
+  merge(duplicateId: string, targetId: string, author: RevisionAuthor): Promise<number>;
+  // The id a new stock is stored under, so it can be referenced before it is written
+  newId(listing: Pick<NewStock, 'symbol' | 'exchange'>): string;
+}
+
+export interface PreferencesRepository {
+  getByUser(userId: string): Promise<UserPreferences | null>;
+  watchByUser(
+    userId: string,
+    onChange: (preferences: UserPreferences | null) => void,
+    onError?: WatchErrorHandler
+  ): Unsubscribe;
+  // Creates the preferences when they have no id yet
+  save(preferences: PreferencesInput): Promise<UserPreferences>;
+}
+
+export interface PriceRepository {
+  latest(stockId: string): Promise<StockPrice | null>;
+  // from and to are YYYY-MM-DD, both inclusive; oldest first
+  history(stockId: string, from: string, to: string): Promise<StockPrice[]>;
+  fxHistory(fromCurrency: string, toCurrency: string, from: string, to: string): Promise<FxRate[]>;
+}
+
+export interface SnapshotRepository {
+  // Oldest first
+  listByPortfolio(portfolioId: string): Promise<PortfolioSnapshot[]>;
+  apply(writes: PortfolioSnapshot[], deleteIds: string[]): Promise<void>;
+}
+
+export interface RevisionRepository {
+  // Newest first
+  listByTransaction(portfolioId: string, transactionId: string): Promise<TransactionRevision[]>;
+}
+
+export interface AlertRepository {
+  listByUser(userId: string): Promise<AlertRule[]>;
+  // Oldest first
+  watchByUser(userId: string, onChange: (rules: AlertRule[]) => void, onError?: WatchErrorHandler): Unsubscribe;
+  create(input: NewAlertRule): Promise<AlertRule>;
+  update(id: string, changes: AlertRuleChanges): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export interface NotificationRepository {
+  // Newest first, at most the latest 100
+  watchByUser(
+    userId: string,
+    onChange: (notifications: AlertNotification[]) => void,
+    onError?: WatchErrorHandler
+  ): Unsubscribe;
+  // New notifications are unread
+  createMany(notifications: NewAlertNotification[]): Promise<AlertNotification[]>;
+  markRead(ids: string[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+}
+
+export interface WatchlistRepository {
+  // Ordered by position
+  watchByUser(userId: string, onChange: (watchlists: Watchlist[]) => void, onError?: WatchErrorHandler): Unsubscribe;
+  create(input: NewWatchlist): Promise<Watchlist>;
+  update(id: string, changes: WatchlistChanges): Promise<void>;
+  // Gives each watchlist its index in `ids` as its position
+  reorder(ids: string[]): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export interface TargetRepository {
+  get(portfolioId: string): Promise<PortfolioTargets | null>;
+  save(targets: PortfolioTargets): Promise<void>;
+}
+
+// Everything the app reads from or writes to its database goes through one of
+// these repositories, so pages never depend on a specific backend.
+export interface DataStore {
+  readonly name: string;
+  portfolios: PortfolioRepository;
+  transactions: TransactionRepository;
+  revisions: RevisionRepository;
+  stocks: StockRepository;
+  preferences: PreferencesRepository;
+  prices: PriceRepository;
+  snapshots: SnapshotRepository;
+  targets: TargetRepository;
+  watchlists: WatchlistRepository;
+  alerts: AlertRepository;
+  notifications: NotificationRepository;
+  watchSyncStatus(userId: string, onChange: (status: SyncStatus) => void): Unsubscribe;
+  // Sends a failed write again
+  retryFailedWrite(id: string): Promise<void>;
+  dismissFailedWrite(id: string): void;
+}
@@ -0,0 +1,14 @@
+// Day keys (YYYY-MM-DD, UTC) are how price bars, snapshots and transactions
+// are lined up against each other.
+export const toDateKey = (value: string | Date) =>
+  (typeof value === 'string' ? new Date(value) : value).toISOString().split('T')[0];
+
+export const todayKey = () => toDateKey(new Date());
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// The user's calendar day as a key. Dates typed into the app are the user's
+// days, so they are checked against this rather than the UTC day, which is a
+// day ahead or behind for part of the day away from UTC.
+export const localTodayKey = (now = new Date()) =>
+  `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
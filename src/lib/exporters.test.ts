@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { exportFileName, holdingsToCsv, transactionsToCsv, transactionsToOfx } from './exporters';
+import { Holding, Portfolio, Stock, Transaction } from '../types';
+
+const stock = (id: string, currency: string): Stock => ({
+  id,
+  symbol: id,
+  name: `${id} Inc.`,
+  sector: 'Technology',
+  industry: '',
+  exchange: 'NASDAQ',
+  currency,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+});
+
+const portfolio: Portfolio = {
+  id: 'p1',
+  user_id: 'user-1',
+  name: 'Growth & Income',
+  description: '',
+  initial_capital: 10000,
+  currency: 'USD',
+  allow_margin: false,
+  cost_basis_method: 'fifo',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+};
+
+let nextId = 1;
+const txn = (fields: Partial<Transaction>): Transaction => ({
+  id: `t${nextId++}`,
+  portfolio_id: 'p1',
+  stock_id: 'AAPL',
+  transaction_type: 'buy',
+  quantity: 1,
+  price: 0,
+  fees: 0,
+  transaction_date: '2024-01-02T00:00:00.000Z',
+  notes: '',
+  created_at: '2024-01-02T00:00:00.000Z',
+  ...fields,
+});
+
+const aapl = stock('AAPL', 'USD');
+const sap = stock('SAP', 'EUR');
+
+const holding = (fields: Partial<Holding>): Holding => ({
+  stock: aapl,
+  quantity: 10,
+  averagePrice: 100,
+  currentPrice: 120,
+  fxRate: 1,
+  priceDate: '2024-01-05',
+  isPriced: true,
+  isConverted: true,
+  totalCost: 1000,
+  currentValue: 1200,
+  unrealizedGain: 200,
+  unrealizedGainPercent: 20,
+  priceGain: 200,
+  fxGain: 0,
+  weight: 100,
+  lots: [],
+  ...fields,
+});
+
+describe('transactionsToCsv', () => {
+  it('writes one row per transaction in its settlement currency', () => {
+    const csv = transactionsToCsv(portfolio, [
+      txn({ stock: aapl, quantity: 10, price: 100, fees: 1, notes: 'Opening "core" position, part 1' }),
+      txn({ stock_id: sap.id, stock: sap, quantity: 2, price: 50, fx_rate: 1.1 }),
+      txn({ stock_id: '', transaction_type: 'deposit', price: 500 }),
+    ]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'date,type,symbol,name,quantity,price,fees,currency,fx_rate,notes',
+      '2024-01-02,buy,AAPL,AAPL Inc.,10,100,1,USD,1,"Opening ""core"" position, part 1"',
+      '2024-01-02,buy,SAP,SAP Inc.,2,50,0,EUR,1.1,',
+      '2024-01-02,deposit,,,1,500,0,USD,1,',
+    ]);
+  });
+});
+
+describe('holdingsToCsv', () => {
+  it('leaves out amounts that could not be valued', () => {
+    const rows = holdingsToCsv(
+      [
+        holding({}),
+        holding({ stock: sap, isPriced: false, isConverted: false, fxRate: 0, currentValue: 0, weight: 0 }),
+      ],
+      'USD'
+    ).split('\r\n');
+
+    expect(rows[1]).toBe('AAPL,AAPL Inc.,Technology,USD,10,100,120,2024-01-05,1,1000,1200,200,20,200,0,100,USD');
+    expect(rows[2]).toBe('SAP,SAP Inc.,Technology,EUR,10,100,120,2024-01-05,,1000,,,,,,0,USD');
+  });
+});
+
+describe('exportFileName', () => {
+  it('slugs the portfolio name', () => {
+    expect(exportFileName('Growth & Income', 'transactions', 'csv')).toMatch(
+      /^growth-income-transactions-\d{4}-\d{2}-\d{2}\.csv$/
+    );
+  });
+});
+
+describe('transactionsToOfx', () => {
+  const transactions = [
+    txn({ stock: aapl, quantity: 10, price: 100, fees: 1, notes: 'Q1 <core>' }),
+    txn({ stock_id: sap.id, stock: sap, quantity: 2, price: 50, fx_rate: 1.1 }),
+    txn({
+      stock: aapl,
+      transaction_type: 'split',
+      quantity: 1.5,
+      transaction_date: '2024-03-01T00:00:00.000Z',
+    }),
+    txn({
+      id: 'spinoff',
+      stock_id: 'NEWCO',
+      stock: stock('NEWCO', 'USD'),
+      transaction_type: 'spinoff',
+      quantity: 3,
+      price: 10,
+      parent_stock_id: 'AAPL',
+      transaction_date: '2024-04-01T00:00:00.000Z',
+    }),
+    txn({ stock_id: '', transaction_type: 'withdrawal', price: 200, transaction_date: '2024-05-01T00:00:00.000Z' }),
+  ];
+  const ofx = transactionsToOfx(portfolio, transactions);
+
+  it('covers the dates of the transactions in the portfolio currency', () => {
+    expect(ofx).toContain('<INVSTMTRS><DTASOF>20240501120000</DTASOF><CURDEF>USD</CURDEF>');
+    expect(ofx).toContain('<DTSTART>20240102120000</DTSTART><DTEND>20240501120000</DTEND>');
+  });
+
+  it('writes buys with their total and escaped memo', () => {
+    expect(ofx).toContain(
+      `<BUYSTOCK><INVBUY><INVTRAN><FITID>${transactions[0].id}</FITID><DTTRADE>20240102120000</DTTRADE>` +
+        '<MEMO>Q1 &lt;core&gt;</MEMO></INVTRAN>' +
+        '<SECID><UNIQUEID>AAPL</UNIQUEID><UNIQUEIDTYPE>TICKER</UNIQUEIDTYPE></SECID>' +
+        '<UNITS>10</UNITS><UNITPRICE>100</UNITPRICE><FEES>1</FEES><TOTAL>-1001</TOTAL>'
+    );
+  });
+
+  it('states the rate of trades in another currency', () => {
+    expect(ofx).toContain('<TOTAL>-100</TOTAL><CURRENCY><CURRATE>1.1</CURRATE><CURSYM>EUR</CURSYM></CURRENCY>');
+  });
+
+  it('writes splits as a fraction with the shares before and after', () => {
+    expect(ofx).toContain(
+      '<OLDUNITS>10</OLDUNITS><NEWUNITS>15</NEWUNITS><NUMERATOR>3</NUMERATOR><DENOMINATOR>2</DENOMINATOR></SPLIT>'
+    );
+  });
+
+  it('writes cash movements as bank transactions and leaves out spin-offs', () => {
+    expect(ofx).toContain('<TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20240501120000</DTPOSTED><TRNAMT>-200</TRNAMT>');
+    expect(ofx).not.toContain('<FITID>spinoff</FITID>');
+  });
+
+  it('lists each security once', () => {
+    expect(ofx.match(/<STOCKINFO>/g)).toHaveLength(3);
+    expect(ofx).toContain('<SECNAME>SAP Inc.</SECNAME><TICKER>SAP</TICKER>');
+  });
+});
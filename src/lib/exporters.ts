@@ -0,0 +1,298 @@
+import { Holding, Portfolio, PortfolioSnapshot, Transaction } from '../types';
+import { applyTransaction, createLedger, isCashTransaction, settlementRate, sortTransactions } from './ledger';
+import { toDateKey, todayKey } from './dates';
+
+export type ExportFormat = 'csv' | 'json' | 'ofx';
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  ofx: 'application/x-ofx',
+};
+
+type CsvValue = string | number | boolean | null | undefined;
+
+const escapeCsv = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: CsvValue[][]) =>
+  [headers, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n');
+
+export const toJson = (data: unknown) => JSON.stringify(data, null, 2);
+
+// File names like "growth-portfolio-transactions-2024-03-01.csv"
+export const exportFileName = (portfolioName: string, kind: string, format: ExportFormat) => {
+  const slug = portfolioName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'portfolio';
+  return `${slug}-${kind}-${todayKey()}.${format}`;
+};
+
+// Hands the content to the browser as a file download
+export const downloadFile = (fileName: string, content: string, format: ExportFormat) => {
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const TRANSACTION_HEADERS = [
+  'date',
+  'type',
+  'symbol',
+  'name',
+  'quantity',
+  'price',
+  'fees',
+  'currency',
+  'fx_rate',
+  'notes',
+];
+
+export const transactionsToCsv = (portfolio: Portfolio, transactions: Transaction[]) =>
+  toCsv(
+    TRANSACTION_HEADERS,
+    transactions.map((txn) => [
+      toDateKey(txn.transaction_date),
+      txn.transaction_type,
+      txn.stock?.symbol || '',
+      txn.stock?.name || '',
+      txn.quantity,
+      txn.price,
+      txn.fees,
+      isCashTransaction(txn.transaction_type) ? portfolio.currency : txn.stock?.currency || portfolio.currency,
+      settlementRate(txn),
+      txn.notes,
+    ])
+  );
+
+export const transactionsToJson = (portfolio: Portfolio, transactions: Transaction[]) =>
+  toJson({
+    portfolio: { id: portfolio.id, name: portfolio.name, currency: portfolio.currency },
+    exported_at: new Date().toISOString(),
+    transactions: transactions.map(({ stock, ...txn }) => ({
+      ...txn,
+      symbol: stock?.symbol || null,
+    })),
+  });
+
+const HOLDING_HEADERS = [
+  'symbol',
+  'name',
+  'sector',
+  'currency',
+  'quantity',
+  'average_price',
+  'current_price',
+  'price_date',
+  'fx_rate',
+  'total_cost',
+  'current_value',
+  'unrealized_gain',
+  'unrealized_gain_percent',
+  'price_gain',
+  'fx_gain',
+  'weight',
+];
+
+// Amounts other than prices are in `currency`, the Dashboard's base currency
+export const holdingsToCsv = (holdings: Holding[], currency: string) =>
+  toCsv(
+    [...HOLDING_HEADERS, 'base_currency'],
+    holdings.map((h) => [
+      h.stock.symbol,
+      h.stock.name,
+      h.stock.sector,
+      h.stock.currency,
+      h.quantity,
+      h.averagePrice,
+      h.currentPrice,
+      h.priceDate,
+      h.isConverted ? h.fxRate : null,
+      h.totalCost,
+      h.isPriced ? h.currentValue : null,
+      h.isPriced ? h.unrealizedGain : null,
+      h.isPriced ? h.unrealizedGainPercent : null,
+      h.isPriced ? h.priceGain : null,
+      h.isPriced ? h.fxGain : null,
+      h.weight,
+      currency,
+    ])
+  );
+
+export const holdingsToJson = (portfolio: Portfolio, holdings: Holding[], currency: string) =>
+  toJson({
+    portfolio: { id: portfolio.id, name: portfolio.name, currency: portfolio.currency },
+    base_currency: currency,
+    exported_at: new Date().toISOString(),
+    holdings,
+  });
+
+export const snapshotsToCsv = (snapshots: PortfolioSnapshot[], currency: string) =>
+  toCsv(
+    ['date', 'total_value', 'cash_balance', 'invested_capital', 'total_return', 'currency'],
+    snapshots.map((s) => [
+      toDateKey(s.snapshot_date),
+      s.total_value,
+      s.cash_balance,
+      s.invested_capital,
+      s.total_return,
+      currency,
+    ])
+  );
+
+export const snapshotsToJson = (portfolio: Portfolio, snapshots: PortfolioSnapshot[], currency: string) =>
+  toJson({
+    portfolio: { id: portfolio.id, name: portfolio.name },
+    currency,
+    exported_at: new Date().toISOString(),
+    snapshots,
+  });
+
+// OFX dates are YYYYMMDDHHMMSS; trades are recorded by day, so noon UTC keeps
+// them on the same day in any importer's time zone
+const ofxDate = (value: string) => `${toDateKey(value).replace(/-/g, '')}120000`;
+
+const ofxAmount = (value: number) => value.toFixed(4).replace(/\.?0+$/, '') || '0';
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const secId = (txn: Transaction) =>
+  `<SECID><UNIQUEID>${escapeXml(txn.stock?.symbol || txn.stock_id)}</UNIQUEID><UNIQUEIDTYPE>TICKER</UNIQUEIDTYPE></SECID>`;
+
+const invTran = (txn: Transaction) =>
+  `<INVTRAN><FITID>${escapeXml(txn.id)}</FITID><DTTRADE>${ofxDate(txn.transaction_date)}</DTTRADE>` +
+  (txn.notes ? `<MEMO>${escapeXml(txn.notes)}</MEMO>` : '') +
+  '</INVTRAN>';
+
+const currencyTag = (txn: Transaction, portfolio: Portfolio) => {
+  const currency = txn.stock?.currency || portfolio.currency;
+  return currency !== portfolio.currency
+    ? `<CURRENCY><CURRATE>${ofxAmount(settlementRate(txn))}</CURRATE><CURSYM>${currency}</CURSYM></CURRENCY>`
+    : '';
+};
+
+// Splits are recorded as a ratio of new shares per old share; OFX wants it as
+// a fraction, e.g. 1.5 as 3/2
+const splitFraction = (ratio: number) => {
+  for (let denominator = 1; denominator <= 1000; denominator++) {
+    const numerator = ratio * denominator;
+    if (Math.abs(numerator - Math.round(numerator)) < 1e-6) return [Math.round(numerator), denominator];
+  }
+  return [ratio, 1];
+};
+
+// Shares of the stock held just before each split, which OFX states along
+// with the ratio
+const unitsBeforeSplits = (portfolio: Portfolio, transactions: Transaction[]) => {
+  const state = createLedger(portfolio);
+  const units = new Map<string, number>();
+  sortTransactions(transactions).forEach((txn) => {
+    if (txn.transaction_type === 'split') units.set(txn.id, state.positions.get(txn.stock_id)?.quantity ?? 0);
+    applyTransaction(state, txn);
+  });
+  return units;
+};
+
+// One OFX transaction element, or null for spin-offs, which OFX has no place
+// for. `splitUnits` is the share count before the transaction, for splits.
+const ofxTransaction = (txn: Transaction, portfolio: Portfolio, splitUnits = 0): string | null => {
+  const gross = txn.quantity * txn.price;
+  const currency = currencyTag(txn, portfolio);
+
+  switch (txn.transaction_type) {
+    case 'buy':
+      return (
+        `<BUYSTOCK><INVBUY>${invTran(txn)}${secId(txn)}<UNITS>${ofxAmount(txn.quantity)}</UNITS>` +
+        `<UNITPRICE>${ofxAmount(txn.price)}</UNITPRICE><FEES>${ofxAmount(txn.fees)}</FEES>` +
+        `<TOTAL>${ofxAmount(-(gross + txn.fees))}</TOTAL>${currency}` +
+        '<SUBACCTSEC>CASH</SUBACCTSEC><SUBACCTFUND>CASH</SUBACCTFUND></INVBUY><BUYTYPE>BUY</BUYTYPE></BUYSTOCK>'
+      );
+    case 'sell':
+      return (
+        `<SELLSTOCK><INVSELL>${invTran(txn)}${secId(txn)}<UNITS>${ofxAmount(-txn.quantity)}</UNITS>` +
+        `<UNITPRICE>${ofxAmount(txn.price)}</UNITPRICE><FEES>${ofxAmount(txn.fees)}</FEES>` +
+        `<TOTAL>${ofxAmount(gross - txn.fees)}</TOTAL>${currency}` +
+        '<SUBACCTSEC>CASH</SUBACCTSEC><SUBACCTFUND>CASH</SUBACCTFUND></INVSELL><SELLTYPE>SELL</SELLTYPE></SELLSTOCK>'
+      );
+    case 'dividend':
+      return (
+        `<INCOME>${invTran(txn)}${secId(txn)}<INCOMETYPE>DIV</INCOMETYPE>` +
+        `<TOTAL>${ofxAmount(gross - txn.fees)}</TOTAL><SUBACCTSEC>CASH</SUBACCTSEC>` +
+        `<SUBACCTFUND>CASH</SUBACCTFUND>${currency}</INCOME>`
+      );
+    case 'dividend_reinvest':
+      return (
+        `<REINVEST>${invTran(txn)}${secId(txn)}<INCOMETYPE>DIV</INCOMETYPE>` +
+        `<TOTAL>${ofxAmount(-gross)}</TOTAL><SUBACCTSEC>CASH</SUBACCTSEC>` +
+        `<UNITS>${ofxAmount(txn.quantity)}</UNITS><UNITPRICE>${ofxAmount(txn.price)}</UNITPRICE>` +
+        `<FEES>${ofxAmount(txn.fees)}</FEES>${currency}</REINVEST>`
+      );
+    case 'split': {
+      const [numerator, denominator] = splitFraction(txn.quantity);
+      return (
+        `<SPLIT>${invTran(txn)}${secId(txn)}<SUBACCTSEC>CASH</SUBACCTSEC>` +
+        `<OLDUNITS>${ofxAmount(splitUnits)}</OLDUNITS><NEWUNITS>${ofxAmount(splitUnits * txn.quantity)}</NEWUNITS>` +
+        `<NUMERATOR>${ofxAmount(numerator)}</NUMERATOR><DENOMINATOR>${ofxAmount(denominator)}</DENOMINATOR></SPLIT>`
+      );
+    }
+    case 'deposit':
+    case 'withdrawal':
+    case 'fee': {
+      const amount = txn.transaction_type === 'deposit' ? gross - txn.fees : -(gross + txn.fees);
+      const trnType = txn.transaction_type === 'deposit' ? 'CREDIT' : txn.transaction_type === 'fee' ? 'FEE' : 'DEBIT';
+      return (
+        `<INVBANKTRAN><STMTTRN><TRNTYPE>${trnType}</TRNTYPE><DTPOSTED>${ofxDate(txn.transaction_date)}</DTPOSTED>` +
+        `<TRNAMT>${ofxAmount(amount)}</TRNAMT><FITID>${escapeXml(txn.id)}</FITID>` +
+        (txn.notes ? `<MEMO>${escapeXml(txn.notes)}</MEMO>` : '') +
+        '</STMTTRN><SUBACCTFUND>CASH</SUBACCTFUND></INVBANKTRAN>'
+      );
+    }
+    default:
+      return null;
+  }
+};
+
+// OFX 2.2 investment statement for the transaction list, with a security list
+// so importers can resolve tickers to names
+export const transactionsToOfx = (portfolio: Portfolio, transactions: Transaction[]) => {
+  const dates = transactions.map((txn) => toDateKey(txn.transaction_date)).sort();
+  const start = dates[0] || todayKey();
+  const end = dates[dates.length - 1] || todayKey();
+  const securities = new Map(
+    transactions.filter((txn) => txn.stock).map((txn) => [txn.stock!.symbol, txn.stock!])
+  );
+  const splitUnits = unitsBeforeSplits(portfolio, transactions);
+  const body = transactions
+    .map((txn) => ofxTransaction(txn, portfolio, splitUnits.get(txn.id)))
+    .filter((element): element is string => element !== null);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>' +
+      `<DTSERVER>${ofxDate(new Date().toISOString())}</DTSERVER><LANGUAGE>ENG</LANGUAGE></SONRS></SIGNONMSGSRSV1>`,
+    '<INVSTMTMSGSRSV1><INVSTMTTRNRS><TRNUID>1</TRNUID><STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+    `<INVSTMTRS><DTASOF>${ofxDate(end)}</DTASOF><CURDEF>${portfolio.currency}</CURDEF>`,
+    `<INVACCTFROM><BROKERID>portfolio-app</BROKERID><ACCTID>${escapeXml(portfolio.id)}</ACCTID></INVACCTFROM>`,
+    `<INVTRANLIST><DTSTART>${ofxDate(start)}</DTSTART><DTEND>${ofxDate(end)}</DTEND>`,
+    ...body,
+    '</INVTRANLIST></INVSTMTRS></INVSTMTTRNRS></INVSTMTMSGSRSV1>',
+    '<SECLISTMSGSRSV1><SECLIST>',
+    ...Array.from(securities.values()).map(
+      (stock) =>
+        `<STOCKINFO><SECINFO><SECID><UNIQUEID>${escapeXml(stock.symbol)}</UNIQUEID>` +
+        `<UNIQUEIDTYPE>TICKER</UNIQUEIDTYPE></SECID><SECNAME>${escapeXml(stock.name)}</SECNAME>` +
+        `<TICKER>${escapeXml(stock.symbol)}</TICKER></SECINFO></STOCKINFO>`
+    ),
+    '</SECLIST></SECLISTMSGSRSV1>',
+    '</OFX>',
+  ].join('\n');
+};
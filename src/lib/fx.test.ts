@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { loadFxHistory, loadFxRate, loadFxRates, rateOn } from './fx';
+import { createMemoryStore, setDataStore } from './data';
+import { FxRatePoint, MarketDataProvider, setMarketDataProvider } from './marketData';
+import { FxRate } from '../types';
+
+const fxRate = (from: string, to: string, date: string, rate: number): FxRate => ({
+  id: `${from}${to}_${date}`,
+  from_currency: from,
+  to_currency: to,
+  date: `${date}T00:00:00.000Z`,
+  rate,
+  created_at: `${date}T00:00:00.000Z`,
+});
+
+// A provider with EUR/USD rates and nothing else
+const fxVendor = (points: FxRatePoint[] | Error): MarketDataProvider => ({
+  name: 'vendor',
+  simulated: false,
+  getQuote: async () => null,
+  getDailyHistory: async () => [],
+  searchSymbols: async () => [],
+  getFxHistory: async (fromCurrency, toCurrency, from, to) => {
+    if (points instanceof Error) throw points;
+    return fromCurrency === 'EUR' && toCurrency === 'USD'
+      ? points.filter((point) => point.date >= from && point.date <= to)
+      : [];
+  },
+});
+
+beforeEach(() => {
+  setDataStore(createMemoryStore({ fxRates: [fxRate('EUR', 'USD', '2024-01-02', 1.1)] }));
+  setMarketDataProvider(fxVendor([]));
+});
+
+describe('rateOn', () => {
+  const history = [
+    { date: '2024-01-02', close: 1.1 },
+    { date: '2024-01-03', close: 1.2 },
+    { date: '2024-01-05', close: 1.3 },
+  ];
+
+  it('uses the rate of the day, or the last one before it', () => {
+    expect(rateOn(history, '2024-01-03')).toBe(1.2);
+    expect(rateOn(history, '2024-01-04')).toBe(1.2);
+    expect(rateOn(history, '2024-02-01')).toBe(1.3);
+  });
+
+  it('uses the first rate for days before the history starts', () => {
+    expect(rateOn(history, '2023-12-29')).toBe(1.1);
+  });
+
+  it('has no rate without a history', () => {
+    expect(rateOn([], '2024-01-02')).toBeUndefined();
+  });
+});
+
+describe('loadFxHistory', () => {
+  it('prefers stored rates and fills the other days from the provider', async () => {
+    setMarketDataProvider(
+      fxVendor([
+        { date: '2024-01-02', rate: 1.05 },
+        { date: '2024-01-03', rate: 1.07 },
+      ])
+    );
+
+    expect(await loadFxHistory('EUR', 'USD', '2024-01-01', '2024-01-05')).toEqual([
+      { date: '2024-01-02', close: 1.1 },
+      { date: '2024-01-03', close: 1.07 },
+    ]);
+  });
+
+  it('keeps stored rates when the provider fails', async () => {
+    setMarketDataProvider(fxVendor(new Error('rate limited')));
+
+    expect(await loadFxHistory('EUR', 'USD', '2024-01-01', '2024-01-05')).toEqual([{ date: '2024-01-02', close: 1.1 }]);
+  });
+
+  it('needs no history to convert a currency into itself', async () => {
+    expect(await loadFxHistory('USD', 'USD', '2024-01-01', '2024-01-05')).toEqual([]);
+  });
+});
+
+describe('loadFxRate', () => {
+  it('converts a currency into itself at 1', async () => {
+    expect(await loadFxRate('GBP', 'GBP', '2024-01-05')).toBe(1);
+  });
+
+  it('has no rate when neither stored rates nor the provider have one', async () => {
+    expect(await loadFxRate('GBP', 'USD', '2024-01-05')).toBeUndefined();
+  });
+
+  it('uses the latest rate in the days before', async () => {
+    expect(await loadFxRate('EUR', 'USD', '2024-01-05')).toBe(1.1);
+  });
+});
+
+describe('loadFxRates', () => {
+  it('leaves out currencies without a rate', async () => {
+    const rates = await loadFxRates(['USD', 'EUR', 'GBP'], 'USD', '2024-01-05');
+    expect(Array.from(rates.entries())).toEqual([
+      ['USD', 1],
+      ['EUR', 1.1],
+    ]);
+  });
+});
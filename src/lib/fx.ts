@@ -0,0 +1,104 @@
+import { getDataStore } from './data';
+import { getMarketDataProvider } from './marketData';
+import { ClosePoint } from './prices';
+import { toDateKey, todayKey } from './dates';
+import { FxRate } from '../types';
+
+// How far back to look for the latest rate, to cover weekends and holidays
+const LOOKBACK_DAYS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const loadStoredFxHistory = (
+  fromCurrency: string,
+  toCurrency: string,
+  from: string,
+  to: string
+): Promise<FxRate[]> => getDataStore().prices.fxHistory(fromCurrency, toCurrency, from, to);
+
+const loadProviderFxHistory = async (
+  fromCurrency: string,
+  toCurrency: string,
+  from: string,
+  to: string
+): Promise<ClosePoint[]> => {
+  try {
+    const points = await getMarketDataProvider().getFxHistory(fromCurrency, toCurrency, from, to);
+    return points.map((point) => ({ date: point.date, close: point.rate }));
+  } catch (error) {
+    console.error(`Error fetching FX history for ${fromCurrency}/${toCurrency}:`, error);
+    return [];
+  }
+};
+
+// Daily rates converting fromCurrency into toCurrency, oldest first, with the
+// rate in `close`. Stored rates win over provider rates for the same day.
+// Converting a currency into itself needs no history and returns [].
+export const loadFxHistory = async (
+  fromCurrency: string,
+  toCurrency: string,
+  from: string,
+  to: string
+): Promise<ClosePoint[]> => {
+  if (fromCurrency === toCurrency) return [];
+
+  const [stored, providerHistory] = await Promise.all([
+    loadStoredFxHistory(fromCurrency, toCurrency, from, to),
+    loadProviderFxHistory(fromCurrency, toCurrency, from, to),
+  ]);
+
+  const rates = new Map<string, number>();
+  providerHistory.forEach((point) => rates.set(point.date, point.close));
+  stored.forEach((rate) => rates.set(toDateKey(rate.date), rate.rate));
+
+  return Array.from(rates.entries())
+    .map(([date, close]) => ({ date, close }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// The last rate on or before `date`; before the history starts, its first
+// rate. Undefined when the history is empty: callers converting a currency
+// into itself use 1 without looking it up.
+export const rateOn = (history: ClosePoint[], date: string): number | undefined => {
+  if (history.length === 0) return undefined;
+
+  let low = 0;
+  let high = history.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (history[mid].date <= date) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return history[Math.max(found, 0)].close;
+};
+
+// Undefined when neither stored rates nor the provider have a rate in the
+// days before `date`
+export const loadFxRate = async (
+  fromCurrency: string,
+  toCurrency: string,
+  date = todayKey()
+): Promise<number | undefined> => {
+  if (fromCurrency === toCurrency) return 1;
+
+  const from = toDateKey(new Date(Date.parse(`${date}T00:00:00Z`) - LOOKBACK_DAYS * DAY_MS));
+  return rateOn(await loadFxHistory(fromCurrency, toCurrency, from, date), date);
+};
+
+// Rates converting each currency into toCurrency on the given day. Currencies
+// without a rate are left out of the map.
+export const loadFxRates = async (currencies: string[], toCurrency: string, date = todayKey()) => {
+  const unique = Array.from(new Set(currencies));
+  const rates = await Promise.all(unique.map((currency) => loadFxRate(currency, toCurrency, date)));
+  return new Map(
+    unique.flatMap((currency, index) => {
+      const rate = rates[index];
+      return rate === undefined ? [] : [[currency, rate] as const];
+    })
+  );
+};
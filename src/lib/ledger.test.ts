@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { cashImpact, replayLedger, wouldOverdraw } from './ledger';
+import { Stock, Transaction } from '../types';
+
+let nextId = 1;
+const txn = (fields: Partial<Transaction>): Transaction => ({
+  id: `t${nextId++}`,
+  portfolio_id: 'p',
+  stock_id: 'AAPL',
+  transaction_type: 'buy',
+  quantity: 1,
+  price: 0,
+  fees: 0,
+  transaction_date: '2024-01-02T00:00:00.000Z',
+  notes: '',
+  created_at: '2024-01-02T00:00:00.000Z',
+  ...fields,
+});
+
+const portfolio = { initial_capital: 10000 };
+
+const stock = (id: string, currency: string): Stock => ({
+  id,
+  symbol: id,
+  name: id,
+  sector: '',
+  industry: '',
+  exchange: '',
+  currency,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+});
+
+describe('replayLedger', () => {
+  it('tracks cash, positions, income and realized gains through trades', () => {
+    const state = replayLedger(portfolio, [
+      txn({ quantity: 10, price: 100, fees: 5, transaction_date: '2024-01-02T00:00:00.000Z' }),
+      txn({ transaction_type: 'sell', quantity: 5, price: 120, fees: 5, transaction_date: '2024-02-01T00:00:00.000Z' }),
+      txn({ transaction_type: 'dividend', quantity: 1, price: 50, transaction_date: '2024-03-01T00:00:00.000Z' }),
+    ]);
+
+    expect(state.cash).toBeCloseTo(10000 - 1005 + 595 + 50);
+    expect(state.income).toBe(50);
+    expect(state.contributions).toBe(10000);
+
+    const position = state.positions.get('AAPL')!;
+    expect(position.quantity).toBe(5);
+    expect(position.totalCost).toBeCloseTo(502.5);
+
+    expect(state.realizedGains).toHaveLength(1);
+    expect(state.realizedGains[0]).toMatchObject({ quantity: 5, proceeds: 600, fees: 5, costBasis: 502.5, gain: 92.5 });
+  });
+
+  it('applies transactions in date order whatever order they are given in', () => {
+    const state = replayLedger(portfolio, [
+      txn({ transaction_type: 'sell', quantity: 4, price: 110, transaction_date: '2024-02-01T00:00:00.000Z' }),
+      txn({ quantity: 10, price: 100, transaction_date: '2024-01-02T00:00:00.000Z' }),
+    ]);
+    expect(state.positions.get('AAPL')!.quantity).toBe(6);
+    expect(state.entries.map((entry) => entry.transaction.transaction_type)).toEqual(['buy', 'sell']);
+  });
+
+  it('multiplies the shares on a split and keeps the cost', () => {
+    const state = replayLedger(portfolio, [
+      txn({ quantity: 10, price: 100 }),
+      txn({ transaction_type: 'split', quantity: 4, transaction_date: '2024-06-03T00:00:00.000Z' }),
+    ]);
+    const position = state.positions.get('AAPL')!;
+    expect(position.quantity).toBe(40);
+    expect(position.totalCost).toBe(1000);
+  });
+
+  it('counts deposits and withdrawals as contributions', () => {
+    const state = replayLedger(portfolio, [
+      txn({ transaction_type: 'deposit', stock_id: '', price: 500 }),
+      txn({ transaction_type: 'withdrawal', stock_id: '', price: 200 }),
+      txn({ transaction_type: 'fee', stock_id: '', price: 10 }),
+    ]);
+    expect(state.contributions).toBe(10300);
+    expect(state.cash).toBe(10290);
+    expect(state.positions.size).toBe(0);
+  });
+
+  it('removes the position once every share is sold', () => {
+    const state = replayLedger(portfolio, [
+      txn({ quantity: 10, price: 100 }),
+      txn({ transaction_type: 'sell', quantity: 10, price: 90, transaction_date: '2024-02-01T00:00:00.000Z' }),
+    ]);
+    expect(state.positions.has('AAPL')).toBe(false);
+    expect(state.realizedGains[0].gain).toBe(-100);
+  });
+
+  it('converts the basis a spin-off carries into the new stock when the currencies differ', () => {
+    // A EUR parent bought at 1.10 USD spins off a GBP stock worth 1.25 USD on the day
+    const state = replayLedger(portfolio, [
+      txn({ stock_id: 'SIE', stock: stock('SIE', 'EUR'), quantity: 10, price: 100, fx_rate: 1.1 }),
+      txn({
+        stock_id: 'ENR',
+        stock: stock('ENR', 'GBP'),
+        transaction_type: 'spinoff',
+        quantity: 5,
+        price: 20,
+        fx_rate: 1.25,
+        parent_stock_id: 'SIE',
+        transaction_date: '2024-05-01T00:00:00.000Z',
+      }),
+    ]);
+
+    expect(state.positions.get('SIE')!.lots[0]).toMatchObject({ costBasis: 900, fxRate: 1.1 });
+    const [child] = state.positions.get('ENR')!.lots;
+    expect(child.costBasis).toBeCloseTo(88);
+    expect(child.fxRate).toBe(1.25);
+    // The basis moved keeps its value in the portfolio's currency
+    expect(child.costBasis * child.fxRate).toBeCloseTo(100 * 1.1);
+  });
+});
+
+describe('cashImpact', () => {
+  it('converts trades in another currency at their FX rate', () => {
+    expect(cashImpact(txn({ quantity: 10, price: 100, fees: 10, fx_rate: 1.1 }))).toBeCloseTo(-1111);
+  });
+
+  it('charges only the fees of a reinvested dividend', () => {
+    expect(cashImpact(txn({ transaction_type: 'dividend_reinvest', quantity: 2, price: 50, fees: 1 }))).toBe(-1);
+  });
+});
+
+describe('wouldOverdraw', () => {
+  const small = { initial_capital: 1000 };
+
+  it('refuses a buy the cash balance cannot cover', () => {
+    expect(wouldOverdraw(small, [], txn({ quantity: 20, price: 100 }))).toBe(true);
+  });
+
+  it('allows the buy once an earlier deposit covers it', () => {
+    const deposit = txn({ transaction_type: 'deposit', stock_id: '', price: 1500, transaction_date: '2024-01-01T00:00:00.000Z' });
+    expect(wouldOverdraw(small, [deposit], txn({ quantity: 20, price: 100 }))).toBe(false);
+  });
+
+  it('refuses a buy dated before the deposit that would cover it', () => {
+    const deposit = txn({ transaction_type: 'deposit', stock_id: '', price: 1500, transaction_date: '2024-03-01T00:00:00.000Z' });
+    expect(wouldOverdraw(small, [deposit], txn({ quantity: 20, price: 100 }))).toBe(true);
+  });
+
+  it('never refuses a transaction that adds cash', () => {
+    expect(wouldOverdraw({ initial_capital: 0 }, [], txn({ transaction_type: 'sell', quantity: 1, price: 10 }))).toBe(
+      false
+    );
+  });
+});
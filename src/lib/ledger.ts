@@ -0,0 +1,200 @@
+import { CostBasisMethod, Portfolio, RealizedGain, Stock, TaxLot, Transaction, TransactionType } from '../types';
+import { carveOutLots, closeLots, DEFAULT_COST_BASIS_METHOD, openLot, removeEmptyLots, splitLots } from './lots';
+import { buildRealizedGains } from './realizedGains';
+
+export interface Position {
+  stockId: string;
+  stock?: Stock;
+  // Totals over the open lots
+  quantity: number;
+  totalCost: number;
+  lots: TaxLot[];
+}
+
+export interface LedgerEntry {
+  transaction: Transaction;
+  cashChange: number;
+  // Cash balance right after this transaction
+  cashBalance: number;
+}
+
+export interface LedgerState {
+  costBasisMethod: CostBasisMethod;
+  positions: Map<string, Position>;
+  cash: number;
+  // Amounts below are in the portfolio's currency.
+  // Initial capital plus deposits less withdrawals
+  contributions: number;
+  // Dividends received, paid out or reinvested
+  income: number;
+  // One entry per lot closed by a sell, in the order the sells were applied
+  realizedGains: RealizedGain[];
+  // In the order the transactions were applied
+  entries: LedgerEntry[];
+}
+
+type LedgerPortfolio = Pick<Portfolio, 'initial_capital'> & Partial<Pick<Portfolio, 'cost_basis_method'>>;
+
+// Transactions that move cash without touching a stock
+const CASH_TRANSACTION_TYPES: TransactionType[] = ['deposit', 'withdrawal', 'fee'];
+
+// Transactions recorded as a single amount (quantity 1, amount as price)
+const AMOUNT_TRANSACTION_TYPES: TransactionType[] = ['deposit', 'withdrawal', 'fee', 'dividend'];
+
+export const isCashTransaction = (type: TransactionType) => CASH_TRANSACTION_TYPES.includes(type);
+
+export const isAmountTransaction = (type: TransactionType) => AMOUNT_TRANSACTION_TYPES.includes(type);
+
+// Whether the transaction's price is a market price for its stock
+export const isTradeTransaction = (type: TransactionType) =>
+  type === 'buy' || type === 'sell' || type === 'dividend_reinvest';
+
+// Whether the amounts are in the stock's currency rather than the portfolio's.
+// Splits carry no amount and spin-offs carry the parent's basis.
+export const settlesInStockCurrency = (type: TransactionType) =>
+  !isCashTransaction(type) && type !== 'split' && type !== 'spinoff';
+
+// Converts an amount in the transaction's currency into the portfolio's
+export const settlementRate = (txn: Transaction) => txn.fx_rate ?? 1;
+
+// Signed effect of a transaction on the cash balance, fees included, in the
+// portfolio's currency. A reinvested dividend pays for its own shares, so
+// only its fees touch cash.
+export const cashImpact = (txn: Transaction) => {
+  const gross = txn.quantity * txn.price;
+  const rate = settlementRate(txn);
+  switch (txn.transaction_type) {
+    case 'buy':
+    case 'withdrawal':
+    case 'fee':
+      return -(gross + txn.fees) * rate;
+    case 'sell':
+    case 'deposit':
+    case 'dividend':
+      return (gross - txn.fees) * rate;
+    default:
+      return -txn.fees * rate;
+  }
+};
+
+// Money moving into (positive) or out of (negative) the portfolio from
+// outside. Trades only move value between cash and positions, and dividends
+// and fees are part of the portfolio's return.
+export const externalFlow = (txn: Transaction) => {
+  switch (txn.transaction_type) {
+    case 'deposit':
+      return txn.quantity * txn.price;
+    case 'withdrawal':
+      return -(txn.quantity * txn.price);
+    default:
+      return 0;
+  }
+};
+
+export const incomeAmount = (txn: Transaction) =>
+  txn.transaction_type === 'dividend' || txn.transaction_type === 'dividend_reinvest'
+    ? txn.quantity * txn.price * settlementRate(txn)
+    : 0;
+
+export const sortTransactions = (transactions: Transaction[]) =>
+  [...transactions].sort(
+    (a, b) => a.transaction_date.localeCompare(b.transaction_date) || a.created_at.localeCompare(b.created_at)
+  );
+
+const getPosition = (state: LedgerState, stockId: string, stock?: Stock): Position =>
+  state.positions.get(stockId) || { stockId, stock, quantity: 0, totalCost: 0, lots: [] };
+
+const storePosition = (state: LedgerState, position: Position) => {
+  position.lots = removeEmptyLots(position.lots);
+  position.quantity = position.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  position.totalCost = position.lots.reduce((sum, lot) => sum + lot.costBasis, 0);
+
+  if (position.lots.length > 0) {
+    state.positions.set(position.stockId, position);
+  } else {
+    state.positions.delete(position.stockId);
+  }
+};
+
+const applyToPositions = (state: LedgerState, txn: Transaction) => {
+  const position = getPosition(state, txn.stock_id, txn.stock);
+
+  switch (txn.transaction_type) {
+    case 'buy':
+    case 'dividend_reinvest':
+      position.lots.push(openLot(txn, txn.quantity, txn.quantity * txn.price + txn.fees));
+      break;
+    case 'sell': {
+      const closed = closeLots(position.lots, txn.quantity, state.costBasisMethod, txn.lot_selections);
+      state.realizedGains.push(...buildRealizedGains(txn, closed));
+      break;
+    }
+    case 'split':
+      splitLots(position.lots, txn.quantity);
+      break;
+    case 'spinoff': {
+      const parent = txn.parent_stock_id ? state.positions.get(txn.parent_stock_id) : undefined;
+      position.lots.push(...carveOutLots(parent?.lots || [], txn, parent?.stock?.currency));
+      if (parent) {
+        storePosition(state, parent);
+      }
+      break;
+    }
+    default:
+      return;
+  }
+
+  storePosition(state, position);
+};
+
+export const applyTransaction = (state: LedgerState, txn: Transaction) => {
+  if (!isCashTransaction(txn.transaction_type)) {
+    applyToPositions(state, txn);
+  }
+
+  const cashChange = cashImpact(txn);
+  state.cash += cashChange;
+  state.contributions += externalFlow(txn);
+  state.income += incomeAmount(txn);
+  state.entries.push({ transaction: txn, cashChange, cashBalance: state.cash });
+};
+
+export const createLedger = (portfolio: LedgerPortfolio): LedgerState => ({
+  costBasisMethod: portfolio.cost_basis_method || DEFAULT_COST_BASIS_METHOD,
+  positions: new Map(),
+  cash: portfolio.initial_capital || 0,
+  contributions: portfolio.initial_capital || 0,
+  income: 0,
+  realizedGains: [],
+  entries: [],
+});
+
+export const replayLedger = (portfolio: LedgerPortfolio, transactions: Transaction[]): LedgerState => {
+  const state = createLedger(portfolio);
+  sortTransactions(transactions).forEach((txn) => applyTransaction(state, txn));
+  return state;
+};
+
+const lowestBalance = (state: LedgerState, openingCash: number) =>
+  state.entries.reduce((min, entry) => Math.min(min, entry.cashBalance), openingCash);
+
+// True when the cash balance would go below zero at any point in the history
+// `after`, or deeper below zero than it already goes in `before`.
+export const wouldOverdrawHistory = (
+  portfolio: LedgerPortfolio,
+  before: Transaction[],
+  after: Transaction[]
+) => {
+  const openingCash = portfolio.initial_capital || 0;
+  const lowestBefore = lowestBalance(replayLedger(portfolio, before), openingCash);
+  const lowestAfter = lowestBalance(replayLedger(portfolio, after), openingCash);
+  return lowestAfter < 0 && lowestAfter < lowestBefore - 0.005;
+};
+
+// True when adding the transaction would take the cash balance below zero at
+// any point in the history, or deeper below zero than it already goes.
+export const wouldOverdraw = (
+  portfolio: LedgerPortfolio,
+  transactions: Transaction[],
+  candidate: Transaction
+) => cashImpact(candidate) < 0 && wouldOverdrawHistory(portfolio, transactions, [...transactions, candidate]);
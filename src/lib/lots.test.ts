@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { carveOutLots, closeLots, splitLots } from './lots';
+import { CostBasisMethod, TaxLot, Transaction } from '../types';
+
+const lot = (id: string, acquiredDate: string, quantity: number, costBasis: number): TaxLot => ({
+  id,
+  stockId: 'AAPL',
+  acquiredDate,
+  quantity,
+  costBasis,
+  fxRate: 1,
+});
+
+// 10 shares at 100, 10 at 150 and 10 at 120, in the order they were bought
+const threeLots = () => [
+  lot('a', '2023-01-10', 10, 1000),
+  lot('b', '2023-06-10', 10, 1500),
+  lot('c', '2024-01-10', 10, 1200),
+];
+
+// Lot id, shares and basis of each portion closed
+const closedSummary = (lots: TaxLot[], quantity: number, method: CostBasisMethod) =>
+  closeLots(lots, quantity, method).map((portion) => [portion.lot.id, portion.quantity, portion.costBasis]);
+
+describe('closeLots', () => {
+  it('closes the oldest lots first under FIFO', () => {
+    const lots = threeLots();
+    expect(closedSummary(lots, 15, 'fifo')).toEqual([
+      ['a', 10, 1000],
+      ['b', 5, 750],
+    ]);
+    expect(lots.map((l) => [l.id, l.quantity, l.costBasis])).toEqual([
+      ['a', 0, 0],
+      ['b', 5, 750],
+      ['c', 10, 1200],
+    ]);
+  });
+
+  it('closes the newest lots first under LIFO', () => {
+    expect(closedSummary(threeLots(), 15, 'lifo')).toEqual([
+      ['c', 10, 1200],
+      ['b', 5, 750],
+    ]);
+  });
+
+  it('closes the most expensive shares first under HIFO', () => {
+    expect(closedSummary(threeLots(), 12, 'hifo')).toEqual([
+      ['b', 10, 1500],
+      ['c', 2, 240],
+    ]);
+  });
+
+  it('closes the same fraction of every lot under average cost', () => {
+    const lots = threeLots();
+    const closed = closeLots(lots, 15, 'average');
+    expect(closed.map((portion) => portion.quantity)).toEqual([5, 5, 5]);
+    expect(closed.reduce((sum, portion) => sum + portion.costBasis, 0)).toBeCloseTo(1850);
+    expect(lots.map((l) => l.quantity)).toEqual([5, 5, 5]);
+  });
+
+  it('closes the chosen lots before following the method', () => {
+    const lots = threeLots();
+    const closed = closeLots(lots, 12, 'fifo', [{ lot_id: 'c', quantity: 4 }]);
+    expect(closed.map((portion) => [portion.lot.id, portion.quantity])).toEqual([
+      ['c', 4],
+      ['a', 8],
+    ]);
+  });
+
+  it('never closes more than the lots hold', () => {
+    const lots = [lot('a', '2023-01-10', 3, 300)];
+    const closed = closeLots(lots, 5, 'fifo');
+    expect(closed).toHaveLength(1);
+    expect(closed[0].quantity).toBe(3);
+  });
+});
+
+describe('splitLots', () => {
+  it('changes the share count and keeps the basis', () => {
+    const lots = threeLots();
+    splitLots(lots, 2);
+    expect(lots.map((l) => [l.quantity, l.costBasis])).toEqual([
+      [20, 1000],
+      [20, 1500],
+      [20, 1200],
+    ]);
+  });
+});
+
+describe('carveOutLots', () => {
+  const spinoff = (quantity: number, price: number, fees = 0): Transaction => ({
+    id: 'spin',
+    portfolio_id: 'p',
+    stock_id: 'NEWCO',
+    transaction_type: 'spinoff',
+    quantity,
+    price,
+    fees,
+    transaction_date: '2024-05-01T00:00:00.000Z',
+    notes: '',
+    created_at: '2024-05-01T00:00:00.000Z',
+    parent_stock_id: 'AAPL',
+  });
+
+  it('moves the carried basis out of the parent lots in proportion to their basis', () => {
+    const parent = [lot('a', '2023-01-10', 10, 1000), lot('b', '2023-06-10', 10, 1500)];
+    const carved = carveOutLots(parent, spinoff(5, 50));
+
+    expect(parent.map((l) => l.costBasis)).toEqual([900, 1350]);
+    expect(carved.map((l) => [l.id, l.acquiredDate, l.quantity, l.costBasis])).toEqual([
+      ['spin:a', '2023-01-10', 2.5, 100],
+      ['spin:b', '2023-06-10', 2.5, 150],
+    ]);
+  });
+
+  it('opens a single lot when the parent is not held', () => {
+    const carved = carveOutLots([], spinoff(5, 50, 10));
+    expect(carved).toEqual([
+      {
+        id: 'spin',
+        stockId: 'NEWCO',
+        acquiredDate: '2024-05-01T00:00:00.000Z',
+        quantity: 5,
+        costBasis: 260,
+        fxRate: 1,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import { CostBasisMethod, LotSelection, TaxLot, Transaction } from '../types';
+
+export interface ClosedLot {
+  lot: TaxLot;
+  // Shares closed out of the lot and the basis that went with them
+  quantity: number;
+  costBasis: number;
+}
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'fifo';
+
+export const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'First in, first out (FIFO)',
+  lifo: 'Last in, first out (LIFO)',
+  hifo: 'Highest cost first (HIFO)',
+  average: 'Average cost',
+};
+
+// Remainders below this are rounding left over from fractional shares
+const DUST = 1e-9;
+
+export const costPerShare = (lot: TaxLot) => (lot.quantity > 0 ? lot.costBasis / lot.quantity : 0);
+
+export const openLot = (txn: Transaction, quantity: number, costBasis: number): TaxLot => ({
+  id: txn.id,
+  stockId: txn.stock_id,
+  acquiredDate: txn.transaction_date,
+  quantity,
+  costBasis,
+  fxRate: txn.fx_rate ?? 1,
+});
+
+const orderLots = (lots: TaxLot[], method: Exclude<CostBasisMethod, 'average'>) => {
+  const ordered = [...lots].sort((a, b) => a.acquiredDate.localeCompare(b.acquiredDate));
+  if (method === 'lifo') return ordered.reverse();
+  if (method === 'hifo') return ordered.sort((a, b) => costPerShare(b) - costPerShare(a));
+  return ordered;
+};
+
+const closeFromLot = (lot: TaxLot, quantity: number): ClosedLot => {
+  const closed = Math.min(quantity, lot.quantity);
+  const costBasis = lot.quantity > 0 ? (lot.costBasis * closed) / lot.quantity : 0;
+  const before = { ...lot };
+  lot.quantity -= closed;
+  lot.costBasis -= costBasis;
+  return { lot: before, quantity: closed, costBasis };
+};
+
+// Average cost closes the same fraction of every lot, so each share sold
+// carries the position's average basis.
+const closeAverage = (lots: TaxLot[], quantity: number): ClosedLot[] => {
+  const held = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  if (held <= 0) return [];
+
+  const fraction = Math.min(1, quantity / held);
+  return lots.map((lot) => closeFromLot(lot, lot.quantity * fraction));
+};
+
+// Closes `quantity` shares out of `lots`, which are updated in place. Lots the
+// sell names explicitly are closed first; anything left over follows the
+// portfolio's method. Returns the portions closed, in the order they were taken.
+export const closeLots = (
+  lots: TaxLot[],
+  quantity: number,
+  method: CostBasisMethod,
+  selections: LotSelection[] = []
+): ClosedLot[] => {
+  const closed: ClosedLot[] = [];
+  let remaining = quantity;
+
+  selections.forEach((selection) => {
+    const lot = lots.find((l) => l.id === selection.lot_id);
+    if (!lot || remaining <= DUST) return;
+
+    const portion = closeFromLot(lot, Math.min(selection.quantity, remaining));
+    remaining -= portion.quantity;
+    closed.push(portion);
+  });
+
+  if (remaining > DUST) {
+    if (method === 'average') {
+      closed.push(...closeAverage(lots, remaining));
+    } else {
+      orderLots(lots, method).forEach((lot) => {
+        if (remaining <= DUST || lot.quantity <= DUST) return;
+
+        const portion = closeFromLot(lot, remaining);
+        remaining -= portion.quantity;
+        closed.push(portion);
+      });
+    }
+  }
+
+  return closed.filter((portion) => portion.quantity > DUST);
+};
+
+export const removeEmptyLots = (lots: TaxLot[]) => lots.filter((lot) => lot.quantity > DUST);
+
+// Splits change the share count of every lot but leave its basis alone
+export const splitLots = (lots: TaxLot[], ratio: number) => {
+  lots.forEach((lot) => {
+    lot.quantity *= ratio;
+  });
+};
+
+// Moves the spin-off's carried basis out of the parent's lots, in proportion
+// to each lot's basis, and opens matching lots in the new stock that keep the
+// parent lots' acquisition dates. When the new stock trades in another
+// currency than the parent, the basis is converted into the portfolio's
+// currency at each parent lot's rate and into the new stock's at the
+// spin-off's, which the new lots then carry.
+export const carveOutLots = (parentLots: TaxLot[], txn: Transaction, parentCurrency?: string): TaxLot[] => {
+  const carried = txn.quantity * txn.price;
+  const parentQuantity = parentLots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const parentBasis = parentLots.reduce((sum, lot) => sum + lot.costBasis, 0);
+
+  if (parentQuantity <= 0) {
+    return [openLot(txn, txn.quantity, carried + txn.fees)];
+  }
+
+  const childCurrency = txn.stock?.currency;
+  const converted = !!parentCurrency && !!childCurrency && parentCurrency !== childCurrency;
+  const childRate = txn.fx_rate ?? 1;
+  const fraction = parentBasis > 0 ? Math.min(1, carried / parentBasis) : 0;
+  return parentLots.map((lot) => {
+    const share = lot.quantity / parentQuantity;
+    const moved = lot.costBasis * fraction;
+    lot.costBasis -= moved;
+    return {
+      id: `${txn.id}:${lot.id}`,
+      stockId: txn.stock_id,
+      acquiredDate: lot.acquiredDate,
+      quantity: txn.quantity * share,
+      costBasis: (converted ? (moved * lot.fxRate) / childRate : moved) + txn.fees * share,
+      fxRate: converted ? childRate : lot.fxRate,
+    };
+  });
+};
@@ -0,0 +1,199 @@
+import { FxRatePoint, Listing, MarketDataProvider, PriceBar, Quote, SymbolMatch } from './types';
+import { toDateKey, todayKey } from '../dates';
+
+export interface FixtureSecurity extends SymbolMatch {
+  startPrice: number;
+  // Mean and standard deviation of the simulated daily return
+  drift: number;
+  volatility: number;
+}
+
+export interface FixtureCurrency {
+  currency: string;
+  // US dollars per unit of the currency on the first day
+  usdRate: number;
+  drift: number;
+  volatility: number;
+}
+
+export interface MarketDataFixtures {
+  // First trading day of the generated series, YYYY-MM-DD
+  start: string;
+  securities: FixtureSecurity[];
+  // Rates against USD; cross rates are derived from them
+  currencies?: FixtureCurrency[];
+  // Explicit bars take precedence over the generated series for a symbol
+  history?: Record<string, PriceBar[]>;
+}
+
+interface FixtureProviderOptions {
+  // Last trading day the provider knows about, YYYY-MM-DD. Defaults to today.
+  asOf?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const hashSymbol = (symbol: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < symbol.length; i++) {
+    hash ^= symbol.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small seeded PRNG so every run yields identical prices
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const round = (value: number, decimals = 2) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+type SeriesParams = Pick<FixtureSecurity, 'symbol' | 'startPrice' | 'drift' | 'volatility'>;
+
+const generateHistory = (security: SeriesParams, start: string, end: string, decimals = 2): PriceBar[] => {
+  const random = createRandom(hashSymbol(security.symbol));
+  const bars: PriceBar[] = [];
+  const floor = 10 ** -decimals;
+  let close = security.startPrice;
+
+  for (let time = new Date(`${start}T00:00:00Z`).getTime(); toDateKey(new Date(time)) <= end; time += DAY_MS) {
+    const day = new Date(time).getUTCDay();
+    if (day === 0 || day === 6) continue;
+
+    // Box-Muller transform for a normally distributed daily return
+    const normal = Math.sqrt(-2 * Math.log(random() || Number.EPSILON)) * Math.cos(2 * Math.PI * random());
+    const open = close;
+    close = Math.max(floor, open * (1 + security.drift + security.volatility * normal));
+    const range = Math.abs(close - open) + open * security.volatility * random();
+
+    bars.push({
+      date: toDateKey(new Date(time)),
+      open: round(open, decimals),
+      high: round(Math.max(open, close) + range / 2, decimals),
+      low: round(Math.max(floor, Math.min(open, close) - range / 2), decimals),
+      close: round(close, decimals),
+      volume: Math.round(1_000_000 + random() * 9_000_000),
+    });
+  }
+
+  return bars;
+};
+
+export const createFixtureProvider = (
+  fixtures: MarketDataFixtures,
+  options: FixtureProviderOptions = {}
+): MarketDataProvider => {
+  const asOf = options.asOf || todayKey();
+  const securities = new Map(fixtures.securities.map((s) => [s.symbol.toUpperCase(), s]));
+  const historyCache = new Map<string, PriceBar[]>();
+
+  // Each fixture security has one listing; a listing on another exchange is unknown
+  const isListed = ({ symbol, exchange }: Listing) => {
+    const security = securities.get(symbol.toUpperCase());
+    return !exchange.trim() || !security || security.exchange.toUpperCase() === exchange.trim().toUpperCase();
+  };
+
+  const fullHistory = (symbol: string): PriceBar[] => {
+    const key = symbol.toUpperCase();
+    const cached = historyCache.get(key);
+    if (cached) return cached;
+
+    const explicit = fixtures.history?.[key];
+    const security = securities.get(key);
+    const bars = explicit
+      ? explicit.filter((bar) => bar.date <= asOf)
+      : security
+        ? generateHistory(security, fixtures.start, asOf)
+        : [];
+
+    historyCache.set(key, bars);
+    return bars;
+  };
+
+  // USD per unit of the currency by day; null for currencies without fixtures
+  const usdRates = (currency: string): Map<string, number> | null => {
+    const key = `FX:${currency.toUpperCase()}`;
+    if (currency.toUpperCase() === 'USD') return new Map();
+
+    const fixture = fixtures.currencies?.find((c) => c.currency.toUpperCase() === currency.toUpperCase());
+    if (!fixture) return null;
+
+    if (!historyCache.has(key)) {
+      const params = { symbol: key, startPrice: fixture.usdRate, drift: fixture.drift, volatility: fixture.volatility };
+      // Rates keep six decimals so currencies like JPY stay meaningful
+      historyCache.set(key, generateHistory(params, fixtures.start, asOf, 6));
+    }
+    return new Map(historyCache.get(key)!.map((bar) => [bar.date, bar.close]));
+  };
+
+  return {
+    name: 'fixture',
+    simulated: true,
+
+    async getQuote(listing) {
+      const bars = isListed(listing) ? fullHistory(listing.symbol) : [];
+      if (bars.length === 0) return null;
+
+      const symbol = listing.symbol.toUpperCase();
+      const security = securities.get(symbol);
+      const last = bars[bars.length - 1];
+      const previousClose = bars.length > 1 ? bars[bars.length - 2].close : last.open;
+      const quote: Quote = {
+        symbol,
+        exchange: security?.exchange || listing.exchange,
+        price: last.close,
+        previousClose,
+        change: round(last.close - previousClose),
+        changePercent: previousClose > 0 ? ((last.close - previousClose) / previousClose) * 100 : 0,
+        currency: security?.currency || 'USD',
+        date: last.date,
+      };
+      return quote;
+    },
+
+    async getDailyHistory(listing, from, to) {
+      if (!isListed(listing)) return [];
+      return fullHistory(listing.symbol).filter((bar) => bar.date >= from && bar.date <= to);
+    },
+
+    async searchSymbols(query) {
+      const term = query.trim().toUpperCase();
+      if (!term) return [];
+
+      return fixtures.securities
+        .filter((s) => s.symbol.startsWith(term) || s.name.toUpperCase().includes(term))
+        .sort((a, b) => Number(b.symbol.startsWith(term)) - Number(a.symbol.startsWith(term)))
+        .map(({ symbol, name, exchange, sector, industry, currency }) => ({
+          symbol,
+          name,
+          exchange,
+          sector,
+          industry,
+          currency,
+        }));
+    },
+
+    async getFxHistory(fromCurrency, toCurrency, from, to) {
+      const fromRates = usdRates(fromCurrency);
+      const toRates = usdRates(toCurrency);
+      if (!fromRates || !toRates) return [];
+
+      // USD has no series of its own; borrow the other side's trading days
+      const days = fromRates.size > 0 ? fromRates : toRates;
+      const points: FxRatePoint[] = [];
+      days.forEach((_, date) => {
+        if (date < from || date > to) return;
+        const rate = (fromRates.get(date) ?? 1) / (toRates.get(date) ?? 1);
+        points.push({ date, rate: round(rate, 6) });
+      });
+      return points;
+    },
+  };
+};
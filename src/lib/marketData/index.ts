@@ -0,0 +1,24 @@
+import { MarketDataProvider } from './types';
+
+export type { MarketDataProvider, Quote, PriceBar, SymbolMatch, FxRatePoint, Listing } from './types';
+export { createFixtureProvider } from './fixtureProvider';
+export type { MarketDataFixtures, FixtureSecurity, FixtureCurrency } from './fixtureProvider';
+
+// Until a provider is registered with setMarketDataProvider (e.g. in
+// main.tsx), nothing is quoted and prices come from stock_prices alone.
+const noMarketData: MarketDataProvider = {
+  name: 'none',
+  simulated: false,
+  getQuote: async () => null,
+  getDailyHistory: async () => [],
+  searchSymbols: async () => [],
+  getFxHistory: async () => [],
+};
+
+let provider: MarketDataProvider = noMarketData;
+
+export const getMarketDataProvider = () => provider;
+
+export const setMarketDataProvider = (next: MarketDataProvider) => {
+  provider = next;
+};
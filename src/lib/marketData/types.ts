@@ -0,0 +1,52 @@
+export interface Quote {
+  symbol: string;
+  exchange: string;
+  price: number;
+  previousClose: number;
+  change: number;
+  changePercent: number;
+  currency: string;
+  // Trading day of the quote, YYYY-MM-DD
+  date: string;
+}
+
+export interface PriceBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface FxRatePoint {
+  date: string;
+  // Units of the quote currency per unit of the base currency
+  rate: number;
+}
+
+export interface SymbolMatch {
+  symbol: string;
+  name: string;
+  exchange: string;
+  sector: string;
+  industry: string;
+  currency: string;
+}
+
+// A symbol on an exchange. An empty exchange means the symbol's primary listing.
+export type Listing = Pick<SymbolMatch, 'symbol' | 'exchange'>;
+
+// Every source of market data (fixtures, a vendor API, a backend proxy)
+// implements this interface so pages never depend on a specific vendor.
+export interface MarketDataProvider {
+  readonly name: string;
+  // Simulated prices (the fixtures) never win over stored closes
+  readonly simulated: boolean;
+  getQuote(listing: Listing): Promise<Quote | null>;
+  // Daily bars between from and to (inclusive, YYYY-MM-DD), oldest first
+  getDailyHistory(listing: Listing, from: string, to: string): Promise<PriceBar[]>;
+  searchSymbols(query: string): Promise<SymbolMatch[]>;
+  // Daily rates converting fromCurrency into toCurrency, oldest first
+  getFxHistory(fromCurrency: string, toCurrency: string, from: string, to: string): Promise<FxRatePoint[]>;
+}
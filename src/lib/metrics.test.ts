@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { buildPortfolioMetrics, MetricsMarketData } from './metrics';
+import { ClosePoint, CurrentPrice } from './prices';
+import { Portfolio, Stock, Transaction } from '../types';
+
+const stock = (id: string, currency: string, sector = 'Technology'): Stock => ({
+  id,
+  symbol: id,
+  name: id,
+  sector,
+  industry: '',
+  exchange: 'NASDAQ',
+  currency,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+});
+
+const portfolio: Portfolio = {
+  id: 'p1',
+  user_id: 'user-1',
+  name: 'Growth',
+  description: '',
+  initial_capital: 10000,
+  currency: 'USD',
+  allow_margin: false,
+  cost_basis_method: 'fifo',
+  created_at: '2024-01-02T00:00:00.000Z',
+  updated_at: '2024-01-02T00:00:00.000Z',
+};
+
+let nextId = 1;
+const txn = (fields: Partial<Transaction>): Transaction => ({
+  id: `t${nextId++}`,
+  portfolio_id: 'p1',
+  stock_id: 'AAPL',
+  transaction_type: 'buy',
+  quantity: 1,
+  price: 0,
+  fees: 0,
+  transaction_date: '2024-01-02T00:00:00.000Z',
+  notes: '',
+  created_at: '2024-01-02T00:00:00.000Z',
+  ...fields,
+});
+
+const aapl = stock('AAPL', 'USD');
+const sap = stock('SAP', 'EUR');
+const bats = stock('BATS', 'GBP', 'Consumer Staples');
+
+const transactions = [
+  txn({ stock: aapl, quantity: 10, price: 100 }),
+  txn({ stock_id: sap.id, stock: sap, quantity: 5, price: 100, fx_rate: 1.1 }),
+  txn({ stock_id: bats.id, stock: bats, quantity: 4, price: 25, fx_rate: 1.25 }),
+];
+
+const eurUsd: ClosePoint[] = [
+  { date: '2024-01-02', close: 1.1 },
+  { date: '2024-01-05', close: 1.2 },
+];
+
+const close = (stockId: string, value: number): [string, CurrentPrice] => [
+  stockId,
+  { stock_id: stockId, close: value, date: '2024-01-05', source: 'stored' },
+];
+
+// Today's closes for all three stocks, and rates into USD for EUR only
+const market = (fields: Partial<MetricsMarketData> = {}): MetricsMarketData => ({
+  portfolioId: 'p1',
+  baseCurrency: 'USD',
+  benchmarkSymbol: 'SPY',
+  valuation: { from: '2024-01-02', to: '2024-01-05', histories: new Map(), fxHistories: new Map([['EUR', eurUsd]]) },
+  currentPrices: new Map([close('AAPL', 120), close('SAP', 110), close('BATS', 30)]),
+  quoted: new Set(['AAPL', 'SAP', 'BATS']),
+  fxRates: new Map([
+    ['USD', 1],
+    ['EUR', 1.2],
+  ]),
+  benchmark: [],
+  snapshotRates: [],
+  ...fields,
+});
+
+describe('buildPortfolioMetrics', () => {
+  it('splits the gain of a foreign holding into price and exchange rate', () => {
+    const { metrics } = buildPortfolioMetrics(portfolio, transactions, null, market());
+    const holding = metrics.holdings.find((h) => h.stock.id === 'SAP')!;
+
+    expect(holding).toMatchObject({ isPriced: true, isConverted: true, fxRate: 1.2 });
+    expect(holding.totalCost).toBeCloseTo(550);
+    expect(holding.currentValue).toBeCloseTo(660);
+    expect(holding.priceGain).toBeCloseTo(60);
+    expect(holding.fxGain).toBeCloseTo(50);
+  });
+
+  it('leaves holdings without an exchange rate out of the totals', () => {
+    const { metrics } = buildPortfolioMetrics(portfolio, transactions, null, market());
+    const holding = metrics.holdings.find((h) => h.stock.id === 'BATS')!;
+
+    expect(holding).toMatchObject({ isPriced: false, isConverted: false, currentPrice: 30 });
+    expect(metrics.currency).toBe('USD');
+    expect(metrics.cashBalance).toBeCloseTo(10000 - 1000 - 550 - 125);
+    expect(metrics.totalValue).toBeCloseTo(1200 + 660 + metrics.cashBalance);
+    expect(metrics.totalGain).toBeCloseTo(200 + 110);
+    expect(metrics.sectorAllocation).toEqual([{ sector: 'Technology', value: 1860, percentage: 100 }]);
+    // The series has the one day the trades were made on
+    expect(metrics.unconvertedDays).toBe(1);
+  });
+
+  it('stays in the portfolio currency without a rate into the base currency', () => {
+    const { metrics } = buildPortfolioMetrics(
+      portfolio,
+      transactions.slice(0, 2),
+      null,
+      market({ baseCurrency: 'JPY', fxRates: new Map([['EUR', 160]]) })
+    );
+
+    expect(metrics.currency).toBe('USD');
+    expect(metrics.holdings.map((h) => [h.stock.id, h.fxRate])).toEqual([
+      ['AAPL', 1],
+      ['SAP', 1.2],
+    ]);
+    expect(metrics.totalValue).toBeCloseTo(1200 + 660 + 10000 - 1000 - 550);
+  });
+});
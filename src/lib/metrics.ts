@@ -0,0 +1,211 @@
+import { Holding, Portfolio, PortfolioMetrics, Transaction, UserPreferences } from '../types';
+import { ClosePoint, CurrentPrice, loadBenchmarkHistory, loadCurrentPrices } from './prices';
+import { buildValueSeries, loadValuationHistories, ValuationHistories, ValuePoint } from './valuation';
+import { calculateRiskMetrics } from './riskMetrics';
+import { isCashTransaction, replayLedger } from './ledger';
+import { loadFxHistory, loadFxRates, rateOn } from './fx';
+import { DEFAULT_CURRENCY } from './currency';
+import { DEFAULT_BENCHMARK_SYMBOL, DEFAULT_RISK_FREE_RATE } from './preferences';
+
+// Market data behind a portfolio's metrics. It depends on which stocks and
+// currencies the transactions touch rather than on the transactions
+// themselves, so most edits can be revalued without loading anything.
+export interface MetricsMarketData {
+  portfolioId: string;
+  baseCurrency: string;
+  benchmarkSymbol: string;
+  valuation: ValuationHistories;
+  // Latest close or quote by stock id; ids in `quoted` were looked up even if
+  // no price was found
+  currentPrices: Map<string, CurrentPrice>;
+  quoted: Set<string>;
+  // Today's rate from each currency into baseCurrency; currencies without a
+  // rate are missing
+  fxRates: Map<string, number>;
+  benchmark: ClosePoint[];
+  // Portfolio currency into baseCurrency, for restating snapshots
+  snapshotRates: ClosePoint[];
+}
+
+// Trades whose stock has since been removed cannot be valued
+const valuedTransactions = (transactions: Transaction[]) =>
+  transactions.filter((txn) => isCashTransaction(txn.transaction_type) || txn.stock);
+
+const openPositions = (portfolio: Portfolio, transactions: Transaction[]) =>
+  Array.from(replayLedger(portfolio, transactions).positions.values()).filter(
+    (position) => position.stock && position.quantity > 0
+  );
+
+// Loads what `previous` lacks: quotes and rates for new holdings and
+// histories for new stocks. Everything is reloaded when the portfolio, base
+// currency, benchmark or the series' date range changes.
+export const loadMetricsMarketData = async (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  preferences: UserPreferences | null,
+  previous: MetricsMarketData | null
+): Promise<MetricsMarketData> => {
+  const baseCurrency = preferences?.base_currency || DEFAULT_CURRENCY;
+  const benchmarkSymbol = preferences?.benchmark_symbol || DEFAULT_BENCHMARK_SYMBOL;
+  const valued = valuedTransactions(transactions);
+
+  const valuation = await loadValuationHistories(portfolio, valued, previous?.valuation);
+  const reusable =
+    previous &&
+    previous.portfolioId === portfolio.id &&
+    previous.baseCurrency === baseCurrency &&
+    previous.benchmarkSymbol === benchmarkSymbol &&
+    previous.valuation.from === valuation.from &&
+    previous.valuation.to === valuation.to
+      ? previous
+      : null;
+
+  const stocks = openPositions(portfolio, valued)
+    .map((position) => position.stock!)
+    .filter((stock) => !reusable?.quoted.has(stock.id));
+  const currencies = [portfolio.currency, ...stocks.map((stock) => stock.currency || portfolio.currency)].filter(
+    (currency) => !reusable?.fxRates.has(currency)
+  );
+
+  const [currentPrices, fxRates, benchmark, snapshotRates] = await Promise.all([
+    loadCurrentPrices(stocks),
+    loadFxRates(currencies, baseCurrency),
+    reusable ? reusable.benchmark : loadBenchmarkHistory(benchmarkSymbol, valuation.from, valuation.to),
+    reusable ? reusable.snapshotRates : loadFxHistory(portfolio.currency, baseCurrency, valuation.from, valuation.to),
+  ]);
+
+  return {
+    portfolioId: portfolio.id,
+    baseCurrency,
+    benchmarkSymbol,
+    valuation,
+    currentPrices: new Map([...(reusable?.currentPrices || []), ...currentPrices]),
+    quoted: new Set([...(reusable?.quoted || []), ...stocks.map((stock) => stock.id)]),
+    fxRates: new Map([...(reusable?.fxRates || []), ...fxRates]),
+    benchmark,
+    snapshotRates,
+  };
+};
+
+// Values the portfolio against already loaded market data. Every amount is in
+// the base currency; the value series stays in the portfolio's currency.
+// Without today's rate and a rate history from the portfolio's currency into
+// the base currency, amounts stay in the portfolio's currency instead.
+export const buildPortfolioMetrics = (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  preferences: UserPreferences | null,
+  market: MetricsMarketData
+): { metrics: PortfolioMetrics; series: ValuePoint[] } => {
+  const valued = valuedTransactions(transactions);
+  const ledger = replayLedger(portfolio, valued);
+  const positions = Array.from(ledger.positions.values()).filter((position) => position.stock);
+  const inBaseCurrency =
+    portfolio.currency === market.baseCurrency ||
+    (market.fxRates.has(portfolio.currency) && market.snapshotRates.length > 0);
+  // Ledger amounts are in the portfolio's currency
+  const cashRate = inBaseCurrency ? market.fxRates.get(portfolio.currency)! : 1;
+  const rateFor = (currency: string) => {
+    if (inBaseCurrency) return market.fxRates.get(currency);
+    if (currency === portfolio.currency) return 1;
+    return rateOn(market.valuation.fxHistories.get(currency) || [], market.valuation.to);
+  };
+
+  // Cost is carried at the rates the lots were bought at, so the gap to
+  // the cost at today's rate is the holding's FX gain.
+  const holdings: Holding[] = positions.map((position) => {
+    const costInPortfolioCurrency = position.lots.reduce((sum, lot) => sum + lot.costBasis * lot.fxRate, 0);
+    const fxRate = rateFor(position.stock!.currency || portfolio.currency);
+    return {
+      stock: position.stock!,
+      quantity: position.quantity,
+      averagePrice: position.totalCost / position.quantity,
+      currentPrice: 0,
+      fxRate: fxRate ?? 0,
+      priceDate: null,
+      isPriced: false,
+      isConverted: fxRate !== undefined,
+      totalCost: costInPortfolioCurrency * cashRate,
+      currentValue: 0,
+      unrealizedGain: 0,
+      unrealizedGainPercent: 0,
+      priceGain: 0,
+      fxGain: 0,
+      weight: 0,
+      lots: position.lots,
+    };
+  });
+  const totalCost = holdings.reduce((sum, h) => sum + h.totalCost, 0);
+
+  // Holdings without any known close or exchange rate stay unpriced and are
+  // left out of value and gain totals rather than being valued at cost.
+  holdings.forEach((holding) => {
+    const latestPrice = market.currentPrices.get(holding.stock.id);
+    if (!latestPrice) return;
+
+    const nativeCost = holding.averagePrice * holding.quantity;
+    holding.currentPrice = latestPrice.close;
+    holding.priceDate = latestPrice.date;
+    if (!holding.isConverted) return;
+
+    holding.isPriced = true;
+    holding.currentValue = holding.quantity * latestPrice.close * holding.fxRate;
+    holding.priceGain = (holding.quantity * latestPrice.close - nativeCost) * holding.fxRate;
+    holding.fxGain = nativeCost * holding.fxRate - holding.totalCost;
+    holding.unrealizedGain = holding.currentValue - holding.totalCost;
+    holding.unrealizedGainPercent = (holding.unrealizedGain / holding.totalCost) * 100;
+  });
+
+  const pricedHoldings = holdings.filter((h) => h.isPriced);
+  const holdingsValue = pricedHoldings.reduce((sum, h) => sum + h.currentValue, 0);
+  const pricedCost = pricedHoldings.reduce((sum, h) => sum + h.totalCost, 0);
+
+  pricedHoldings.forEach((holding) => {
+    holding.weight = holdingsValue > 0 ? (holding.currentValue / holdingsValue) * 100 : 0;
+  });
+
+  const sectorMap = new Map<string, number>();
+  pricedHoldings.forEach((holding) => {
+    const sector = holding.stock.sector || 'Unknown';
+    sectorMap.set(sector, (sectorMap.get(sector) || 0) + holding.currentValue);
+  });
+
+  const sectorAllocation = Array.from(sectorMap.entries()).map(([sector, value]) => ({
+    sector,
+    value,
+    percentage: (value / holdingsValue) * 100,
+  }));
+
+  const series = buildValueSeries(
+    portfolio,
+    valued,
+    market.valuation.histories,
+    market.valuation.fxHistories,
+    market.valuation.to
+  );
+  const riskMetrics = calculateRiskMetrics(
+    series,
+    market.benchmark,
+    preferences?.risk_free_rate ?? DEFAULT_RISK_FREE_RATE
+  );
+
+  return {
+    metrics: {
+      currency: inBaseCurrency ? market.baseCurrency : portfolio.currency,
+      totalValue: holdingsValue + ledger.cash * cashRate,
+      cashBalance: ledger.cash * cashRate,
+      netContributions: ledger.contributions * cashRate,
+      totalIncome: ledger.income * cashRate,
+      realizedGain: ledger.realizedGains.reduce((sum, gain) => sum + gain.gain, 0) * cashRate,
+      totalCost,
+      totalGain: holdingsValue - pricedCost,
+      totalGainPercent: pricedCost > 0 ? ((holdingsValue - pricedCost) / pricedCost) * 100 : 0,
+      fxGain: pricedHoldings.reduce((sum, h) => sum + h.fxGain, 0),
+      ...riskMetrics,
+      holdings,
+      sectorAllocation,
+      unconvertedDays: series.filter((point) => point.unconverted).length,
+    },
+    series,
+  };
+};
@@ -0,0 +1,13 @@
+import { getDataStore } from './data';
+import { NotificationSettings, UserPreferences } from '../types';
+
+export const DEFAULT_RISK_FREE_RATE = 4;
+export const DEFAULT_BENCHMARK_SYMBOL = 'SPY';
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  price_alerts: true,
+  portfolio_alerts: true,
+  browser: false,
+};
+
+export const loadUserPreferences = (userId: string): Promise<UserPreferences | null> =>
+  getDataStore().preferences.getByUser(userId);
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { loadBenchmarkHistory, loadCurrentPrices, loadPriceHistory } from './prices';
+import { createMemoryStore, setDataStore } from './data';
+import { createFixtureProvider, MarketDataProvider, Quote, setMarketDataProvider } from './marketData';
+import { Stock, StockPrice } from '../types';
+
+const stock = (id: string, symbol: string, exchange: string): Stock => ({
+  id,
+  symbol,
+  name: symbol,
+  sector: 'Technology',
+  industry: '',
+  exchange,
+  currency: 'USD',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+});
+
+const price = (stockId: string, date: string, close: number): StockPrice => ({
+  id: `${stockId}_${date}`,
+  stock_id: stockId,
+  date: `${date}T00:00:00.000Z`,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 0,
+  created_at: `${date}T00:00:00.000Z`,
+});
+
+const aapl = stock('AAPL:NASDAQ', 'AAPL', 'NASDAQ');
+
+const fixtures = {
+  start: '2024-01-01',
+  securities: [
+    {
+      symbol: 'AAPL',
+      name: 'Apple Inc.',
+      exchange: 'NASDAQ',
+      sector: 'Technology',
+      industry: '',
+      currency: 'USD',
+      startPrice: 100,
+      drift: 0,
+      volatility: 0.01,
+    },
+  ],
+};
+
+// A vendor provider quoting one listing in USD on the given day
+const vendor = (date: string, quote: Partial<Quote> = {}): MarketDataProvider => ({
+  name: 'vendor',
+  simulated: false,
+  getQuote: async ({ symbol, exchange }) =>
+    symbol === 'AAPL' && exchange === 'NASDAQ'
+      ? { symbol, exchange, price: 190, previousClose: 185, change: 5, changePercent: 2.7, currency: 'USD', date, ...quote }
+      : null,
+  getDailyHistory: async () => [{ date: '2024-01-03', open: 1, high: 1, low: 1, close: 186, volume: 0 }],
+  searchSymbols: async () => [],
+  getFxHistory: async () => [],
+});
+
+beforeEach(() => {
+  setDataStore(createMemoryStore({ stocks: [aapl], stockPrices: [price(aapl.id, '2024-01-02', 185)] }));
+});
+
+describe('loadCurrentPrices', () => {
+  it('prefers the stored close over a simulated quote', async () => {
+    setMarketDataProvider(createFixtureProvider(fixtures, { asOf: '2024-01-10' }));
+
+    const prices = await loadCurrentPrices([aapl]);
+    expect(prices.get(aapl.id)).toMatchObject({ close: 185, source: 'stored' });
+  });
+
+  it('uses a newer quote from a real provider', async () => {
+    setMarketDataProvider(vendor('2024-01-03'));
+
+    const prices = await loadCurrentPrices([aapl]);
+    expect(prices.get(aapl.id)).toMatchObject({ close: 190, source: 'provider' });
+  });
+
+  it('ignores quotes for another listing or in another currency', async () => {
+    const listedElsewhere = stock('AAPL:XETRA', 'AAPL', 'XETRA');
+    setMarketDataProvider(vendor('2024-01-03', { currency: 'EUR' }));
+
+    const prices = await loadCurrentPrices([aapl, listedElsewhere]);
+    expect(prices.get(aapl.id)).toMatchObject({ close: 185, source: 'stored' });
+    expect(prices.has(listedElsewhere.id)).toBe(false);
+  });
+});
+
+describe('loadPriceHistory', () => {
+  it('leaves out simulated bars when closes are stored', async () => {
+    setMarketDataProvider(createFixtureProvider(fixtures, { asOf: '2024-01-10' }));
+
+    expect(await loadPriceHistory(aapl, '2024-01-01', '2024-01-10')).toEqual([{ date: '2024-01-02', close: 185 }]);
+  });
+
+  it('fills days without a stored close from a real provider', async () => {
+    setMarketDataProvider(vendor('2024-01-03'));
+
+    expect(await loadPriceHistory(aapl, '2024-01-01', '2024-01-10')).toEqual([
+      { date: '2024-01-02', close: 185 },
+      { date: '2024-01-03', close: 186 },
+    ]);
+  });
+});
+
+describe('loadBenchmarkHistory', () => {
+  it('prices a recorded benchmark from its stored closes', async () => {
+    setMarketDataProvider(createFixtureProvider(fixtures, { asOf: '2024-01-10' }));
+
+    expect(await loadBenchmarkHistory('aapl', '2024-01-01', '2024-01-10')).toEqual([
+      { date: '2024-01-02', close: 185 },
+    ]);
+  });
+});
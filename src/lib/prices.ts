@@ -0,0 +1,118 @@
+import { getDataStore } from './data';
+import { getMarketDataProvider, Listing } from './marketData';
+import { toDateKey } from './dates';
+import { Stock, StockPrice } from '../types';
+
+export interface CurrentPrice {
+  stock_id: string;
+  close: number;
+  date: string;
+  source: 'stored' | 'provider';
+}
+
+export interface ClosePoint {
+  // YYYY-MM-DD
+  date: string;
+  close: number;
+}
+
+export const loadLatestPrice = (stockId: string): Promise<StockPrice | null> =>
+  getDataStore().prices.latest(stockId);
+
+// Returns the most recent close for each stock. Stocks without any stored
+// price are left out of the map so callers can flag them as unpriced.
+export const loadLatestPrices = async (stockIds: string[]): Promise<Map<string, StockPrice>> => {
+  const uniqueIds = Array.from(new Set(stockIds));
+  const prices = await Promise.all(uniqueIds.map((stockId) => loadLatestPrice(stockId)));
+
+  const priceMap = new Map<string, StockPrice>();
+  prices.forEach((price) => {
+    if (price) {
+      priceMap.set(price.stock_id, price);
+    }
+  });
+
+  return priceMap;
+};
+
+// Picks the newer of the stored close and the market data provider's quote
+// for each stock. A simulated provider's quote is used only for stocks with
+// no stored close, and a quote in another currency than the stock's is
+// ignored. A provider failure falls back to stored prices only.
+export const loadCurrentPrices = async (stocks: Stock[]): Promise<Map<string, CurrentPrice>> => {
+  const provider = getMarketDataProvider();
+  const [storedPrices, quotes] = await Promise.all([
+    loadLatestPrices(stocks.map((s) => s.id)),
+    Promise.all(
+      stocks.map((stock) =>
+        provider.getQuote({ symbol: stock.symbol, exchange: stock.exchange }).catch((error) => {
+          console.error(`Error fetching quote for ${stock.symbol}:`, error);
+          return null;
+        })
+      )
+    ),
+  ]);
+
+  const currentPrices = new Map<string, CurrentPrice>();
+  stocks.forEach((stock, index) => {
+    const stored = storedPrices.get(stock.id);
+    const quote = quotes[index];
+    const quoteDate = quote && quote.currency === stock.currency ? new Date(quote.date).toISOString() : null;
+
+    if (quote && quoteDate && (!stored || (!provider.simulated && quoteDate > stored.date))) {
+      currentPrices.set(stock.id, { stock_id: stock.id, close: quote.price, date: quoteDate, source: 'provider' });
+    } else if (stored) {
+      currentPrices.set(stock.id, { stock_id: stock.id, close: stored.close, date: stored.date, source: 'stored' });
+    }
+  });
+
+  return currentPrices;
+};
+
+export const loadStoredPriceHistory = (stockId: string, from: string, to: string): Promise<StockPrice[]> =>
+  getDataStore().prices.history(stockId, from, to);
+
+const loadProviderHistory = async (listing: Listing, from: string, to: string): Promise<ClosePoint[]> => {
+  try {
+    const bars = await getMarketDataProvider().getDailyHistory(listing, from, to);
+    return bars.map((bar) => ({ date: bar.date, close: bar.close }));
+  } catch (error) {
+    console.error(`Error fetching history for ${listing.symbol}:`, error);
+    return [];
+  }
+};
+
+// Daily closes for a stock, oldest first. Stored prices win over provider
+// bars for the same day, and a simulated provider's bars are used only when
+// nothing is stored for the range.
+export const loadPriceHistory = async (stock: Stock, from: string, to: string): Promise<ClosePoint[]> => {
+  const [stored, providerHistory] = await Promise.all([
+    loadStoredPriceHistory(stock.id, from, to),
+    loadProviderHistory({ symbol: stock.symbol, exchange: stock.exchange }, from, to),
+  ]);
+
+  const closes = new Map<string, number>();
+  if (stored.length === 0 || !getMarketDataProvider().simulated) {
+    providerHistory.forEach((point) => closes.set(point.date, point.close));
+  }
+  stored.forEach((price) => closes.set(toDateKey(price.date), price.close));
+
+  return Array.from(closes.entries())
+    .map(([date, close]) => ({ date, close }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Benchmarks are plain symbols that need not exist in the stocks collection.
+// One that does is priced like any stock; otherwise its history comes from
+// the market data provider.
+export const loadBenchmarkHistory = async (symbol: string, from: string, to: string): Promise<ClosePoint[]> => {
+  const stock = await getDataStore()
+    .stocks.findBySymbol(symbol.toUpperCase())
+    .catch((error) => {
+      console.error(`Error looking up benchmark ${symbol}:`, error);
+      return null;
+    });
+  return stock
+    ? loadPriceHistory(stock, from, to)
+    : loadProviderHistory({ symbol: symbol.toUpperCase(), exchange: '' }, from, to);
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { buildRealizedGains, filterRealizedGains, isLongTerm, summarizeByYear, totalRealizedGains } from './realizedGains';
+import { RealizedGain, TaxLot, Transaction } from '../types';
+
+const sell = (fields: Partial<Transaction> = {}): Transaction => ({
+  id: 'sell',
+  portfolio_id: 'p',
+  stock_id: 'SAP',
+  transaction_type: 'sell',
+  quantity: 10,
+  price: 120,
+  fees: 10,
+  transaction_date: '2024-06-03T00:00:00.000Z',
+  notes: '',
+  created_at: '2024-06-03T00:00:00.000Z',
+  ...fields,
+});
+
+const lot = (id: string, acquiredDate: string, fxRate = 1): TaxLot => ({
+  id,
+  stockId: 'SAP',
+  acquiredDate,
+  quantity: 10,
+  costBasis: 1000,
+  fxRate,
+});
+
+describe('isLongTerm', () => {
+  it('is short-term up to and including the first anniversary', () => {
+    expect(isLongTerm('2023-03-01T00:00:00.000Z', '2024-03-01T00:00:00.000Z')).toBe(false);
+    expect(isLongTerm('2023-03-01T00:00:00.000Z', '2024-03-02T00:00:00.000Z')).toBe(true);
+  });
+});
+
+describe('buildRealizedGains', () => {
+  it('splits the sale fees over the lots by shares and sets the term per lot', () => {
+    const gains = buildRealizedGains(sell(), [
+      { lot: lot('old', '2023-01-10T00:00:00.000Z'), quantity: 6, costBasis: 600 },
+      { lot: lot('new', '2024-01-10T00:00:00.000Z'), quantity: 4, costBasis: 400 },
+    ]);
+
+    expect(gains.map((gain) => [gain.lotId, gain.proceeds, gain.fees, gain.gain, gain.term])).toEqual([
+      ['old', 720, 6, 114, 'long'],
+      ['new', 480, 4, 76, 'short'],
+    ]);
+    expect(gains[1].holdingDays).toBe(145);
+  });
+
+  it('converts proceeds at the sale rate and basis at the purchase rate', () => {
+    const [gain] = buildRealizedGains(sell({ fx_rate: 1.1, fees: 0 }), [
+      { lot: lot('a', '2023-01-10T00:00:00.000Z', 1.2), quantity: 10, costBasis: 1000 },
+    ]);
+    expect(gain.proceeds).toBeCloseTo(1320);
+    expect(gain.costBasis).toBeCloseTo(1200);
+    expect(gain.gain).toBeCloseTo(120);
+  });
+});
+
+describe('totals', () => {
+  const gain = (soldDate: string, value: number, term: RealizedGain['term']) =>
+    ({ soldDate, gain: value, term, proceeds: value + 100, costBasis: 100, fees: 0 }) as RealizedGain;
+
+  const gains = [
+    gain('2023-05-01T00:00:00.000Z', 50, 'short'),
+    gain('2024-02-01T00:00:00.000Z', 100, 'long'),
+    gain('2024-12-31T00:00:00.000Z', -30, 'short'),
+  ];
+
+  it('keeps sales between two dates, both inclusive', () => {
+    expect(filterRealizedGains(gains, '2024-02-01', '2024-12-31')).toHaveLength(2);
+  });
+
+  it('adds up short-term and long-term gains separately', () => {
+    expect(totalRealizedGains(gains)).toMatchObject({ shortTerm: 20, longTerm: 100, total: 120 });
+  });
+
+  it('summarizes each year of sale, most recent first', () => {
+    expect(summarizeByYear(gains).map((year) => [year.year, year.total])).toEqual([
+      [2024, 70],
+      [2023, 50],
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import { RealizedGain, Transaction } from '../types';
+import { ClosedLot } from './lots';
+import { toDateKey } from './dates';
+
+export interface RealizedGainTotals {
+  proceeds: number;
+  costBasis: number;
+  fees: number;
+  shortTerm: number;
+  longTerm: number;
+  total: number;
+}
+
+export interface YearlyRealizedGains extends RealizedGainTotals {
+  year: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Long-term once held for more than a year, i.e. sold after the first
+// anniversary of the acquisition date.
+export const isLongTerm = (acquiredDate: string, soldDate: string) => {
+  const anniversary = new Date(acquiredDate);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return toDateKey(soldDate) > toDateKey(anniversary);
+};
+
+export const buildRealizedGains = (sell: Transaction, closed: ClosedLot[]): RealizedGain[] =>
+  closed.map(({ lot, quantity, costBasis: nativeBasis }) => {
+    const share = sell.quantity > 0 ? quantity / sell.quantity : 0;
+    const saleRate = sell.fx_rate ?? 1;
+    const proceeds = quantity * sell.price * saleRate;
+    const fees = sell.fees * share * saleRate;
+    const costBasis = nativeBasis * lot.fxRate;
+    return {
+      transactionId: sell.id,
+      stockId: sell.stock_id,
+      stock: sell.stock,
+      lotId: lot.id,
+      acquiredDate: lot.acquiredDate,
+      soldDate: sell.transaction_date,
+      quantity,
+      proceeds,
+      fees,
+      costBasis,
+      gain: proceeds - fees - costBasis,
+      holdingDays: Math.round(
+        (Date.parse(toDateKey(sell.transaction_date)) - Date.parse(toDateKey(lot.acquiredDate))) / DAY_MS
+      ),
+      term: isLongTerm(lot.acquiredDate, sell.transaction_date) ? 'long' : 'short',
+    };
+  });
+
+// Keeps sales between two YYYY-MM-DD keys, both inclusive
+export const filterRealizedGains = (gains: RealizedGain[], from: string, to: string) =>
+  gains.filter((gain) => {
+    const sold = toDateKey(gain.soldDate);
+    return sold >= from && sold <= to;
+  });
+
+export const totalRealizedGains = (gains: RealizedGain[]): RealizedGainTotals =>
+  gains.reduce(
+    (totals, gain) => ({
+      proceeds: totals.proceeds + gain.proceeds,
+      costBasis: totals.costBasis + gain.costBasis,
+      fees: totals.fees + gain.fees,
+      shortTerm: totals.shortTerm + (gain.term === 'short' ? gain.gain : 0),
+      longTerm: totals.longTerm + (gain.term === 'long' ? gain.gain : 0),
+      total: totals.total + gain.gain,
+    }),
+    { proceeds: 0, costBasis: 0, fees: 0, shortTerm: 0, longTerm: 0, total: 0 }
+  );
+
+// Totals per calendar year of sale, most recent year first
+export const summarizeByYear = (gains: RealizedGain[]): YearlyRealizedGains[] => {
+  const byYear = new Map<number, RealizedGain[]>();
+  gains.forEach((gain) => {
+    const year = new Date(gain.soldDate).getUTCFullYear();
+    byYear.set(year, [...(byYear.get(year) || []), gain]);
+  });
+
+  return Array.from(byYear.entries())
+    .map(([year, yearGains]) => ({ year, ...totalRealizedGains(yearGains) }))
+    .sort((a, b) => b.year - a.year);
+};
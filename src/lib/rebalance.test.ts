@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDrift, planRebalance, PlannerPosition } from './rebalance';
+
+const position = (symbol: string, sector: string, quantity: number, price: number, fxRate = 1): PlannerPosition => ({
+  symbol,
+  name: symbol,
+  sector,
+  quantity,
+  currency: fxRate === 1 ? 'USD' : 'EUR',
+  price,
+  fxRate,
+});
+
+const settings = {
+  basis: 'symbol' as const,
+  targets: [
+    { key: 'AAA', weight: 50 },
+    { key: 'BBB', weight: 50 },
+  ],
+  tolerance: 5,
+  fractional_shares: false,
+  fee_per_trade: 0,
+};
+
+describe('calculateDrift', () => {
+  it('compares each weight, cash included in the total, with its target, largest drift first', () => {
+    const rows = calculateDrift([position('AAA', 'Tech', 7, 100), position('BBB', 'Energy', 2, 100)], settings, 100);
+    expect(rows.map((row) => [row.key, row.currentWeight, row.drift, row.outsideBand])).toEqual([
+      ['BBB', 20, -30, true],
+      ['AAA', 70, 20, true],
+    ]);
+  });
+
+  it('groups holdings by sector and lists sectors without a target', () => {
+    const rows = calculateDrift(
+      [position('AAA', 'Tech', 5, 100), position('CCC', 'Tech', 3, 100), position('BBB', 'Energy', 2, 100)],
+      { ...settings, basis: 'sector', targets: [{ key: 'Tech', weight: 80 }] },
+      0
+    );
+    expect(rows.map((row) => [row.key, row.currentWeight, row.targetWeight])).toEqual([
+      ['Energy', 20, 0],
+      ['Tech', 80, 80],
+    ]);
+  });
+});
+
+describe('planRebalance', () => {
+  it('sells the overweight holding to fund the underweight one, in whole shares', () => {
+    const plan = planRebalance([position('AAA', 'Tech', 8, 100), position('BBB', 'Energy', 2, 100)], settings, 0);
+    expect(plan.orders.map((order) => [order.symbol, order.side, order.quantity])).toEqual([
+      ['AAA', 'sell', 3],
+      ['BBB', 'buy', 3],
+    ]);
+    expect(plan.cashAfter).toBe(0);
+  });
+
+  it('values holdings in the planning currency', () => {
+    const plan = planRebalance(
+      [position('AAA', 'Tech', 10, 100), position('BBB', 'Energy', 10, 50, 2)],
+      { ...settings, targets: [{ key: 'AAA', weight: 50 }, { key: 'BBB', weight: 50 }] },
+      0
+    );
+    expect(plan.orders).toEqual([]);
+  });
+
+  it('scales buys down to the cash available instead of overdrawing', () => {
+    const plan = planRebalance(
+      [position('AAA', 'Tech', 0, 100), position('BBB', 'Energy', 0, 100)],
+      { ...settings, fee_per_trade: 5 },
+      1000
+    );
+    expect(plan.orders.map((order) => [order.symbol, order.quantity])).toEqual([
+      ['AAA', 4],
+      ['BBB', 4],
+    ]);
+    expect(plan.cashAfter).toBe(190);
+    expect(plan.unplaced).toEqual([]);
+  });
+
+  it('reports target drift it has no priced security for', () => {
+    const plan = planRebalance([position('AAA', 'Tech', 10, 100)], settings, 0);
+    expect(plan.unplaced).toEqual([{ key: 'BBB', amount: 500, reason: 'No priced security to trade' }]);
+  });
+});
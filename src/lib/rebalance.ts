@@ -0,0 +1,154 @@
+import { PortfolioTargets, Stock } from '../types';
+
+export interface PlannerPosition {
+  symbol: string;
+  name: string;
+  sector: string;
+  // Missing for target symbols the portfolio has never traded
+  stock?: Stock;
+  quantity: number;
+  // The security's trading currency; price is quoted in it
+  currency: string;
+  price: number;
+  // Planning currency per unit of the security's currency
+  fxRate: number;
+}
+
+export interface DriftRow {
+  key: string;
+  currentValue: number;
+  currentWeight: number;
+  targetWeight: number;
+  // Percentage points above (positive) or below (negative) target
+  drift: number;
+  outsideBand: boolean;
+}
+
+export interface ProposedOrder {
+  symbol: string;
+  name: string;
+  sector: string;
+  stock?: Stock;
+  side: 'buy' | 'sell';
+  quantity: number;
+  currency: string;
+  price: number;
+  fxRate: number;
+  // In the planning currency
+  fees: number;
+}
+
+export interface RebalancePlan {
+  orders: ProposedOrder[];
+  cashBefore: number;
+  cashAfter: number;
+  // Drift that could not be turned into an order, with the reason
+  unplaced: { key: string; amount: number; reason: string }[];
+}
+
+type TargetSettings = Pick<PortfolioTargets, 'basis' | 'targets' | 'tolerance' | 'fractional_shares' | 'fee_per_trade'>;
+
+const positionKey = (position: PlannerPosition, basis: TargetSettings['basis']) =>
+  basis === 'sector' ? position.sector || 'Unknown' : position.symbol;
+
+// Price of one unit in the planning currency
+const unitValue = (position: PlannerPosition) => position.price * position.fxRate;
+
+const positionValue = (position: PlannerPosition) => position.quantity * unitValue(position);
+
+const roundQuantity = (quantity: number, fractional: boolean) =>
+  fractional ? Math.floor(quantity * 10000) / 10000 : Math.floor(quantity);
+
+export const calculateDrift = (positions: PlannerPosition[], settings: TargetSettings, cash: number): DriftRow[] => {
+  const totalValue = positions.reduce((sum, p) => sum + positionValue(p), 0) + cash;
+  const currentValues = new Map<string, number>();
+  positions.forEach((position) => {
+    const key = positionKey(position, settings.basis);
+    currentValues.set(key, (currentValues.get(key) || 0) + positionValue(position));
+  });
+
+  const keys = new Set([...settings.targets.map((t) => t.key), ...currentValues.keys()]);
+  return Array.from(keys)
+    .map((key) => {
+      const currentValue = currentValues.get(key) || 0;
+      const currentWeight = totalValue > 0 ? (currentValue / totalValue) * 100 : 0;
+      const targetWeight = settings.targets.find((t) => t.key === key)?.weight || 0;
+      const drift = currentWeight - targetWeight;
+      return {
+        key,
+        currentValue,
+        currentWeight,
+        targetWeight,
+        drift,
+        outsideBand: Math.abs(drift) > settings.tolerance,
+      };
+    })
+    .sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+};
+
+// Proposes the trades that bring every row outside the tolerance band back to
+// its target. Sells run first so their proceeds can fund buys; if cash still
+// falls short, buys are scaled down proportionally rather than overdrawing.
+export const planRebalance = (positions: PlannerPosition[], settings: TargetSettings, cash: number): RebalancePlan => {
+  const totalValue = positions.reduce((sum, p) => sum + positionValue(p), 0) + cash;
+  const fee = settings.fee_per_trade;
+  const unplaced: RebalancePlan['unplaced'] = [];
+  const deltas = new Map<PlannerPosition, number>();
+
+  calculateDrift(positions, settings, cash)
+    .filter((row) => row.outsideBand)
+    .forEach((row) => {
+      const delta = (-row.drift / 100) * totalValue;
+      const candidates = positions.filter((p) => positionKey(p, settings.basis) === row.key && p.price > 0);
+
+      if (candidates.length === 0) {
+        unplaced.push({ key: row.key, amount: delta, reason: 'No priced security to trade' });
+        return;
+      }
+
+      // Sector drift is spread over the sector's holdings by current value
+      const sectorValue = candidates.reduce((sum, p) => sum + positionValue(p), 0);
+      candidates.forEach((position) => {
+        const share = sectorValue > 0 ? positionValue(position) / sectorValue : 1 / candidates.length;
+        deltas.set(position, (deltas.get(position) || 0) + delta * share);
+      });
+    });
+
+  const orders: ProposedOrder[] = [];
+  let available = cash;
+
+  deltas.forEach((delta, position) => {
+    if (delta >= 0) return;
+
+    const quantity = Math.min(position.quantity, roundQuantity(-delta / unitValue(position), settings.fractional_shares));
+    const proceeds = quantity * unitValue(position) - fee;
+    if (quantity <= 0 || proceeds <= 0) return;
+
+    orders.push({ ...position, side: 'sell', quantity, fees: fee });
+    available += proceeds;
+  });
+
+  const buys = Array.from(deltas.entries())
+    .filter(([, delta]) => delta > 0)
+    .sort(([, a], [, b]) => b - a);
+  const buyNeed = buys.reduce((sum, [, delta]) => sum + delta + fee, 0);
+  const scale = buyNeed > available ? Math.max(0, available - fee * buys.length) / (buyNeed - fee * buys.length) : 1;
+
+  buys.forEach(([position, delta]) => {
+    const quantity = roundQuantity((delta * scale) / unitValue(position), settings.fractional_shares);
+    const cost = quantity * unitValue(position) + fee;
+    if (quantity <= 0) {
+      unplaced.push({ key: position.symbol, amount: delta, reason: 'Amount is below one tradable unit' });
+      return;
+    }
+    if (cost > available) {
+      unplaced.push({ key: position.symbol, amount: delta, reason: 'Not enough cash' });
+      return;
+    }
+
+    orders.push({ ...position, side: 'buy', quantity, fees: fee });
+    available -= cost;
+  });
+
+  return { orders, cashBefore: cash, cashAfter: available, unplaced };
+};
@@ -0,0 +1,29 @@
+// Dismissed and snoozed recommendations are a per-browser view preference,
+// so they live in localStorage rather than Firestore.
+export interface RecommendationState {
+  dismissed: string[];
+  // Recommendation id -> ISO time the snooze ends
+  snoozed: Record<string, string>;
+}
+
+const storageKey = (userId: string) => `recommendations:${userId}`;
+
+export const loadRecommendationState = (userId: string): RecommendationState => {
+  try {
+    const raw = localStorage.getItem(storageKey(userId));
+    if (raw) {
+      const parsed = JSON.parse(raw) as Partial<RecommendationState>;
+      return { dismissed: parsed.dismissed || [], snoozed: parsed.snoozed || {} };
+    }
+  } catch (error) {
+    console.error('Error reading recommendation state:', error);
+  }
+  return { dismissed: [], snoozed: {} };
+};
+
+export const saveRecommendationState = (userId: string, state: RecommendationState) => {
+  localStorage.setItem(storageKey(userId), JSON.stringify(state));
+};
+
+export const isRecommendationHidden = (state: RecommendationState, id: string, now = new Date()) =>
+  state.dismissed.includes(id) || (state.snoozed[id] !== undefined && new Date(state.snoozed[id]) > now);
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { generateRecommendations } from './recommendations';
+import { Holding, PortfolioMetrics, Stock, UserPreferences } from '../types';
+
+const stock = (symbol: string, sector: string): Stock => ({
+  id: symbol,
+  symbol,
+  name: symbol,
+  sector,
+  industry: '',
+  exchange: 'NASDAQ',
+  currency: 'USD',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+});
+
+const holding = (symbol: string, sector: string, weight: number, gainPercent = 0, isPriced = true): Holding => ({
+  stock: stock(symbol, sector),
+  quantity: 1,
+  averagePrice: 100,
+  currentPrice: 100,
+  fxRate: 1,
+  priceDate: '2024-01-05',
+  isPriced,
+  isConverted: true,
+  totalCost: 100,
+  currentValue: 100,
+  unrealizedGain: gainPercent,
+  unrealizedGainPercent: gainPercent,
+  priceGain: gainPercent,
+  fxGain: 0,
+  weight,
+  lots: [],
+});
+
+const metrics = (holdings: Holding[], volatility = 10): PortfolioMetrics => {
+  const sectors = new Map<string, number>();
+  holdings
+    .filter((h) => h.isPriced)
+    .forEach((h) => sectors.set(h.stock.sector, (sectors.get(h.stock.sector) || 0) + h.weight));
+  return {
+    currency: 'USD',
+    totalValue: 0,
+    cashBalance: 0,
+    netContributions: 0,
+    totalIncome: 0,
+    realizedGain: 0,
+    totalCost: 0,
+    totalGain: 0,
+    totalGainPercent: 0,
+    fxGain: 0,
+    cagr: 0,
+    volatility,
+    sharpeRatio: 0,
+    maxDrawdown: 0,
+    beta: 0,
+    holdings,
+    sectorAllocation: Array.from(sectors.entries()).map(([sector, percentage]) => ({
+      sector,
+      value: percentage,
+      percentage,
+    })),
+    unconvertedDays: 0,
+  };
+};
+
+// Eight positions of 12.5% spread over four sectors stay within every moderate limit
+const balanced = () =>
+  ['Technology', 'Health Care', 'Energy', 'Utilities'].flatMap((sector, index) => [
+    holding(`A${index}`, sector, 12.5),
+    holding(`B${index}`, sector, 12.5),
+  ]);
+
+const moderate: Pick<UserPreferences, 'risk_profile' | 'investment_horizon' | 'preferred_sectors'> = {
+  risk_profile: 'moderate',
+  investment_horizon: 'medium',
+  preferred_sectors: [],
+};
+
+describe('generateRecommendations', () => {
+  it('has nothing to say about a portfolio within its limits', () => {
+    expect(generateRecommendations(metrics(balanced()), moderate)).toEqual([]);
+  });
+
+  it('flags concentrated positions and sectors, most urgent first', () => {
+    const recommendations = generateRecommendations(
+      metrics([...balanced().slice(1), holding('NVDA', 'Technology', 25)]),
+      moderate
+    );
+
+    expect(recommendations.map((r) => [r.id, r.priority])).toEqual([
+      ['sell:NVDA:concentration', 'high'],
+      ['rebalance:Technology:sector-concentration', 'medium'],
+    ]);
+  });
+
+  it('weighs losses against the investment horizon', () => {
+    const losing = [...balanced().slice(1), holding('INTC', 'Technology', 12.5, -35)];
+
+    expect(generateRecommendations(metrics(losing), { ...moderate, investment_horizon: 'long' })).toMatchObject([
+      { id: 'hold:INTC:drawdown', type: 'hold', priority: 'low' },
+    ]);
+    expect(generateRecommendations(metrics(losing), moderate)).toMatchObject([
+      { id: 'sell:INTC:loss', type: 'sell', priority: 'high' },
+    ]);
+  });
+
+  it('suggests preferred sectors the portfolio lacks', () => {
+    expect(
+      generateRecommendations(metrics(balanced()), { ...moderate, preferred_sectors: ['Energy', 'Financials'] })
+    ).toMatchObject([{ id: 'buy:Financials:preferred-sector', type: 'buy', sector: 'Financials' }]);
+  });
+
+  it('judges diversification and volatility on priced holdings only', () => {
+    const recommendations = generateRecommendations(
+      metrics([...balanced().slice(0, 6), holding('X', 'Energy', 0, 0, false)], 25),
+      moderate
+    );
+
+    expect(recommendations.map((r) => r.id)).toEqual([
+      'rebalance:portfolio:volatility',
+      'buy:portfolio:diversification',
+    ]);
+  });
+
+  it('makes no recommendations without priced holdings', () => {
+    expect(generateRecommendations(metrics([holding('X', 'Energy', 0, 0, false)], 50), moderate)).toEqual([]);
+  });
+});
@@ -0,0 +1,164 @@
+import { PortfolioMetrics, Recommendation, UserPreferences } from '../types';
+
+type RiskProfile = UserPreferences['risk_profile'];
+type InvestmentHorizon = UserPreferences['investment_horizon'];
+
+interface RiskLimits {
+  // Largest weight, in percent, a single position should reach
+  maxPositionWeight: number;
+  maxSectorWeight: number;
+  minHoldings: number;
+  // Annualised volatility, in percent, the profile is comfortable with
+  maxVolatility: number;
+}
+
+const RISK_LIMITS: Record<RiskProfile, RiskLimits> = {
+  conservative: { maxPositionWeight: 10, maxSectorWeight: 25, minHoldings: 10, maxVolatility: 12 },
+  moderate: { maxPositionWeight: 15, maxSectorWeight: 35, minHoldings: 8, maxVolatility: 20 },
+  aggressive: { maxPositionWeight: 25, maxSectorWeight: 50, minHoldings: 5, maxVolatility: 30 },
+};
+
+// Unrealized loss, in percent, at which a position is flagged for review
+const LOSS_REVIEW_THRESHOLD: Record<InvestmentHorizon, number> = {
+  short: -10,
+  medium: -20,
+  long: -30,
+};
+
+// Gain, in percent, at which a short-horizon investor is nudged to lock it in
+const SHORT_HORIZON_TAKE_PROFIT = 20;
+
+const PRIORITY_RANK: Record<Recommendation['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+interface ScoredRecommendation extends Recommendation {
+  // Size of the breach that triggered the rule; orders items of equal priority
+  score: number;
+}
+
+export const generateRecommendations = (
+  metrics: PortfolioMetrics,
+  preferences: Pick<UserPreferences, 'risk_profile' | 'investment_horizon' | 'preferred_sectors'> | null
+): Recommendation[] => {
+  const riskProfile = preferences?.risk_profile || 'moderate';
+  const horizon = preferences?.investment_horizon || 'medium';
+  const preferredSectors = preferences?.preferred_sectors || [];
+  const limits = RISK_LIMITS[riskProfile];
+  const pricedHoldings = metrics.holdings.filter((h) => h.isPriced);
+  const recommendations: ScoredRecommendation[] = [];
+
+  if (pricedHoldings.length === 0) return [];
+
+  pricedHoldings.forEach((holding) => {
+    const symbol = holding.stock.symbol;
+
+    if (holding.weight > limits.maxPositionWeight) {
+      const excess = holding.weight - limits.maxPositionWeight;
+      recommendations.push({
+        id: `sell:${symbol}:concentration`,
+        type: 'sell',
+        symbol,
+        priority: holding.weight > limits.maxPositionWeight * 1.5 ? 'high' : 'medium',
+        reason: `${symbol} is ${holding.weight.toFixed(1)}% of the portfolio, above the ${limits.maxPositionWeight}% limit for a ${riskProfile} profile.`,
+        action: `Trim about ${excess.toFixed(1)}% of portfolio value from ${symbol}.`,
+        score: excess,
+      });
+    }
+
+    if (holding.unrealizedGainPercent <= LOSS_REVIEW_THRESHOLD[horizon]) {
+      const loss = Math.abs(holding.unrealizedGainPercent);
+      if (horizon === 'long') {
+        recommendations.push({
+          id: `hold:${symbol}:drawdown`,
+          type: 'hold',
+          symbol,
+          priority: 'low',
+          reason: `${symbol} is down ${loss.toFixed(1)}%, but a long-term horizon leaves room to recover.`,
+          action: `Review the investment case for ${symbol} before adding or selling.`,
+          score: loss,
+        });
+      } else {
+        recommendations.push({
+          id: `sell:${symbol}:loss`,
+          type: 'sell',
+          symbol,
+          priority: loss >= Math.abs(LOSS_REVIEW_THRESHOLD[horizon]) * 1.5 ? 'high' : 'medium',
+          reason: `${symbol} is down ${loss.toFixed(1)}%, beyond what a ${horizon}-term horizon can comfortably wait out.`,
+          action: `Consider cutting the loss or harvesting it against realized gains.`,
+          score: loss,
+        });
+      }
+    }
+
+    if (horizon === 'short' && holding.unrealizedGainPercent >= SHORT_HORIZON_TAKE_PROFIT) {
+      recommendations.push({
+        id: `sell:${symbol}:take-profit`,
+        type: 'sell',
+        symbol,
+        priority: 'low',
+        reason: `${symbol} is up ${holding.unrealizedGainPercent.toFixed(1)}% and your horizon is short-term.`,
+        action: `Consider locking in part of the gain on ${symbol}.`,
+        score: holding.unrealizedGainPercent,
+      });
+    }
+  });
+
+  metrics.sectorAllocation.forEach(({ sector, percentage }) => {
+    if (percentage <= limits.maxSectorWeight) return;
+
+    const excess = percentage - limits.maxSectorWeight;
+    recommendations.push({
+      id: `rebalance:${sector}:sector-concentration`,
+      type: 'rebalance',
+      symbol: '',
+      sector,
+      priority: percentage > limits.maxSectorWeight * 1.5 ? 'high' : 'medium',
+      reason: `${sector} makes up ${percentage.toFixed(1)}% of the portfolio, above the ${limits.maxSectorWeight}% sector limit for a ${riskProfile} profile.`,
+      action: `Shift about ${excess.toFixed(1)}% of portfolio value out of ${sector}.`,
+      score: excess,
+    });
+  });
+
+  const heldSectors = new Set(metrics.sectorAllocation.map((s) => s.sector));
+  preferredSectors
+    .filter((sector) => !heldSectors.has(sector))
+    .forEach((sector) => {
+      recommendations.push({
+        id: `buy:${sector}:preferred-sector`,
+        type: 'buy',
+        symbol: '',
+        sector,
+        priority: 'medium',
+        reason: `${sector} is one of your preferred sectors but the portfolio has no exposure to it.`,
+        action: `Research positions in ${sector}.`,
+        score: 0,
+      });
+    });
+
+  if (pricedHoldings.length < limits.minHoldings) {
+    recommendations.push({
+      id: 'buy:portfolio:diversification',
+      type: 'buy',
+      symbol: '',
+      priority: pricedHoldings.length < limits.minHoldings / 2 ? 'high' : 'low',
+      reason: `The portfolio holds ${pricedHoldings.length} position(s); a ${riskProfile} profile is better served by at least ${limits.minHoldings}.`,
+      action: 'Add positions to spread single-stock risk.',
+      score: limits.minHoldings - pricedHoldings.length,
+    });
+  }
+
+  if (metrics.volatility > limits.maxVolatility) {
+    recommendations.push({
+      id: 'rebalance:portfolio:volatility',
+      type: 'rebalance',
+      symbol: '',
+      priority: metrics.volatility > limits.maxVolatility * 1.5 ? 'high' : 'medium',
+      reason: `Annualised volatility of ${metrics.volatility.toFixed(1)}% is above the ${limits.maxVolatility}% a ${riskProfile} profile targets.`,
+      action: 'Move weight towards lower-volatility holdings or sectors.',
+      score: metrics.volatility - limits.maxVolatility,
+    });
+  }
+
+  return recommendations
+    .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || b.score - a.score)
+    .map(({ score: _score, ...recommendation }) => recommendation);
+};
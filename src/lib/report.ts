@@ -0,0 +1,177 @@
+import { Portfolio, RealizedGain, Stock, Transaction } from '../types';
+import { ClosePoint } from './prices';
+import { buildValueSeries, loadValuationHistories, ValuePoint } from './valuation';
+import { calculateDailyReturns } from './riskMetrics';
+import { cashImpact, incomeAmount, replayLedger, settlementRate } from './ledger';
+import { filterRealizedGains } from './realizedGains';
+import { rateOn } from './fx';
+import { toDateKey } from './dates';
+
+export interface ReportHolding {
+  stock: Stock;
+  quantity: number;
+  // Close on or before the report's end date, in the stock's currency
+  price: number;
+  priceDate: string | null;
+  isPriced: boolean;
+  // The rest are in the portfolio's currency
+  costBasis: number;
+  value: number;
+  unrealizedGain: number;
+  unrealizedGainPercent: number;
+  weight: number;
+}
+
+export interface PortfolioReport {
+  // YYYY-MM-DD, both inclusive
+  from: string;
+  to: string;
+  // Every amount in the report is in the portfolio's currency
+  currency: string;
+  startValue: number;
+  endValue: number;
+  endCash: number;
+  // Deposits less withdrawals during the period
+  netFlows: number;
+  income: number;
+  fees: number;
+  realizedGain: number;
+  unrealizedGain: number;
+  // Time-weighted return over the period, in percent
+  periodReturn: number;
+  holdings: ReportHolding[];
+  sectorAllocation: { sector: string; value: number; percentage: number }[];
+  transactions: Transaction[];
+  realizedGains: RealizedGain[];
+  series: ValuePoint[];
+}
+
+const inPeriod = (date: string, from: string, to: string) => {
+  const key = toDateKey(date);
+  return key >= from && key <= to;
+};
+
+// The last close on or before `date`, or null when the stock had none yet
+const closeOn = (history: ClosePoint[], date: string) => {
+  const before = history.filter((point) => point.date <= date);
+  return before.length > 0 ? before[before.length - 1] : null;
+};
+
+// Positions held at the end of the period, valued at that day's closes and
+// exchange rates
+const buildReportHoldings = (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  histories: Map<string, ClosePoint[]>,
+  fxHistories: Map<string, ClosePoint[]>,
+  to: string
+): ReportHolding[] => {
+  const ledger = replayLedger(
+    portfolio,
+    transactions.filter((txn) => toDateKey(txn.transaction_date) <= to)
+  );
+
+  const holdings = Array.from(ledger.positions.values())
+    .filter((position) => position.stock && position.quantity > 0)
+    .map((position) => {
+      const stock = position.stock!;
+      const close = closeOn(histories.get(stock.id) || [], to);
+      const fxRate =
+        stock.currency && stock.currency !== portfolio.currency ? rateOn(fxHistories.get(stock.currency) || [], to) : 1;
+      const costBasis = position.lots.reduce((sum, lot) => sum + lot.costBasis * lot.fxRate, 0);
+      // Valued only with both a close and a rate into the portfolio's currency
+      const isPriced = !!close && fxRate !== undefined;
+      const value = isPriced ? position.quantity * close.close * fxRate : 0;
+      const unrealizedGain = isPriced ? value - costBasis : 0;
+      return {
+        stock,
+        quantity: position.quantity,
+        price: close?.close || 0,
+        priceDate: close?.date || null,
+        isPriced,
+        costBasis,
+        value,
+        unrealizedGain,
+        unrealizedGainPercent: isPriced && costBasis > 0 ? (unrealizedGain / costBasis) * 100 : 0,
+        weight: 0,
+      };
+    });
+
+  const total = holdings.reduce((sum, h) => sum + h.value, 0);
+  holdings.forEach((holding) => {
+    holding.weight = total > 0 ? (holding.value / total) * 100 : 0;
+  });
+  return holdings.sort((a, b) => b.value - a.value);
+};
+
+export const buildPortfolioReport = (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  histories: Map<string, ClosePoint[]>,
+  fxHistories: Map<string, ClosePoint[]>,
+  from: string,
+  to: string
+): PortfolioReport => {
+  const fullSeries = buildValueSeries(portfolio, transactions, histories, fxHistories, to);
+  // The day before the period opens is the baseline the return is measured from
+  const baselineIndex = fullSeries.reduce((found, point, index) => (point.date < from ? index : found), -1);
+  const series = fullSeries.filter((point) => point.date >= from);
+  const withBaseline = baselineIndex >= 0 ? [fullSeries[baselineIndex], ...series] : series;
+
+  const startValue = baselineIndex >= 0 ? fullSeries[baselineIndex].value : 0;
+  const end = series[series.length - 1];
+  const growth = calculateDailyReturns(withBaseline).reduce((product, r) => product * (1 + r.value), 1);
+
+  const periodTransactions = transactions.filter((txn) => inPeriod(txn.transaction_date, from, to));
+  const realizedGains = filterRealizedGains(replayLedger(portfolio, transactions).realizedGains, from, to);
+  const holdings = buildReportHoldings(portfolio, transactions, histories, fxHistories, to);
+
+  const sectorValues = new Map<string, number>();
+  holdings
+    .filter((h) => h.isPriced)
+    .forEach((holding) => {
+      const sector = holding.stock.sector || 'Unknown';
+      sectorValues.set(sector, (sectorValues.get(sector) || 0) + holding.value);
+    });
+  const holdingsValue = holdings.reduce((sum, h) => sum + h.value, 0);
+
+  return {
+    from,
+    to,
+    currency: portfolio.currency,
+    startValue,
+    endValue: end?.value || 0,
+    endCash: end?.cash || 0,
+    netFlows: series.reduce((sum, point) => sum + point.netFlow, 0),
+    income: periodTransactions.reduce((sum, txn) => sum + incomeAmount(txn), 0),
+    // Trade commissions plus standalone fee transactions
+    fees: periodTransactions.reduce(
+      (sum, txn) => sum + (txn.transaction_type === 'fee' ? -cashImpact(txn) : txn.fees * settlementRate(txn)),
+      0
+    ),
+    realizedGain: realizedGains.reduce((sum, gain) => sum + gain.gain, 0),
+    unrealizedGain: holdings.reduce((sum, h) => sum + h.unrealizedGain, 0),
+    periodReturn: (growth - 1) * 100,
+    holdings,
+    sectorAllocation: Array.from(sectorValues.entries())
+      .map(([sector, value]) => ({
+        sector,
+        value,
+        percentage: holdingsValue > 0 ? (value / holdingsValue) * 100 : 0,
+      }))
+      .sort((a, b) => b.value - a.value),
+    transactions: periodTransactions,
+    realizedGains,
+    series,
+  };
+};
+
+export const loadPortfolioReport = async (
+  portfolio: Portfolio,
+  transactions: Transaction[],
+  from: string,
+  to: string
+): Promise<PortfolioReport> => {
+  const { histories, fxHistories } = await loadValuationHistories(portfolio, transactions);
+  return buildPortfolioReport(portfolio, transactions, histories, fxHistories, from, to);
+};
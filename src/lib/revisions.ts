@@ -0,0 +1,36 @@
+import type { TransactionChanges } from './data';
+import { FieldChange, RevisionValue, Transaction } from '../types';
+
+export const REVISION_FIELD_LABELS: Record<keyof TransactionChanges, string> = {
+  transaction_type: 'Type',
+  stock_id: 'Stock',
+  quantity: 'Quantity',
+  price: 'Price',
+  fees: 'Fees',
+  fx_rate: 'FX rate',
+  transaction_date: 'Date',
+  notes: 'Notes',
+  parent_stock_id: 'Spun off from',
+  lot_selections: 'Lots sold',
+};
+
+const EDITABLE_FIELDS = Object.keys(REVISION_FIELD_LABELS) as (keyof TransactionChanges)[];
+
+// Optional fields are only stored when they differ from their empty value, so
+// an unset fx_rate and a rate of 1 are the same thing
+const normalize = (field: keyof TransactionChanges, value: Transaction[keyof TransactionChanges]): RevisionValue => {
+  if (value === undefined || value === '') return null;
+  if (field === 'fx_rate' && value === 1) return null;
+  if (Array.isArray(value) && value.length === 0) return null;
+  return value;
+};
+
+// The fields `changes` would actually change on the transaction
+export const diffTransaction = (transaction: Transaction, changes: TransactionChanges): FieldChange[] =>
+  EDITABLE_FIELDS.filter((field) => field in changes)
+    .map((field) => ({
+      field,
+      before: normalize(field, transaction[field]),
+      after: normalize(field, changes[field]),
+    }))
+    .filter((change) => JSON.stringify(change.before) !== JSON.stringify(change.after));
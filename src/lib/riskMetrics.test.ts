@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateBeta,
+  calculateCagr,
+  calculateCurrentDrawdown,
+  calculateDailyReturns,
+  calculateMaxDrawdown,
+  calculateRiskMetrics,
+  calculateSharpeRatio,
+  calculateVolatility,
+  DailyReturn,
+  EMPTY_RISK_METRICS,
+} from './riskMetrics';
+import { ValuePoint } from './valuation';
+
+const point = (date: string, value: number, netFlow = 0): ValuePoint => ({
+  date,
+  value,
+  cash: 0,
+  invested: 0,
+  netFlow,
+  unconverted: false,
+});
+
+const returns = (...values: number[]): DailyReturn[] =>
+  values.map((value, index) => ({ date: `2024-01-${String(index + 2).padStart(2, '0')}`, value }));
+
+describe('calculateDailyReturns', () => {
+  it('takes the day’s deposits and withdrawals out of the return', () => {
+    const daily = calculateDailyReturns([point('2024-01-01', 100), point('2024-01-02', 160, 50), point('2024-01-03', 99)]);
+    expect(daily.map((r) => r.value)).toEqual([expect.closeTo(0.1), expect.closeTo(-0.38125)]);
+  });
+
+  it('skips days that follow an empty portfolio', () => {
+    expect(calculateDailyReturns([point('2024-01-01', 0), point('2024-01-02', 100, 100)])).toEqual([]);
+  });
+});
+
+describe('drawdowns', () => {
+  const series = returns(0.1, -0.2, 0.05);
+
+  it('measures the largest fall from a peak', () => {
+    expect(calculateMaxDrawdown(series)).toBeCloseTo(20);
+  });
+
+  it('measures how far the latest value is below the peak', () => {
+    expect(calculateCurrentDrawdown(series)).toBeCloseTo(16);
+  });
+
+  it('is zero at a new high', () => {
+    expect(calculateCurrentDrawdown(returns(-0.1, 0.5))).toBe(0);
+  });
+});
+
+describe('calculateCagr', () => {
+  it('annualizes the compounded return over the period', () => {
+    expect(calculateCagr(returns(0.1, 0.1), '2022-01-01', '2024-01-01')).toBeCloseTo(10, 1);
+  });
+
+  it('is zero without returns or time', () => {
+    expect(calculateCagr([], '2022-01-01', '2024-01-01')).toBe(0);
+    expect(calculateCagr(returns(0.1), '2024-01-01', '2024-01-01')).toBe(0);
+  });
+});
+
+describe('volatility and Sharpe ratio', () => {
+  it('are zero for a steady return', () => {
+    const steady = returns(0.01, 0.01, 0.01);
+    expect(calculateVolatility(steady)).toBe(0);
+    expect(calculateSharpeRatio(steady, 2)).toBe(0);
+  });
+
+  it('annualize the standard deviation of daily returns', () => {
+    expect(calculateVolatility(returns(0.01, -0.01))).toBeCloseTo(Math.sqrt(0.0002) * Math.sqrt(252) * 100);
+  });
+
+  it('rank a higher return over the same risk above a lower one', () => {
+    expect(calculateSharpeRatio(returns(0.02, 0, 0.02, 0), 0)).toBeGreaterThan(
+      calculateSharpeRatio(returns(0.01, -0.01, 0.01, -0.01), 0)
+    );
+  });
+});
+
+describe('calculateBeta', () => {
+  it('compares only the days both series have', () => {
+    const benchmark = returns(0.01, -0.02, 0.03, 0.01);
+    const portfolio = [...benchmark.map((r) => ({ ...r, value: r.value * 2 })), { date: '2024-02-01', value: 0.5 }];
+    expect(calculateBeta(portfolio, benchmark)).toBeCloseTo(2);
+  });
+
+  it('is zero when the benchmark never moves', () => {
+    expect(calculateBeta(returns(0.01, 0.02), returns(0, 0))).toBe(0);
+  });
+});
+
+describe('calculateRiskMetrics', () => {
+  it('needs at least two values', () => {
+    expect(calculateRiskMetrics([point('2024-01-01', 100)], [], 2)).toEqual(EMPTY_RISK_METRICS);
+  });
+});
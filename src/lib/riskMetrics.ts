@@ -0,0 +1,142 @@
+import { PortfolioMetrics } from '../types';
+import { ClosePoint } from './prices';
+import { ValuePoint } from './valuation';
+
+export type RiskMetrics = Pick<PortfolioMetrics, 'cagr' | 'volatility' | 'sharpeRatio' | 'maxDrawdown' | 'beta'>;
+
+export interface DailyReturn {
+  date: string;
+  value: number;
+}
+
+const TRADING_DAYS_PER_YEAR = 252;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const EMPTY_RISK_METRICS: RiskMetrics = {
+  cagr: 0,
+  volatility: 0,
+  sharpeRatio: 0,
+  maxDrawdown: 0,
+  beta: 0,
+};
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const standardDeviation = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1));
+};
+
+// Time-weighted daily returns: the day's net flow is taken out of the closing
+// value so buying or selling does not register as performance.
+export const calculateDailyReturns = (series: ValuePoint[]): DailyReturn[] => {
+  const returns: DailyReturn[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const previous = series[i - 1].value;
+    if (previous <= 0) continue;
+    returns.push({
+      date: series[i].date,
+      value: (series[i].value - series[i].netFlow) / previous - 1,
+    });
+  }
+  return returns;
+};
+
+export const calculatePriceReturns = (closes: ClosePoint[]): DailyReturn[] => {
+  const returns: DailyReturn[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i - 1].close <= 0) continue;
+    returns.push({ date: closes[i].date, value: closes[i].close / closes[i - 1].close - 1 });
+  }
+  return returns;
+};
+
+// Compound annual growth rate, in percent
+export const calculateCagr = (returns: DailyReturn[], startDate: string, endDate: string) => {
+  const years = (new Date(endDate).getTime() - new Date(startDate).getTime()) / DAY_MS / 365.25;
+  if (returns.length === 0 || years <= 0) return 0;
+
+  const growth = returns.reduce((product, r) => product * (1 + r.value), 1);
+  return (Math.pow(growth, 1 / years) - 1) * 100;
+};
+
+// Annualised standard deviation of daily returns, in percent
+export const calculateVolatility = (returns: DailyReturn[]) =>
+  standardDeviation(returns.map((r) => r.value)) * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100;
+
+// riskFreeRate is an annual rate in percent
+export const calculateSharpeRatio = (returns: DailyReturn[], riskFreeRate: number) => {
+  const volatility = standardDeviation(returns.map((r) => r.value)) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+  if (returns.length < 2 || volatility === 0) return 0;
+
+  const annualReturn = mean(returns.map((r) => r.value)) * TRADING_DAYS_PER_YEAR;
+  return (annualReturn - riskFreeRate / 100) / volatility;
+};
+
+// Largest peak-to-trough decline of the return index, in percent (positive)
+export const calculateMaxDrawdown = (returns: DailyReturn[]) => {
+  let index = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+
+  returns.forEach((r) => {
+    index *= 1 + r.value;
+    peak = Math.max(peak, index);
+    maxDrawdown = Math.max(maxDrawdown, (peak - index) / peak);
+  });
+
+  return maxDrawdown * 100;
+};
+
+// How far the return index has fallen from its highest point so far, in
+// percent (positive)
+export const calculateCurrentDrawdown = (returns: DailyReturn[]) => {
+  let index = 1;
+  let peak = 1;
+
+  returns.forEach((r) => {
+    index *= 1 + r.value;
+    peak = Math.max(peak, index);
+  });
+
+  return ((peak - index) / peak) * 100;
+};
+
+// Covariance of portfolio and benchmark returns over benchmark variance,
+// using only the days both series have a return for.
+export const calculateBeta = (returns: DailyReturn[], benchmarkReturns: DailyReturn[]) => {
+  const benchmarkByDate = new Map(benchmarkReturns.map((r) => [r.date, r.value]));
+  const pairs = returns
+    .filter((r) => benchmarkByDate.has(r.date))
+    .map((r) => [r.value, benchmarkByDate.get(r.date)!] as const);
+  if (pairs.length < 2) return 0;
+
+  const portfolioMean = mean(pairs.map(([p]) => p));
+  const benchmarkMean = mean(pairs.map(([, b]) => b));
+  let covariance = 0;
+  let variance = 0;
+  pairs.forEach(([p, b]) => {
+    covariance += (p - portfolioMean) * (b - benchmarkMean);
+    variance += (b - benchmarkMean) ** 2;
+  });
+
+  return variance === 0 ? 0 : covariance / variance;
+};
+
+export const calculateRiskMetrics = (
+  series: ValuePoint[],
+  benchmark: ClosePoint[],
+  riskFreeRate: number
+): RiskMetrics => {
+  if (series.length < 2) return EMPTY_RISK_METRICS;
+
+  const returns = calculateDailyReturns(series);
+  return {
+    cagr: calculateCagr(returns, series[0].date, series[series.length - 1].date),
+    volatility: calculateVolatility(returns),
+    sharpeRatio: calculateSharpeRatio(returns, riskFreeRate),
+    maxDrawdown: calculateMaxDrawdown(returns),
+    beta: calculateBeta(returns, calculatePriceReturns(benchmark)),
+  };
+};
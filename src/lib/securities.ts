@@ -0,0 +1,48 @@
+import { Stock } from '../types';
+
+type Listing = Pick<Stock, 'symbol' | 'exchange'>;
+
+const normalizeExchange = (exchange: string) => exchange.trim().toUpperCase();
+
+// New stocks are stored under their symbol and exchange, so two devices adding
+// the same listing while offline end up writing one document. Stocks added
+// before that have random ids.
+export const stockKey = ({ symbol, exchange }: Listing) =>
+  exchange.trim() ? `${symbol}:${normalizeExchange(exchange)}` : symbol;
+
+export const isSameListing = (a: Listing, b: Listing) =>
+  a.symbol === b.symbol && normalizeExchange(a.exchange) === normalizeExchange(b.exchange);
+
+// Stocks whose symbol or name contains the query, those whose symbol starts
+// with it first
+export const searchStocks = (stocks: Stock[], query: string) => {
+  const term = query.trim().toUpperCase();
+  if (!term) return [];
+
+  return stocks
+    .filter((stock) => stock.symbol.includes(term) || stock.name.toUpperCase().includes(term))
+    .sort(
+      (a, b) =>
+        Number(b.symbol.startsWith(term)) - Number(a.symbol.startsWith(term)) || a.symbol.localeCompare(b.symbol)
+    );
+};
+
+// Ids of stocks that look like the same security as another: the same symbol
+// on the same exchange, or the same symbol with the exchange missing on one
+// of them. Listings of one symbol on different exchanges are distinct.
+export const findLikelyDuplicates = (stocks: Stock[]) => {
+  const duplicates = new Set<string>();
+  stocks.forEach((a) =>
+    stocks.forEach((b) => {
+      if (a.id === b.id || a.symbol !== b.symbol) return;
+      if (isSameListing(a, b) || !a.exchange.trim() || !b.exchange.trim()) duplicates.add(a.id);
+    })
+  );
+  return duplicates;
+};
+
+// The stock recorded for a symbol on an exchange, falling back to one recorded
+// without an exchange. Without an exchange, the first listing of the symbol.
+export const findListing = (stocks: Stock[], symbol: string, exchange: string) =>
+  stocks.find((stock) => stock.symbol === symbol && (!exchange.trim() || isSameListing(stock, { symbol, exchange }))) ||
+  stocks.find((stock) => stock.symbol === symbol && !stock.exchange.trim());
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildSnapshots,
+  convertSnapshots,
+  loadPortfolioSnapshots,
+  snapshotDateKey,
+  syncPortfolioSnapshots,
+} from './snapshots';
+import { createMemoryStore, setDataStore } from './data';
+import { ValuePoint } from './valuation';
+
+const point = (date: string, value: number, invested = 1000): ValuePoint => ({
+  date,
+  value,
+  cash: 100,
+  invested,
+  netFlow: 0,
+  unconverted: false,
+});
+
+beforeEach(() => {
+  setDataStore(createMemoryStore({}));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('buildSnapshots', () => {
+  it('keys each snapshot by portfolio and day and rounds amounts to cents', () => {
+    const [snapshot] = buildSnapshots('p1', [point('2024-01-02', 1234.5678)]);
+
+    expect(snapshot).toMatchObject({
+      id: 'p1_2024-01-02',
+      portfolio_id: 'p1',
+      snapshot_date: '2024-01-02T00:00:00.000Z',
+      total_value: 1234.57,
+      cash_balance: 100,
+      invested_capital: 1000,
+      total_return: 23.46,
+    });
+    expect(snapshotDateKey(snapshot)).toBe('2024-01-02');
+  });
+
+  it('reports no return before any capital is invested', () => {
+    expect(buildSnapshots('p1', [point('2024-01-02', 0, 0)])[0].total_return).toBe(0);
+  });
+});
+
+describe('convertSnapshots', () => {
+  it('restates amounts at the rate of each day and leaves the return alone', () => {
+    const snapshots = buildSnapshots('p1', [point('2024-01-02', 1100), point('2024-01-03', 1200)]);
+    const converted = convertSnapshots(snapshots, [
+      { date: '2024-01-02', close: 2 },
+      { date: '2024-01-03', close: 0.5 },
+    ]);
+
+    expect(converted.map((s) => [s.total_value, s.cash_balance, s.invested_capital, s.total_return])).toEqual([
+      [2200, 200, 2000, 10],
+      [600, 50, 500, 20],
+    ]);
+  });
+
+  it('returns the snapshots as stored without any rates', () => {
+    const snapshots = buildSnapshots('p1', [point('2024-01-02', 1100)]);
+    expect(convertSnapshots(snapshots, [])).toEqual(snapshots);
+  });
+});
+
+describe('syncPortfolioSnapshots', () => {
+  it('rewrites changed days in place and removes days no longer in the series', async () => {
+    await syncPortfolioSnapshots('p1', [point('2024-01-02', 1000), point('2024-01-03', 1010)]);
+    const [first] = await loadPortfolioSnapshots('p1');
+
+    const synced = await syncPortfolioSnapshots('p1', [point('2024-01-03', 1020), point('2024-01-04', 1030)]);
+    const stored = await loadPortfolioSnapshots('p1');
+
+    expect(stored.map((s) => [s.id, s.total_value])).toEqual([
+      ['p1_2024-01-03', 1020],
+      ['p1_2024-01-04', 1030],
+    ]);
+    expect(synced.map((s) => s.id)).toEqual(stored.map((s) => s.id));
+    expect(stored.some((s) => s.id === first.id)).toBe(false);
+  });
+
+  it('keeps unchanged days as they were stored', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-02T18:00:00.000Z'));
+    await syncPortfolioSnapshots('p1', [point('2024-01-02', 1000)]);
+    vi.setSystemTime(new Date('2024-01-03T18:00:00.000Z'));
+    const [synced] = await syncPortfolioSnapshots('p1', [point('2024-01-02', 1000)]);
+
+    expect(synced.created_at).toBe('2024-01-02T18:00:00.000Z');
+    expect((await loadPortfolioSnapshots('p1'))[0].created_at).toBe('2024-01-02T18:00:00.000Z');
+  });
+});
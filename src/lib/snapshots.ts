@@ -0,0 +1,80 @@
+import { getDataStore } from './data';
+import { PortfolioSnapshot } from '../types';
+import { ValuePoint } from './valuation';
+import { toDateKey } from './dates';
+import { ClosePoint } from './prices';
+import { rateOn } from './fx';
+
+// One snapshot per day keeps the id deterministic, so rebuilding the series
+// overwrites days in place instead of piling up duplicates.
+const snapshotId = (portfolioId: string, date: string) => `${portfolioId}_${date}`;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const buildSnapshots = (portfolioId: string, series: ValuePoint[]): PortfolioSnapshot[] =>
+  series.map((point) => {
+    const totalValue = round(point.value);
+    const investedCapital = round(point.invested);
+    return {
+      id: snapshotId(portfolioId, point.date),
+      portfolio_id: portfolioId,
+      snapshot_date: new Date(`${point.date}T00:00:00Z`).toISOString(),
+      total_value: totalValue,
+      cash_balance: round(point.cash),
+      invested_capital: investedCapital,
+      total_return: investedCapital > 0 ? round(((totalValue - investedCapital) / investedCapital) * 100) : 0,
+      created_at: new Date().toISOString(),
+    };
+  });
+
+// Restates snapshots in another currency using each day's rate. Returns are
+// left as measured in the portfolio's own currency. Without any rates the
+// snapshots cannot be restated and are returned as stored.
+export const convertSnapshots = (snapshots: PortfolioSnapshot[], fxHistory: ClosePoint[]): PortfolioSnapshot[] =>
+  snapshots.map((snapshot) => {
+    const rate = rateOn(fxHistory, toDateKey(snapshot.snapshot_date));
+    if (rate === undefined) return snapshot;
+    return {
+      ...snapshot,
+      total_value: round(snapshot.total_value * rate),
+      cash_balance: round(snapshot.cash_balance * rate),
+      invested_capital: round(snapshot.invested_capital * rate),
+    };
+  });
+
+export const loadPortfolioSnapshots = (portfolioId: string): Promise<PortfolioSnapshot[]> =>
+  getDataStore().snapshots.listByPortfolio(portfolioId);
+
+const isUnchanged = (stored: PortfolioSnapshot, next: PortfolioSnapshot) =>
+  stored.total_value === next.total_value &&
+  stored.cash_balance === next.cash_balance &&
+  stored.invested_capital === next.invested_capital &&
+  stored.total_return === next.total_return;
+
+// Brings portfolio_snapshots in line with the replayed value series: new and
+// changed days are written, days no longer covered (e.g. after deleting the
+// first transaction) are removed. Returns the resulting snapshots.
+export const syncPortfolioSnapshots = async (
+  portfolioId: string,
+  series: ValuePoint[]
+): Promise<PortfolioSnapshot[]> => {
+  const stored = await loadPortfolioSnapshots(portfolioId);
+  const storedById = new Map(stored.map((snapshot) => [snapshot.id, snapshot]));
+  const next = buildSnapshots(portfolioId, series);
+  const nextIds = new Set(next.map((snapshot) => snapshot.id));
+
+  const writes = next.filter((snapshot) => {
+    const existing = storedById.get(snapshot.id);
+    return !existing || !isUnchanged(existing, snapshot);
+  });
+  const deletes = stored.filter((snapshot) => !nextIds.has(snapshot.id));
+
+  await getDataStore().snapshots.apply(writes, deletes.map((snapshot) => snapshot.id));
+
+  return next.map((snapshot) => {
+    const existing = storedById.get(snapshot.id);
+    return existing && isUnchanged(existing, snapshot) ? existing : snapshot;
+  });
+};
+
+export const snapshotDateKey = (snapshot: PortfolioSnapshot) => toDateKey(snapshot.snapshot_date);
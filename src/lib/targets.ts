@@ -0,0 +1,21 @@
+import { getDataStore } from './data';
+import { PortfolioTargets } from '../types';
+
+export const DEFAULT_TOLERANCE = 5;
+
+export const createDefaultTargets = (portfolioId: string, userId: string): PortfolioTargets => ({
+  id: portfolioId,
+  portfolio_id: portfolioId,
+  user_id: userId,
+  basis: 'symbol',
+  targets: [],
+  tolerance: DEFAULT_TOLERANCE,
+  fractional_shares: false,
+  fee_per_trade: 0,
+  updated_at: new Date().toISOString(),
+});
+
+export const loadPortfolioTargets = (portfolioId: string): Promise<PortfolioTargets | null> =>
+  getDataStore().targets.get(portfolioId);
+
+export const savePortfolioTargets = (targets: PortfolioTargets) => getDataStore().targets.save(targets);
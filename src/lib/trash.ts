@@ -0,0 +1,30 @@
+import { getDataStore } from './data';
+import { Portfolio, Transaction } from '../types';
+
+// How long a trashed portfolio or transaction can still be restored
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days left before the item is purged; 0 once it is due
+export const daysLeftInTrash = (deletedAt: string, now = new Date()) => {
+  const expiresAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.ceil((expiresAt - now.getTime()) / DAY_MS));
+};
+
+const isExpired = (item: Portfolio | Transaction, now: Date) =>
+  !!item.deleted_at && daysLeftInTrash(item.deleted_at, now) === 0;
+
+// Nothing runs on a schedule, so items past their retention are purged the
+// next time the trash is looked at. Returns the ids that were purged.
+export const purgeExpiredTrash = async (portfolios: Portfolio[], transactions: Transaction[], now = new Date()) => {
+  const store = getDataStore();
+  const expiredPortfolios = portfolios.filter((portfolio) => isExpired(portfolio, now));
+  const expiredTransactions = transactions.filter((txn) => isExpired(txn, now));
+
+  await Promise.all([
+    ...expiredPortfolios.map((portfolio) => store.portfolios.purge(portfolio.id)),
+    ...expiredTransactions.map((txn) => store.transactions.purge(txn.id)),
+  ]);
+  return [...expiredPortfolios, ...expiredTransactions].map((item) => item.id);
+};
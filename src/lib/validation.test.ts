@@ -0,0 +1,203 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  assertValidTransaction,
+  findHistoryProblem,
+  findOversoldSales,
+  validateAgainstHistory,
+  validateAlertRule,
+  validateHistoryChange,
+  validatePortfolio,
+  validateTransaction,
+  validateWatchlist,
+  ValidationError,
+} from './validation';
+import { Transaction } from '../types';
+
+let nextId = 1;
+const txn = (fields: Partial<Transaction>): Transaction => ({
+  id: `t${nextId++}`,
+  portfolio_id: 'p',
+  stock_id: 'AAPL',
+  transaction_type: 'buy',
+  quantity: 10,
+  price: 100,
+  fees: 0,
+  transaction_date: '2024-01-02T00:00:00.000Z',
+  notes: '',
+  created_at: '2024-01-02T00:00:00.000Z',
+  ...fields,
+});
+
+describe('validateTransaction', () => {
+  it('accepts a complete buy', () => {
+    expect(validateTransaction(txn({}), '2024-12-31')).toEqual({});
+  });
+
+  it('reports each invalid field', () => {
+    expect(
+      validateTransaction(
+        txn({ stock_id: '', quantity: 0, price: -1, fees: -1, fx_rate: 0, transaction_date: '2025-01-01' }),
+        '2024-12-31'
+      )
+    ).toEqual({
+      stock_id: 'Enter a stock symbol.',
+      quantity: 'Quantity must be greater than zero.',
+      price: 'Price must be greater than zero.',
+      fees: 'Fees must be zero or more.',
+      fx_rate: 'FX rate must be greater than zero.',
+      transaction_date: 'The date cannot be in the future.',
+    });
+  });
+
+  it('asks for the ratio of a split and allows it no price', () => {
+    expect(validateTransaction(txn({ transaction_type: 'split', quantity: 0, price: 0 }), '2024-12-31')).toEqual({
+      quantity: 'Enter the split ratio as new shares per old share.',
+    });
+  });
+
+  it('needs a different parent stock for a spin-off', () => {
+    expect(validateTransaction(txn({ transaction_type: 'spinoff', parent_stock_id: 'AAPL' }), '2024-12-31')).toEqual({
+      parent_stock_id: 'A stock cannot be spun off from itself.',
+    });
+  });
+
+  it('refuses chosen lots that add up to more than the sale', () => {
+    const sale = txn({ transaction_type: 'sell', quantity: 5, lot_selections: [{ lot_id: 'a', quantity: 6 }] });
+    expect(validateTransaction(sale, '2024-12-31')).toEqual({
+      lot_selections: 'The selected lots add up to more shares than this sale.',
+    });
+  });
+
+  it('throws a ValidationError carrying the field errors', () => {
+    expect(() => assertValidTransaction(txn({ quantity: -1 }))).toThrow(ValidationError);
+  });
+
+  describe('east of UTC', () => {
+    const timeZone = process.env.TZ;
+    afterEach(() => {
+      process.env.TZ = timeZone;
+      vi.useRealTimers();
+    });
+
+    it('accepts the local date while UTC is still on the day before', () => {
+      process.env.TZ = 'Pacific/Auckland';
+      vi.useFakeTimers();
+      // 9am on 5 January in Auckland
+      vi.setSystemTime(new Date('2024-01-04T20:00:00.000Z'));
+
+      expect(validateTransaction(txn({ transaction_date: '2024-01-05T00:00:00.000Z' }))).toEqual({});
+      expect(validateTransaction(txn({ transaction_date: '2024-01-06T00:00:00.000Z' }))).toEqual({
+        transaction_date: 'The date cannot be in the future.',
+      });
+    });
+  });
+});
+
+describe('findOversoldSales', () => {
+  it('reports the shares held before each sale that sells more', () => {
+    const oversold = txn({ transaction_type: 'sell', quantity: 25, transaction_date: '2024-03-01T00:00:00.000Z' });
+    const later = txn({ transaction_type: 'sell', quantity: 1, transaction_date: '2024-04-01T00:00:00.000Z' });
+    const result = findOversoldSales([
+      txn({ quantity: 10 }),
+      txn({ transaction_type: 'split', quantity: 2, price: 0, transaction_date: '2024-02-01T00:00:00.000Z' }),
+      oversold,
+      later,
+    ]);
+    expect(Array.from(result.entries())).toEqual([
+      [oversold.id, 20],
+      [later.id, 0],
+    ]);
+  });
+});
+
+describe('validateAgainstHistory', () => {
+  const portfolio = { initial_capital: 5000, allow_margin: false };
+  const buy = txn({ quantity: 10, price: 100 });
+  const sale = txn({ transaction_type: 'sell', quantity: 8, price: 120, transaction_date: '2024-03-01T00:00:00.000Z' });
+
+  it('refuses a sale of more shares than were held on its date', () => {
+    const candidate = txn({ transaction_type: 'sell', quantity: 5, transaction_date: '2024-04-01T00:00:00.000Z' });
+    expect(validateAgainstHistory(portfolio, [buy, sale], candidate)).toEqual({
+      quantity: 'Only 2 shares held on 2024-04-01.',
+    });
+  });
+
+  it('refuses an edit that leaves a later sale selling more than was held', () => {
+    expect(validateAgainstHistory(portfolio, [buy, sale], { ...buy, quantity: 5 })).toEqual({
+      general: 'This would leave the sale on 2024-03-01 selling more shares than were held.',
+    });
+  });
+
+  it('refuses a buy the cash cannot cover unless margin is allowed', () => {
+    const candidate = txn({ quantity: 50, price: 100 });
+    expect(validateAgainstHistory(portfolio, [buy], candidate).general).toMatch(/^Not enough cash/);
+    expect(validateAgainstHistory({ ...portfolio, allow_margin: true }, [buy], candidate)).toEqual({});
+  });
+});
+
+describe('validateHistoryChange', () => {
+  const portfolio = { initial_capital: 0, allow_margin: false };
+  const deposit = txn({ transaction_type: 'deposit', stock_id: '', quantity: 1, price: 1000 });
+  const buy = txn({ quantity: 5, price: 100, transaction_date: '2024-02-01T00:00:00.000Z' });
+  const sale = txn({ transaction_type: 'sell', quantity: 5, price: 120, transaction_date: '2024-03-01T00:00:00.000Z' });
+
+  it('refuses removing a buy a later sale depends on', () => {
+    expect(validateHistoryChange(portfolio, [deposit, buy, sale], [deposit, sale])).toEqual({
+      general: 'This would leave the sale on 2024-03-01 selling more shares than were held.',
+    });
+  });
+
+  it('refuses removing a deposit that paid for a buy, unless margin is allowed', () => {
+    expect(validateHistoryChange(portfolio, [deposit, buy], [buy]).general).toMatch(/below zero/);
+    expect(validateHistoryChange({ ...portfolio, allow_margin: true }, [deposit, buy], [buy])).toEqual({});
+  });
+
+  it('ignores problems the history already had', () => {
+    expect(validateHistoryChange(portfolio, [sale], [sale, deposit])).toEqual({});
+  });
+});
+
+describe('findHistoryProblem', () => {
+  const portfolio = { initial_capital: 0, allow_margin: false };
+  const deposit = txn({ transaction_type: 'deposit', stock_id: '', quantity: 1, price: 1000 });
+  const buy = txn({ quantity: 5, price: 100, transaction_date: '2024-02-01T00:00:00.000Z' });
+  const sale = (id: string) =>
+    txn({ id, transaction_type: 'sell', quantity: 5, price: 120, transaction_date: '2024-03-01T00:00:00.000Z' });
+
+  it('finds two devices selling the same shares', () => {
+    expect(findHistoryProblem(portfolio, [deposit, buy, sale('phone')])).toBeNull();
+    expect(findHistoryProblem(portfolio, [deposit, buy, sale('phone'), sale('laptop')])).toBe(
+      'The sale on 2024-03-01 sells more shares than were held.'
+    );
+  });
+
+  it('finds an overdrawn cash balance unless margin is allowed', () => {
+    expect(findHistoryProblem(portfolio, [buy])).toMatch(/below zero/);
+    expect(findHistoryProblem({ ...portfolio, allow_margin: true }, [buy])).toBeNull();
+  });
+});
+
+describe('other validators', () => {
+  it('check only the portfolio fields present', () => {
+    expect(validatePortfolio({ name: '  ' })).toEqual({ name: 'Enter a name.' });
+    expect(validatePortfolio({ currency: 'usd', initial_capital: -1 })).toEqual({
+      currency: 'Choose a currency.',
+      initial_capital: 'Initial capital must be zero or more.',
+    });
+  });
+
+  it('refuse a symbol listed twice on a watchlist', () => {
+    const item = { stock_id: 'AAPL', notes: '', added_at: '2024-01-02T00:00:00.000Z' };
+    expect(validateWatchlist({ items: [item, item] })).toEqual({ items: 'Each symbol can only be on a watchlist once.' });
+  });
+
+  it('need the stock or portfolio an alert watches and a sensible threshold', () => {
+    expect(validateAlertRule({ type: 'price_above', threshold: 0 })).toEqual({
+      stock_id: 'Choose a stock.',
+      threshold: 'Price must be greater than zero.',
+    });
+    expect(validateAlertRule({ type: 'drawdown', portfolio_id: 'p', threshold: 100 })).toEqual({
+      threshold: 'Enter a percentage between 0 and 100.',
+    });
+  });
+});
@@ -0,0 +1,401 @@
+import type { NewAlertRule, NewStock, NewTransaction, PortfolioChanges, WatchlistChanges } from './data';
+import { isAmountTransaction, isCashTransaction, isTradeTransaction, sortTransactions, wouldOverdrawHistory } from './ledger';
+import { localTodayKey, toDateKey } from './dates';
+import { Portfolio, Transaction, WatchlistItem } from '../types';
+
+export type TransactionField =
+  | 'stock_id'
+  | 'quantity'
+  | 'price'
+  | 'fees'
+  | 'fx_rate'
+  | 'transaction_date'
+  | 'parent_stock_id'
+  | 'lot_selections'
+  // Problems with the transaction as a whole, such as running out of cash
+  | 'general';
+
+export type PortfolioField = 'name' | 'description' | 'initial_capital' | 'currency';
+
+export type StockField = 'symbol' | 'name' | 'sector' | 'industry' | 'exchange' | 'currency';
+
+export type WatchlistField = 'name' | 'items';
+
+export type WatchlistItemField = 'notes' | 'target_price';
+
+export type AlertRuleField = 'stock_id' | 'portfolio_id' | 'threshold';
+
+// One message per field; fields without a message are valid
+export type TransactionErrors = Partial<Record<TransactionField, string>>;
+export type PortfolioErrors = Partial<Record<PortfolioField, string>>;
+export type StockErrors = Partial<Record<StockField, string>>;
+export type WatchlistErrors = Partial<Record<WatchlistField, string>>;
+export type WatchlistItemErrors = Partial<Record<WatchlistItemField, string>>;
+export type AlertRuleErrors = Partial<Record<AlertRuleField, string>>;
+type FieldErrors =
+  | TransactionErrors
+  | PortfolioErrors
+  | StockErrors
+  | WatchlistErrors
+  | WatchlistItemErrors
+  | AlertRuleErrors;
+
+// Thrown by the data layer when asked to write something the forms should
+// never have let through
+export class ValidationError extends Error {
+  readonly errors: FieldErrors;
+
+  constructor(errors: FieldErrors) {
+    super(`Invalid input: ${Object.values(errors).join(' ')}`);
+    this.name = 'ValidationError';
+    this.errors = errors;
+  }
+}
+
+export const hasErrors = (errors: FieldErrors) => Object.keys(errors).length > 0;
+
+// Slack for shares left over from floating point arithmetic
+const DUST = 1e-9;
+
+const isPositive = (value: number) => Number.isFinite(value) && value > 0;
+const isNonNegative = (value: number) => Number.isFinite(value) && value >= 0;
+
+type TransactionFields = Pick<
+  NewTransaction,
+  'transaction_type' | 'stock_id' | 'quantity' | 'price' | 'fees' | 'transaction_date' | 'fx_rate' | 'parent_stock_id'
+> &
+  Partial<Pick<NewTransaction, 'lot_selections'>>;
+
+// Rules every transaction must follow on its own, whatever else is in the
+// portfolio. `today` is the user's day, the latest date they can enter.
+export const validateTransaction = (txn: TransactionFields, today = localTodayKey()): TransactionErrors => {
+  const errors: TransactionErrors = {};
+  const type = txn.transaction_type;
+
+  if (!isCashTransaction(type) && !txn.stock_id) {
+    errors.stock_id = 'Enter a stock symbol.';
+  }
+
+  if (!isPositive(txn.quantity)) {
+    errors.quantity =
+      type === 'split' ? 'Enter the split ratio as new shares per old share.' : 'Quantity must be greater than zero.';
+  }
+
+  // Splits carry no amount and spin-offs may carry no basis over
+  if (isAmountTransaction(type) && !isPositive(txn.price)) {
+    errors.price = 'Amount must be greater than zero.';
+  } else if (isTradeTransaction(type) && !isPositive(txn.price)) {
+    errors.price = 'Price must be greater than zero.';
+  } else if (!isNonNegative(txn.price)) {
+    errors.price = 'Cost basis must be zero or more.';
+  }
+
+  if (!isNonNegative(txn.fees)) {
+    errors.fees = 'Fees must be zero or more.';
+  }
+
+  if (txn.fx_rate !== undefined && !isPositive(txn.fx_rate)) {
+    errors.fx_rate = 'FX rate must be greater than zero.';
+  }
+
+  if (Number.isNaN(new Date(txn.transaction_date).getTime())) {
+    errors.transaction_date = 'Enter a valid date.';
+  } else if (toDateKey(txn.transaction_date) > today) {
+    errors.transaction_date = 'The date cannot be in the future.';
+  }
+
+  if (type === 'spinoff' && !txn.parent_stock_id) {
+    errors.parent_stock_id = 'Select the holding the spin-off came from.';
+  } else if (type === 'spinoff' && txn.parent_stock_id === txn.stock_id) {
+    errors.parent_stock_id = 'A stock cannot be spun off from itself.';
+  }
+
+  const selections = txn.lot_selections || [];
+  if (selections.some((selection) => !isPositive(selection.quantity))) {
+    errors.lot_selections = 'Shares sold from a lot must be greater than zero.';
+  } else if (
+    isPositive(txn.quantity) &&
+    selections.reduce((sum, selection) => sum + selection.quantity, 0) > txn.quantity + DUST
+  ) {
+    errors.lot_selections = 'The selected lots add up to more shares than this sale.';
+  }
+
+  return errors;
+};
+
+export const assertValidTransaction = (txn: TransactionFields) => {
+  const errors = validateTransaction(txn);
+  if (hasErrors(errors)) throw new ValidationError(errors);
+};
+
+// Shares held of each stock right before each sale that sells more than
+// that, keyed by the sale's id. Oversold positions are treated as empty
+// afterwards, so one bad sale does not flag every later one.
+export const findOversoldSales = (transactions: Transaction[]) => {
+  const held = new Map<string, number>();
+  const oversold = new Map<string, number>();
+
+  sortTransactions(transactions).forEach((txn) => {
+    const quantity = held.get(txn.stock_id) || 0;
+    switch (txn.transaction_type) {
+      case 'buy':
+      case 'dividend_reinvest':
+      case 'spinoff':
+        held.set(txn.stock_id, quantity + txn.quantity);
+        break;
+      case 'split':
+        held.set(txn.stock_id, quantity * txn.quantity);
+        break;
+      case 'sell':
+        if (txn.quantity > quantity + DUST) oversold.set(txn.id, quantity);
+        held.set(txn.stock_id, Math.max(0, quantity - txn.quantity));
+        break;
+    }
+  });
+
+  return oversold;
+};
+
+const formatShares = (quantity: number) => `${+quantity.toFixed(6)} share${quantity === 1 ? '' : 's'}`;
+
+type HistoryPortfolio = Pick<Portfolio, 'initial_capital' | 'allow_margin'> &
+  Partial<Pick<Portfolio, 'cost_basis_method'>>;
+
+// Rules that depend on the rest of the portfolio: a sale cannot sell more
+// shares than were held on its date, adding or editing a transaction cannot
+// leave a later sale doing so, and without margin the cash balance cannot go
+// below zero. `transactions` are the portfolio's current transactions; when
+// editing, the candidate keeps the id (and created_at) of the one it replaces.
+export const validateAgainstHistory = (
+  portfolio: HistoryPortfolio,
+  transactions: Transaction[],
+  candidate: Transaction
+): TransactionErrors => {
+  const errors: TransactionErrors = {};
+  const others = transactions.filter((txn) => txn.id !== candidate.id);
+
+  const before = findOversoldSales(transactions);
+  const after = findOversoldSales([...others, candidate]);
+
+  if (after.has(candidate.id)) {
+    const held = after.get(candidate.id)!;
+    errors.quantity =
+      held > DUST
+        ? `Only ${formatShares(held)} held on ${toDateKey(candidate.transaction_date)}.`
+        : `No shares held on ${toDateKey(candidate.transaction_date)}.`;
+  }
+
+  // Sales that were fine before this change but no longer are
+  const broken = sortTransactions(others).find((txn) => after.has(txn.id) && !before.has(txn.id));
+  if (broken) {
+    const date = toDateKey(broken.transaction_date);
+    errors.general = `This would leave the sale on ${date} selling more shares than were held.`;
+  } else if (!portfolio.allow_margin && wouldOverdrawHistory(portfolio, transactions, [...others, candidate])) {
+    errors.general = 'Not enough cash for this transaction. Deposit funds first or allow margin for this portfolio.';
+  }
+
+  return errors;
+};
+
+// The same rules for a change to several transactions at once, such as an
+// import, or to none in particular, such as deleting or restoring one.
+// `before` and `after` are the portfolio's transactions without and with the
+// change; only problems the change introduces are reported.
+export const validateHistoryChange = (
+  portfolio: HistoryPortfolio,
+  before: Transaction[],
+  after: Transaction[]
+): TransactionErrors => {
+  const errors: TransactionErrors = {};
+  const oversoldBefore = findOversoldSales(before);
+  const oversoldAfter = findOversoldSales(after);
+
+  const broken = sortTransactions(after).find((txn) => oversoldAfter.has(txn.id) && !oversoldBefore.has(txn.id));
+  if (broken) {
+    const date = toDateKey(broken.transaction_date);
+    errors.general = `This would leave the sale on ${date} selling more shares than were held.`;
+  } else if (!portfolio.allow_margin && wouldOverdrawHistory(portfolio, before, after)) {
+    errors.general = 'This would take the cash balance below zero. Deposit funds first or allow margin for this portfolio.';
+  }
+
+  return errors;
+};
+
+export const assertValidHistoryChange = (portfolio: HistoryPortfolio, before: Transaction[], after: Transaction[]) => {
+  const errors = validateHistoryChange(portfolio, before, after);
+  if (hasErrors(errors)) throw new ValidationError(errors);
+};
+
+// An import is written in one Firestore batch, so a file is stored whole or
+// not at all, and a batch holds at most 500 writes
+export const MAX_IMPORT_WRITES = 500;
+
+// `writes` counts the transactions and the new stocks
+export const assertImportFits = (writes: number) => {
+  if (writes > MAX_IMPORT_WRITES) {
+    throw new ValidationError({
+      general:
+        `An import can add at most ${MAX_IMPORT_WRITES} transactions and new stocks. ` +
+        'Split the file and import each part.',
+    });
+  }
+};
+
+// The first of these rules a stored history breaks, or null. Each device
+// checks only its own changes, so two devices that were offline at the same
+// time can store a history that breaks them between them.
+export const findHistoryProblem = (portfolio: HistoryPortfolio, transactions: Transaction[]): string | null => {
+  const oversold = findOversoldSales(transactions);
+  const sale = sortTransactions(transactions).find((txn) => oversold.has(txn.id));
+  if (sale) return `The sale on ${toDateKey(sale.transaction_date)} sells more shares than were held.`;
+  if (!portfolio.allow_margin && wouldOverdrawHistory(portfolio, [], transactions)) {
+    return 'The cash balance goes below zero, and the portfolio does not allow margin.';
+  }
+  return null;
+};
+
+// Only the fields present are checked, so partial updates can be validated
+export const validatePortfolio = (portfolio: PortfolioChanges): PortfolioErrors => {
+  const errors: PortfolioErrors = {};
+
+  if ('name' in portfolio) {
+    const name = (portfolio.name || '').trim();
+    if (!name) errors.name = 'Enter a name.';
+    else if (name.length > 100) errors.name = 'Names can be at most 100 characters.';
+  }
+
+  if ('description' in portfolio && (portfolio.description || '').length > 1000) {
+    errors.description = 'Descriptions can be at most 1000 characters.';
+  }
+
+  if ('initial_capital' in portfolio && !isNonNegative(portfolio.initial_capital ?? NaN)) {
+    errors.initial_capital = 'Initial capital must be zero or more.';
+  }
+
+  if ('currency' in portfolio && !/^[A-Z]{3}$/.test(portfolio.currency || '')) {
+    errors.currency = 'Choose a currency.';
+  }
+
+  return errors;
+};
+
+export const assertValidPortfolio = (portfolio: PortfolioChanges) => {
+  const errors = validatePortfolio(portfolio);
+  if (hasErrors(errors)) throw new ValidationError(errors);
+};
+
+// Same limits as the Firestore rules; only the fields present are checked
+export const validateStock = (stock: Partial<NewStock>): StockErrors => {
+  const errors: StockErrors = {};
+
+  if ('symbol' in stock && !/^[A-Z0-9.^=-]{1,20}$/.test(stock.symbol || '')) {
+    errors.symbol = 'Use up to 20 capital letters, digits and . ^ = -';
+  }
+
+  if ('name' in stock) {
+    const name = (stock.name || '').trim();
+    if (!name) errors.name = 'Enter a name.';
+    else if (name.length > 200) errors.name = 'Names can be at most 200 characters.';
+  }
+
+  if ('sector' in stock && (stock.sector || '').length > 100) {
+    errors.sector = 'Sectors can be at most 100 characters.';
+  }
+
+  if ('industry' in stock && (stock.industry || '').length > 100) {
+    errors.industry = 'Industries can be at most 100 characters.';
+  }
+
+  if ('exchange' in stock && (stock.exchange || '').length > 50) {
+    errors.exchange = 'Exchanges can be at most 50 characters.';
+  }
+
+  if ('currency' in stock && !/^[A-Z]{3}$/.test(stock.currency || '')) {
+    errors.currency = 'Choose a currency.';
+  }
+
+  return errors;
+};
+
+export const assertValidStock = (stock: Partial<NewStock>) => {
+  const errors = validateStock(stock);
+  if (hasErrors(errors)) throw new ValidationError(errors);
+};
+
+// Same limits as the Firestore rules
+export const MAX_WATCHLIST_ITEMS = 200;
+
+export const validateWatchlistItem = (item: Pick<WatchlistItem, 'notes' | 'target_price'>): WatchlistItemErrors => {
+  const errors: WatchlistItemErrors = {};
+
+  if (item.notes.length > 1000) {
+    errors.notes = 'Notes can be at most 1000 characters.';
+  }
+
+  if (item.target_price !== undefined && !isPositive(item.target_price)) {
+    errors.target_price = 'Target price must be greater than zero.';
+  }
+
+  return errors;
+};
+
+// Only the fields present are checked; a problem with any item is reported
+// against the list as a whole
+export const validateWatchlist = (watchlist: WatchlistChanges): WatchlistErrors => {
+  const errors: WatchlistErrors = {};
+
+  if ('name' in watchlist) {
+    const name = (watchlist.name || '').trim();
+    if (!name) errors.name = 'Enter a name.';
+    else if (name.length > 100) errors.name = 'Names can be at most 100 characters.';
+  }
+
+  if (watchlist.items) {
+    const stockIds = new Set(watchlist.items.map((item) => item.stock_id));
+    const invalid = watchlist.items.map(validateWatchlistItem).find(hasErrors);
+    if (watchlist.items.length > MAX_WATCHLIST_ITEMS) {
+      errors.items = `A watchlist can hold at most ${MAX_WATCHLIST_ITEMS} symbols.`;
+    } else if (stockIds.size < watchlist.items.length) {
+      errors.items = 'Each symbol can only be on a watchlist once.';
+    } else if (invalid) {
+      errors.items = Object.values(invalid).join(' ');
+    }
+  }
+
+  return errors;
+};
+
+export const assertValidWatchlist = (watchlist: WatchlistChanges) => {
+  const errors = validateWatchlist(watchlist);
+  if (hasErrors(errors)) throw new ValidationError(errors);
+};
+
+export const validateAlertRule = (
+  rule: Pick<NewAlertRule, 'type' | 'threshold'> & Partial<Pick<NewAlertRule, 'stock_id' | 'portfolio_id'>>
+): AlertRuleErrors => {
+  const errors: AlertRuleErrors = {};
+  const type = rule.type;
+
+  if ((type === 'price_above' || type === 'price_below' || type === 'daily_move') && !rule.stock_id) {
+    errors.stock_id = 'Choose a stock.';
+  }
+
+  if ((type === 'drawdown' || type === 'position_weight') && !rule.portfolio_id) {
+    errors.portfolio_id = 'Choose a portfolio.';
+  }
+
+  if (type === 'price_above' || type === 'price_below') {
+    if (!isPositive(rule.threshold)) errors.threshold = 'Price must be greater than zero.';
+  } else if (type === 'daily_move') {
+    if (!isPositive(rule.threshold)) errors.threshold = 'Move must be greater than zero.';
+  } else if (!isPositive(rule.threshold) || rule.threshold >= 100) {
+    errors.threshold = 'Enter a percentage between 0 and 100.';
+  }
+
+  return errors;
+};
+
+export const assertValidAlertRule = (rule: NewAlertRule) => {
+  const errors = validateAlertRule(rule);
+  if (hasErrors(errors)) throw new ValidationError(errors);
+};
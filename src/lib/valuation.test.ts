@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { buildValueSeries } from './valuation';
+import { Stock, Transaction } from '../types';
+
+const stock = (id: string, currency: string): Stock => ({
+  id,
+  symbol: id,
+  name: id,
+  sector: 'Technology',
+  industry: '',
+  exchange: 'NASDAQ',
+  currency,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+});
+
+let nextId = 1;
+const txn = (fields: Partial<Transaction>): Transaction => ({
+  id: `t${nextId++}`,
+  portfolio_id: 'p',
+  stock_id: 'AAPL',
+  transaction_type: 'buy',
+  quantity: 1,
+  price: 0,
+  fees: 0,
+  transaction_date: '2024-01-02T00:00:00.000Z',
+  notes: '',
+  created_at: '2024-01-02T00:00:00.000Z',
+  ...fields,
+});
+
+const portfolio = { initial_capital: 1000, created_at: '2024-01-02T00:00:00.000Z', currency: 'USD' };
+
+// Date, value and net flow of each point
+const summary = (series: ReturnType<typeof buildValueSeries>) =>
+  series.map(({ date, value, netFlow }) => [date, value, netFlow]);
+
+describe('buildValueSeries', () => {
+  it('values positions at each close, carrying the traded price until the first one', () => {
+    const aapl = stock('AAPL', 'USD');
+    const series = buildValueSeries(
+      portfolio,
+      [
+        txn({ stock: aapl, quantity: 5, price: 100 }),
+        txn({
+          stock_id: '',
+          transaction_type: 'deposit',
+          price: 500,
+          transaction_date: '2024-01-04T00:00:00.000Z',
+        }),
+      ],
+      new Map([
+        [
+          aapl.id,
+          [
+            { date: '2024-01-03', close: 110 },
+            { date: '2024-01-05', close: 120 },
+          ],
+        ],
+      ]),
+      new Map(),
+      '2024-01-05'
+    );
+
+    expect(summary(series)).toEqual([
+      ['2024-01-02', 1000, 1000],
+      ['2024-01-03', 1050, 0],
+      ['2024-01-04', 1550, 500],
+      ['2024-01-05', 1600, 0],
+    ]);
+    expect(series[series.length - 1]).toMatchObject({ cash: 1000, invested: 1500, unconverted: false });
+  });
+
+  it('carries the last close across a split on the new share count', () => {
+    const aapl = stock('AAPL', 'USD');
+    const series = buildValueSeries(
+      portfolio,
+      [
+        txn({ stock: aapl, quantity: 10, price: 100 }),
+        txn({ stock: aapl, transaction_type: 'split', quantity: 2, transaction_date: '2024-01-03T00:00:00.000Z' }),
+      ],
+      new Map(),
+      new Map(),
+      '2024-01-03'
+    );
+
+    expect(summary(series)).toEqual([
+      ['2024-01-02', 1000, 1000],
+      ['2024-01-03', 1000, 0],
+    ]);
+  });
+
+  it('converts positions in other currencies at the rate of the day', () => {
+    const sap = stock('SAP', 'EUR');
+    const series = buildValueSeries(
+      portfolio,
+      [txn({ stock_id: sap.id, stock: sap, quantity: 2, price: 100, fx_rate: 1.1 })],
+      new Map([[sap.id, [{ date: '2024-01-03', close: 110 }]]]),
+      new Map([
+        [
+          'EUR',
+          [
+            { date: '2024-01-02', close: 1.1 },
+            { date: '2024-01-03', close: 1.2 },
+          ],
+        ],
+      ]),
+      '2024-01-03'
+    );
+
+    expect(series.map((point) => point.value)).toEqual([1000, 780 + 2 * 110 * 1.2]);
+  });
+
+  it('leaves out positions without an exchange rate and marks their days', () => {
+    const sap = stock('SAP', 'EUR');
+    const series = buildValueSeries(
+      portfolio,
+      [txn({ stock_id: sap.id, stock: sap, quantity: 2, price: 100, fx_rate: 1.1 })],
+      new Map([[sap.id, [{ date: '2024-01-03', close: 110 }]]]),
+      new Map(),
+      '2024-01-03'
+    );
+
+    expect(series.map(({ date, value, unconverted }) => ({ date, value, unconverted }))).toEqual([
+      { date: '2024-01-02', value: 780, unconverted: true },
+      { date: '2024-01-03', value: 780, unconverted: true },
+    ]);
+  });
+});
@@ -0,0 +1,169 @@
+import { Portfolio, Transaction } from '../types';
+import { ClosePoint, loadPriceHistory } from './prices';
+import { loadFxHistory, rateOn } from './fx';
+import { applyTransaction, createLedger, isTradeTransaction, sortTransactions } from './ledger';
+import { toDateKey, todayKey } from './dates';
+
+type ValuationPortfolio = Pick<Portfolio, 'initial_capital' | 'created_at' | 'currency'>;
+
+export interface ValuePoint {
+  // YYYY-MM-DD
+  date: string;
+  // Market value of all positions at that day's close, plus cash, in the
+  // portfolio's currency
+  value: number;
+  cash: number;
+  // Cumulative capital put into the portfolio so far
+  invested: number;
+  // Capital added (positive) or taken out (negative) on this day
+  netFlow: number;
+  // A position's currency had no rate into the portfolio's currency, so its
+  // value is left out of `value`
+  unconverted: boolean;
+}
+
+// The series starts when the portfolio opened or at its earliest
+// transaction, whichever comes first (transactions can be backdated).
+const seriesStart = (portfolio: ValuationPortfolio, sorted: Transaction[]) => {
+  const opened = toDateKey(portfolio.created_at);
+  return sorted.length > 0 && toDateKey(sorted[0].transaction_date) < opened
+    ? toDateKey(sorted[0].transaction_date)
+    : opened;
+};
+
+// Replays transactions day by day against daily closes. Days come from the
+// price histories (trading days) plus the transaction dates themselves, and a
+// stock with no close yet is carried at its last traded price. Initial
+// capital counts as a contribution on the first day; dividends land in cash
+// and so count towards the return rather than as contributions. Positions in
+// other currencies are converted with fxHistories, keyed by currency; one
+// whose currency has no history is left out and the day marked unconverted.
+export const buildValueSeries = (
+  portfolio: ValuationPortfolio,
+  transactions: Transaction[],
+  histories: Map<string, ClosePoint[]>,
+  fxHistories: Map<string, ClosePoint[]> = new Map(),
+  endDate = todayKey()
+): ValuePoint[] => {
+  if (transactions.length === 0 && !portfolio.initial_capital) return [];
+
+  const sorted = sortTransactions(transactions);
+  const startDate = seriesStart(portfolio, sorted);
+
+  const dates = new Set<string>();
+  histories.forEach((points) =>
+    points.forEach((point) => {
+      if (point.date >= startDate && point.date <= endDate) dates.add(point.date);
+    })
+  );
+  sorted.forEach((txn) => dates.add(toDateKey(txn.transaction_date)));
+  dates.add(startDate);
+
+  const ledger = createLedger(portfolio);
+  const lastClose = new Map<string, number>();
+  const cursors = new Map<string, number>();
+  let txnIndex = 0;
+  let previousContributions = 0;
+
+  return Array.from(dates)
+    .filter((date) => date <= endDate)
+    .sort()
+    .map((date) => {
+      while (txnIndex < sorted.length && toDateKey(sorted[txnIndex].transaction_date) <= date) {
+        const txn = sorted[txnIndex++];
+        applyTransaction(ledger, txn);
+        if (isTradeTransaction(txn.transaction_type)) {
+          lastClose.set(txn.stock_id, txn.price);
+        } else if (txn.transaction_type === 'split' && lastClose.has(txn.stock_id) && txn.quantity > 0) {
+          // Carry the pre-split close forward on the new share count
+          lastClose.set(txn.stock_id, lastClose.get(txn.stock_id)! / txn.quantity);
+        } else if (txn.transaction_type === 'spinoff' && !lastClose.has(txn.stock_id)) {
+          lastClose.set(txn.stock_id, txn.price);
+        }
+      }
+      const netFlow = ledger.contributions - previousContributions;
+      previousContributions = ledger.contributions;
+
+      let value = ledger.cash;
+      let unconverted = false;
+      ledger.positions.forEach(({ quantity, stock }, stockId) => {
+        const history = histories.get(stockId) || [];
+        let cursor = cursors.get(stockId) || 0;
+        while (cursor < history.length && history[cursor].date <= date) {
+          lastClose.set(stockId, history[cursor].close);
+          cursor++;
+        }
+        cursors.set(stockId, cursor);
+        const rate =
+          stock?.currency && stock.currency !== portfolio.currency
+            ? rateOn(fxHistories.get(stock.currency) || [], date)
+            : 1;
+        if (rate === undefined) {
+          if (quantity !== 0) unconverted = true;
+          return;
+        }
+        value += quantity * (lastClose.get(stockId) || 0) * rate;
+      });
+
+      return { date, value, cash: ledger.cash, invested: ledger.contributions, netFlow, unconverted };
+    });
+};
+
+export interface ValuationHistories {
+  // YYYY-MM-DD range the histories cover
+  from: string;
+  to: string;
+  // Daily closes keyed by stock id
+  histories: Map<string, ClosePoint[]>;
+  // Rates into the portfolio's currency keyed by currency
+  fxHistories: Map<string, ClosePoint[]>;
+}
+
+// Loads daily closes for every stock the transactions touch, and exchange
+// rates for their currencies, from the portfolio's first day up to today.
+// Histories from `previous` are reused when they cover the same range, so
+// adding a trade in a stock already held loads nothing new.
+export const loadValuationHistories = async (
+  portfolio: ValuationPortfolio,
+  transactions: Transaction[],
+  previous?: ValuationHistories | null
+): Promise<ValuationHistories> => {
+  const from = seriesStart(portfolio, sortTransactions(transactions));
+  const to = todayKey();
+  const stocks = new Map(
+    transactions.filter((txn) => txn.stock).map((txn) => [txn.stock_id, txn.stock!])
+  );
+
+  const currencies = new Set(
+    Array.from(stocks.values())
+      .map((stock) => stock.currency)
+      .filter((currency) => currency && currency !== portfolio.currency)
+  );
+
+  const reusable = previous && previous.from === from && previous.to === to ? previous : null;
+  const histories = new Map(reusable?.histories);
+  const fxHistories = new Map(reusable?.fxHistories);
+  await Promise.all([
+    ...Array.from(stocks.values())
+      .filter((stock) => !histories.has(stock.id))
+      .map(async (stock) => {
+        histories.set(stock.id, await loadPriceHistory(stock, from, to));
+      }),
+    ...Array.from(currencies)
+      .filter((currency) => !fxHistories.has(currency))
+      .map(async (currency) => {
+        fxHistories.set(currency, await loadFxHistory(currency, portfolio.currency, from, to));
+      }),
+  ]);
+
+  return { from, to, histories, fxHistories };
+};
+
+// Builds the portfolio's value series from its first day up to today
+export const loadValueSeries = async (
+  portfolio: ValuationPortfolio,
+  transactions: Transaction[]
+): Promise<ValuePoint[]> => {
+  const { histories, fxHistories } = await loadValuationHistories(portfolio, transactions);
+  return buildValueSeries(portfolio, transactions, histories, fxHistories, todayKey());
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { moveItem, summarizeCloses } from './watchlists';
+
+describe('summarizeCloses', () => {
+  it('reports the last close, its change and the range', () => {
+    expect(
+      summarizeCloses([
+        { date: '2024-01-02', close: 90 },
+        { date: '2024-01-03', close: 120 },
+        { date: '2024-01-04', close: 100 },
+        { date: '2024-01-05', close: 110 },
+      ])
+    ).toEqual({ lastPrice: 110, date: '2024-01-05', change: 10, changePercent: 10, low: 90, high: 120 });
+  });
+
+  it('has no change with a single close and no summary without any', () => {
+    expect(summarizeCloses([{ date: '2024-01-05', close: 110 }])).toMatchObject({ change: null, changePercent: null });
+    expect(summarizeCloses([])).toBeNull();
+  });
+});
+
+describe('moveItem', () => {
+  it('swaps the item with its neighbour', () => {
+    expect(moveItem(['a', 'b', 'c'], 1, -1)).toEqual(['b', 'a', 'c']);
+    expect(moveItem(['a', 'b', 'c'], 1, 1)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('leaves the list alone at either end', () => {
+    const items = ['a', 'b'];
+    expect(moveItem(items, 0, -1)).toBe(items);
+    expect(moveItem(items, 1, 1)).toBe(items);
+  });
+});
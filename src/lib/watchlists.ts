@@ -0,0 +1,52 @@
+import { ClosePoint, loadPriceHistory } from './prices';
+import { toDateKey, todayKey } from './dates';
+import { Stock } from '../types';
+
+export interface PriceSummary {
+  lastPrice: number;
+  // YYYY-MM-DD of the last close
+  date: string;
+  // Against the close before it; null when there is only one close
+  change: number | null;
+  changePercent: number | null;
+  // Lowest and highest close over the last 52 weeks
+  low: number;
+  high: number;
+}
+
+// `closes` are oldest first, as loadPriceHistory returns them
+export const summarizeCloses = (closes: ClosePoint[]): PriceSummary | null => {
+  if (closes.length === 0) return null;
+
+  const last = closes[closes.length - 1];
+  const previous = closes.length > 1 ? closes[closes.length - 2] : null;
+  const change = previous ? last.close - previous.close : null;
+  const values = closes.map((point) => point.close);
+
+  return {
+    lastPrice: last.close,
+    date: last.date,
+    change,
+    changePercent: previous && change !== null && previous.close > 0 ? (change / previous.close) * 100 : null,
+    low: Math.min(...values),
+    high: Math.max(...values),
+  };
+};
+
+const oneYearAgo = () => {
+  const date = new Date();
+  date.setUTCFullYear(date.getUTCFullYear() - 1);
+  return toDateKey(date.toISOString());
+};
+
+export const loadPriceSummary = async (stock: Stock) =>
+  summarizeCloses(await loadPriceHistory(stock, oneYearAgo(), todayKey()));
+
+// A copy of `items` with the item at `from` moved one place up (-1) or down (1)
+export const moveItem = <T>(items: T[], from: number, direction: -1 | 1): T[] => {
+  const to = from + direction;
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+};
@@ -2,6 +2,18 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { db } from './lib/firebase'
+import { setDataStore } from './lib/data'
+import { createFirestoreStore } from './lib/data/firestoreStore'
+import { createFixtureProvider, MarketDataFixtures, setMarketDataProvider } from './lib/marketData'
+import fixtures from './lib/marketData/fixtures.json'
+
+setDataStore(createFirestoreStore(db))
+
+// Simulated prices for development only; production builds register no provider
+if (import.meta.env.DEV) {
+  setMarketDataProvider(createFixtureProvider(fixtures as MarketDataFixtures))
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
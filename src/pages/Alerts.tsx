@@ -0,0 +1,327 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { getDataStore } from '../lib/data';
+import { ALERT_TYPE_LABELS, checkAlerts, isPriceAlert, summaryToPriceObservation } from '../lib/alerts';
+import { loadPriceSummary, PriceSummary } from '../lib/watchlists';
+import { AlertRuleErrors, hasErrors, validateAlertRule } from '../lib/validation';
+import { formatCurrency } from '../lib/currency';
+import { useAlertRules, usePortfolios } from '../hooks/useLiveData';
+import { useAuth } from '../contexts/AuthContext';
+import Layout from '../components/Layout';
+import FieldError from '../components/FieldError';
+import { AlertRule, AlertType, Stock } from '../types';
+import { Bell, BellOff, BellRing, Trash2 } from 'lucide-react';
+
+const emptyRuleForm = () => ({
+  type: 'price_above' as AlertType,
+  stock_id: '',
+  portfolio_id: '',
+  threshold: 0,
+});
+
+export default function Alerts() {
+  const { user } = useAuth();
+  const { rules, loading } = useAlertRules(user?.uid);
+  const { portfolios } = usePortfolios(user?.uid);
+  const [allStocks, setAllStocks] = useState<Stock[]>([]);
+  // The stock behind each rule's stock_id; merged stocks resolve to the stock
+  // they were merged into
+  const [ruleStocks, setRuleStocks] = useState<Map<string, Stock>>(new Map());
+  const [summaries, setSummaries] = useState<Map<string, PriceSummary | null>>(new Map());
+  const [form, setForm] = useState(emptyRuleForm);
+  const [errors, setErrors] = useState<AlertRuleErrors>({});
+  const [saving, setSaving] = useState(false);
+
+  const stockIdsKey = Array.from(new Set(rules.flatMap((rule) => (rule.stock_id ? [rule.stock_id] : []))))
+    .sort()
+    .join(',');
+  const isPriceForm = isPriceAlert(form.type);
+  const formStock = allStocks.find((stock) => stock.id === form.stock_id);
+
+  useEffect(() => {
+    getDataStore()
+      .stocks.list()
+      .then(setAllStocks)
+      .catch((error) => console.error('Error loading securities:', error));
+  }, []);
+
+  // Shows where each watched stock trades now, and checks the price rules
+  // against the prices just loaded
+  useEffect(() => {
+    if (!user || !stockIdsKey) return;
+    let cancelled = false;
+
+    const loadPrices = async () => {
+      try {
+        const stocks = await getDataStore().stocks.getMany(stockIdsKey.split(','));
+        if (cancelled) return;
+        setRuleStocks(stocks);
+
+        const resolved = Array.from(new Map(Array.from(stocks.values()).map((stock) => [stock.id, stock])).values());
+        const loaded = await Promise.all(resolved.map((stock) => loadPriceSummary(stock)));
+        if (cancelled) return;
+        setSummaries(new Map(resolved.map((stock, index) => [stock.id, loaded[index]])));
+
+        await checkAlerts(user.uid, {
+          prices: resolved.flatMap((stock, index) =>
+            loaded[index] ? [summaryToPriceObservation(stock, loaded[index]!)] : []
+          ),
+        });
+      } catch (error) {
+        console.error('Error checking alerts:', error);
+      }
+    };
+
+    loadPrices();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, stockIdsKey]);
+
+  const createRule = async () => {
+    if (!user) return;
+
+    const input = {
+      user_id: user.uid,
+      type: form.type,
+      ...(form.type !== 'drawdown' && form.stock_id ? { stock_id: form.stock_id } : {}),
+      ...(!isPriceForm && form.portfolio_id ? { portfolio_id: form.portfolio_id } : {}),
+      threshold: form.threshold,
+      muted: false,
+    };
+    const nextErrors = validateAlertRule(input);
+    setErrors(nextErrors);
+    if (hasErrors(nextErrors)) return;
+
+    setSaving(true);
+    try {
+      await getDataStore().alerts.create(input);
+      setForm(emptyRuleForm());
+    } catch (error) {
+      console.error('Error creating alert:', error);
+      alert('Failed to create alert');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleMute = async (rule: AlertRule) => {
+    try {
+      await getDataStore().alerts.update(rule.id, { muted: !rule.muted });
+    } catch (error) {
+      console.error('Error updating alert:', error);
+      alert('Failed to update alert');
+    }
+  };
+
+  const deleteRule = async (rule: AlertRule) => {
+    if (!confirm('Delete this alert? Notifications it already sent are kept.')) return;
+    try {
+      await getDataStore().alerts.remove(rule.id);
+    } catch (error) {
+      console.error('Error deleting alert:', error);
+      alert('Failed to delete alert');
+    }
+  };
+
+  const describeTarget = (rule: AlertRule) => {
+    const stock = rule.stock_id ? ruleStocks.get(rule.stock_id) : undefined;
+    const symbol = stock?.symbol || rule.stock_id;
+    const portfolio = portfolios.find((p) => p.id === rule.portfolio_id);
+    const portfolioName = portfolio?.name || 'Deleted portfolio';
+
+    if (isPriceAlert(rule.type)) return symbol;
+    if (rule.type === 'position_weight') return `${rule.stock_id ? symbol : 'Any position'} in ${portfolioName}`;
+    return portfolioName;
+  };
+
+  const formatThreshold = (rule: AlertRule) => {
+    if (rule.type === 'price_above' || rule.type === 'price_below') {
+      const stock = rule.stock_id ? ruleStocks.get(rule.stock_id) : undefined;
+      return formatCurrency(rule.threshold, stock?.currency);
+    }
+    return `${rule.threshold}%`;
+  };
+
+  const formatCurrent = (rule: AlertRule) => {
+    const stock = rule.stock_id ? ruleStocks.get(rule.stock_id) : undefined;
+    const summary = stock ? summaries.get(stock.id) : undefined;
+    if (!isPriceAlert(rule.type) || !stock) return '—';
+    if (summary === undefined) return '...';
+    if (summary === null) return 'No prices';
+    if (rule.type === 'daily_move') {
+      return summary.changePercent !== null
+        ? `${summary.changePercent >= 0 ? '+' : ''}${summary.changePercent.toFixed(2)}%`
+        : '—';
+    }
+    return formatCurrency(summary.lastPrice, stock.currency);
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-gray-600">Loading...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-end justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Alerts</h1>
+            <p className="text-gray-600 mt-1">
+              Checked whenever prices load here, on the Dashboard and on your watchlists
+            </p>
+          </div>
+          <Link to="/settings" className="text-sm text-blue-600 hover:text-blue-700">
+            Notification settings
+          </Link>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">New Alert</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-start">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Alert When</label>
+              <select
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as AlertType })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {(Object.keys(ALERT_TYPE_LABELS) as AlertType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {ALERT_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {!isPriceForm && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Portfolio</label>
+                <select
+                  value={form.portfolio_id}
+                  onChange={(e) => setForm({ ...form, portfolio_id: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Select a portfolio</option>
+                  {portfolios.map((portfolio) => (
+                    <option key={portfolio.id} value={portfolio.id}>
+                      {portfolio.name}
+                    </option>
+                  ))}
+                </select>
+                <FieldError message={errors.portfolio_id} />
+              </div>
+            )}
+            {form.type !== 'drawdown' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Stock</label>
+                <select
+                  value={form.stock_id}
+                  onChange={(e) => setForm({ ...form, stock_id: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">{isPriceForm ? 'Select a stock' : 'Any position'}</option>
+                  {allStocks.map((stock) => (
+                    <option key={stock.id} value={stock.id}>
+                      {stock.symbol}
+                      {stock.exchange ? ` (${stock.exchange})` : ''} - {stock.name}
+                    </option>
+                  ))}
+                </select>
+                <FieldError message={errors.stock_id} />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {form.type === 'price_above' || form.type === 'price_below'
+                  ? `Price${formStock ? ` (${formStock.currency})` : ''}`
+                  : 'Percent'}
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={form.threshold || ''}
+                onChange={(e) => setForm({ ...form, threshold: parseFloat(e.target.value) || 0 })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <FieldError message={errors.threshold} />
+            </div>
+          </div>
+          <div className="flex justify-end mt-4">
+            <button
+              onClick={createRule}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Add Alert'}
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Alert</th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Watching</th>
+                <th className="py-3 px-4 text-right text-xs font-medium text-gray-500 uppercase">Now</th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="py-3 px-4 text-right text-xs font-medium text-gray-500 uppercase">Action</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rules.map((rule) => (
+                <tr key={rule.id} className={`hover:bg-gray-50 ${rule.muted ? 'text-gray-400' : ''}`}>
+                  <td className="py-3 px-4 text-sm">
+                    {ALERT_TYPE_LABELS[rule.type]} <span className="font-medium">{formatThreshold(rule)}</span>
+                  </td>
+                  <td className="py-3 px-4 text-sm">{describeTarget(rule)}</td>
+                  <td className="py-3 px-4 text-sm text-right whitespace-nowrap">{formatCurrent(rule)}</td>
+                  <td className="py-3 px-4 text-sm whitespace-nowrap">
+                    {rule.triggered ? (
+                      <span className="inline-flex items-center px-2 py-0.5 text-xs font-medium bg-amber-100 text-amber-800 rounded">
+                        <BellRing className="w-3 h-3 mr-1" />
+                        Triggered
+                      </span>
+                    ) : (
+                      <span className="text-gray-500">Waiting</span>
+                    )}
+                    {rule.muted && <span className="ml-2 text-xs text-gray-500">Muted</span>}
+                    {rule.last_triggered_at && (
+                      <p className="text-xs text-gray-400 mt-1">
+                        Last fired {new Date(rule.last_triggered_at).toLocaleString()}
+                      </p>
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => toggleMute(rule)}
+                      className="text-gray-600 hover:text-gray-800 mr-3"
+                      title={rule.muted ? 'Unmute' : 'Mute'}
+                    >
+                      {rule.muted ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => deleteRule(rule)}
+                      className="text-red-600 hover:text-red-700"
+                      title="Delete alert"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rules.length === 0 && <p className="text-gray-500 text-center py-8">No alerts yet</p>}
+        </div>
+      </div>
+    </Layout>
+  );
+}
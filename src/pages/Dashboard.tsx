@@ -1,168 +1,153 @@
-import { useState, useEffect } from 'react';
+import { Fragment, useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import {
-  collection,
-  query,
-  where,
-  orderBy,
-  getDocs,
-  doc,
-  getDoc,
-} from 'firebase/firestore';
-import { db } from '../lib/firebase';
+  downloadFile,
+  exportFileName,
+  holdingsToCsv,
+  holdingsToJson,
+  snapshotsToCsv,
+  snapshotsToJson,
+} from '../lib/exporters';
+import { buildPortfolioMetrics, loadMetricsMarketData, MetricsMarketData } from '../lib/metrics';
+import { buildSnapshots, convertSnapshots, syncPortfolioSnapshots } from '../lib/snapshots';
+import { DEFAULT_CURRENCY, formatCurrency } from '../lib/currency';
+import { generateRecommendations } from '../lib/recommendations';
+import { checkAlerts, toPortfolioObservation, toPriceObservation } from '../lib/alerts';
 import { useAuth } from '../contexts/AuthContext';
+import { usePortfolios, usePreferences, useTransactions } from '../hooks/useLiveData';
 import Layout from '../components/Layout';
-import { Portfolio, PortfolioMetrics, Holding } from '../types';
-import { TrendingUp, TrendingDown, DollarSign, PieChart, AlertCircle } from 'lucide-react';
+import InfoTooltip from '../components/InfoTooltip';
+import EquityCurveChart from '../components/EquityCurveChart';
+import RecommendationsPanel from '../components/RecommendationsPanel';
+import RebalancePanel from '../components/RebalancePanel';
+import ExportMenu from '../components/ExportMenu';
+import HoldingLots from '../components/HoldingLots';
+import { Portfolio, PortfolioMetrics, PortfolioSnapshot, Recommendation, Transaction, UserPreferences } from '../types';
+import {
+  TrendingUp,
+  TrendingDown,
+  DollarSign,
+  PieChart,
+  AlertCircle,
+  Wallet,
+  ChevronDown,
+  ChevronRight,
+  FileText,
+} from 'lucide-react';
 import { PieChart as RePieChart, Pie, Cell, Tooltip, ResponsiveContainer } from 'recharts';
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
 
+const RISK_METRIC_CARDS: {
+  key: 'cagr' | 'volatility' | 'sharpeRatio' | 'maxDrawdown' | 'beta';
+  label: string;
+  tooltip: string;
+  format: (value: number) => string;
+}[] = [
+  {
+    key: 'cagr',
+    label: 'CAGR',
+    tooltip: 'Compound annual growth rate of the time-weighted return since the first transaction. Deposits and purchases do not count as growth.',
+    format: (value) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`,
+  },
+  {
+    key: 'volatility',
+    label: 'Volatility',
+    tooltip: 'Annualised standard deviation of daily returns. Higher values mean larger day-to-day swings in portfolio value.',
+    format: (value) => `${value.toFixed(2)}%`,
+  },
+  {
+    key: 'sharpeRatio',
+    label: 'Sharpe Ratio',
+    tooltip: 'Annualised return above the risk-free rate (set in Settings) divided by volatility. Above 1 is generally considered good.',
+    format: (value) => value.toFixed(2),
+  },
+  {
+    key: 'maxDrawdown',
+    label: 'Max Drawdown',
+    tooltip: 'Largest peak-to-trough decline in portfolio value, measured on returns so contributions and withdrawals are ignored.',
+    format: (value) => `${value > 0 ? '-' : ''}${value.toFixed(2)}%`,
+  },
+  {
+    key: 'beta',
+    label: 'Beta',
+    tooltip: 'Sensitivity of daily returns to the benchmark chosen in Settings. 1 moves with the benchmark, below 1 is less volatile, above 1 more.',
+    format: (value) => value.toFixed(2),
+  },
+];
+
 export default function Dashboard() {
   const { user } = useAuth();
-  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
-  const [selectedPortfolio, setSelectedPortfolio] = useState<Portfolio | null>(null);
+  const { portfolios, loading } = usePortfolios(user?.uid);
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState('');
   const [metrics, setMetrics] = useState<PortfolioMetrics | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [snapshots, setSnapshots] = useState<PortfolioSnapshot[]>([]);
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
+  const [expandedHolding, setExpandedHolding] = useState<string | null>(null);
+  const marketData = useRef<MetricsMarketData | null>(null);
 
-  useEffect(() => {
-    if (user) {
-      loadPortfolios();
-    }
-  }, [user]);
+  const selectedPortfolio = portfolios.find((p) => p.id === selectedPortfolioId) || portfolios[0] || null;
+  const { transactions, loading: transactionsLoading } = useTransactions(selectedPortfolio?.id);
+  const { preferences, loading: preferencesLoading } = usePreferences(user?.uid);
+  const baseCurrency = preferences?.base_currency || DEFAULT_CURRENCY;
 
+  // Reruns whenever a transaction is added or removed, here or on another
+  // device. Market data already loaded is reused, so only trades in new
+  // stocks or currencies wait on the network.
   useEffect(() => {
-    if (selectedPortfolio) {
-      loadPortfolioMetrics(selectedPortfolio.id);
-    }
-  }, [selectedPortfolio]);
+    if (!selectedPortfolio || transactionsLoading || preferencesLoading) return;
 
-  const loadPortfolios = async () => {
-    if (!user) return;
+    let cancelled = false;
+    updateMetrics(selectedPortfolio, transactions, preferences, () => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPortfolio, transactions, preferences, transactionsLoading, preferencesLoading]);
 
+  const updateMetrics = async (
+    portfolio: Portfolio,
+    portfolioTransactions: Transaction[],
+    userPreferences: UserPreferences | null,
+    isCancelled: () => boolean
+  ) => {
     try {
-      const portfoliosRef = collection(db, 'portfolios');
-      const q = query(
-        portfoliosRef,
-        where('user_id', '==', user.uid),
-        orderBy('created_at', 'desc')
-      );
-      const querySnapshot = await getDocs(q);
-
-      const portfolioData: Portfolio[] = querySnapshot.docs.map((doc) => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          user_id: data.user_id,
-          name: data.name,
-          description: data.description,
-          initial_capital: data.initial_capital,
-          created_at: data.created_at?.toDate().toISOString() || new Date().toISOString(),
-          updated_at: data.updated_at?.toDate().toISOString() || new Date().toISOString(),
-        };
-      });
+      const market = await loadMetricsMarketData(portfolio, portfolioTransactions, userPreferences, marketData.current);
+      marketData.current = market;
+      if (isCancelled()) return;
 
-      setPortfolios(portfolioData);
-      if (portfolioData.length > 0) {
-        setSelectedPortfolio(portfolioData[0]);
-      }
-    } catch (error) {
-      console.error('Error loading portfolios:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const loadPortfolioMetrics = async (portfolioId: string) => {
-    try {
-      const transactionsRef = collection(db, 'transactions');
-      const q = query(
-        transactionsRef,
-        where('portfolio_id', '==', portfolioId),
-        orderBy('transaction_date', 'asc')
+      const { metrics: portfolioMetrics, series } = buildPortfolioMetrics(
+        portfolio,
+        portfolioTransactions,
+        userPreferences,
+        market
       );
-      const querySnapshot = await getDocs(q);
+      setMetrics(portfolioMetrics);
+      setRecommendations(generateRecommendations(portfolioMetrics, userPreferences));
 
-      const holdings: Map<string, Holding> = new Map();
-      let totalCost = 0;
-
-      for (const txnDoc of querySnapshot.docs) {
-        const txn = txnDoc.data();
-        
-        // Fetch related stock data
-        const stockDocRef = doc(db, 'stocks', txn.stock_id);
-        const stockDoc = await getDoc(stockDocRef);
-        
-        if (!stockDoc.exists()) continue;
-        
-        const stock = { id: stockDoc.id, ...stockDoc.data() } as any;
-
-        const existingHolding = holdings.get(stock.symbol);
-
-        if (txn.transaction_type === 'buy') {
-          const cost = txn.quantity * txn.price + txn.fees;
-          totalCost += cost;
-
-          if (existingHolding) {
-            const newQuantity = existingHolding.quantity + txn.quantity;
-            const newTotalCost = existingHolding.totalCost + cost;
-            existingHolding.quantity = newQuantity;
-            existingHolding.totalCost = newTotalCost;
-            existingHolding.averagePrice = newTotalCost / newQuantity;
-          } else {
-            holdings.set(stock.symbol, {
-              stock,
-              quantity: txn.quantity,
-              averagePrice: txn.price,
-              currentPrice: txn.price,
-              totalCost: cost,
-              currentValue: txn.quantity * txn.price,
-              unrealizedGain: 0,
-              unrealizedGainPercent: 0,
-              weight: 0,
-            });
-          }
-        } else if (txn.transaction_type === 'sell' && existingHolding) {
-          existingHolding.quantity -= txn.quantity;
-          if (existingHolding.quantity <= 0) {
-            holdings.delete(stock.symbol);
-          }
-        }
+      // Alerts are checked against the prices just loaded, without holding
+      // up the rest of the page
+      if (user) {
+        checkAlerts(user.uid, {
+          prices: portfolioMetrics.holdings.flatMap((holding) => {
+            const current = market.currentPrices.get(holding.stock.id);
+            const closes = market.valuation.histories.get(holding.stock.id) || [];
+            return current ? [toPriceObservation(holding.stock, current, closes)] : [];
+          }),
+          portfolios: [toPortfolioObservation(portfolio, portfolioMetrics, series)],
+        }).catch((error) => console.error('Error checking alerts:', error));
       }
 
-      const holdingsArray = Array.from(holdings.values());
-      const totalValue = holdingsArray.reduce((sum, h) => sum + h.currentValue, 0);
-
-      holdingsArray.forEach((holding) => {
-        holding.unrealizedGain = holding.currentValue - holding.totalCost;
-        holding.unrealizedGainPercent = ((holding.currentValue - holding.totalCost) / holding.totalCost) * 100;
-        holding.weight = (holding.currentValue / totalValue) * 100;
-      });
-
-      const sectorMap = new Map<string, number>();
-      holdingsArray.forEach((holding) => {
-        const sector = holding.stock.sector || 'Unknown';
-        sectorMap.set(sector, (sectorMap.get(sector) || 0) + holding.currentValue);
-      });
-
-      const sectorAllocation = Array.from(sectorMap.entries()).map(([sector, value]) => ({
-        sector,
-        value,
-        percentage: (value / totalValue) * 100,
-      }));
-
-      setMetrics({
-        totalValue,
-        totalCost,
-        totalGain: totalValue - totalCost,
-        totalGainPercent: ((totalValue - totalCost) / totalCost) * 100,
-        cagr: 0,
-        volatility: 0,
-        sharpeRatio: 0,
-        maxDrawdown: 0,
-        beta: 0,
-        holdings: holdingsArray,
-        sectorAllocation,
-      });
+      // Snapshots are stored in the portfolio's currency and shown in the
+      // metrics' currency at each day's rate. Metrics are shown first; storing
+      // the day's snapshots does not hold them up.
+      const snapshotRates = portfolioMetrics.currency === portfolio.currency ? [] : market.snapshotRates;
+      setSnapshots(convertSnapshots(buildSnapshots(portfolio.id, series), snapshotRates));
+      try {
+        const synced = await syncPortfolioSnapshots(portfolio.id, series);
+        if (!isCancelled()) setSnapshots(convertSnapshots(synced, snapshotRates));
+      } catch (error) {
+        console.error('Error syncing snapshots:', error);
+      }
     } catch (error) {
       console.error('Error loading metrics:', error);
     }
@@ -201,32 +186,134 @@ export default function Dashboard() {
       <div className="space-y-6">
         <div className="flex justify-between items-center">
           <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
-          <select
-            value={selectedPortfolio?.id || ''}
-            onChange={(e) => {
-              const portfolio = portfolios.find((p) => p.id === e.target.value);
-              setSelectedPortfolio(portfolio || null);
-            }}
-            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          >
-            {portfolios.map((portfolio) => (
-              <option key={portfolio.id} value={portfolio.id}>
-                {portfolio.name}
-              </option>
-            ))}
-          </select>
+          <div className="flex items-center space-x-2">
+            {selectedPortfolio && (
+              <Link
+                to={`/report?portfolio=${selectedPortfolio.id}`}
+                className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+              >
+                <FileText className="w-4 h-4 mr-2" />
+                Report
+              </Link>
+            )}
+            {metrics && selectedPortfolio && (
+              <ExportMenu
+                options={[
+                  {
+                    label: 'Holdings (CSV)',
+                    onSelect: () =>
+                      downloadFile(
+                        exportFileName(selectedPortfolio.name, 'holdings', 'csv'),
+                        holdingsToCsv(metrics.holdings, metrics.currency),
+                        'csv'
+                      ),
+                  },
+                  {
+                    label: 'Holdings (JSON)',
+                    onSelect: () =>
+                      downloadFile(
+                        exportFileName(selectedPortfolio.name, 'holdings', 'json'),
+                        holdingsToJson(selectedPortfolio, metrics.holdings, metrics.currency),
+                        'json'
+                      ),
+                  },
+                  {
+                    label: 'Performance (CSV)',
+                    onSelect: () =>
+                      downloadFile(
+                        exportFileName(selectedPortfolio.name, 'performance', 'csv'),
+                        snapshotsToCsv(snapshots, metrics.currency),
+                        'csv'
+                      ),
+                  },
+                  {
+                    label: 'Performance (JSON)',
+                    onSelect: () =>
+                      downloadFile(
+                        exportFileName(selectedPortfolio.name, 'performance', 'json'),
+                        snapshotsToJson(selectedPortfolio, snapshots, metrics.currency),
+                        'json'
+                      ),
+                  },
+                ]}
+              />
+            )}
+            <select
+              value={selectedPortfolio?.id || ''}
+              onChange={(e) => setSelectedPortfolioId(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {portfolios.map((portfolio) => (
+                <option key={portfolio.id} value={portfolio.id}>
+                  {portfolio.name}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
 
         {metrics && (
           <>
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            {metrics.holdings.some((h) => !h.isPriced && h.isConverted) && (
+              <div className="flex items-start p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" />
+                <p>
+                  {metrics.holdings.filter((h) => !h.isPriced && h.isConverted).length} holding(s) have no price data
+                  yet and are excluded from total value and gain/loss.
+                </p>
+              </div>
+            )}
+
+            {(metrics.holdings.some((h) => !h.isConverted) ||
+              metrics.unconvertedDays > 0 ||
+              metrics.currency !== baseCurrency) && (
+              <div className="flex items-start p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" />
+                <div className="space-y-1">
+                  {metrics.currency !== baseCurrency && (
+                    <p>
+                      There is no {metrics.currency}/{baseCurrency} exchange rate, so this portfolio is shown in{' '}
+                      {metrics.currency}.
+                    </p>
+                  )}
+                  {metrics.holdings.some((h) => !h.isConverted) && (
+                    <p>
+                      {metrics.holdings.filter((h) => !h.isConverted).length} holding(s) have no exchange rate into{' '}
+                      {metrics.currency} and are excluded from total value and gain/loss.
+                    </p>
+                  )}
+                  {metrics.unconvertedDays > 0 && (
+                    <p>
+                      On {metrics.unconvertedDays} day(s) of the value history a holding had no exchange rate and is
+                      left out of that day's value.
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
               <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
                 <div className="flex items-center justify-between mb-2">
                   <span className="text-sm font-medium text-gray-600">Total Value</span>
                   <DollarSign className="w-5 h-5 text-blue-600" />
                 </div>
                 <p className="text-2xl font-bold text-gray-900">
-                  ${metrics.totalValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  {formatCurrency(metrics.totalValue, metrics.currency)}
+                </p>
+                <p className="text-sm text-gray-500">Including cash</p>
+              </div>
+
+              <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-gray-600">Cash Balance</span>
+                  <Wallet className="w-5 h-5 text-blue-600" />
+                </div>
+                <p className={`text-2xl font-bold ${metrics.cashBalance >= 0 ? 'text-gray-900' : 'text-red-600'}`}>
+                  {formatCurrency(metrics.cashBalance, metrics.currency)}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {formatCurrency(metrics.netContributions, metrics.currency)} contributed
                 </p>
               </div>
 
@@ -240,11 +327,23 @@ export default function Dashboard() {
                   )}
                 </div>
                 <p className={`text-2xl font-bold ${metrics.totalGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  ${Math.abs(metrics.totalGain).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  {formatCurrency(Math.abs(metrics.totalGain), metrics.currency)}
                 </p>
                 <p className={`text-sm ${metrics.totalGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                   {metrics.totalGainPercent >= 0 ? '+' : ''}{metrics.totalGainPercent.toFixed(2)}%
                 </p>
+                {metrics.fxGain !== 0 && (
+                  <p className="text-sm text-gray-500">
+                    {formatCurrency(metrics.totalGain - metrics.fxGain, metrics.currency)} price,{' '}
+                    {formatCurrency(metrics.fxGain, metrics.currency)} FX
+                  </p>
+                )}
+                <p className="text-sm text-gray-500">
+                  +{formatCurrency(metrics.totalIncome, metrics.currency)} dividend income
+                </p>
+                <p className="text-sm text-gray-500">
+                  {metrics.realizedGain >= 0 ? '+' : ''}{formatCurrency(metrics.realizedGain, metrics.currency)} realized
+                </p>
               </div>
 
               <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
@@ -253,7 +352,7 @@ export default function Dashboard() {
                   <DollarSign className="w-5 h-5 text-gray-600" />
                 </div>
                 <p className="text-2xl font-bold text-gray-900">
-                  ${metrics.totalCost.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  {formatCurrency(metrics.totalCost, metrics.currency)}
                 </p>
               </div>
 
@@ -266,6 +365,33 @@ export default function Dashboard() {
               </div>
             </div>
 
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-6">
+              {RISK_METRIC_CARDS.map((card) => (
+                <div key={card.key} className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium text-gray-600">{card.label}</span>
+                    <InfoTooltip text={card.tooltip} />
+                  </div>
+                  <p className="text-2xl font-bold text-gray-900">{card.format(metrics[card.key])}</p>
+                </div>
+              ))}
+            </div>
+
+            <EquityCurveChart snapshots={snapshots} currency={metrics.currency} />
+
+            {user && <RecommendationsPanel userId={user.uid} recommendations={recommendations} />}
+
+            {user && selectedPortfolio && (
+              <RebalancePanel
+                portfolioId={selectedPortfolio.id}
+                userId={user.uid}
+                holdings={metrics.holdings}
+                currency={metrics.currency}
+                portfolioCurrency={selectedPortfolio.currency}
+                cashBalance={metrics.cashBalance}
+              />
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
                 <h2 className="text-lg font-bold text-gray-900 mb-4">Sector Allocation</h2>
@@ -285,7 +411,7 @@ export default function Dashboard() {
                           <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                         ))}
                       </Pie>
-                      <Tooltip formatter={(value: number) => `$${value.toLocaleString()}`} />
+                      <Tooltip formatter={(value: number) => formatCurrency(value, metrics.currency)} />
                     </RePieChart>
                   </ResponsiveContainer>
                 ) : (
@@ -302,14 +428,23 @@ export default function Dashboard() {
                         <p className="font-medium text-gray-900">{holding.stock.symbol}</p>
                         <p className="text-sm text-gray-500">{holding.stock.name}</p>
                       </div>
-                      <div className="text-right">
-                        <p className="font-medium text-gray-900">
-                          ${holding.currentValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                        </p>
-                        <p className={`text-sm ${holding.unrealizedGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                          {holding.unrealizedGain >= 0 ? '+' : ''}{holding.unrealizedGainPercent.toFixed(2)}%
-                        </p>
-                      </div>
+                      {holding.isPriced ? (
+                        <div className="text-right">
+                          <p className="font-medium text-gray-900">
+                            {formatCurrency(holding.currentValue, metrics.currency)}
+                          </p>
+                          <p className={`text-sm ${holding.unrealizedGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {holding.unrealizedGain >= 0 ? '+' : ''}{holding.unrealizedGainPercent.toFixed(2)}%
+                          </p>
+                          <p className="text-xs text-gray-400">
+                            as of {new Date(holding.priceDate!).toLocaleDateString()}
+                          </p>
+                        </div>
+                      ) : (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                          {holding.isConverted ? 'Unpriced' : 'No FX rate'}
+                        </span>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -327,6 +462,7 @@ export default function Dashboard() {
                       <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Quantity</th>
                       <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Avg Price</th>
                       <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Current Price</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Priced As Of</th>
                       <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Value</th>
                       <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Gain/Loss</th>
                       <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Weight</th>
@@ -334,24 +470,61 @@ export default function Dashboard() {
                   </thead>
                   <tbody className="divide-y divide-gray-200">
                     {metrics.holdings.map((holding) => (
-                      <tr key={holding.stock.symbol} className="hover:bg-gray-50">
-                        <td className="py-3 px-4 text-sm font-medium text-gray-900">{holding.stock.symbol}</td>
-                        <td className="py-3 px-4 text-sm text-gray-600">{holding.stock.name}</td>
-                        <td className="py-3 px-4 text-sm text-gray-900 text-right">{holding.quantity}</td>
-                        <td className="py-3 px-4 text-sm text-gray-900 text-right">
-                          ${holding.averagePrice.toFixed(2)}
-                        </td>
-                        <td className="py-3 px-4 text-sm text-gray-900 text-right">
-                          ${holding.currentPrice.toFixed(2)}
-                        </td>
-                        <td className="py-3 px-4 text-sm text-gray-900 text-right">
-                          ${holding.currentValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                        </td>
-                        <td className={`py-3 px-4 text-sm text-right ${holding.unrealizedGain >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                          {holding.unrealizedGain >= 0 ? '+' : ''}${Math.abs(holding.unrealizedGain).toFixed(2)} ({holding.unrealizedGainPercent.toFixed(2)}%)
-                        </td>
-                        <td className="py-3 px-4 text-sm text-gray-900 text-right">{holding.weight.toFixed(2)}%</td>
-                      </tr>
+                      <Fragment key={holding.stock.symbol}>
+                        <tr
+                          onClick={() => setExpandedHolding(expandedHolding === holding.stock.id ? null : holding.stock.id)}
+                          className="hover:bg-gray-50 cursor-pointer"
+                        >
+                          <td className="py-3 px-4 text-sm font-medium text-gray-900">
+                            <div className="flex items-center">
+                              {expandedHolding === holding.stock.id ? (
+                                <ChevronDown className="w-4 h-4 mr-1 text-gray-400" />
+                              ) : (
+                                <ChevronRight className="w-4 h-4 mr-1 text-gray-400" />
+                              )}
+                              {holding.stock.symbol}
+                            </div>
+                          </td>
+                          <td className="py-3 px-4 text-sm text-gray-600">{holding.stock.name}</td>
+                          <td className="py-3 px-4 text-sm text-gray-900 text-right">{holding.quantity}</td>
+                          <td className="py-3 px-4 text-sm text-gray-900 text-right">
+                            {formatCurrency(holding.averagePrice, holding.stock.currency || metrics.currency)}
+                          </td>
+                          {holding.isPriced ? (
+                            <>
+                              <td className="py-3 px-4 text-sm text-gray-900 text-right">
+                                {formatCurrency(holding.currentPrice, holding.stock.currency || metrics.currency)}
+                              </td>
+                              <td className="py-3 px-4 text-sm text-gray-500 text-right">
+                                {new Date(holding.priceDate!).toLocaleDateString()}
+                              </td>
+                              <td className="py-3 px-4 text-sm text-gray-900 text-right">
+                                {formatCurrency(holding.currentValue, metrics.currency)}
+                              </td>
+                              <td
+                                title={`Price ${formatCurrency(holding.priceGain, metrics.currency)}, FX ${formatCurrency(holding.fxGain, metrics.currency)}`}
+                                className={`py-3 px-4 text-sm text-right ${holding.unrealizedGain >= 0 ? 'text-green-600' : 'text-red-600'}`}
+                              >
+                                {holding.unrealizedGain >= 0 ? '+' : ''}{formatCurrency(holding.unrealizedGain, metrics.currency)} ({holding.unrealizedGainPercent.toFixed(2)}%)
+                              </td>
+                            </>
+                          ) : (
+                            <td colSpan={4} className="py-3 px-4 text-sm text-right">
+                              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                                {holding.isConverted ? 'Unpriced' : 'No FX rate'}
+                              </span>
+                            </td>
+                          )}
+                          <td className="py-3 px-4 text-sm text-gray-900 text-right">{holding.weight.toFixed(2)}%</td>
+                        </tr>
+                        {expandedHolding === holding.stock.id && (
+                          <tr>
+                            <td colSpan={9} className="px-8 pb-4 bg-gray-50">
+                              <HoldingLots holding={holding} />
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
                     ))}
                   </tbody>
                 </table>
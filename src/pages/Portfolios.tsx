@@ -1,114 +1,232 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { getDataStore, NewTransaction } from '../lib/data';
+import { getMarketDataProvider, SymbolMatch } from '../lib/marketData';
 import {
-  collection,
-  query,
-  where,
-  orderBy,
-  getDocs,
-  addDoc,
-  deleteDoc,
-  doc,
-  serverTimestamp,
-  Timestamp,
-  getDoc,
-} from 'firebase/firestore';
-import { db } from '../lib/firebase';
+  isAmountTransaction,
+  isCashTransaction,
+  replayLedger,
+  settlesInStockCurrency,
+  sortTransactions,
+} from '../lib/ledger';
+import { COST_BASIS_METHOD_LABELS, costPerShare, DEFAULT_COST_BASIS_METHOD } from '../lib/lots';
+import { DEFAULT_CURRENCY, formatCurrency, SUPPORTED_CURRENCIES } from '../lib/currency';
+import { loadFxRate } from '../lib/fx';
+import { loadUserPreferences } from '../lib/preferences';
+import { localTodayKey, toDateKey } from '../lib/dates';
+import { findListing, isSameListing, searchStocks } from '../lib/securities';
+import {
+  hasErrors,
+  PortfolioErrors,
+  TransactionErrors,
+  validateAgainstHistory,
+  validateHistoryChange,
+  validatePortfolio,
+  validateTransaction,
+  ValidationError,
+} from '../lib/validation';
+import {
+  downloadFile,
+  exportFileName,
+  ExportFormat,
+  transactionsToCsv,
+  transactionsToJson,
+  transactionsToOfx,
+} from '../lib/exporters';
 import { useAuth } from '../contexts/AuthContext';
+import { usePortfolios, useTransactions } from '../hooks/useLiveData';
 import Layout from '../components/Layout';
-import { Portfolio, Stock, Transaction } from '../types';
-import { Plus, Trash2, TrendingUp, TrendingDown } from 'lucide-react';
+import ImportTransactionsModal from '../components/ImportTransactionsModal';
+import ExportMenu from '../components/ExportMenu';
+import TransactionRevisionsModal from '../components/TransactionRevisionsModal';
+import FieldError from '../components/FieldError';
+import { CostBasisMethod, LotSelection, Portfolio, Stock, Transaction, TransactionType } from '../types';
+import {
+  Plus,
+  Pencil,
+  History,
+  Trash2,
+  TrendingUp,
+  TrendingDown,
+  ArrowDownCircle,
+  ArrowUpCircle,
+  Coins,
+  Repeat,
+  Split,
+  GitBranch,
+  Receipt,
+  Upload,
+} from 'lucide-react';
 
-interface FirebasePortfolio extends Omit<Portfolio, 'created_at' | 'updated_at'> {
-  created_at: Timestamp;
-  updated_at: Timestamp;
-}
+const TRANSACTION_TYPE_STYLES: Record<TransactionType, string> = {
+  buy: 'bg-green-100 text-green-800',
+  sell: 'bg-red-100 text-red-800',
+  deposit: 'bg-blue-100 text-blue-800',
+  withdrawal: 'bg-amber-100 text-amber-800',
+  dividend: 'bg-emerald-100 text-emerald-800',
+  dividend_reinvest: 'bg-emerald-100 text-emerald-800',
+  split: 'bg-gray-100 text-gray-800',
+  spinoff: 'bg-purple-100 text-purple-800',
+  fee: 'bg-orange-100 text-orange-800',
+};
 
-interface FirebaseTransaction extends Omit<Transaction, 'created_at' | 'transaction_date'> {
-  created_at: Timestamp;
-  transaction_date: Timestamp;
-}
+const TRANSACTION_TYPE_ICONS: Record<TransactionType, typeof TrendingUp> = {
+  buy: TrendingUp,
+  sell: TrendingDown,
+  deposit: ArrowDownCircle,
+  withdrawal: ArrowUpCircle,
+  dividend: Coins,
+  dividend_reinvest: Repeat,
+  split: Split,
+  spinoff: GitBranch,
+  fee: Receipt,
+};
+
+const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  buy: 'Buy',
+  sell: 'Sell',
+  deposit: 'Deposit',
+  withdrawal: 'Withdrawal',
+  dividend: 'Dividend',
+  dividend_reinvest: 'Reinvested Dividend',
+  split: 'Split',
+  spinoff: 'Spin-off',
+  fee: 'Fee',
+};
+
+// A suggestion for the symbol input, with stockId set for recorded securities
+type SymbolSuggestion = SymbolMatch & { stockId?: string };
+
+const emptyTransactionForm = () => ({
+  // Set when a recorded security is picked from the suggestions
+  stock_id: '',
+  stock_symbol: '',
+  stock_name: '',
+  sector: '',
+  industry: '',
+  exchange: '',
+  transaction_type: 'buy' as TransactionType,
+  quantity: 0,
+  price: 0,
+  fees: 0,
+  transaction_date: localTodayKey(),
+  notes: '',
+  parent_stock_id: '',
+  currency: '',
+  fx_rate: 1,
+});
 
 export default function Portfolios() {
   const { user } = useAuth();
-  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
-  const [selectedPortfolio, setSelectedPortfolio] = useState<Portfolio | null>(null);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const { portfolios } = usePortfolios(user?.uid);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState('');
+  const selectedPortfolio = portfolios.find((p) => p.id === selectedPortfolioId) || null;
+  const { transactions: history } = useTransactions(selectedPortfolio?.id);
+  // Newest first for the history table
+  const transactions = useMemo(() => [...history].reverse(), [history]);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showTransactionModal, setShowTransactionModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  // Set while the transaction modal edits an existing transaction
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [revisionsTransaction, setRevisionsTransaction] = useState<Transaction | null>(null);
   const [stocks, setStocks] = useState<Stock[]>([]);
+  const [symbolMatches, setSymbolMatches] = useState<SymbolSuggestion[]>([]);
+  // Shares to sell from each lot, keyed by lot id
+  const [lotSelections, setLotSelections] = useState<Record<string, number>>({});
 
   const [portfolioForm, setPortfolioForm] = useState({
     name: '',
     description: '',
     initial_capital: 10000,
+    allow_margin: false,
+    cost_basis_method: DEFAULT_COST_BASIS_METHOD as CostBasisMethod,
+    currency: DEFAULT_CURRENCY,
   });
 
-  const [transactionForm, setTransactionForm] = useState({
-    stock_symbol: '',
-    stock_name: '',
-    sector: '',
-    transaction_type: 'buy' as 'buy' | 'sell',
-    quantity: 0,
-    price: 0,
-    fees: 0,
-    transaction_date: new Date().toISOString().split('T')[0],
-    notes: '',
-  });
+  const [transactionForm, setTransactionForm] = useState(emptyTransactionForm);
+  const [portfolioErrors, setPortfolioErrors] = useState<PortfolioErrors>({});
+  const [transactionErrors, setTransactionErrors] = useState<TransactionErrors>({});
+  // Why the last transaction moved to the trash had to stay
+  const [historyError, setHistoryError] = useState('');
+  // No rate was found to prefill for the trade date
+  const [fxRateMissing, setFxRateMissing] = useState(false);
+
+  const portfolioCurrency = selectedPortfolio?.currency || DEFAULT_CURRENCY;
+  const existingStock =
+    stocks.find((s) => s.id === transactionForm.stock_id) ||
+    findListing(stocks, transactionForm.stock_symbol.toUpperCase(), transactionForm.exchange);
+  // Known stocks keep the currency they were created with
+  const stockCurrency = existingStock?.currency || transactionForm.currency || portfolioCurrency;
+  const tradeCurrency = settlesInStockCurrency(transactionForm.transaction_type) ? stockCurrency : portfolioCurrency;
+  // A spin-off's rate converts into the new stock's currency, which its lots are kept in
+  const rateCurrency = transactionForm.transaction_type === 'spinoff' ? stockCurrency : tradeCurrency;
+
+  useEffect(() => {
+    setHistoryError('');
+  }, [selectedPortfolioId]);
 
   useEffect(() => {
     if (user) {
-      loadPortfolios();
       loadStocks();
+      loadUserPreferences(user.uid)
+        .then((preferences) =>
+          setPortfolioForm((form) => ({ ...form, currency: preferences?.base_currency || DEFAULT_CURRENCY }))
+        )
+        .catch((error) => console.error('Error loading preferences:', error));
     }
   }, [user]);
 
+  // Prefill the rate for the trade date; the user can still override it. An
+  // edited transaction keeps its recorded rate until its date changes. With
+  // no known rate the field is left empty for the user to fill in.
   useEffect(() => {
-    if (selectedPortfolio) {
-      loadTransactions(selectedPortfolio.id);
+    setFxRateMissing(false);
+    if (!showTransactionModal) return;
+    if (editingTransaction && transactionForm.transaction_date === toDateKey(editingTransaction.transaction_date)) return;
+    if (rateCurrency === portfolioCurrency) {
+      setTransactionForm((form) => ({ ...form, fx_rate: 1 }));
+      return;
     }
-  }, [selectedPortfolio]);
 
-  const loadPortfolios = async () => {
-    if (!user) return;
+    loadFxRate(rateCurrency, portfolioCurrency, transactionForm.transaction_date)
+      .then((rate) => {
+        setFxRateMissing(rate === undefined);
+        setTransactionForm((form) => ({ ...form, fx_rate: rate ?? NaN }));
+      })
+      .catch((error) => console.error('Error loading FX rate:', error));
+  }, [showTransactionModal, editingTransaction, rateCurrency, portfolioCurrency, transactionForm.transaction_date]);
 
-    try {
-      const portfoliosRef = collection(db, 'portfolios');
-      const q = query(
-        portfoliosRef,
-        where('user_id', '==', user.uid),
-        orderBy('created_at', 'desc')
-      );
-      const querySnapshot = await getDocs(q);
-
-      const portfolioData: Portfolio[] = querySnapshot.docs.map((doc) => {
-        const data = doc.data() as FirebasePortfolio;
-        return {
-          id: doc.id,
-          user_id: data.user_id,
-          name: data.name,
-          description: data.description,
-          initial_capital: data.initial_capital,
-          created_at: data.created_at.toDate().toISOString(),
-          updated_at: data.updated_at.toDate().toISOString(),
-        };
-      });
+  // Watchlists link here with ?add=<stock id>&price=<last close> to open the
+  // Add Transaction form for that stock
+  useEffect(() => {
+    const stockId = searchParams.get('add');
+    if (!stockId || portfolios.length === 0 || stocks.length === 0) return;
 
-      setPortfolios(portfolioData);
-    } catch (error) {
-      console.error('Error loading portfolios:', error);
+    const stock = stocks.find((s) => s.id === stockId);
+    if (stock) {
+      if (!selectedPortfolio) setSelectedPortfolioId(portfolios[0].id);
+      setEditingTransaction(null);
+      setTransactionForm({
+        ...emptyTransactionForm(),
+        stock_id: stock.id,
+        stock_symbol: stock.symbol,
+        stock_name: stock.name,
+        sector: stock.sector,
+        industry: stock.industry,
+        exchange: stock.exchange,
+        currency: stock.currency,
+        price: Number(searchParams.get('price')) || 0,
+      });
+      setShowTransactionModal(true);
     }
-  };
+    setSearchParams({}, { replace: true });
+  }, [searchParams, portfolios, stocks]);
 
   const loadStocks = async () => {
     try {
-      const stocksRef = collection(db, 'stocks');
-      const q = query(stocksRef, orderBy('symbol'));
-      const querySnapshot = await getDocs(q);
-
-      const stockData: Stock[] = querySnapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as Stock[];
+      const stockData = await getDataStore().stocks.list();
 
       setStocks(stockData);
     } catch (error) {
@@ -116,209 +234,313 @@ export default function Portfolios() {
     }
   };
 
-  const loadTransactions = async (portfolioId: string) => {
-    try {
-      const transactionsRef = collection(db, 'transactions');
-      const q = query(
-        transactionsRef,
-        where('portfolio_id', '==', portfolioId),
-        orderBy('transaction_date', 'desc')
-      );
-      const querySnapshot = await getDocs(q);
-
-      const transactionData: Transaction[] = [];
-      
-      for (const docSnap of querySnapshot.docs) {
-        const data = docSnap.data() as FirebaseTransaction;
-        
-        // Fetch related stock data
-        const stockDocRef = doc(db, 'stocks', data.stock_id);
-        const stockDoc = await getDoc(stockDocRef);
-        const stockData = stockDoc.exists() ? { id: stockDoc.id, ...stockDoc.data() } as Stock : null;
-
-        transactionData.push({
-          id: docSnap.id,
-          portfolio_id: data.portfolio_id,
-          stock_id: data.stock_id,
-          transaction_type: data.transaction_type,
-          quantity: data.quantity,
-          price: data.price,
-          fees: data.fees,
-          notes: data.notes,
-          transaction_date: data.transaction_date.toDate().toISOString(),
-          created_at: data.created_at.toDate().toISOString(),
-          stock: stockData || undefined,
-        });
-      }
-
-      setTransactions(transactionData);
-    } catch (error) {
-      console.error('Error loading transactions:', error);
-    }
+  const closeCreateModal = () => {
+    setShowCreateModal(false);
+    setPortfolioErrors({});
   };
 
   const createPortfolio = async () => {
     if (!user) return;
 
+    const input = {
+      user_id: user.uid,
+      name: portfolioForm.name.trim(),
+      description: portfolioForm.description,
+      initial_capital: portfolioForm.initial_capital,
+      allow_margin: portfolioForm.allow_margin,
+      cost_basis_method: portfolioForm.cost_basis_method,
+      currency: portfolioForm.currency,
+    };
+    const errors = validatePortfolio(input);
+    setPortfolioErrors(errors);
+    if (hasErrors(errors)) return;
+
     try {
-      const portfoliosRef = collection(db, 'portfolios');
-      const docRef = await addDoc(portfoliosRef, {
-        user_id: user.uid,
-        name: portfolioForm.name,
-        description: portfolioForm.description,
-        initial_capital: portfolioForm.initial_capital,
-        created_at: serverTimestamp(),
-        updated_at: serverTimestamp(),
-      });
+      await getDataStore().portfolios.create(input);
 
-      const newPortfolio: Portfolio = {
-        id: docRef.id,
-        user_id: user.uid,
-        name: portfolioForm.name,
-        description: portfolioForm.description,
-        initial_capital: portfolioForm.initial_capital,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      };
-
-      setPortfolios([newPortfolio, ...portfolios]);
-      setShowCreateModal(false);
-      setPortfolioForm({ name: '', description: '', initial_capital: 10000 });
+      closeCreateModal();
+      setPortfolioForm({
+        name: '',
+        description: '',
+        initial_capital: 10000,
+        allow_margin: false,
+        cost_basis_method: DEFAULT_COST_BASIS_METHOD,
+        currency: portfolioForm.currency,
+      });
     } catch (error) {
       console.error('Error creating portfolio:', error);
       alert('Failed to create portfolio');
     }
   };
 
+  // Deletes only move items to the trash, where they can be restored
   const deletePortfolio = async (portfolioId: string) => {
-    if (!confirm('Are you sure you want to delete this portfolio?')) return;
-
     try {
-      await deleteDoc(doc(db, 'portfolios', portfolioId));
-
-      setPortfolios(portfolios.filter((p) => p.id !== portfolioId));
-      if (selectedPortfolio?.id === portfolioId) {
-        setSelectedPortfolio(null);
-      }
+      await getDataStore().portfolios.remove(portfolioId);
     } catch (error) {
       console.error('Error deleting portfolio:', error);
       alert('Failed to delete portfolio');
     }
   };
 
-  const createTransaction = async () => {
-    if (!selectedPortfolio) return;
+  const openEditTransaction = (txn: Transaction) => {
+    setEditingTransaction(txn);
+    setTransactionForm({
+      stock_id: txn.stock_id,
+      stock_symbol: txn.stock?.symbol || '',
+      stock_name: txn.stock?.name || '',
+      sector: txn.stock?.sector || '',
+      industry: txn.stock?.industry || '',
+      exchange: txn.stock?.exchange || '',
+      transaction_type: txn.transaction_type,
+      quantity: txn.quantity,
+      price: txn.price,
+      fees: txn.fees,
+      transaction_date: toDateKey(txn.transaction_date),
+      notes: txn.notes,
+      parent_stock_id: txn.parent_stock_id || '',
+      currency: txn.stock?.currency || '',
+      fx_rate: txn.fx_rate || 1,
+    });
+    setLotSelections(
+      Object.fromEntries((txn.lot_selections || []).map((selection) => [selection.lot_id, selection.quantity]))
+    );
+    setShowTransactionModal(true);
+  };
 
-    try {
-      let stockId = null;
-      const existingStock = stocks.find((s) => s.symbol === transactionForm.stock_symbol.toUpperCase());
+  const closeTransactionModal = () => {
+    setShowTransactionModal(false);
+    setTransactionErrors({});
+    setEditingTransaction(null);
+    setSymbolMatches([]);
+    setLotSelections({});
+    setTransactionForm(emptyTransactionForm());
+  };
 
-      if (existingStock) {
-        stockId = existingStock.id;
-      } else {
-        // Create new stock
-        const stocksRef = collection(db, 'stocks');
-        const newStockRef = await addDoc(stocksRef, {
-          symbol: transactionForm.stock_symbol.toUpperCase(),
-          name: transactionForm.stock_name,
-          sector: transactionForm.sector,
-          industry: '',
-          exchange: '',
-          currency: 'USD',
-          created_at: serverTimestamp(),
-          updated_at: serverTimestamp(),
+  const saveTransaction = async () => {
+    if (!selectedPortfolio || !user) return;
+
+    const type = transactionForm.transaction_type;
+    const isCash = isCashTransaction(type);
+    // Amount-only transactions store their amount as price with a quantity of 1
+    const quantity = isAmountTransaction(type) ? 1 : transactionForm.quantity;
+    const price = type === 'split' ? 0 : transactionForm.price;
+    const parentStockId = type === 'spinoff' ? transactionForm.parent_stock_id : '';
+    const fxRate = rateCurrency === portfolioCurrency ? 1 : transactionForm.fx_rate;
+    const selections: LotSelection[] =
+      type === 'sell'
+        ? Object.entries(lotSelections)
+            .filter(([, lotQuantity]) => lotQuantity > 0)
+            .map(([lot_id, lotQuantity]) => ({ lot_id, quantity: lotQuantity }))
+        : [];
+
+    // A new stock is only created once the transaction checks out, so until
+    // then its symbol stands in for its id
+    const input: NewTransaction = {
+      portfolio_id: selectedPortfolio.id,
+      stock_id: isCash ? '' : existingStock?.id || transactionForm.stock_symbol.trim().toUpperCase(),
+      transaction_type: type,
+      quantity,
+      price,
+      fees: transactionForm.fees,
+      // Left empty when the date input is cleared, which validation reports
+      transaction_date: transactionForm.transaction_date
+        ? new Date(transactionForm.transaction_date).toISOString()
+        : '',
+      notes: transactionForm.notes,
+      ...(fxRate !== 1 ? { fx_rate: fxRate } : {}),
+      ...(parentStockId ? { parent_stock_id: parentStockId } : {}),
+      ...(selections.length > 0 ? { lot_selections: selections } : {}),
+    };
+
+    // An edit takes the place of the transaction it replaces in the history
+    const fieldErrors = validateTransaction(input);
+    const errors = hasErrors(fieldErrors)
+      ? fieldErrors
+      : validateAgainstHistory(selectedPortfolio, transactions, {
+          ...input,
+          id: editingTransaction?.id || '',
+          created_at: editingTransaction?.created_at || new Date().toISOString(),
         });
+    setTransactionErrors(errors);
+    if (hasErrors(errors)) return;
 
-        const newStock: Stock = {
-          id: newStockRef.id,
-          symbol: transactionForm.stock_symbol.toUpperCase(),
-          name: transactionForm.stock_name,
+    try {
+      if (!isCash && !existingStock) {
+        const newStock = await getDataStore().stocks.create({
+          symbol: input.stock_id,
+          name: transactionForm.stock_name.trim() || input.stock_id,
           sector: transactionForm.sector,
-          industry: '',
-          exchange: '',
-          currency: 'USD',
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        };
-
-        stockId = newStockRef.id;
+          industry: transactionForm.industry,
+          exchange: transactionForm.exchange.trim(),
+          currency: stockCurrency,
+        });
+
+        input.stock_id = newStock.id;
         setStocks([...stocks, newStock]);
       }
 
-      // Create transaction
-      const transactionsRef = collection(db, 'transactions');
-      await addDoc(transactionsRef, {
-        portfolio_id: selectedPortfolio.id,
-        stock_id: stockId,
-        transaction_type: transactionForm.transaction_type,
-        quantity: transactionForm.quantity,
-        price: transactionForm.price,
-        fees: transactionForm.fees,
-        transaction_date: Timestamp.fromDate(new Date(transactionForm.transaction_date)),
-        notes: transactionForm.notes,
-        created_at: serverTimestamp(),
-      });
+      if (editingTransaction) {
+        // Every field is passed so that emptied optional fields are removed;
+        // only the ones that differ end up in the revision
+        const { portfolio_id: _portfolioId, ...changes } = input;
+        await getDataStore().transactions.update(
+          editingTransaction,
+          { fx_rate: 1, parent_stock_id: '', lot_selections: [], ...changes },
+          { id: user.uid, email: user.email || '' }
+        );
+      } else {
+        await getDataStore().transactions.create(input);
+      }
 
-      loadTransactions(selectedPortfolio.id);
-      setShowTransactionModal(false);
-      setTransactionForm({
-        stock_symbol: '',
-        stock_name: '',
-        sector: '',
-        transaction_type: 'buy',
-        quantity: 0,
-        price: 0,
-        fees: 0,
-        transaction_date: new Date().toISOString().split('T')[0],
-        notes: '',
-      });
+      closeTransactionModal();
     } catch (error) {
-      console.error('Error creating transaction:', error);
-      alert('Failed to create transaction');
+      // The history may have changed on another device since it was checked
+      if (error instanceof ValidationError) {
+        setTransactionErrors(error.errors as TransactionErrors);
+      } else {
+        console.error('Error saving transaction:', error);
+        alert('Failed to save transaction');
+      }
     }
   };
 
-  const deleteTransaction = async (transactionId: string) => {
-    if (!confirm('Are you sure you want to delete this transaction?')) return;
+  // Searches by symbol or name. Recorded securities come first, then listings
+  // from the market data provider that are not recorded yet.
+  const handleSymbolChange = async (value: string) => {
+    const symbol = value.toUpperCase();
+    setTransactionForm({ ...transactionForm, stock_symbol: symbol, stock_id: '', exchange: '' });
+
+    const recorded: SymbolSuggestion[] = searchStocks(stocks, symbol)
+      .slice(0, 5)
+      .map((stock) => ({
+        symbol: stock.symbol,
+        name: stock.name,
+        exchange: stock.exchange,
+        sector: stock.sector,
+        industry: stock.industry,
+        currency: stock.currency,
+        stockId: stock.id,
+      }));
+    setSymbolMatches(recorded);
 
     try {
-      await deleteDoc(doc(db, 'transactions', transactionId));
-      
-      if (selectedPortfolio) {
-        loadTransactions(selectedPortfolio.id);
+      const matches = symbol ? await getMarketDataProvider().searchSymbols(symbol) : [];
+      const unrecorded = matches.filter((match) => !recorded.some((stock) => isSameListing(stock, match)));
+      setSymbolMatches([...recorded, ...unrecorded].slice(0, 8));
+    } catch (error) {
+      console.error('Error searching symbols:', error);
+    }
+  };
+
+  const selectSymbolMatch = async (match: SymbolSuggestion) => {
+    setSymbolMatches([]);
+    setTransactionForm((form) => ({
+      ...form,
+      stock_id: match.stockId || '',
+      stock_symbol: match.symbol,
+      stock_name: match.name,
+      sector: match.sector,
+      industry: match.industry,
+      exchange: match.exchange,
+      currency: match.currency,
+    }));
+
+    try {
+      const quote = await getMarketDataProvider().getQuote({ symbol: match.symbol, exchange: match.exchange });
+      if (quote && quote.currency === match.currency) {
+        setTransactionForm((form) => ({ ...form, price: quote.price }));
       }
     } catch (error) {
-      console.error('Error deleting transaction:', error);
-      alert('Failed to delete transaction');
+      console.error('Error fetching quote:', error);
     }
   };
 
-  const calculatePortfolioValue = () => {
-    const holdings = new Map<string, { quantity: number; symbol: string; name: string }>();
+  const updatePortfolioSettings = async (
+    portfolio: Portfolio,
+    changes: Partial<Pick<Portfolio, 'allow_margin' | 'cost_basis_method'>>
+  ) => {
+    try {
+      await getDataStore().portfolios.update(portfolio.id, changes);
+    } catch (error) {
+      console.error('Error updating portfolio:', error);
+      alert('Failed to update portfolio');
+    }
+  };
 
-    transactions.forEach((txn) => {
-      const key = txn.stock_id;
-      const current = holdings.get(key) || { quantity: 0, symbol: txn.stock?.symbol || '', name: txn.stock?.name || '' };
+  const exportTransactions = (format: ExportFormat) => {
+    if (!selectedPortfolio) return;
 
-      if (txn.transaction_type === 'buy') {
-        current.quantity += txn.quantity;
+    const ordered = sortTransactions(transactions);
+    const content =
+      format === 'csv'
+        ? transactionsToCsv(selectedPortfolio, ordered)
+        : format === 'json'
+          ? transactionsToJson(selectedPortfolio, ordered)
+          : transactionsToOfx(selectedPortfolio, ordered);
+    downloadFile(exportFileName(selectedPortfolio.name, 'transactions', format), content, format);
+  };
+
+  // Removing a buy or deposit can leave a later sale or purchase uncovered
+  const deleteTransaction = async (transactionId: string) => {
+    if (!selectedPortfolio) return;
+
+    const errors = validateHistoryChange(
+      selectedPortfolio,
+      transactions,
+      transactions.filter((txn) => txn.id !== transactionId)
+    );
+    setHistoryError(errors.general || '');
+    if (hasErrors(errors)) return;
+
+    try {
+      await getDataStore().transactions.remove(transactionId);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setHistoryError((error.errors as TransactionErrors).general || '');
       } else {
-        current.quantity -= txn.quantity;
+        console.error('Error deleting transaction:', error);
+        alert('Failed to delete transaction');
       }
+    }
+  };
 
-      holdings.set(key, current);
-    });
+  // Replaying a long history is the costliest step on this page, so it only
+  // reruns when the transactions change rather than on every keystroke
+  const ledger = useMemo(
+    () => (selectedPortfolio ? replayLedger(selectedPortfolio, transactions) : null),
+    [selectedPortfolio, transactions]
+  );
+  const cashBalances = useMemo(
+    () => new Map(ledger?.entries.map((entry) => [entry.transaction.id, entry.cashBalance])),
+    [ledger]
+  );
+  // Lots a sale can close, without the sale being edited
+  const formLedger = useMemo(
+    () =>
+      selectedPortfolio && editingTransaction
+        ? replayLedger(selectedPortfolio, transactions.filter((txn) => txn.id !== editingTransaction.id))
+        : ledger,
+    [selectedPortfolio, transactions, editingTransaction, ledger]
+  );
 
-    return Array.from(holdings.entries())
-      .filter(([_, holding]) => holding.quantity > 0)
-      .map(([stockId, holding]) => ({
-        stockId,
-        ...holding,
-      }));
-  };
+  const calculatePortfolioValue = () =>
+    Array.from(ledger?.positions.values() || []).map((position) => ({
+      stockId: position.stockId,
+      quantity: position.quantity,
+      symbol: position.stock?.symbol || '',
+      name: position.stock?.name || '',
+    }));
 
   const holdings = selectedPortfolio ? calculatePortfolioValue() : [];
 
+  const sellLots =
+    transactionForm.transaction_type === 'sell' && existingStock
+      ? [...(formLedger?.positions.get(existingStock.id)?.lots || [])].sort((a, b) =>
+          a.acquiredDate.localeCompare(b.acquiredDate)
+        )
+      : [];
+
   return (
     <Layout>
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -343,7 +565,7 @@ export default function Portfolios() {
                 {portfolios.map((portfolio) => (
                   <div
                     key={portfolio.id}
-                    onClick={() => setSelectedPortfolio(portfolio)}
+                    onClick={() => setSelectedPortfolioId(portfolio.id)}
                     className={`p-4 cursor-pointer transition ${
                       selectedPortfolio?.id === portfolio.id
                         ? 'bg-blue-50 border-l-4 border-blue-600'
@@ -355,7 +577,7 @@ export default function Portfolios() {
                         <h3 className="font-medium text-gray-900">{portfolio.name}</h3>
                         <p className="text-sm text-gray-500 mt-1">{portfolio.description}</p>
                         <p className="text-xs text-gray-400 mt-2">
-                          Initial: ${portfolio.initial_capital.toLocaleString()}
+                          Initial: {formatCurrency(portfolio.initial_capital, portfolio.currency, 0)}
                         </p>
                       </div>
                       <button
@@ -364,6 +586,7 @@ export default function Portfolios() {
                           deletePortfolio(portfolio.id);
                         }}
                         className="text-red-600 hover:text-red-700 ml-2"
+                        title="Move to trash"
                       >
                         <Trash2 className="w-4 h-4" />
                       </button>
@@ -388,17 +611,67 @@ export default function Portfolios() {
                     <div>
                       <h2 className="text-2xl font-bold text-gray-900">{selectedPortfolio.name}</h2>
                       <p className="text-gray-600 mt-1">{selectedPortfolio.description}</p>
+                      <label className="flex items-center mt-2 text-sm text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={selectedPortfolio.allow_margin}
+                          onChange={() => updatePortfolioSettings(selectedPortfolio, { allow_margin: !selectedPortfolio.allow_margin })}
+                          className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        <span className="ml-2">Allow margin (cash balance may go negative)</span>
+                      </label>
+                      <label className="flex items-center mt-2 text-sm text-gray-600">
+                        <span className="mr-2">Cost basis method</span>
+                        <select
+                          value={selectedPortfolio.cost_basis_method}
+                          onChange={(e) =>
+                            updatePortfolioSettings(selectedPortfolio, {
+                              cost_basis_method: e.target.value as CostBasisMethod,
+                            })
+                          }
+                          className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          {(Object.keys(COST_BASIS_METHOD_LABELS) as CostBasisMethod[]).map((method) => (
+                            <option key={method} value={method}>
+                              {COST_BASIS_METHOD_LABELS[method]}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                    <div className="flex space-x-2">
+                      <ExportMenu
+                        disabled={transactions.length === 0}
+                        options={[
+                          { label: 'Transactions (CSV)', onSelect: () => exportTransactions('csv') },
+                          { label: 'Transactions (JSON)', onSelect: () => exportTransactions('json') },
+                          { label: 'Investment statement (OFX)', onSelect: () => exportTransactions('ofx') },
+                        ]}
+                      />
+                      <button
+                        onClick={() => setShowImportModal(true)}
+                        className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+                      >
+                        <Upload className="w-4 h-4 mr-2" />
+                        Import CSV
+                      </button>
+                      <button
+                        onClick={() => setShowTransactionModal(true)}
+                        className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition"
+                      >
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Transaction
+                      </button>
                     </div>
-                    <button
-                      onClick={() => setShowTransactionModal(true)}
-                      className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition"
-                    >
-                      <Plus className="w-4 h-4 mr-2" />
-                      Add Transaction
-                    </button>
                   </div>
 
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="bg-gradient-to-br from-purple-50 to-purple-100 rounded-lg p-4">
+                      <p className="text-sm text-purple-700 font-medium">Cash Balance</p>
+                      <p className={`text-2xl font-bold mt-1 ${(ledger?.cash || 0) < 0 ? 'text-red-700' : 'text-purple-900'}`}>
+                        {formatCurrency(ledger?.cash || 0, portfolioCurrency)}
+                      </p>
+                    </div>
                     <div className="bg-gradient-to-br from-blue-50 to-blue-100 rounded-lg p-4">
                       <p className="text-sm text-blue-700 font-medium">Current Holdings</p>
                       <p className="text-2xl font-bold text-blue-900 mt-1">{holdings.length}</p>
@@ -413,6 +686,7 @@ export default function Portfolios() {
                 <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
                   <div className="p-4 bg-gray-50 border-b border-gray-200">
                     <h3 className="font-semibold text-gray-900">Transaction History</h3>
+                    {historyError && <p className="text-sm text-red-600 mt-1">{historyError}</p>}
                   </div>
                   <div className="overflow-x-auto">
                     <table className="w-full">
@@ -424,12 +698,21 @@ export default function Portfolios() {
                           <th className="py-3 px-4 text-right text-xs font-medium text-gray-500 uppercase">Quantity</th>
                           <th className="py-3 px-4 text-right text-xs font-medium text-gray-500 uppercase">Price</th>
                           <th className="py-3 px-4 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                          <th className="py-3 px-4 text-right text-xs font-medium text-gray-500 uppercase">Cash Balance</th>
                           <th className="py-3 px-4 text-right text-xs font-medium text-gray-500 uppercase">Action</th>
                         </tr>
                       </thead>
                       <tbody className="divide-y divide-gray-200">
                         {transactions.map((txn) => {
                           const total = txn.quantity * txn.price + txn.fees;
+                          const txnCurrency = settlesInStockCurrency(txn.transaction_type)
+                            ? txn.stock?.currency || portfolioCurrency
+                            : portfolioCurrency;
+                          const cashBalance = cashBalances.get(txn.id) || 0;
+                          const TypeIcon = TRANSACTION_TYPE_ICONS[txn.transaction_type];
+                          const isCash = isCashTransaction(txn.transaction_type);
+                          const isAmount = isAmountTransaction(txn.transaction_type);
+                          const isSplit = txn.transaction_type === 'split';
                           return (
                             <tr key={txn.id} className="hover:bg-gray-50">
                               <td className="py-3 px-4 text-sm text-gray-900">
@@ -438,32 +721,54 @@ export default function Portfolios() {
                               <td className="py-3 px-4">
                                 <span
                                   className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                                    txn.transaction_type === 'buy'
-                                      ? 'bg-green-100 text-green-800'
-                                      : 'bg-red-100 text-red-800'
+                                    TRANSACTION_TYPE_STYLES[txn.transaction_type]
                                   }`}
                                 >
-                                  {txn.transaction_type === 'buy' ? (
-                                    <TrendingUp className="w-3 h-3 mr-1" />
-                                  ) : (
-                                    <TrendingDown className="w-3 h-3 mr-1" />
-                                  )}
-                                  {txn.transaction_type.toUpperCase()}
+                                  <TypeIcon className="w-3 h-3 mr-1" />
+                                  {TRANSACTION_TYPE_LABELS[txn.transaction_type].toUpperCase()}
                                 </span>
                               </td>
                               <td className="py-3 px-4 text-sm">
-                                <div>
-                                  <div className="font-medium text-gray-900">{txn.stock?.symbol}</div>
-                                  <div className="text-gray-500 text-xs">{txn.stock?.name}</div>
-                                </div>
+                                {isCash ? (
+                                  <div className="font-medium text-gray-500">Cash</div>
+                                ) : (
+                                  <div>
+                                    <div className="font-medium text-gray-900">{txn.stock?.symbol}</div>
+                                    <div className="text-gray-500 text-xs">{txn.stock?.name}</div>
+                                  </div>
+                                )}
+                              </td>
+                              <td className="py-3 px-4 text-sm text-gray-900 text-right">
+                                {isAmount ? '—' : isSplit ? `${txn.quantity}:1` : txn.quantity}
+                              </td>
+                              <td className="py-3 px-4 text-sm text-gray-900 text-right">
+                                {isAmount || isSplit ? '—' : formatCurrency(txn.price, txnCurrency)}
+                              </td>
+                              <td className="py-3 px-4 text-sm text-gray-900 text-right">{isSplit ? '—' : formatCurrency(total, txnCurrency)}</td>
+                              <td className={`py-3 px-4 text-sm text-right ${cashBalance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                                {formatCurrency(cashBalance, portfolioCurrency)}
                               </td>
-                              <td className="py-3 px-4 text-sm text-gray-900 text-right">{txn.quantity}</td>
-                              <td className="py-3 px-4 text-sm text-gray-900 text-right">${txn.price.toFixed(2)}</td>
-                              <td className="py-3 px-4 text-sm text-gray-900 text-right">${total.toFixed(2)}</td>
-                              <td className="py-3 px-4 text-right">
+                              <td className="py-3 px-4 text-right whitespace-nowrap">
+                                <button
+                                  onClick={() => openEditTransaction(txn)}
+                                  className="text-blue-600 hover:text-blue-700 mr-3"
+                                  title="Edit"
+                                >
+                                  <Pencil className="w-4 h-4" />
+                                </button>
+                                {txn.updated_at && (
+                                  <button
+                                    onClick={() => setRevisionsTransaction(txn)}
+                                    className="text-gray-500 hover:text-gray-700 mr-3"
+                                    title={`Edited ${new Date(txn.updated_at).toLocaleString()}`}
+                                  >
+                                    <History className="w-4 h-4" />
+                                  </button>
+                                )}
                                 <button
                                   onClick={() => deleteTransaction(txn.id)}
                                   className="text-red-600 hover:text-red-700"
+                                  title="Move to trash"
                                 >
                                   <Trash2 className="w-4 h-4" />
                                 </button>
@@ -502,6 +807,7 @@ export default function Portfolios() {
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   placeholder="My Portfolio"
                 />
+                <FieldError message={portfolioErrors.name} />
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
@@ -512,6 +818,7 @@ export default function Portfolios() {
                   rows={3}
                   placeholder="Long-term growth portfolio"
                 />
+                <FieldError message={portfolioErrors.description} />
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Initial Capital</label>
@@ -524,11 +831,55 @@ export default function Portfolios() {
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   placeholder="10000"
                 />
+                <FieldError message={portfolioErrors.initial_capital} />
+                <p className="text-xs text-gray-500 mt-1">Opening cash balance of the portfolio</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Currency</label>
+                <select
+                  value={portfolioForm.currency}
+                  onChange={(e) => setPortfolioForm({ ...portfolioForm, currency: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {SUPPORTED_CURRENCIES.map((currency) => (
+                    <option key={currency} value={currency}>
+                      {currency}
+                    </option>
+                  ))}
+                </select>
+                <FieldError message={portfolioErrors.currency} />
+                <p className="text-xs text-gray-500 mt-1">Cash is held and trades settle in this currency</p>
+              </div>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={portfolioForm.allow_margin}
+                  onChange={(e) => setPortfolioForm({ ...portfolioForm, allow_margin: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">Allow margin (buys may exceed available cash)</span>
+              </label>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Cost Basis Method</label>
+                <select
+                  value={portfolioForm.cost_basis_method}
+                  onChange={(e) =>
+                    setPortfolioForm({ ...portfolioForm, cost_basis_method: e.target.value as CostBasisMethod })
+                  }
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {(Object.keys(COST_BASIS_METHOD_LABELS) as CostBasisMethod[]).map((method) => (
+                    <option key={method} value={method}>
+                      {COST_BASIS_METHOD_LABELS[method]}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Which lots a sale closes unless you pick them yourself</p>
               </div>
             </div>
             <div className="flex space-x-3 mt-6">
               <button
-                onClick={() => setShowCreateModal(false)}
+                onClick={closeCreateModal}
                 className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
               >
                 Cancel
@@ -544,78 +895,306 @@ export default function Portfolios() {
         </div>
       )}
 
+      {showImportModal && selectedPortfolio && (
+        <ImportTransactionsModal
+          portfolio={selectedPortfolio}
+          transactions={transactions}
+          stocks={stocks}
+          onClose={() => setShowImportModal(false)}
+          onImported={() => {
+            setShowImportModal(false);
+            loadStocks();
+          }}
+        />
+      )}
+
+      {revisionsTransaction && (
+        <TransactionRevisionsModal
+          transaction={revisionsTransaction}
+          stocks={stocks}
+          onClose={() => setRevisionsTransaction(null)}
+        />
+      )}
+
       {showTransactionModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-xl shadow-xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
-            <h2 className="text-xl font-bold text-gray-900 mb-4">Add Transaction</h2>
+            <h2 className="text-xl font-bold text-gray-900 mb-4">
+              {editingTransaction ? 'Edit Transaction' : 'Add Transaction'}
+            </h2>
             <div className="space-y-4">
+              {!editingTransaction && portfolios.length > 1 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Portfolio</label>
+                  <select
+                    value={selectedPortfolio?.id || ''}
+                    onChange={(e) => setSelectedPortfolioId(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {portfolios.map((portfolio) => (
+                      <option key={portfolio.id} value={portfolio.id}>
+                        {portfolio.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
                 <select
                   value={transactionForm.transaction_type}
                   onChange={(e) =>
-                    setTransactionForm({ ...transactionForm, transaction_type: e.target.value as 'buy' | 'sell' })
+                    setTransactionForm({ ...transactionForm, transaction_type: e.target.value as TransactionType })
                   }
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
-                  <option value="buy">Buy</option>
-                  <option value="sell">Sell</option>
+                  {(Object.keys(TRANSACTION_TYPE_LABELS) as TransactionType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {TRANSACTION_TYPE_LABELS[type]}
+                    </option>
+                  ))}
                 </select>
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Stock Symbol</label>
-                <input
-                  type="text"
-                  value={transactionForm.stock_symbol}
-                  onChange={(e) =>
-                    setTransactionForm({ ...transactionForm, stock_symbol: e.target.value.toUpperCase() })
-                  }
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="AAPL"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Stock Name</label>
-                <input
-                  type="text"
-                  value={transactionForm.stock_name}
-                  onChange={(e) => setTransactionForm({ ...transactionForm, stock_name: e.target.value })}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Apple Inc."
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Sector</label>
-                <input
-                  type="text"
-                  value={transactionForm.sector}
-                  onChange={(e) => setTransactionForm({ ...transactionForm, sector: e.target.value })}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Technology"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Quantity</label>
-                <input
-                  type="number"
-                  step="0.0001"
-                  value={transactionForm.quantity}
-                  onChange={(e) => setTransactionForm({ ...transactionForm, quantity: parseFloat(e.target.value) })}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="10"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Price per Share</label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={transactionForm.price}
-                  onChange={(e) => setTransactionForm({ ...transactionForm, price: parseFloat(e.target.value) })}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="150.00"
-                />
-              </div>
+              {isCashTransaction(transactionForm.transaction_type) ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Amount</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={transactionForm.price}
+                    onChange={(e) => setTransactionForm({ ...transactionForm, price: parseFloat(e.target.value) })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="1000.00"
+                  />
+                  <FieldError message={transactionErrors.price} />
+                </div>
+              ) : (
+                <>
+                  <div className="relative">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Stock Symbol</label>
+                    <input
+                      type="text"
+                      value={transactionForm.stock_symbol}
+                      onChange={(e) => handleSymbolChange(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="Symbol or company name"
+                    />
+                    <FieldError message={transactionErrors.stock_id} />
+                    {symbolMatches.length > 0 && (
+                      <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg divide-y divide-gray-100">
+                        {symbolMatches.map((match) => (
+                          <button
+                            key={match.stockId || `${match.symbol}-${match.exchange}`}
+                            type="button"
+                            onClick={() => selectSymbolMatch(match)}
+                            className="w-full text-left px-4 py-2 hover:bg-gray-50"
+                          >
+                            <span className="font-medium text-gray-900">{match.symbol}</span>
+                            <span className="text-sm text-gray-500 ml-2">{match.name}</span>
+                            <span className="text-xs text-gray-400 ml-2">{match.exchange}</span>
+                            {match.stockId && <span className="text-xs text-blue-600 ml-2">Recorded</span>}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Stock Name</label>
+                    <input
+                      type="text"
+                      value={existingStock ? existingStock.name : transactionForm.stock_name}
+                      onChange={(e) => setTransactionForm({ ...transactionForm, stock_name: e.target.value })}
+                      disabled={!!existingStock}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500"
+                      placeholder="Apple Inc."
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Sector</label>
+                      <input
+                        type="text"
+                        value={existingStock ? existingStock.sector : transactionForm.sector}
+                        onChange={(e) => setTransactionForm({ ...transactionForm, sector: e.target.value })}
+                        disabled={!!existingStock}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500"
+                        placeholder="Technology"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Exchange</label>
+                      <input
+                        type="text"
+                        value={existingStock ? existingStock.exchange : transactionForm.exchange}
+                        onChange={(e) => setTransactionForm({ ...transactionForm, exchange: e.target.value })}
+                        disabled={!!existingStock}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500"
+                        placeholder="NASDAQ"
+                      />
+                    </div>
+                  </div>
+                  {existingStock && (
+                    <p className="text-xs text-gray-500 -mt-2">
+                      Details of recorded securities are edited on the{' '}
+                      <Link to="/securities" className="text-blue-600 hover:text-blue-700">
+                        Securities
+                      </Link>{' '}
+                      page.
+                    </p>
+                  )}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Currency</label>
+                    <select
+                      value={stockCurrency}
+                      onChange={(e) => setTransactionForm({ ...transactionForm, currency: e.target.value })}
+                      disabled={!!existingStock}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500"
+                    >
+                      {Array.from(new Set([...SUPPORTED_CURRENCIES, stockCurrency])).map((currency) => (
+                        <option key={currency} value={currency}>
+                          {currency}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {transactionForm.transaction_type === 'dividend' ? (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Amount</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={transactionForm.price}
+                        onChange={(e) => setTransactionForm({ ...transactionForm, price: parseFloat(e.target.value) })}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="25.00"
+                      />
+                      <FieldError message={transactionErrors.price} />
+                    </div>
+                  ) : transactionForm.transaction_type === 'split' ? (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Split Ratio</label>
+                      <input
+                        type="number"
+                        step="0.0001"
+                        value={transactionForm.quantity}
+                        onChange={(e) => setTransactionForm({ ...transactionForm, quantity: parseFloat(e.target.value) })}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="2"
+                      />
+                      <FieldError message={transactionErrors.quantity} />
+                      <p className="text-xs text-gray-500 mt-1">New shares per old share: 2 for a 2-for-1 split, 0.1 for a 1-for-10 reverse split</p>
+                    </div>
+                  ) : transactionForm.transaction_type === 'spinoff' ? (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Spun Off From</label>
+                        <select
+                          value={transactionForm.parent_stock_id}
+                          onChange={(e) => setTransactionForm({ ...transactionForm, parent_stock_id: e.target.value })}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value="">Select a holding</option>
+                          {holdings.map((holding) => (
+                            <option key={holding.stockId} value={holding.stockId}>
+                              {holding.symbol} - {holding.name}
+                            </option>
+                          ))}
+                        </select>
+                        <FieldError message={transactionErrors.parent_stock_id} />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Shares Received</label>
+                        <input
+                          type="number"
+                          step="0.0001"
+                          value={transactionForm.quantity}
+                          onChange={(e) => setTransactionForm({ ...transactionForm, quantity: parseFloat(e.target.value) })}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="10"
+                        />
+                        <FieldError message={transactionErrors.quantity} />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Cost Basis per Share</label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={transactionForm.price}
+                          onChange={(e) => setTransactionForm({ ...transactionForm, price: parseFloat(e.target.value) })}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="12.50"
+                        />
+                        <FieldError message={transactionErrors.price} />
+                        <p className="text-xs text-gray-500 mt-1">Moved out of the parent holding's cost basis</p>
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Quantity</label>
+                        <input
+                          type="number"
+                          step="0.0001"
+                          value={transactionForm.quantity}
+                          onChange={(e) => setTransactionForm({ ...transactionForm, quantity: parseFloat(e.target.value) })}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="10"
+                        />
+                        <FieldError message={transactionErrors.quantity} />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Price per Share</label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={transactionForm.price}
+                          onChange={(e) => setTransactionForm({ ...transactionForm, price: parseFloat(e.target.value) })}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="150.00"
+                        />
+                        <FieldError message={transactionErrors.price} />
+                      </div>
+                    </>
+                  )}
+                  {sellLots.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Lots to Sell</label>
+                      <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                        {sellLots.map((lot) => (
+                          <div key={lot.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                            <div>
+                              <div className="text-gray-900">{new Date(lot.acquiredDate).toLocaleDateString()}</div>
+                              <div className="text-xs text-gray-500">
+                                {Number(lot.quantity.toFixed(4))} @ {formatCurrency(costPerShare(lot), tradeCurrency)}
+                              </div>
+                            </div>
+                            <input
+                              type="number"
+                              step="0.0001"
+                              min="0"
+                              max={lot.quantity}
+                              value={lotSelections[lot.id] || ''}
+                              onChange={(e) =>
+                                setLotSelections({
+                                  ...lotSelections,
+                                  [lot.id]: Math.min(lot.quantity, parseFloat(e.target.value) || 0),
+                                })
+                              }
+                              className="w-28 px-2 py-1 border border-gray-300 rounded-lg text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                              placeholder="0"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                      <FieldError message={transactionErrors.lot_selections} />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Optional. Shares not assigned to a lot follow the portfolio's{' '}
+                        {COST_BASIS_METHOD_LABELS[selectedPortfolio?.cost_basis_method || DEFAULT_COST_BASIS_METHOD]} method.
+                      </p>
+                    </div>
+                  )}
+                </>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Fees</label>
                 <input
@@ -626,15 +1205,41 @@ export default function Portfolios() {
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   placeholder="5.00"
                 />
+                <FieldError message={transactionErrors.fees} />
               </div>
+              {rateCurrency !== portfolioCurrency && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    FX Rate ({portfolioCurrency} per {rateCurrency})
+                  </label>
+                  <input
+                    type="number"
+                    step="0.000001"
+                    value={Number.isNaN(transactionForm.fx_rate) ? '' : transactionForm.fx_rate}
+                    onChange={(e) => setTransactionForm({ ...transactionForm, fx_rate: parseFloat(e.target.value) })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <FieldError message={transactionErrors.fx_rate} />
+                  {fxRateMissing && (
+                    <p className="text-xs text-amber-700 mt-1">No {rateCurrency}/{portfolioCurrency} rate is known for this date</p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {transactionForm.transaction_type === 'spinoff'
+                      ? `Fees are in ${rateCurrency}; the carried basis moves into ${rateCurrency} at this rate`
+                      : `Price and fees are in ${tradeCurrency}; cash settles at this rate`}
+                  </p>
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Transaction Date</label>
                 <input
                   type="date"
+                  max={localTodayKey()}
                   value={transactionForm.transaction_date}
                   onChange={(e) => setTransactionForm({ ...transactionForm, transaction_date: e.target.value })}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
+                <FieldError message={transactionErrors.transaction_date} />
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
@@ -647,18 +1252,19 @@ export default function Portfolios() {
                 />
               </div>
             </div>
+            {transactionErrors.general && <p className="text-sm text-red-600 mt-4">{transactionErrors.general}</p>}
             <div className="flex space-x-3 mt-6">
               <button
-                onClick={() => setShowTransactionModal(false)}
+                onClick={closeTransactionModal}
                 className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
               >
                 Cancel
               </button>
               <button
-                onClick={createTransaction}
+                onClick={saveTransaction}
                 className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition"
               >
-                Add Transaction
+                {editingTransaction ? 'Save Changes' : 'Add Transaction'}
               </button>
             </div>
           </div>
@@ -0,0 +1,206 @@
+import { useState, useMemo } from 'react';
+import { replayLedger } from '../lib/ledger';
+import { COST_BASIS_METHOD_LABELS } from '../lib/lots';
+import { filterRealizedGains, summarizeByYear, totalRealizedGains } from '../lib/realizedGains';
+import { todayKey } from '../lib/dates';
+import { formatCurrency } from '../lib/currency';
+import { useAuth } from '../contexts/AuthContext';
+import { usePortfolios, useTransactions } from '../hooks/useLiveData';
+import Layout from '../components/Layout';
+import { AlertCircle } from 'lucide-react';
+
+const gainClass = (value: number) => (value >= 0 ? 'text-green-600' : 'text-red-600');
+
+export default function RealizedGains() {
+  const { user } = useAuth();
+  const { portfolios, loading } = usePortfolios(user?.uid);
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState('');
+  const [fromDate, setFromDate] = useState(`${new Date().getFullYear()}-01-01`);
+  const [toDate, setToDate] = useState(todayKey());
+
+  const selectedPortfolio = portfolios.find((p) => p.id === selectedPortfolioId) || portfolios[0] || null;
+  const { transactions } = useTransactions(selectedPortfolio?.id);
+
+  // Realized gains depend on every earlier buy, so the whole history is
+  // replayed and the date range is applied afterwards.
+  const realizedGains = useMemo(
+    () => (selectedPortfolio ? replayLedger(selectedPortfolio, transactions).realizedGains : []),
+    [selectedPortfolio, transactions]
+  );
+
+  const gainsInRange = filterRealizedGains(realizedGains, fromDate, toDate).sort((a, b) =>
+    b.soldDate.localeCompare(a.soldDate)
+  );
+  const totals = totalRealizedGains(gainsInRange);
+  const yearly = summarizeByYear(gainsInRange);
+  // Gains are converted into the portfolio's currency at each trade's rate
+  const formatMoney = (value: number) => formatCurrency(value, selectedPortfolio?.currency);
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-gray-600">Loading...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (portfolios.length === 0) {
+    return (
+      <Layout>
+        <div className="text-center py-12">
+          <AlertCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">No Portfolios Yet</h2>
+          <p className="text-gray-600">Realized gains appear here once a portfolio records a sale</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Realized Gains</h1>
+            {selectedPortfolio && (
+              <p className="text-gray-600 mt-1">
+                Lots closed by {COST_BASIS_METHOD_LABELS[selectedPortfolio.cost_basis_method]} unless chosen on the sale
+              </p>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={selectedPortfolio?.id || ''}
+              onChange={(e) => setSelectedPortfolioId(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {portfolios.map((portfolio) => (
+                <option key={portfolio.id} value={portfolio.id}>
+                  {portfolio.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span className="text-gray-500">to</span>
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+            <span className="text-sm font-medium text-gray-600">Proceeds</span>
+            <p className="text-2xl font-bold text-gray-900 mt-2">{formatMoney(totals.proceeds)}</p>
+            <p className="text-sm text-gray-500">{formatMoney(totals.fees)} in fees</p>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+            <span className="text-sm font-medium text-gray-600">Short-Term</span>
+            <p className={`text-2xl font-bold mt-2 ${gainClass(totals.shortTerm)}`}>{formatMoney(totals.shortTerm)}</p>
+            <p className="text-sm text-gray-500">Held one year or less</p>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+            <span className="text-sm font-medium text-gray-600">Long-Term</span>
+            <p className={`text-2xl font-bold mt-2 ${gainClass(totals.longTerm)}`}>{formatMoney(totals.longTerm)}</p>
+            <p className="text-sm text-gray-500">Held more than one year</p>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+            <span className="text-sm font-medium text-gray-600">Total Realized</span>
+            <p className={`text-2xl font-bold mt-2 ${gainClass(totals.total)}`}>{formatMoney(totals.total)}</p>
+            <p className="text-sm text-gray-500">{formatMoney(totals.costBasis)} cost basis</p>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+          <h2 className="text-lg font-bold text-gray-900 mb-4">Yearly Totals</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="border-b border-gray-200">
+                <tr>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">Year</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Proceeds</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Cost Basis</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Fees</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Short-Term</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Long-Term</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {yearly.map((year) => (
+                  <tr key={year.year} className="hover:bg-gray-50">
+                    <td className="py-3 px-4 text-sm font-medium text-gray-900">{year.year}</td>
+                    <td className="py-3 px-4 text-sm text-gray-900 text-right">{formatMoney(year.proceeds)}</td>
+                    <td className="py-3 px-4 text-sm text-gray-900 text-right">{formatMoney(year.costBasis)}</td>
+                    <td className="py-3 px-4 text-sm text-gray-900 text-right">{formatMoney(year.fees)}</td>
+                    <td className={`py-3 px-4 text-sm text-right ${gainClass(year.shortTerm)}`}>{formatMoney(year.shortTerm)}</td>
+                    <td className={`py-3 px-4 text-sm text-right ${gainClass(year.longTerm)}`}>{formatMoney(year.longTerm)}</td>
+                    <td className={`py-3 px-4 text-sm font-medium text-right ${gainClass(year.total)}`}>{formatMoney(year.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {yearly.length === 0 && <p className="text-gray-500 text-center py-8">No sales in this date range</p>}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-200">
+          <h2 className="text-lg font-bold text-gray-900 mb-4">Closed Lots</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="border-b border-gray-200">
+                <tr>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">Symbol</th>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">Acquired</th>
+                  <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">Sold</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Quantity</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Proceeds</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Cost Basis</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Fees</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Gain/Loss</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Held</th>
+                  <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Term</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {gainsInRange.map((gain) => (
+                  <tr key={`${gain.transactionId}-${gain.lotId}`} className="hover:bg-gray-50">
+                    <td className="py-3 px-4 text-sm font-medium text-gray-900">{gain.stock?.symbol || '—'}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600">{new Date(gain.acquiredDate).toLocaleDateString()}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600">{new Date(gain.soldDate).toLocaleDateString()}</td>
+                    <td className="py-3 px-4 text-sm text-gray-900 text-right">{Number(gain.quantity.toFixed(4))}</td>
+                    <td className="py-3 px-4 text-sm text-gray-900 text-right">{formatMoney(gain.proceeds)}</td>
+                    <td className="py-3 px-4 text-sm text-gray-900 text-right">{formatMoney(gain.costBasis)}</td>
+                    <td className="py-3 px-4 text-sm text-gray-900 text-right">{formatMoney(gain.fees)}</td>
+                    <td className={`py-3 px-4 text-sm text-right ${gainClass(gain.gain)}`}>{formatMoney(gain.gain)}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600 text-right">{gain.holdingDays}d</td>
+                    <td className="py-3 px-4 text-right">
+                      <span
+                        className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${
+                          gain.term === 'long' ? 'bg-blue-100 text-blue-800' : 'bg-amber-100 text-amber-800'
+                        }`}
+                      >
+                        {gain.term === 'long' ? 'Long' : 'Short'}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {gainsInRange.length === 0 && <p className="text-gray-500 text-center py-8">No closed lots in this date range</p>}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,359 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { settlesInStockCurrency } from '../lib/ledger';
+import { formatCurrency } from '../lib/currency';
+import { loadPortfolioReport, PortfolioReport } from '../lib/report';
+import { toDateKey, todayKey } from '../lib/dates';
+import { useAuth } from '../contexts/AuthContext';
+import { usePortfolios, useTransactions } from '../hooks/useLiveData';
+import Layout from '../components/Layout';
+import { Portfolio, Transaction } from '../types';
+import { AlertCircle, Printer } from 'lucide-react';
+import { PieChart, Pie, Cell } from 'recharts';
+
+const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
+
+const formatDate = (value: string) =>
+  new Date(`${toDateKey(value)}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const gainClass = (value: number) => (value >= 0 ? 'text-green-700' : 'text-red-700');
+
+export default function Report() {
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { portfolios, loading } = usePortfolios(user?.uid);
+  const [report, setReport] = useState<PortfolioReport | null>(null);
+  const [notes, setNotes] = useState('');
+  const [building, setBuilding] = useState(false);
+
+  // Portfolio and period live in the URL so a report can be bookmarked or shared
+  const portfolioId = searchParams.get('portfolio') || portfolios[0]?.id || '';
+  const fromDate = searchParams.get('from') || `${new Date().getFullYear()}-01-01`;
+  const toDate = searchParams.get('to') || todayKey();
+  const selectedPortfolio = portfolios.find((p) => p.id === portfolioId) || null;
+  const { transactions, loading: transactionsLoading } = useTransactions(selectedPortfolio?.id);
+
+  const updateParams = (changes: Record<string, string>) =>
+    setSearchParams({ portfolio: portfolioId, from: fromDate, to: toDate, ...changes }, { replace: true });
+
+  useEffect(() => {
+    if (selectedPortfolio && !transactionsLoading && fromDate <= toDate) {
+      buildReport(selectedPortfolio, transactions, fromDate, toDate);
+    }
+  }, [selectedPortfolio?.id, transactions, transactionsLoading, fromDate, toDate]);
+
+  const buildReport = async (portfolio: Portfolio, portfolioTransactions: Transaction[], from: string, to: string) => {
+    setBuilding(true);
+    try {
+      setReport(await loadPortfolioReport(portfolio, portfolioTransactions, from, to));
+    } catch (error) {
+      console.error('Error building report:', error);
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-gray-600">Loading...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (portfolios.length === 0) {
+    return (
+      <Layout>
+        <div className="text-center py-12">
+          <AlertCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">No Portfolios Yet</h2>
+          <p className="text-gray-600">Create a portfolio to build a performance report</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const money = (value: number) => formatCurrency(value, report?.currency);
+  const change = report ? report.endValue - report.startValue - report.netFlows : 0;
+
+  return (
+    <Layout>
+      <div className="space-y-6 print:space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-4 print:hidden">
+          <h1 className="text-3xl font-bold text-gray-900">Performance Report</h1>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={portfolioId}
+              onChange={(e) => updateParams({ portfolio: e.target.value })}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {portfolios.map((portfolio) => (
+                <option key={portfolio.id} value={portfolio.id}>
+                  {portfolio.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate}
+              onChange={(e) => e.target.value && updateParams({ from: e.target.value })}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span className="text-gray-500">to</span>
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate}
+              max={todayKey()}
+              onChange={(e) => e.target.value && updateParams({ to: e.target.value })}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              onClick={() => window.print()}
+              disabled={!report || building}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Printer className="w-4 h-4 mr-2" />
+              Print / Save as PDF
+            </button>
+          </div>
+        </div>
+
+        <div className="print:hidden">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Notes for this report</label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Commentary printed at the end of the report"
+          />
+        </div>
+
+        {building && <div className="text-gray-600 print:hidden">Building report...</div>}
+
+        {report && selectedPortfolio && !building && (
+          <article className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 space-y-8 print:shadow-none print:border-0 print:p-0 print:rounded-none">
+            <header className="border-b border-gray-200 pb-4">
+              <h2 className="text-2xl font-bold text-gray-900">{selectedPortfolio.name}</h2>
+              {selectedPortfolio.description && <p className="text-gray-600 mt-1">{selectedPortfolio.description}</p>}
+              <p className="text-sm text-gray-500 mt-2">
+                {formatDate(report.from)} – {formatDate(report.to)} · Amounts in {report.currency} · Generated{' '}
+                {new Date().toLocaleDateString()}
+              </p>
+            </header>
+
+            <section className="report-section">
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Summary</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                  { label: 'Starting Value', value: money(report.startValue) },
+                  { label: 'Ending Value', value: money(report.endValue) },
+                  { label: 'Net Deposits', value: money(report.netFlows) },
+                  { label: 'Investment Change', value: money(change), className: gainClass(change) },
+                  {
+                    label: 'Time-Weighted Return',
+                    value: formatPercent(report.periodReturn),
+                    className: gainClass(report.periodReturn),
+                  },
+                  { label: 'Income', value: money(report.income) },
+                  { label: 'Realized Gain', value: money(report.realizedGain), className: gainClass(report.realizedGain) },
+                  {
+                    label: 'Unrealized Gain',
+                    value: money(report.unrealizedGain),
+                    className: gainClass(report.unrealizedGain),
+                  },
+                  { label: 'Fees', value: money(report.fees) },
+                  { label: 'Cash at End', value: money(report.endCash) },
+                ].map((item) => (
+                  <div key={item.label} className="border border-gray-200 rounded-lg p-3">
+                    <p className="text-xs font-medium text-gray-500 uppercase">{item.label}</p>
+                    <p className={`text-lg font-bold mt-1 ${item.className || 'text-gray-900'}`}>{item.value}</p>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section className="report-section">
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Allocation on {formatDate(report.to)}</h3>
+              {report.sectorAllocation.length > 0 ? (
+                <div className="flex items-center gap-8">
+                  <PieChart width={220} height={220}>
+                    <Pie
+                      data={report.sectorAllocation}
+                      dataKey="value"
+                      nameKey="sector"
+                      cx="50%"
+                      cy="50%"
+                      outerRadius={100}
+                      isAnimationActive={false}
+                    >
+                      {report.sectorAllocation.map((_, index) => (
+                        <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                      ))}
+                    </Pie>
+                  </PieChart>
+                  <table className="flex-1">
+                    <tbody className="divide-y divide-gray-100">
+                      {report.sectorAllocation.map((row, index) => (
+                        <tr key={row.sector}>
+                          <td className="py-1 pr-4 text-sm text-gray-900">
+                            <span
+                              className="inline-block w-3 h-3 rounded-sm mr-2 align-middle"
+                              style={{ backgroundColor: COLORS[index % COLORS.length] }}
+                            />
+                            {row.sector}
+                          </td>
+                          <td className="py-1 pr-4 text-sm text-gray-900 text-right">{money(row.value)}</td>
+                          <td className="py-1 text-sm text-gray-500 text-right">{row.percentage.toFixed(1)}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-gray-500 text-sm">No priced holdings at the end of the period</p>
+              )}
+            </section>
+
+            <section>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Holdings on {formatDate(report.to)}</h3>
+              {report.holdings.length > 0 ? (
+                <table className="w-full">
+                  <thead className="border-b border-gray-300">
+                    <tr>
+                      <th className="text-left py-2 pr-3 text-xs font-semibold text-gray-600 uppercase">Symbol</th>
+                      <th className="text-right py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Quantity</th>
+                      <th className="text-right py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Price</th>
+                      <th className="text-right py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Cost Basis</th>
+                      <th className="text-right py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Value</th>
+                      <th className="text-right py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Unrealized</th>
+                      <th className="text-right py-2 pl-3 text-xs font-semibold text-gray-600 uppercase">Weight</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {report.holdings.map((holding) => (
+                      <tr key={holding.stock.id}>
+                        <td className="py-2 pr-3 text-sm">
+                          <div className="font-medium text-gray-900">{holding.stock.symbol}</div>
+                          <div className="text-xs text-gray-500">{holding.stock.name}</div>
+                        </td>
+                        <td className="py-2 px-3 text-sm text-gray-900 text-right">{Number(holding.quantity.toFixed(4))}</td>
+                        <td className="py-2 px-3 text-sm text-gray-900 text-right">
+                          {holding.isPriced ? formatCurrency(holding.price, holding.stock.currency) : '—'}
+                        </td>
+                        <td className="py-2 px-3 text-sm text-gray-900 text-right">{money(holding.costBasis)}</td>
+                        <td className="py-2 px-3 text-sm text-gray-900 text-right">
+                          {holding.isPriced ? money(holding.value) : 'Unpriced'}
+                        </td>
+                        <td className={`py-2 px-3 text-sm text-right ${gainClass(holding.unrealizedGain)}`}>
+                          {holding.isPriced
+                            ? `${money(holding.unrealizedGain)} (${formatPercent(holding.unrealizedGainPercent)})`
+                            : '—'}
+                        </td>
+                        <td className="py-2 pl-3 text-sm text-gray-900 text-right">{holding.weight.toFixed(1)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-gray-500 text-sm">No holdings at the end of the period</p>
+              )}
+            </section>
+
+            <section>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Realized Gains</h3>
+              {report.realizedGains.length > 0 ? (
+                <table className="w-full">
+                  <thead className="border-b border-gray-300">
+                    <tr>
+                      <th className="text-left py-2 pr-3 text-xs font-semibold text-gray-600 uppercase">Sold</th>
+                      <th className="text-left py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Symbol</th>
+                      <th className="text-left py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Acquired</th>
+                      <th className="text-right py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Quantity</th>
+                      <th className="text-right py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Proceeds</th>
+                      <th className="text-right py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Cost Basis</th>
+                      <th className="text-right py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Gain</th>
+                      <th className="text-left py-2 pl-3 text-xs font-semibold text-gray-600 uppercase">Term</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {report.realizedGains.map((gain) => (
+                      <tr key={`${gain.transactionId}-${gain.lotId}`}>
+                        <td className="py-2 pr-3 text-sm text-gray-900">{formatDate(gain.soldDate)}</td>
+                        <td className="py-2 px-3 text-sm font-medium text-gray-900">{gain.stock?.symbol}</td>
+                        <td className="py-2 px-3 text-sm text-gray-900">{formatDate(gain.acquiredDate)}</td>
+                        <td className="py-2 px-3 text-sm text-gray-900 text-right">{Number(gain.quantity.toFixed(4))}</td>
+                        <td className="py-2 px-3 text-sm text-gray-900 text-right">{money(gain.proceeds)}</td>
+                        <td className="py-2 px-3 text-sm text-gray-900 text-right">{money(gain.costBasis)}</td>
+                        <td className={`py-2 px-3 text-sm text-right ${gainClass(gain.gain)}`}>{money(gain.gain)}</td>
+                        <td className="py-2 pl-3 text-sm text-gray-900">{gain.term === 'long' ? 'Long' : 'Short'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-gray-500 text-sm">No sales in this period</p>
+              )}
+            </section>
+
+            <section>
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Transactions</h3>
+              {report.transactions.length > 0 ? (
+                <table className="w-full">
+                  <thead className="border-b border-gray-300">
+                    <tr>
+                      <th className="text-left py-2 pr-3 text-xs font-semibold text-gray-600 uppercase">Date</th>
+                      <th className="text-left py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Type</th>
+                      <th className="text-left py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Symbol</th>
+                      <th className="text-right py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Quantity</th>
+                      <th className="text-right py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Price</th>
+                      <th className="text-right py-2 px-3 text-xs font-semibold text-gray-600 uppercase">Fees</th>
+                      <th className="text-left py-2 pl-3 text-xs font-semibold text-gray-600 uppercase">Notes</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {report.transactions.map((txn) => {
+                      const currency = settlesInStockCurrency(txn.transaction_type)
+                        ? txn.stock?.currency || report.currency
+                        : report.currency;
+                      return (
+                        <tr key={txn.id}>
+                          <td className="py-2 pr-3 text-sm text-gray-900">{formatDate(txn.transaction_date)}</td>
+                          <td className="py-2 px-3 text-sm text-gray-900 capitalize">
+                            {txn.transaction_type.replace('_', ' ')}
+                          </td>
+                          <td className="py-2 px-3 text-sm font-medium text-gray-900">{txn.stock?.symbol || 'Cash'}</td>
+                          <td className="py-2 px-3 text-sm text-gray-900 text-right">{txn.quantity}</td>
+                          <td className="py-2 px-3 text-sm text-gray-900 text-right">
+                            {txn.transaction_type === 'split' ? '—' : formatCurrency(txn.price, currency)}
+                          </td>
+                          <td className="py-2 px-3 text-sm text-gray-900 text-right">{formatCurrency(txn.fees, currency)}</td>
+                          <td className="py-2 pl-3 text-sm text-gray-500">{txn.notes}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-gray-500 text-sm">No transactions in this period</p>
+              )}
+            </section>
+
+            {notes.trim() && (
+              <section className="report-section">
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">Notes</h3>
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">{notes}</p>
+              </section>
+            )}
+          </article>
+        )}
+      </div>
+    </Layout>
+  );
+}
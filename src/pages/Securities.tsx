@@ -0,0 +1,331 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getDataStore, StockChanges } from '../lib/data';
+import { findLikelyDuplicates, searchStocks } from '../lib/securities';
+import { hasErrors, StockErrors, validateStock, ValidationError } from '../lib/validation';
+import { useAuth } from '../contexts/AuthContext';
+import Layout from '../components/Layout';
+import FieldError from '../components/FieldError';
+import { Stock } from '../types';
+import { GitMerge, Pencil, Search } from 'lucide-react';
+
+const stockLabel = (stock: Stock) => `${stock.symbol}${stock.exchange ? ` (${stock.exchange})` : ''}`;
+
+const toForm = (stock: Stock): Required<StockChanges> => ({
+  name: stock.name,
+  sector: stock.sector,
+  industry: stock.industry,
+});
+
+export default function Securities() {
+  const { user, isAdmin } = useAuth();
+  const [stocks, setStocks] = useState<Stock[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<Stock | null>(null);
+  const [form, setForm] = useState<Required<StockChanges> | null>(null);
+  const [errors, setErrors] = useState<StockErrors>({});
+  // The duplicate being merged away, and the stock it is merged into
+  const [merging, setMerging] = useState<Stock | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState('');
+
+  const loadStocks = async () => {
+    try {
+      setStocks(await getDataStore().stocks.list());
+    } catch (error) {
+      console.error('Error loading securities:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStocks();
+  }, []);
+
+  const duplicates = useMemo(() => findLikelyDuplicates(stocks), [stocks]);
+  const visibleStocks = search.trim() ? searchStocks(stocks, search) : stocks;
+
+  // Listings of the same symbol first, as those are the likely originals
+  const mergeTargets = merging
+    ? stocks
+        .filter((stock) => stock.id !== merging.id)
+        .sort(
+          (a, b) =>
+            Number(b.symbol === merging.symbol) - Number(a.symbol === merging.symbol) ||
+            a.symbol.localeCompare(b.symbol)
+        )
+    : [];
+
+  const openEdit = (stock: Stock) => {
+    setEditing(stock);
+    setForm(toForm(stock));
+    setErrors({});
+  };
+
+  const closeEdit = () => {
+    setEditing(null);
+    setForm(null);
+    setErrors({});
+  };
+
+  const saveStock = async () => {
+    if (!editing || !form) return;
+
+    const changes: StockChanges = { ...form, name: form.name.trim() };
+    const nextErrors = validateStock(changes);
+    setErrors(nextErrors);
+    if (hasErrors(nextErrors)) return;
+
+    setSaving(true);
+    try {
+      await getDataStore().stocks.update(editing.id, changes);
+      closeEdit();
+      await loadStocks();
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setErrors(error.errors as StockErrors);
+      } else {
+        console.error('Error saving security:', error);
+        alert('Failed to save security');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openMerge = (stock: Stock) => {
+    setMerging(stock);
+    setMergeTargetId(stocks.find((other) => other.id !== stock.id && other.symbol === stock.symbol)?.id || '');
+  };
+
+  const mergeStocks = async () => {
+    const target = stocks.find((stock) => stock.id === mergeTargetId);
+    if (!user || !merging || !target) return;
+    if (
+      !confirm(
+        `Merge ${stockLabel(merging)} into ${stockLabel(target)}? Transactions in ${stockLabel(merging)} will ` +
+          'point at the other stock from now on. This cannot be undone.'
+      )
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const moved = await getDataStore().stocks.merge(merging.id, target.id, { id: user.uid, email: user.email || '' });
+      setNotice(
+        `Merged ${stockLabel(merging)} into ${stockLabel(target)}; ` +
+          `${moved} of your transaction${moved === 1 ? '' : 's'} now point${moved === 1 ? 's' : ''} at it.`
+      );
+      setMerging(null);
+      await loadStocks();
+    } catch (error) {
+      console.error('Error merging securities:', error);
+      alert('Failed to merge securities');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-gray-600">Loading...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-end justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Securities</h1>
+            <p className="text-gray-600 mt-1">Stocks shared by every portfolio, one per symbol and exchange</p>
+          </div>
+          <div className="relative w-72">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Search by symbol or name"
+            />
+          </div>
+        </div>
+
+        {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Symbol</th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Exchange</th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Sector</th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Industry</th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Currency</th>
+                <th className="py-3 px-4 text-right text-xs font-medium text-gray-500 uppercase">Action</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visibleStocks.map((stock) => (
+                <tr key={stock.id} className="hover:bg-gray-50">
+                  <td className="py-3 px-4 text-sm font-medium text-gray-900 whitespace-nowrap">
+                    {stock.symbol}
+                    {duplicates.has(stock.id) && (
+                      <span
+                        className="ml-2 px-2 py-0.5 text-xs font-medium bg-amber-100 text-amber-800 rounded"
+                        title={isAdmin ? undefined : 'An administrator can merge duplicates'}
+                      >
+                        Possible duplicate
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-900">{stock.name}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{stock.exchange || '—'}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{stock.sector || '—'}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{stock.industry || '—'}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{stock.currency}</td>
+                  <td className="py-3 px-4 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => openEdit(stock)}
+                      className="text-blue-600 hover:text-blue-700 mr-3"
+                      title="Edit details"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    {isAdmin && (
+                      <button
+                        onClick={() => openMerge(stock)}
+                        className="text-gray-600 hover:text-gray-800"
+                        title="Merge into another stock"
+                      >
+                        <GitMerge className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visibleStocks.length === 0 && (
+            <p className="text-gray-500 text-center py-8">
+              {search.trim() ? 'No securities match your search' : 'No securities recorded yet'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {editing && form && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl font-bold text-gray-900 mb-1">Edit {editing.symbol}</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              {stockLabel(editing)} in {editing.currency}. Changes apply to every portfolio holding this stock; the
+              symbol, exchange and currency cannot be changed.
+            </p>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <FieldError message={errors.name} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Sector</label>
+                <input
+                  type="text"
+                  value={form.sector}
+                  onChange={(e) => setForm({ ...form, sector: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Technology"
+                />
+                <FieldError message={errors.sector} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Industry</label>
+                <input
+                  type="text"
+                  value={form.industry}
+                  onChange={(e) => setForm({ ...form, industry: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Consumer Electronics"
+                />
+                <FieldError message={errors.industry} />
+              </div>
+            </div>
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={closeEdit}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveStock}
+                disabled={saving}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Saving...' : 'Save Changes'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {merging && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl p-6 max-w-md w-full">
+            <h2 className="flex items-center text-xl font-bold text-gray-900 mb-1">
+              <GitMerge className="w-5 h-5 mr-2" />
+              Merge {stockLabel(merging)}
+            </h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Your transactions in {merging.symbol} are moved to the stock you pick, each with a revision recording
+              the change. Other users' transactions follow automatically, and {stockLabel(merging)} leaves this list.
+            </p>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Merge Into</label>
+            <select
+              value={mergeTargetId}
+              onChange={(e) => setMergeTargetId(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Select a stock</option>
+              {mergeTargets.map((stock) => (
+                <option key={stock.id} value={stock.id}>
+                  {stockLabel(stock)} - {stock.name}
+                </option>
+              ))}
+            </select>
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={() => setMerging(null)}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={mergeStocks}
+                disabled={saving || !mergeTargetId}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Merging...' : 'Merge'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+}
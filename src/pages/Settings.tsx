@@ -1,63 +1,36 @@
 import { useState, useEffect } from 'react';
-import {
-  collection,
-  query,
-  where,
-  getDocs,
-  addDoc,
-  updateDoc,
-  doc,
-  serverTimestamp,
-} from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { Link } from 'react-router-dom';
+import { getDataStore, PreferencesInput } from '../lib/data';
+import { DEFAULT_BENCHMARK_SYMBOL, DEFAULT_NOTIFICATION_SETTINGS, DEFAULT_RISK_FREE_RATE } from '../lib/preferences';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../lib/currency';
 import { useAuth } from '../contexts/AuthContext';
+import { usePreferences } from '../hooks/useLiveData';
 import Layout from '../components/Layout';
-import { User, Shield, Bell, Palette } from 'lucide-react';
-
-interface UserPreferences {
-  id?: string;
-  user_id: string;
-  risk_profile: 'conservative' | 'moderate' | 'aggressive';
-  investment_horizon: 'short' | 'medium' | 'long';
-  preferred_sectors: string[];
-}
+import { NotificationSettings } from '../types';
+import { User, Shield, Bell, Palette, Activity } from 'lucide-react';
 
 export default function Settings() {
   const { user, signOut } = useAuth();
-  const [preferences, setPreferences] = useState<UserPreferences>({
+  const [preferences, setPreferences] = useState<PreferencesInput>({
     user_id: user?.uid || '',
     risk_profile: 'moderate',
     investment_horizon: 'medium',
     preferred_sectors: [],
+    risk_free_rate: DEFAULT_RISK_FREE_RATE,
+    benchmark_symbol: DEFAULT_BENCHMARK_SYMBOL,
+    base_currency: DEFAULT_CURRENCY,
+    notifications: DEFAULT_NOTIFICATION_SETTINGS,
   });
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState('');
+  const { preferences: stored } = usePreferences(user?.uid);
 
+  // Follows saves made elsewhere, e.g. in another tab
   useEffect(() => {
-    if (user) {
-      loadPreferences();
-    }
-  }, [user]);
-
-  const loadPreferences = async () => {
-    if (!user) return;
-
-    try {
-      const prefsRef = collection(db, 'user_preferences');
-      const q = query(prefsRef, where('user_id', '==', user.uid));
-      const querySnapshot = await getDocs(q);
-
-      if (!querySnapshot.empty) {
-        const doc = querySnapshot.docs[0];
-        setPreferences({
-          id: doc.id,
-          ...doc.data() as UserPreferences,
-        });
-      }
-    } catch (error) {
-      console.error('Error loading preferences:', error);
+    if (stored) {
+      setPreferences(stored);
     }
-  };
+  }, [stored]);
 
   const savePreferences = async () => {
     if (!user) return;
@@ -66,28 +39,8 @@ export default function Settings() {
     setMessage('');
 
     try {
-      if (preferences.id) {
-        // Update existing preferences
-        const prefDoc = doc(db, 'user_preferences', preferences.id);
-        await updateDoc(prefDoc, {
-          risk_profile: preferences.risk_profile,
-          investment_horizon: preferences.investment_horizon,
-          preferred_sectors: preferences.preferred_sectors,
-          updated_at: serverTimestamp(),
-        });
-      } else {
-        // Create new preferences
-        const prefsRef = collection(db, 'user_preferences');
-        const docRef = await addDoc(prefsRef, {
-          user_id: user.uid,
-          risk_profile: preferences.risk_profile,
-          investment_horizon: preferences.investment_horizon,
-          preferred_sectors: preferences.preferred_sectors,
-          created_at: serverTimestamp(),
-          updated_at: serverTimestamp(),
-        });
-        setPreferences({ ...preferences, id: docRef.id });
-      }
+      const saved = await getDataStore().preferences.save({ ...preferences, user_id: user.uid });
+      setPreferences(saved);
 
       setMessage('Settings saved successfully!');
       setTimeout(() => setMessage(''), 3000);
@@ -99,6 +52,29 @@ export default function Settings() {
     }
   };
 
+  const updateNotifications = (changes: Partial<NotificationSettings>) =>
+    setPreferences((current) => ({ ...current, notifications: { ...current.notifications, ...changes } }));
+
+  // System notifications need the browser's permission, asked for when they
+  // are turned on
+  const handleBrowserToggle = async (enabled: boolean) => {
+    if (!enabled) {
+      updateNotifications({ browser: false });
+      return;
+    }
+    if (typeof Notification === 'undefined') {
+      setMessage('This browser does not support notifications');
+      return;
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission === 'granted') {
+      updateNotifications({ browser: true });
+    } else {
+      setMessage('Notifications are blocked for this site in your browser settings');
+    }
+  };
+
   const handleSectorToggle = (sector: string) => {
     const sectors = preferences.preferred_sectors || [];
     if (sectors.includes(sector)) {
@@ -219,6 +195,24 @@ export default function Settings() {
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Base Currency
+                </label>
+                <select
+                  value={preferences.base_currency}
+                  onChange={(e) => setPreferences({ ...preferences, base_currency: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {SUPPORTED_CURRENCIES.map((currency) => (
+                    <option key={currency} value={currency}>
+                      {currency}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">The dashboard converts every portfolio into this currency</p>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Preferred Sectors
@@ -243,6 +237,98 @@ export default function Settings() {
             </div>
           </div>
 
+          {/* Risk Analytics */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center mb-4">
+              <Activity className="w-5 h-5 text-blue-600 mr-2" />
+              <h2 className="text-xl font-semibold text-gray-900">Risk Analytics</h2>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Risk-Free Rate (%)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={preferences.risk_free_rate}
+                  onChange={(e) =>
+                    setPreferences({ ...preferences, risk_free_rate: parseFloat(e.target.value) || 0 })
+                  }
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="4.00"
+                />
+                <p className="text-xs text-gray-500 mt-1">Annual rate used for the Sharpe ratio</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Benchmark Symbol</label>
+                <input
+                  type="text"
+                  value={preferences.benchmark_symbol}
+                  onChange={(e) =>
+                    setPreferences({ ...preferences, benchmark_symbol: e.target.value.toUpperCase() })
+                  }
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="SPY"
+                />
+                <p className="text-xs text-gray-500 mt-1">Index or ETF that beta is measured against</p>
+              </div>
+            </div>
+          </div>
+
+          {/* Notifications */}
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center">
+                <Bell className="w-5 h-5 text-blue-600 mr-2" />
+                <h2 className="text-xl font-semibold text-gray-900">Notifications</h2>
+              </div>
+              <Link to="/alerts" className="text-sm text-blue-600 hover:text-blue-700">
+                Manage alert rules
+              </Link>
+            </div>
+            <div className="space-y-3">
+              <label className="flex items-start p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50 transition">
+                <input
+                  type="checkbox"
+                  checked={preferences.notifications.price_alerts}
+                  onChange={(e) => updateNotifications({ price_alerts: e.target.checked })}
+                  className="w-4 h-4 mt-0.5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="ml-2">
+                  <span className="block text-sm font-medium text-gray-700">Price alerts</span>
+                  <span className="block text-xs text-gray-500">When a stock crosses a price or moves sharply in a day</span>
+                </span>
+              </label>
+              <label className="flex items-start p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50 transition">
+                <input
+                  type="checkbox"
+                  checked={preferences.notifications.portfolio_alerts}
+                  onChange={(e) => updateNotifications({ portfolio_alerts: e.target.checked })}
+                  className="w-4 h-4 mt-0.5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="ml-2">
+                  <span className="block text-sm font-medium text-gray-700">Portfolio alerts</span>
+                  <span className="block text-xs text-gray-500">
+                    When a portfolio falls from its peak or one position grows too large
+                  </span>
+                </span>
+              </label>
+              <label className="flex items-start p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50 transition">
+                <input
+                  type="checkbox"
+                  checked={preferences.notifications.browser}
+                  onChange={(e) => handleBrowserToggle(e.target.checked)}
+                  className="w-4 h-4 mt-0.5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="ml-2">
+                  <span className="block text-sm font-medium text-gray-700">Browser notifications</span>
+                  <span className="block text-xs text-gray-500">
+                    Also show alerts as system notifications while the app is open
+                  </span>
+                </span>
+              </label>
+            </div>
+          </div>
+
           {/* Actions */}
           <div className="flex space-x-4">
             <button
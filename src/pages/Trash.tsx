@@ -0,0 +1,226 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { getDataStore } from '../lib/data';
+import { isCashTransaction, settlesInStockCurrency } from '../lib/ledger';
+import { formatCurrency } from '../lib/currency';
+import { daysLeftInTrash, purgeExpiredTrash, TRASH_RETENTION_DAYS } from '../lib/trash';
+import { hasErrors, TransactionErrors, validateHistoryChange, ValidationError } from '../lib/validation';
+import { useAuth } from '../contexts/AuthContext';
+import { usePortfolios, useTrashedPortfolios, useTrashedTransactions } from '../hooks/useLiveData';
+import Layout from '../components/Layout';
+import { Transaction } from '../types';
+import { Briefcase, RotateCcw, Trash2 } from 'lucide-react';
+
+const daysLeftLabel = (deletedAt: string) => {
+  const days = daysLeftInTrash(deletedAt);
+  return `${days} day${days === 1 ? '' : 's'} left`;
+};
+
+export default function Trash() {
+  const { user } = useAuth();
+  const { portfolios, loading: portfoliosLoading } = usePortfolios(user?.uid);
+  const { portfolios: trashedPortfolios, loading: trashLoading } = useTrashedPortfolios(user?.uid);
+  // Transactions of trashed portfolios come back with the portfolio, so only
+  // those trashed on their own are listed
+  const portfolioIds = useMemo(() => portfolios.map((portfolio) => portfolio.id), [portfolios]);
+  const { transactions: trashedTransactions } = useTrashedTransactions(portfolioIds);
+  const portfolioById = new Map(portfolios.map((portfolio) => [portfolio.id, portfolio]));
+  // Why the last transaction to be restored had to stay in the trash
+  const [restoreError, setRestoreError] = useState('');
+
+  // Each expired item is purged once, even though the lists update again
+  // before the purge reaches them
+  const purged = useRef(new Set<string>());
+  useEffect(() => {
+    const pending = <T extends { id: string }>(items: T[]) => items.filter((item) => !purged.current.has(item.id));
+    purgeExpiredTrash(pending(trashedPortfolios), pending(trashedTransactions))
+      .then((ids) => ids.forEach((id) => purged.current.add(id)))
+      .catch((error) => console.error('Error purging expired trash:', error));
+  }, [trashedPortfolios, trashedTransactions]);
+
+  const restorePortfolio = async (portfolioId: string) => {
+    try {
+      await getDataStore().portfolios.restore(portfolioId);
+    } catch (error) {
+      console.error('Error restoring portfolio:', error);
+      alert('Failed to restore portfolio');
+    }
+  };
+
+  const purgePortfolio = async (portfolioId: string) => {
+    if (!confirm('Delete this portfolio and all of its transactions for good? This cannot be undone.')) return;
+
+    try {
+      await getDataStore().portfolios.purge(portfolioId);
+    } catch (error) {
+      console.error('Error deleting portfolio:', error);
+      alert('Failed to delete portfolio');
+    }
+  };
+
+  // A restored sale or withdrawal must still be covered by the history as it
+  // is now
+  const restoreTransaction = async (transaction: Transaction) => {
+    const portfolio = portfolioById.get(transaction.portfolio_id);
+    if (!portfolio) return;
+
+    try {
+      const current = await getDataStore().transactions.listByPortfolio(portfolio.id);
+      const errors = validateHistoryChange(portfolio, current, [...current, transaction]);
+      setRestoreError(errors.general || '');
+      if (hasErrors(errors)) return;
+
+      await getDataStore().transactions.restore(transaction.id);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setRestoreError((error.errors as TransactionErrors).general || '');
+      } else {
+        console.error('Error restoring transaction:', error);
+        alert('Failed to restore transaction');
+      }
+    }
+  };
+
+  const purgeTransaction = async (transactionId: string) => {
+    if (!confirm('Delete this transaction for good? This cannot be undone.')) return;
+
+    try {
+      await getDataStore().transactions.purge(transactionId);
+    } catch (error) {
+      console.error('Error deleting transaction:', error);
+      alert('Failed to delete transaction');
+    }
+  };
+
+  if (portfoliosLoading || trashLoading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-gray-600">Loading...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Trash</h1>
+          <p className="text-gray-600 mt-1">
+            Deleted portfolios and transactions can be restored for {TRASH_RETENTION_DAYS} days
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-xl font-bold text-gray-900">Portfolios</h2>
+          </div>
+          <div className="divide-y divide-gray-200">
+            {trashedPortfolios.map((portfolio) => (
+              <div key={portfolio.id} className="p-4 flex items-center justify-between">
+                <div className="flex items-center">
+                  <Briefcase className="w-5 h-5 text-gray-400 mr-3" />
+                  <div>
+                    <div className="font-medium text-gray-900">{portfolio.name}</div>
+                    <div className="text-sm text-gray-500">
+                      Deleted {new Date(portfolio.deleted_at!).toLocaleDateString()} ·{' '}
+                      {daysLeftLabel(portfolio.deleted_at!)}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => restorePortfolio(portfolio.id)}
+                    className="flex items-center px-3 py-2 text-sm font-medium text-blue-700 hover:bg-blue-50 rounded-lg transition"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => purgePortfolio(portfolio.id)}
+                    className="flex items-center px-3 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg transition"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete Forever
+                  </button>
+                </div>
+              </div>
+            ))}
+            {trashedPortfolios.length === 0 && (
+              <p className="text-gray-500 text-center py-8">No deleted portfolios</p>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-xl font-bold text-gray-900">Transactions</h2>
+            {restoreError && <p className="text-sm text-red-600 mt-1">{restoreError}</p>}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Portfolio</th>
+                  <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                  <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Stock</th>
+                  <th className="py-3 px-4 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                  <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Deleted</th>
+                  <th className="py-3 px-4 text-right text-xs font-medium text-gray-500 uppercase">Action</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {trashedTransactions.map((txn) => {
+                  const portfolio = portfolioById.get(txn.portfolio_id);
+                  const txnCurrency = settlesInStockCurrency(txn.transaction_type)
+                    ? txn.stock?.currency || portfolio?.currency
+                    : portfolio?.currency;
+                  return (
+                    <tr key={txn.id} className="hover:bg-gray-50">
+                      <td className="py-3 px-4 text-sm text-gray-900">
+                        {new Date(txn.transaction_date).toLocaleDateString()}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-900">{portfolio?.name}</td>
+                      <td className="py-3 px-4 text-sm text-gray-900 capitalize">
+                        {txn.transaction_type.replace('_', ' ')}
+                      </td>
+                      <td className="py-3 px-4 text-sm font-medium text-gray-900">
+                        {isCashTransaction(txn.transaction_type) ? 'Cash' : txn.stock?.symbol}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-900 text-right">
+                        {formatCurrency(txn.quantity * txn.price + txn.fees, txnCurrency)}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-500">
+                        {new Date(txn.deleted_at!).toLocaleDateString()} · {daysLeftLabel(txn.deleted_at!)}
+                      </td>
+                      <td className="py-3 px-4 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => restoreTransaction(txn)}
+                          className="text-blue-600 hover:text-blue-700 mr-3"
+                          title="Restore"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => purgeTransaction(txn.id)}
+                          className="text-red-600 hover:text-red-700"
+                          title="Delete forever"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {trashedTransactions.length === 0 && (
+              <p className="text-gray-500 text-center py-8">No deleted transactions</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,567 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { getDataStore } from '../lib/data';
+import { getMarketDataProvider, SymbolMatch } from '../lib/marketData';
+import { isSameListing, searchStocks } from '../lib/securities';
+import { loadPriceSummary, moveItem, PriceSummary } from '../lib/watchlists';
+import { checkAlerts, summaryToPriceObservation } from '../lib/alerts';
+import {
+  hasErrors,
+  validateWatchlist,
+  validateWatchlistItem,
+  WatchlistErrors,
+  WatchlistItemErrors,
+} from '../lib/validation';
+import { formatCurrency } from '../lib/currency';
+import { useWatchlists } from '../hooks/useLiveData';
+import { useAuth } from '../contexts/AuthContext';
+import Layout from '../components/Layout';
+import FieldError from '../components/FieldError';
+import { Stock, Watchlist, WatchlistItem } from '../types';
+import { ArrowDown, ArrowUp, Check, Eye, Pencil, Plus, ShoppingCart, Trash2, X } from 'lucide-react';
+
+// A suggestion for the symbol input, with stockId set for recorded securities
+type SymbolSuggestion = SymbolMatch & { stockId?: string };
+
+const gainClass = (value: number) => (value >= 0 ? 'text-green-600' : 'text-red-600');
+
+// Where the last close sits between the 52-week low (0%) and high (100%)
+const rangePosition = (summary: PriceSummary) =>
+  summary.high > summary.low ? ((summary.lastPrice - summary.low) / (summary.high - summary.low)) * 100 : 50;
+
+export default function Watchlists() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { watchlists, loading } = useWatchlists(user?.uid);
+  const [selectedId, setSelectedId] = useState('');
+  const [newName, setNewName] = useState('');
+  const [createErrors, setCreateErrors] = useState<WatchlistErrors>({});
+  // The new name while the selected watchlist is being renamed
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [renameErrors, setRenameErrors] = useState<WatchlistErrors>({});
+  const [allStocks, setAllStocks] = useState<Stock[]>([]);
+  // The stock behind each item, keyed by the item's stock_id; merged stocks
+  // resolve to the stock they were merged into
+  const [itemStocks, setItemStocks] = useState<Map<string, Stock>>(new Map());
+  const [summaries, setSummaries] = useState<Map<string, PriceSummary | null>>(new Map());
+  const [symbolQuery, setSymbolQuery] = useState('');
+  const [symbolMatches, setSymbolMatches] = useState<SymbolSuggestion[]>([]);
+  const [addError, setAddError] = useState('');
+  // Keyed by the item's stock_id
+  const [itemErrors, setItemErrors] = useState<Record<string, WatchlistItemErrors>>({});
+
+  const selected = watchlists.find((watchlist) => watchlist.id === selectedId) || watchlists[0];
+  const items = selected?.items || [];
+  const stockIdsKey = items.map((item) => item.stock_id).join(',');
+
+  useEffect(() => {
+    getDataStore()
+      .stocks.list()
+      .then(setAllStocks)
+      .catch((error) => console.error('Error loading securities:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!stockIdsKey) return;
+    let cancelled = false;
+
+    const loadItems = async () => {
+      try {
+        const stocks = await getDataStore().stocks.getMany(stockIdsKey.split(','));
+        if (cancelled) return;
+        setItemStocks(stocks);
+
+        const resolved = Array.from(new Map(Array.from(stocks.values()).map((stock) => [stock.id, stock])).values());
+        const loaded = await Promise.all(resolved.map((stock) => loadPriceSummary(stock)));
+        if (cancelled) return;
+        setSummaries(new Map(resolved.map((stock, index) => [stock.id, loaded[index]])));
+
+        if (user) {
+          await checkAlerts(user.uid, {
+            prices: resolved.flatMap((stock, index) =>
+              loaded[index] ? [summaryToPriceObservation(stock, loaded[index]!)] : []
+            ),
+          });
+        }
+      } catch (error) {
+        console.error('Error loading watchlist prices:', error);
+      }
+    };
+
+    loadItems();
+    return () => {
+      cancelled = true;
+    };
+  }, [stockIdsKey]);
+
+  const selectWatchlist = (watchlist: Watchlist) => {
+    setSelectedId(watchlist.id);
+    setSymbolQuery('');
+    setSymbolMatches([]);
+    setAddError('');
+    setItemErrors({});
+    setRenaming(null);
+  };
+
+  const createWatchlist = async () => {
+    if (!user) return;
+
+    const input = {
+      user_id: user.uid,
+      name: newName.trim(),
+      position: watchlists.length > 0 ? watchlists[watchlists.length - 1].position + 1 : 0,
+      items: [],
+    };
+    const errors = validateWatchlist(input);
+    setCreateErrors(errors);
+    if (hasErrors(errors)) return;
+
+    try {
+      const watchlist = await getDataStore().watchlists.create(input);
+      setNewName('');
+      selectWatchlist(watchlist);
+    } catch (error) {
+      console.error('Error creating watchlist:', error);
+      alert('Failed to create watchlist');
+    }
+  };
+
+  const startRename = (watchlist: Watchlist) => {
+    setRenaming(watchlist.name);
+    setRenameErrors({});
+  };
+
+  const saveRename = async () => {
+    if (!selected || renaming === null) return;
+
+    const changes = { name: renaming.trim() };
+    const errors = validateWatchlist(changes);
+    setRenameErrors(errors);
+    if (hasErrors(errors)) return;
+
+    try {
+      await getDataStore().watchlists.update(selected.id, changes);
+      setRenaming(null);
+    } catch (error) {
+      console.error('Error renaming watchlist:', error);
+      alert('Failed to rename watchlist');
+    }
+  };
+
+  const deleteWatchlist = async (watchlist: Watchlist) => {
+    if (!confirm(`Delete the watchlist "${watchlist.name}"? This cannot be undone.`)) return;
+
+    try {
+      await getDataStore().watchlists.remove(watchlist.id);
+      setSelectedId('');
+    } catch (error) {
+      console.error('Error deleting watchlist:', error);
+      alert('Failed to delete watchlist');
+    }
+  };
+
+  const moveWatchlist = async (index: number, direction: -1 | 1) => {
+    try {
+      await getDataStore().watchlists.reorder(moveItem(watchlists, index, direction).map((watchlist) => watchlist.id));
+    } catch (error) {
+      console.error('Error reordering watchlists:', error);
+      alert('Failed to reorder watchlists');
+    }
+  };
+
+  const saveItems = async (nextItems: WatchlistItem[]) => {
+    if (!selected) return;
+
+    try {
+      await getDataStore().watchlists.update(selected.id, { items: nextItems });
+    } catch (error) {
+      console.error('Error saving watchlist:', error);
+      alert('Failed to save watchlist');
+    }
+  };
+
+  const handleSymbolChange = async (value: string) => {
+    const symbol = value.toUpperCase();
+    setSymbolQuery(symbol);
+    setAddError('');
+
+    const recorded: SymbolSuggestion[] = searchStocks(allStocks, symbol)
+      .slice(0, 5)
+      .map((stock) => ({
+        symbol: stock.symbol,
+        name: stock.name,
+        exchange: stock.exchange,
+        sector: stock.sector,
+        industry: stock.industry,
+        currency: stock.currency,
+        stockId: stock.id,
+      }));
+    setSymbolMatches(recorded);
+
+    try {
+      const matches = symbol ? await getMarketDataProvider().searchSymbols(symbol) : [];
+      const unrecorded = matches.filter((match) => !recorded.some((stock) => isSameListing(stock, match)));
+      setSymbolMatches([...recorded, ...unrecorded].slice(0, 8));
+    } catch (error) {
+      console.error('Error searching symbols:', error);
+    }
+  };
+
+  const addSymbol = async (match: SymbolSuggestion) => {
+    setSymbolMatches([]);
+    setSymbolQuery('');
+
+    try {
+      const { stockId, ...listing } = match;
+      const stock = stockId ? null : await getDataStore().stocks.create(listing);
+      if (stock && !allStocks.some((other) => other.id === stock.id)) setAllStocks((stocks) => [...stocks, stock]);
+      const id = stockId || stock!.id;
+
+      if (items.some((item) => item.stock_id === id || itemStocks.get(item.stock_id)?.id === id)) {
+        setAddError(`${match.symbol} is already on this watchlist.`);
+        return;
+      }
+
+      const nextItems = [...items, { stock_id: id, notes: '', added_at: new Date().toISOString() }];
+      const errors = validateWatchlist({ items: nextItems });
+      if (hasErrors(errors)) {
+        setAddError(errors.items || '');
+        return;
+      }
+      await saveItems(nextItems);
+    } catch (error) {
+      console.error('Error adding symbol:', error);
+      alert('Failed to add symbol');
+    }
+  };
+
+  // Saves a changed target price or note when its input loses focus
+  const updateItem = (stockId: string, changes: Partial<WatchlistItem>) => {
+    const item = items.find((current) => current.stock_id === stockId);
+    if (!item) return;
+
+    const next = { ...item, ...changes };
+    const errors = validateWatchlistItem(next);
+    setItemErrors((current) => ({ ...current, [stockId]: errors }));
+    if (hasErrors(errors) || (next.notes === item.notes && next.target_price === item.target_price)) return;
+
+    saveItems(items.map((current) => (current.stock_id === stockId ? next : current)));
+  };
+
+  const removeItem = (stockId: string) => saveItems(items.filter((item) => item.stock_id !== stockId));
+
+  // Opens the Add Transaction form on the Portfolios page with the stock and
+  // its last close filled in
+  const buy = (stock: Stock) => {
+    const summary = summaries.get(stock.id);
+    const params = new URLSearchParams({ add: stock.id });
+    if (summary) params.set('price', String(summary.lastPrice));
+    navigate(`/portfolios?${params}`);
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-gray-600">Loading...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Watchlists</h1>
+          <p className="text-gray-600 mt-1">Follow stocks you don't hold yet, with your notes and entry prices</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <div className="lg:col-span-1 bg-white rounded-xl shadow-sm border border-gray-200 p-4 space-y-2 self-start">
+            {watchlists.map((watchlist, index) => (
+              <div
+                key={watchlist.id}
+                className={`flex items-center justify-between rounded-lg px-3 py-2 ${
+                  watchlist.id === selected?.id ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <button onClick={() => selectWatchlist(watchlist)} className="flex-1 text-left text-sm font-medium">
+                  {watchlist.name}
+                  <span className="text-xs text-gray-500 ml-2">{watchlist.items.length}</span>
+                </button>
+                <div className="flex items-center space-x-1 text-gray-400">
+                  <button
+                    onClick={() => moveWatchlist(index, -1)}
+                    disabled={index === 0}
+                    className="hover:text-gray-700 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => moveWatchlist(index, 1)}
+                    disabled={index === watchlists.length - 1}
+                    className="hover:text-gray-700 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+
+            <div className="pt-2 border-t border-gray-100">
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && createWatchlist()}
+                  className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="New watchlist"
+                />
+                <button
+                  onClick={createWatchlist}
+                  className="px-2 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+                  title="Create watchlist"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+              <FieldError message={createErrors.name} />
+            </div>
+          </div>
+
+          <div className="lg:col-span-3 space-y-4">
+            {!selected ? (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+                <Eye className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No watchlists yet</h3>
+                <p className="text-gray-600">Create one to follow prices of stocks you are considering</p>
+              </div>
+            ) : (
+              <>
+                <div className="flex items-start justify-between">
+                  {renaming !== null ? (
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="text"
+                          value={renaming}
+                          onChange={(e) => setRenaming(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && saveRename()}
+                          className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <button onClick={saveRename} className="text-green-600 hover:text-green-700" title="Save">
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setRenaming(null)}
+                          className="text-gray-500 hover:text-gray-700"
+                          title="Cancel"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <FieldError message={renameErrors.name} />
+                    </div>
+                  ) : (
+                    <h2 className="text-xl font-semibold text-gray-900">{selected.name}</h2>
+                  )}
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => startRename(selected)}
+                      className="text-blue-600 hover:text-blue-700"
+                      title="Rename watchlist"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => deleteWatchlist(selected)}
+                      className="text-red-600 hover:text-red-700"
+                      title="Delete watchlist"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="relative max-w-md">
+                  <input
+                    type="text"
+                    value={symbolQuery}
+                    onChange={(e) => handleSymbolChange(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Add a symbol or company name"
+                  />
+                  <FieldError message={addError} />
+                  {symbolMatches.length > 0 && (
+                    <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg divide-y divide-gray-100">
+                      {symbolMatches.map((match) => (
+                        <button
+                          key={match.stockId || `${match.symbol}-${match.exchange}`}
+                          type="button"
+                          onClick={() => addSymbol(match)}
+                          className="w-full text-left px-4 py-2 hover:bg-gray-50"
+                        >
+                          <span className="font-medium text-gray-900">{match.symbol}</span>
+                          <span className="text-sm text-gray-500 ml-2">{match.name}</span>
+                          <span className="text-xs text-gray-400 ml-2">{match.exchange}</span>
+                          {match.stockId && <span className="text-xs text-blue-600 ml-2">Recorded</span>}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Symbol</th>
+                        <th className="py-3 px-4 text-right text-xs font-medium text-gray-500 uppercase">Last</th>
+                        <th className="py-3 px-4 text-right text-xs font-medium text-gray-500 uppercase">Change</th>
+                        <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">52-Week Range</th>
+                        <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Target Entry</th>
+                        <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase">Notes</th>
+                        <th className="py-3 px-4 text-right text-xs font-medium text-gray-500 uppercase">Action</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {items.map((item, index) => {
+                        const stock = itemStocks.get(item.stock_id);
+                        const summary = stock ? summaries.get(stock.id) : undefined;
+                        const errors = itemErrors[item.stock_id] || {};
+                        const atTarget =
+                          !!summary && item.target_price !== undefined && summary.lastPrice <= item.target_price;
+                        const formatPrice = (value: number) => formatCurrency(value, stock?.currency);
+
+                        return (
+                          <tr key={item.stock_id} className="hover:bg-gray-50 align-top">
+                            <td className="py-3 px-4 text-sm whitespace-nowrap">
+                              <p className="font-medium text-gray-900">{stock?.symbol || item.stock_id}</p>
+                              <p className="text-xs text-gray-500">{stock?.name}</p>
+                            </td>
+                            <td className="py-3 px-4 text-sm text-right text-gray-900 whitespace-nowrap">
+                              {summary ? formatPrice(summary.lastPrice) : summary === null ? 'No prices' : '...'}
+                            </td>
+                            <td className="py-3 px-4 text-sm text-right whitespace-nowrap">
+                              {summary?.change != null && summary.changePercent != null ? (
+                                <span className={gainClass(summary.change)}>
+                                  {summary.change >= 0 ? '+' : ''}
+                                  {formatPrice(summary.change)} ({summary.changePercent >= 0 ? '+' : ''}
+                                  {summary.changePercent.toFixed(2)}%)
+                                </span>
+                              ) : (
+                                <span className="text-gray-400">—</span>
+                              )}
+                            </td>
+                            <td className="py-3 px-4 text-xs text-gray-500 whitespace-nowrap">
+                              {summary ? (
+                                <div className="w-40">
+                                  <div className="relative h-1.5 bg-gray-200 rounded-full my-1.5">
+                                    <div
+                                      className="absolute top-1/2 w-2.5 h-2.5 bg-blue-600 rounded-full -translate-x-1/2 -translate-y-1/2"
+                                      style={{ left: `${rangePosition(summary)}%` }}
+                                    />
+                                  </div>
+                                  <div className="flex justify-between">
+                                    <span>{formatPrice(summary.low)}</span>
+                                    <span>{formatPrice(summary.high)}</span>
+                                  </div>
+                                </div>
+                              ) : (
+                                '—'
+                              )}
+                            </td>
+                            <td className="py-3 px-4 text-sm">
+                              <input
+                                key={`target-${item.target_price}`}
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                defaultValue={item.target_price ?? ''}
+                                onBlur={(e) =>
+                                  updateItem(item.stock_id, {
+                                    target_price: e.target.value === '' ? undefined : Number(e.target.value),
+                                  })
+                                }
+                                className="w-28 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                placeholder="None"
+                              />
+                              {atTarget && (
+                                <span className="block mt-1 w-fit px-2 py-0.5 text-xs font-medium bg-green-100 text-green-800 rounded">
+                                  At target
+                                </span>
+                              )}
+                              <FieldError message={errors.target_price} />
+                            </td>
+                            <td className="py-3 px-4 text-sm">
+                              <textarea
+                                key={`notes-${item.notes}`}
+                                defaultValue={item.notes}
+                                onBlur={(e) => updateItem(item.stock_id, { notes: e.target.value })}
+                                rows={1}
+                                className="w-full min-w-[12rem] px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                placeholder="Why you're watching it"
+                              />
+                              <FieldError message={errors.notes} />
+                            </td>
+                            <td className="py-3 px-4 text-right whitespace-nowrap">
+                              {stock && (
+                                <button
+                                  onClick={() => buy(stock)}
+                                  className="text-green-600 hover:text-green-700 mr-3"
+                                  title="Add a transaction"
+                                >
+                                  <ShoppingCart className="w-4 h-4" />
+                                </button>
+                              )}
+                              <button
+                                onClick={() => saveItems(moveItem(items, index, -1))}
+                                disabled={index === 0}
+                                className="text-gray-500 hover:text-gray-700 disabled:opacity-30 mr-1"
+                                title="Move up"
+                              >
+                                <ArrowUp className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => saveItems(moveItem(items, index, 1))}
+                                disabled={index === items.length - 1}
+                                className="text-gray-500 hover:text-gray-700 disabled:opacity-30 mr-3"
+                                title="Move down"
+                              >
+                                <ArrowDown className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => removeItem(item.stock_id)}
+                                className="text-red-600 hover:text-red-700"
+                                title="Remove from watchlist"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  {items.length === 0 && (
+                    <p className="text-gray-500 text-center py-8">
+                      Add symbols above. Stocks not yet in{' '}
+                      <Link to="/securities" className="text-blue-600 hover:text-blue-700">
+                        Securities
+                      </Link>{' '}
+                      are recorded when you add them.
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -4,18 +4,121 @@ export interface UserPreferences {
   risk_profile: 'conservative' | 'moderate' | 'aggressive';
   investment_horizon: 'short' | 'medium' | 'long';
   preferred_sectors: string[];
+  // Annual rate in percent, used for the Sharpe ratio
+  risk_free_rate: number;
+  // Symbol the portfolio's beta is measured against
+  benchmark_symbol: string;
+  // ISO 4217 code the Dashboard converts every amount into
+  base_currency: string;
+  notifications: NotificationSettings;
   created_at: string;
   updated_at: string;
 }
 
+// Which alerts notify, and how
+export interface NotificationSettings {
+  // Price crosses and daily moves
+  price_alerts: boolean;
+  // Drawdowns and position weights
+  portfolio_alerts: boolean;
+  // Also show a system notification, when the browser allows it
+  browser: boolean;
+}
+
+// How sells pick the lots they close when no lots are chosen explicitly
+export type CostBasisMethod = 'fifo' | 'lifo' | 'hifo' | 'average';
+
 export interface Portfolio {
   id: string;
   user_id: string;
   name: string;
   description: string;
+  // Opening cash balance, available from the portfolio's first day
   initial_capital: number;
+  // ISO 4217 code of the portfolio's cash; trades settle in it
+  currency: string;
+  // Lets buys and withdrawals take the cash balance below zero
+  allow_margin: boolean;
+  cost_basis_method: CostBasisMethod;
   created_at: string;
   updated_at: string;
+  // When the portfolio was moved to the trash; absent while it is in use
+  deleted_at?: string;
+}
+
+export type AlertType = 'price_above' | 'price_below' | 'daily_move' | 'drawdown' | 'position_weight';
+
+export interface AlertRule {
+  id: string;
+  user_id: string;
+  type: AlertType;
+  // The stock a price, daily move or position weight rule watches; a weight
+  // rule without one watches every position in the portfolio
+  stock_id?: string;
+  // The portfolio a drawdown or position weight rule watches
+  portfolio_id?: string;
+  // A price in the stock's currency for price rules, otherwise a percentage
+  threshold: number;
+  // Muted rules are still checked but send no notifications
+  muted: boolean;
+  // Whether the condition held at the last check. A rule notifies when this
+  // turns true, so it fires once per crossing rather than on every check.
+  triggered: boolean;
+  last_triggered_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AlertNotification {
+  id: string;
+  user_id: string;
+  rule_id: string;
+  title: string;
+  message: string;
+  read: boolean;
+  created_at: string;
+}
+
+export interface WatchlistItem {
+  stock_id: string;
+  notes: string;
+  // Price the user would like to buy at, in the stock's currency
+  target_price?: number;
+  added_at: string;
+}
+
+export interface Watchlist {
+  id: string;
+  user_id: string;
+  name: string;
+  // A user's watchlists are listed by position, lowest first
+  position: number;
+  // In the order they are shown
+  items: WatchlistItem[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TargetAllocation {
+  // Stock symbol or sector name, depending on PortfolioTargets.basis
+  key: string;
+  // Percent of total portfolio value
+  weight: number;
+}
+
+export interface PortfolioTargets {
+  // Same as portfolio_id; a portfolio has at most one set of targets
+  id: string;
+  portfolio_id: string;
+  user_id: string;
+  basis: 'symbol' | 'sector';
+  targets: TargetAllocation[];
+  // Drift, in percentage points, allowed before a rebalance is proposed
+  tolerance: number;
+  fractional_shares: boolean;
+  // Flat commission assumed for each proposed trade
+  fee_per_trade: number;
+  updated_at: string;
 }
 
 export interface Stock {
@@ -28,22 +131,87 @@ export interface Stock {
   currency: string;
   created_at: string;
   updated_at: string;
+  // Set once the stock was merged into another as a duplicate. Transactions
+  // that still point at it are read as pointing at that stock.
+  merged_into?: string;
+}
+
+export type TransactionType =
+  | 'buy'
+  | 'sell'
+  | 'deposit'
+  | 'withdrawal'
+  | 'dividend'
+  | 'dividend_reinvest'
+  | 'split'
+  | 'spinoff'
+  | 'fee';
+
+export interface LotSelection {
+  // Id of the transaction that opened the lot
+  lot_id: string;
+  quantity: number;
 }
 
+// quantity * price is always the gross cash amount of a transaction, in the
+// stock's currency (the portfolio's currency when there is no stock):
+// - deposit, withdrawal and fee have no stock (stock_id is empty) and, like
+//   dividend, record the amount as price with a quantity of 1
+// - dividend_reinvest records the shares bought and the price paid for them
+// - split records the ratio of new shares per old share as quantity (2 for a
+//   2-for-1 split, 0.1 for a 1-for-10 reverse split) and a price of 0
+// - spinoff is recorded against the new stock: quantity is the shares
+//   received and price the cost basis per share carried over from
+//   parent_stock_id, in the parent's currency; fx_rate and fees are in the
+//   new stock's currency
 export interface Transaction {
   id: string;
   portfolio_id: string;
   stock_id: string;
-  transaction_type: 'buy' | 'sell';
+  transaction_type: TransactionType;
   quantity: number;
   price: number;
   fees: number;
   transaction_date: string;
   notes: string;
   created_at: string;
+  // When the transaction was last edited; absent if it never was
+  updated_at?: string;
+  // Units of the portfolio currency per unit of the stock's currency on the
+  // transaction date. Absent when the two currencies match.
+  fx_rate?: number;
+  // Only set on spinoff transactions
+  parent_stock_id?: string;
+  // Only set on sells that close specific lots rather than using the
+  // portfolio's cost basis method
+  lot_selections?: LotSelection[];
+  // When the transaction was moved to the trash; absent while it counts
+  deleted_at?: string;
   stock?: Stock;
 }
 
+export type RevisionValue = string | number | LotSelection[] | null;
+
+export interface FieldChange {
+  field: string;
+  // null when the field was unset
+  before: RevisionValue;
+  after: RevisionValue;
+}
+
+// One edit of a transaction, with the value of each changed field before and
+// after it
+export interface TransactionRevision {
+  id: string;
+  transaction_id: string;
+  portfolio_id: string;
+  // The user who made the edit
+  user_id: string;
+  user_email: string;
+  changes: FieldChange[];
+  created_at: string;
+}
+
 export interface StockPrice {
   id: string;
   stock_id: string;
@@ -56,33 +224,111 @@ export interface StockPrice {
   created_at: string;
 }
 
+export interface FxRate {
+  id: string;
+  from_currency: string;
+  to_currency: string;
+  date: string;
+  // Units of to_currency per unit of from_currency
+  rate: number;
+  created_at: string;
+}
+
 export interface PortfolioSnapshot {
   id: string;
   portfolio_id: string;
   snapshot_date: string;
+  // In the portfolio's currency. Market value of positions plus cash_balance.
   total_value: number;
   cash_balance: number;
+  // Net capital contributed up to and including snapshot_date
+  invested_capital: number;
+  // Percent gain of total_value over invested_capital
   total_return: number;
   created_at: string;
 }
 
+export interface TaxLot {
+  // Id of the buy, reinvested dividend or spin-off that opened the lot
+  id: string;
+  stockId: string;
+  acquiredDate: string;
+  // Shares still held, adjusted for splits
+  quantity: number;
+  // Remaining cost basis of those shares, fees included, in the stock's currency
+  costBasis: number;
+  // Portfolio currency per unit of the stock's currency when the lot was opened
+  fxRate: number;
+}
+
+// Prices are in the stock's currency; every other amount is in the user's
+// base currency.
 export interface Holding {
   stock: Stock;
   quantity: number;
   averagePrice: number;
   currentPrice: number;
+  // Base currency per unit of the stock's currency as of today; 0 when there is no rate
+  fxRate: number;
+  // Date of the close used for currentPrice; null when the stock has no stored price yet
+  priceDate: string | null;
+  // Valued in the base currency: there is a close and, unless isConverted is false, a rate
+  isPriced: boolean;
+  // False when no rate converts the stock's currency into the base currency;
+  // the holding is then left unpriced even if it has a close
+  isConverted: boolean;
   totalCost: number;
   currentValue: number;
+  // priceGain + fxGain
   unrealizedGain: number;
   unrealizedGainPercent: number;
+  // Gain from the stock's price, converted at today's rate
+  priceGain: number;
+  // Gain from the stock's currency moving against the portfolio's since purchase
+  fxGain: number;
   weight: number;
+  lots: TaxLot[];
+}
+
+export interface RealizedGain {
+  // The sell that closed the lot; one sell can close several lots
+  transactionId: string;
+  stockId: string;
+  stock?: Stock;
+  lotId: string;
+  acquiredDate: string;
+  soldDate: string;
+  quantity: number;
+  // Amounts are in the portfolio's currency, converted at the rates of the
+  // sale and of the lot's purchase. Gross sale proceeds and fees are
+  // apportioned to this lot by quantity.
+  proceeds: number;
+  fees: number;
+  costBasis: number;
+  gain: number;
+  holdingDays: number;
+  term: 'short' | 'long';
 }
 
 export interface PortfolioMetrics {
+  // Currency every amount below is expressed in: the user's base currency, or
+  // the portfolio's own when there is no rate between the two
+  currency: string;
+  // Priced holdings plus cash
   totalValue: number;
+  cashBalance: number;
+  // Initial capital plus deposits less withdrawals
+  netContributions: number;
+  // Dividends received, whether paid out as cash or reinvested
+  totalIncome: number;
+  // Gains locked in by sales, net of their fees
+  realizedGain: number;
   totalCost: number;
   totalGain: number;
   totalGainPercent: number;
+  // Part of totalGain that comes from exchange rate moves
+  fxGain: number;
+  // cagr, volatility and maxDrawdown are percentages; sharpeRatio and beta are ratios
   cagr: number;
   volatility: number;
   sharpeRatio: number;
@@ -90,11 +336,17 @@ export interface PortfolioMetrics {
   beta: number;
   holdings: Holding[];
   sectorAllocation: { sector: string; value: number; percentage: number }[];
+  // Days of the value series that leave out a position with no exchange rate
+  unconvertedDays: number;
 }
 
 export interface Recommendation {
+  // Stable across reloads so dismissing or snoozing sticks to the same advice
+  id: string;
   type: 'buy' | 'sell' | 'hold' | 'rebalance';
+  // Empty for sector or portfolio-wide recommendations
   symbol: string;
+  sector?: string;
   reason: string;
   priority: 'high' | 'medium' | 'low';
   action?: string;
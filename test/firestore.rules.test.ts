@@ -0,0 +1,508 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestContext,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  DocumentData,
+  Firestore,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+
+// Runs firestore.rules in the emulator; start it with `npm run test:rules`.
+// Alice owns the portfolio "alice-growth", Bob owns "bob-income".
+
+let testEnv: RulesTestEnvironment;
+
+// The test contexts hand out compat instances, which the modular functions accept
+const dbOf = (context: RulesTestContext) => context.firestore() as unknown as Firestore;
+
+const alice = () => dbOf(testEnv.authenticatedContext('alice'));
+const bob = () => dbOf(testEnv.authenticatedContext('bob'));
+const anonymous = () => dbOf(testEnv.unauthenticatedContext());
+const admin = () => dbOf(testEnv.authenticatedContext('carol', { admin: true }));
+
+// A time the server did not set, for checking created_at and updated_at
+const clientTime = () => Timestamp.fromDate(new Date('2024-01-01T00:00:00Z'));
+
+const portfolioData = (userId: string, fields: DocumentData = {}) => ({
+  user_id: userId,
+  name: 'Growth',
+  description: '',
+  initial_capital: 1000,
+  allow_margin: false,
+  cost_basis_method: 'fifo',
+  currency: 'USD',
+  created_at: serverTimestamp(),
+  updated_at: serverTimestamp(),
+  ...fields,
+});
+
+const transactionData = (portfolioId: string, fields: DocumentData = {}) => ({
+  portfolio_id: portfolioId,
+  stock_id: 'AAPL',
+  transaction_type: 'buy',
+  quantity: 10,
+  price: 100,
+  fees: 0,
+  transaction_date: Timestamp.fromDate(new Date('2024-01-02T00:00:00Z')),
+  notes: '',
+  created_at: serverTimestamp(),
+  ...fields,
+});
+
+const preferencesData = (userId: string, fields: DocumentData = {}) => ({
+  user_id: userId,
+  risk_profile: 'moderate',
+  investment_horizon: 'long',
+  preferred_sectors: [],
+  risk_free_rate: 4,
+  benchmark_symbol: 'SPY',
+  base_currency: 'USD',
+  created_at: serverTimestamp(),
+  updated_at: serverTimestamp(),
+  ...fields,
+});
+
+const snapshotData = (portfolioId: string, fields: DocumentData = {}) => ({
+  portfolio_id: portfolioId,
+  snapshot_date: Timestamp.fromDate(new Date('2024-01-02T00:00:00Z')),
+  total_value: 1000,
+  cash_balance: 1000,
+  invested_capital: 1000,
+  total_return: 0,
+  created_at: serverTimestamp(),
+  ...fields,
+});
+
+const targetsData = (portfolioId: string, userId: string, fields: DocumentData = {}) => ({
+  portfolio_id: portfolioId,
+  user_id: userId,
+  basis: 'symbol',
+  targets: [{ key: 'AAPL', weight: 100 }],
+  tolerance: 5,
+  fractional_shares: false,
+  fee_per_trade: 0,
+  updated_at: serverTimestamp(),
+  ...fields,
+});
+
+const stockData = (symbol: string, exchange: string, fields: DocumentData = {}) => ({
+  symbol,
+  name: symbol,
+  sector: 'Technology',
+  industry: '',
+  exchange,
+  currency: 'USD',
+  created_at: serverTimestamp(),
+  updated_at: serverTimestamp(),
+  ...fields,
+});
+
+const alertRuleData = (userId: string, fields: DocumentData = {}) => ({
+  user_id: userId,
+  type: 'price_above',
+  stock_id: 'AAPL',
+  threshold: 200,
+  muted: false,
+  triggered: false,
+  created_at: serverTimestamp(),
+  updated_at: serverTimestamp(),
+  ...fields,
+});
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-portfolio',
+    firestore: { rules: readFileSync(new URL('../firestore.rules', import.meta.url), 'utf8') },
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = dbOf(context);
+    await Promise.all([
+      setDoc(doc(db, 'portfolios/alice-growth'), portfolioData('alice')),
+      setDoc(doc(db, 'portfolios/alice-second'), portfolioData('alice', { name: 'Second' })),
+      setDoc(doc(db, 'portfolios/bob-income'), portfolioData('bob', { name: 'Income' })),
+      setDoc(doc(db, 'transactions/alice-buy'), transactionData('alice-growth')),
+      setDoc(doc(db, 'transactions/bob-buy'), transactionData('bob-income')),
+      setDoc(doc(db, 'user_preferences/alice'), preferencesData('alice')),
+      setDoc(doc(db, 'portfolio_snapshots/alice-growth_2024-01-02'), snapshotData('alice-growth')),
+      setDoc(doc(db, 'portfolio_targets/alice-growth'), targetsData('alice-growth', 'alice')),
+      setDoc(doc(db, 'stocks/AAPL'), stockData('AAPL', '')),
+      setDoc(doc(db, 'stocks/MSFT:NASDAQ'), stockData('MSFT', 'NASDAQ')),
+      // Stored before listings were keyed by symbol and exchange
+      setDoc(doc(db, 'stocks/legacy-msft'), stockData('MSFT', 'NASDAQ')),
+      setDoc(doc(db, 'stock_prices/AAPL_2024-01-02'), { stock_id: 'AAPL', close: 185 }),
+      setDoc(doc(db, 'fx_rates/EUR_USD_2024-01-02'), { from_currency: 'EUR', to_currency: 'USD', rate: 1.09 }),
+      setDoc(doc(db, 'transaction_revisions/alice-revision'), {
+        transaction_id: 'alice-buy',
+        portfolio_id: 'alice-growth',
+        user_id: 'alice',
+        user_email: 'alice@example.com',
+        changes: [],
+        created_at: serverTimestamp(),
+      }),
+      setDoc(doc(db, 'watchlists/alice-watchlist'), {
+        user_id: 'alice',
+        name: 'Ideas',
+        position: 0,
+        items: [],
+        created_at: serverTimestamp(),
+        updated_at: serverTimestamp(),
+      }),
+      setDoc(doc(db, 'alert_rules/alice-rule'), alertRuleData('alice')),
+      setDoc(doc(db, 'notifications/alice-notification'), {
+        user_id: 'alice',
+        rule_id: 'alice-rule',
+        title: 'AAPL rose to $200',
+        message: '',
+        read: false,
+        created_at: serverTimestamp(),
+      }),
+    ]);
+  });
+});
+
+describe('portfolios', () => {
+  it('lets the owner read and write their portfolio', async () => {
+    await assertSucceeds(getDoc(doc(alice(), 'portfolios/alice-growth')));
+    await assertSucceeds(setDoc(doc(alice(), 'portfolios/alice-new'), portfolioData('alice')));
+    await assertSucceeds(
+      updateDoc(doc(alice(), 'portfolios/alice-growth'), { name: 'Renamed', updated_at: serverTimestamp() })
+    );
+    await assertSucceeds(
+      updateDoc(doc(alice(), 'portfolios/alice-growth'), { deleted_at: serverTimestamp(), updated_at: serverTimestamp() })
+    );
+    await assertSucceeds(deleteDoc(doc(alice(), 'portfolios/alice-growth')));
+  });
+
+  it("keeps other users out of a user's portfolio", async () => {
+    await assertFails(getDoc(doc(bob(), 'portfolios/alice-growth')));
+    await assertFails(getDoc(doc(anonymous(), 'portfolios/alice-growth')));
+    await assertFails(
+      updateDoc(doc(bob(), 'portfolios/alice-growth'), { name: 'Mine now', updated_at: serverTimestamp() })
+    );
+    await assertFails(deleteDoc(doc(bob(), 'portfolios/alice-growth')));
+    await assertFails(setDoc(doc(bob(), 'portfolios/for-alice'), portfolioData('alice')));
+  });
+
+  it('never changes hands', async () => {
+    await assertFails(
+      updateDoc(doc(alice(), 'portfolios/alice-growth'), { user_id: 'bob', updated_at: serverTimestamp() })
+    );
+  });
+
+  it('refuses unknown keys and bad values', async () => {
+    await assertFails(setDoc(doc(alice(), 'portfolios/extra-key'), portfolioData('alice', { is_admin: true })));
+    await assertFails(setDoc(doc(alice(), 'portfolios/bad-method'), portfolioData('alice', { cost_basis_method: 'random' })));
+    await assertFails(setDoc(doc(alice(), 'portfolios/bad-currency'), portfolioData('alice', { currency: 'dollars' })));
+    await assertFails(setDoc(doc(alice(), 'portfolios/no-name'), portfolioData('alice', { name: '' })));
+    await assertFails(setDoc(doc(alice(), 'portfolios/negative'), portfolioData('alice', { initial_capital: -1 })));
+  });
+
+  it('takes created_at and updated_at from the server', async () => {
+    await assertFails(setDoc(doc(alice(), 'portfolios/old'), portfolioData('alice', { created_at: clientTime() })));
+    await assertFails(setDoc(doc(alice(), 'portfolios/old'), portfolioData('alice', { updated_at: clientTime() })));
+    await assertFails(updateDoc(doc(alice(), 'portfolios/alice-growth'), { name: 'Renamed', updated_at: clientTime() }));
+    await assertFails(updateDoc(doc(alice(), 'portfolios/alice-growth'), { name: 'Renamed' }));
+    await assertFails(
+      updateDoc(doc(alice(), 'portfolios/alice-growth'), { created_at: serverTimestamp(), updated_at: serverTimestamp() })
+    );
+  });
+});
+
+describe('transactions', () => {
+  it('lets the owner of the portfolio read and write its transactions', async () => {
+    await assertSucceeds(getDoc(doc(alice(), 'transactions/alice-buy')));
+    await assertSucceeds(setDoc(doc(alice(), 'transactions/alice-new'), transactionData('alice-growth')));
+    await assertSucceeds(
+      setDoc(
+        doc(alice(), 'transactions/alice-deposit'),
+        transactionData('alice-growth', { transaction_type: 'deposit', stock_id: '', quantity: 1, price: 500 })
+      )
+    );
+    await assertSucceeds(updateDoc(doc(alice(), 'transactions/alice-buy'), { quantity: 12, updated_at: serverTimestamp() }));
+    await assertSucceeds(updateDoc(doc(alice(), 'transactions/alice-buy'), { deleted_at: serverTimestamp() }));
+    await assertSucceeds(deleteDoc(doc(alice(), 'transactions/alice-buy')));
+  });
+
+  it("keeps other users out of a user's transactions", async () => {
+    await assertFails(getDoc(doc(bob(), 'transactions/alice-buy')));
+    await assertFails(setDoc(doc(bob(), 'transactions/into-alice'), transactionData('alice-growth')));
+    await assertFails(updateDoc(doc(bob(), 'transactions/alice-buy'), { quantity: 1, updated_at: serverTimestamp() }));
+    await assertFails(deleteDoc(doc(bob(), 'transactions/alice-buy')));
+  });
+
+  it('keeps a transaction in its portfolio', async () => {
+    await assertFails(
+      updateDoc(doc(alice(), 'transactions/alice-buy'), { portfolio_id: 'alice-second', updated_at: serverTimestamp() })
+    );
+    await assertFails(
+      updateDoc(doc(bob(), 'transactions/bob-buy'), { portfolio_id: 'alice-growth', updated_at: serverTimestamp() })
+    );
+  });
+
+  it('refuses unknown keys and bad values', async () => {
+    await assertFails(setDoc(doc(alice(), 'transactions/extra'), transactionData('alice-growth', { approved: true })));
+    await assertFails(setDoc(doc(alice(), 'transactions/bad-type'), transactionData('alice-growth', { transaction_type: 'gift' })));
+    await assertFails(setDoc(doc(alice(), 'transactions/no-stock'), transactionData('alice-growth', { stock_id: '' })));
+    await assertFails(setDoc(doc(alice(), 'transactions/zero'), transactionData('alice-growth', { quantity: 0 })));
+    await assertFails(
+      setDoc(
+        doc(alice(), 'transactions/buy-lots'),
+        transactionData('alice-growth', { lot_selections: [{ lot_id: 'x', quantity: 1 }] })
+      )
+    );
+    await assertFails(setDoc(doc(alice(), 'transactions/buy-parent'), transactionData('alice-growth', { parent_stock_id: 'X' })));
+  });
+
+  it('takes created_at and updated_at from the server', async () => {
+    await assertFails(setDoc(doc(alice(), 'transactions/old'), transactionData('alice-growth', { created_at: clientTime() })));
+    await assertFails(updateDoc(doc(alice(), 'transactions/alice-buy'), { quantity: 12, updated_at: clientTime() }));
+    await assertFails(
+      updateDoc(doc(alice(), 'transactions/alice-buy'), { created_at: serverTimestamp(), updated_at: serverTimestamp() })
+    );
+  });
+
+  it('stamps updated_at on every edit, leaving only trash moves unstamped', async () => {
+    const buy = doc(alice(), 'transactions/alice-buy');
+    await assertSucceeds(updateDoc(buy, { quantity: 12, updated_at: serverTimestamp() }));
+
+    // Now that updated_at is set, an edit could otherwise leave it as it is
+    await assertFails(updateDoc(buy, { quantity: 15 }));
+    await assertFails(updateDoc(buy, { price: 90 }));
+    await assertFails(updateDoc(buy, { transaction_date: Timestamp.fromDate(new Date('2024-01-03T00:00:00Z')) }));
+    await assertFails(updateDoc(buy, { quantity: 15, deleted_at: serverTimestamp() }));
+
+    await assertSucceeds(updateDoc(buy, { deleted_at: serverTimestamp() }));
+    await assertSucceeds(updateDoc(buy, { deleted_at: deleteField() }));
+  });
+});
+
+describe('transaction revisions', () => {
+  it('are written with the edit they record, by its author', async () => {
+    const db = alice();
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'transactions/alice-buy'), { quantity: 12, updated_at: serverTimestamp() });
+    batch.set(doc(db, 'transaction_revisions/alice-edit'), {
+      transaction_id: 'alice-buy',
+      portfolio_id: 'alice-growth',
+      user_id: 'alice',
+      user_email: 'alice@example.com',
+      changes: [{ field: 'quantity', before: 10, after: 12 }],
+      created_at: serverTimestamp(),
+    });
+    await assertSucceeds(batch.commit());
+  });
+
+  it('are private to the owner and never change', async () => {
+    await assertSucceeds(getDoc(doc(alice(), 'transaction_revisions/alice-revision')));
+    await assertFails(getDoc(doc(bob(), 'transaction_revisions/alice-revision')));
+    await assertFails(updateDoc(doc(alice(), 'transaction_revisions/alice-revision'), { changes: [] }));
+  });
+
+  it('cannot be filed against a transaction in another portfolio', async () => {
+    await assertFails(
+      setDoc(doc(bob(), 'transaction_revisions/bob-forged'), {
+        transaction_id: 'alice-buy',
+        portfolio_id: 'bob-income',
+        user_id: 'bob',
+        user_email: 'bob@example.com',
+        changes: [],
+        created_at: serverTimestamp(),
+      })
+    );
+  });
+});
+
+describe('preferences', () => {
+  it('are read and written by their user, under their user id', async () => {
+    await assertSucceeds(getDoc(doc(alice(), 'user_preferences/alice')));
+    await assertSucceeds(setDoc(doc(bob(), 'user_preferences/bob'), preferencesData('bob')));
+    await assertSucceeds(
+      updateDoc(doc(alice(), 'user_preferences/alice'), { risk_profile: 'aggressive', updated_at: serverTimestamp() })
+    );
+    await assertFails(setDoc(doc(bob(), 'user_preferences/other-id'), preferencesData('bob')));
+  });
+
+  it("keep other users out of a user's preferences", async () => {
+    await assertFails(getDoc(doc(bob(), 'user_preferences/alice')));
+    await assertFails(
+      updateDoc(doc(bob(), 'user_preferences/alice'), { risk_profile: 'aggressive', updated_at: serverTimestamp() })
+    );
+    await assertFails(setDoc(doc(bob(), 'user_preferences/alice'), preferencesData('alice')));
+    await assertFails(
+      updateDoc(doc(alice(), 'user_preferences/alice'), { user_id: 'bob', updated_at: serverTimestamp() })
+    );
+  });
+
+  it('refuse unknown keys, bad values and client timestamps', async () => {
+    await assertFails(setDoc(doc(bob(), 'user_preferences/bob'), preferencesData('bob', { theme: 'dark' })));
+    await assertFails(setDoc(doc(bob(), 'user_preferences/bob'), preferencesData('bob', { risk_profile: 'reckless' })));
+    await assertFails(setDoc(doc(bob(), 'user_preferences/bob'), preferencesData('bob', { created_at: clientTime() })));
+    await assertFails(
+      setDoc(doc(bob(), 'user_preferences/bob'), preferencesData('bob', { notifications: { sms: true } }))
+    );
+    await assertFails(
+      updateDoc(doc(alice(), 'user_preferences/alice'), { risk_profile: 'aggressive', updated_at: clientTime() })
+    );
+  });
+});
+
+describe('snapshots', () => {
+  it('are written by the owner of the portfolio, one per day', async () => {
+    await assertSucceeds(getDoc(doc(alice(), 'portfolio_snapshots/alice-growth_2024-01-02')));
+    await assertSucceeds(setDoc(doc(alice(), 'portfolio_snapshots/alice-growth_2024-01-03'), snapshotData('alice-growth')));
+    await assertFails(setDoc(doc(alice(), 'portfolio_snapshots/alice-growth-latest'), snapshotData('alice-growth')));
+  });
+
+  it("keep other users out of a user's snapshots", async () => {
+    await assertFails(getDoc(doc(bob(), 'portfolio_snapshots/alice-growth_2024-01-02')));
+    await assertFails(setDoc(doc(bob(), 'portfolio_snapshots/alice-growth_2024-01-03'), snapshotData('alice-growth')));
+    await assertFails(deleteDoc(doc(bob(), 'portfolio_snapshots/alice-growth_2024-01-02')));
+  });
+
+  it('stay with their portfolio', async () => {
+    await assertFails(
+      setDoc(doc(alice(), 'portfolio_snapshots/alice-growth_2024-01-02'), snapshotData('alice-second'))
+    );
+  });
+});
+
+describe('targets', () => {
+  it('are written by the owner of the portfolio', async () => {
+    await assertSucceeds(getDoc(doc(alice(), 'portfolio_targets/alice-growth')));
+    await assertSucceeds(setDoc(doc(alice(), 'portfolio_targets/alice-growth'), targetsData('alice-growth', 'alice', { tolerance: 3 })));
+  });
+
+  it("keep other users out of a user's targets", async () => {
+    await assertFails(getDoc(doc(bob(), 'portfolio_targets/alice-growth')));
+    await assertFails(setDoc(doc(bob(), 'portfolio_targets/alice-growth'), targetsData('alice-growth', 'bob')));
+    await assertFails(deleteDoc(doc(bob(), 'portfolio_targets/alice-growth')));
+  });
+
+  it('refuse unknown keys, bad values and client timestamps', async () => {
+    const targets = doc(alice(), 'portfolio_targets/alice-growth');
+    await assertFails(setDoc(targets, targetsData('alice-growth', 'alice', { notes: '' })));
+    await assertFails(setDoc(targets, targetsData('alice-growth', 'alice', { basis: 'country' })));
+    await assertFails(setDoc(targets, targetsData('alice-second', 'alice')));
+    await assertFails(setDoc(targets, targetsData('alice-growth', 'alice', { updated_at: clientTime() })));
+  });
+});
+
+describe('market data', () => {
+  it('is read by signed-in users and written only by the backend', async () => {
+    await assertSucceeds(getDoc(doc(alice(), 'stock_prices/AAPL_2024-01-02')));
+    await assertSucceeds(getDoc(doc(alice(), 'fx_rates/EUR_USD_2024-01-02')));
+    await assertFails(getDoc(doc(anonymous(), 'stock_prices/AAPL_2024-01-02')));
+    await assertFails(setDoc(doc(alice(), 'stock_prices/AAPL_2024-01-03'), { stock_id: 'AAPL', close: 1 }));
+    await assertFails(updateDoc(doc(alice(), 'stock_prices/AAPL_2024-01-02'), { close: 1 }));
+    await assertFails(setDoc(doc(alice(), 'fx_rates/EUR_USD_2024-01-03'), { from_currency: 'EUR', to_currency: 'USD', rate: 9 }));
+    await assertFails(deleteDoc(doc(alice(), 'fx_rates/EUR_USD_2024-01-02')));
+  });
+});
+
+describe('stocks', () => {
+  it('are created under the key of their listing', async () => {
+    await assertSucceeds(setDoc(doc(alice(), 'stocks/NVDA:NASDAQ'), stockData('NVDA', 'nasdaq')));
+    await assertSucceeds(setDoc(doc(alice(), 'stocks/TSLA'), stockData('TSLA', '')));
+    await assertFails(setDoc(doc(alice(), 'stocks/NVDA'), stockData('NVDA', 'NASDAQ')));
+    await assertFails(setDoc(doc(alice(), 'stocks/random-id'), stockData('AMD', '')));
+  });
+
+  it('refuse unknown keys, bad values, merges on create and client timestamps', async () => {
+    await assertFails(setDoc(doc(alice(), 'stocks/AMD'), stockData('AMD', '', { price: 1 })));
+    await assertFails(setDoc(doc(alice(), 'stocks/amd'), stockData('amd', '')));
+    await assertFails(setDoc(doc(alice(), 'stocks/AMD'), stockData('AMD', '', { merged_into: 'AAPL' })));
+    await assertFails(setDoc(doc(alice(), 'stocks/AMD'), stockData('AMD', '', { created_at: clientTime() })));
+  });
+
+  it('let users correct only their name, sector and industry', async () => {
+    const msft = doc(alice(), 'stocks/MSFT:NASDAQ');
+    await assertSucceeds(
+      updateDoc(msft, { name: 'Microsoft', sector: 'Software', industry: 'Cloud', updated_at: serverTimestamp() })
+    );
+    await assertFails(updateDoc(msft, { symbol: 'MSFX', updated_at: serverTimestamp() }));
+    await assertFails(updateDoc(msft, { exchange: 'NYSE', updated_at: serverTimestamp() }));
+    await assertFails(updateDoc(msft, { currency: 'EUR', updated_at: serverTimestamp() }));
+    await assertFails(updateDoc(msft, { merged_into: 'AAPL', updated_at: serverTimestamp() }));
+    await assertFails(updateDoc(msft, { name: 'Microsoft', updated_at: clientTime() }));
+    await assertFails(
+      updateDoc(doc(alice(), 'stocks/legacy-msft'), { name: 'Microsoft', updated_at: serverTimestamp() })
+    );
+  });
+
+  it('are merged only by admins, once, into another stored stock', async () => {
+    const legacy = () => doc(admin(), 'stocks/legacy-msft');
+    await assertFails(updateDoc(legacy(), { merged_into: 'legacy-msft', updated_at: serverTimestamp() }));
+    await assertFails(updateDoc(legacy(), { merged_into: 'MSFT:NYSE', updated_at: serverTimestamp() }));
+    await assertFails(
+      updateDoc(legacy(), { merged_into: 'MSFT:NASDAQ', name: 'Renamed', updated_at: serverTimestamp() })
+    );
+    await assertSucceeds(updateDoc(legacy(), { merged_into: 'MSFT:NASDAQ', updated_at: serverTimestamp() }));
+    await assertFails(updateDoc(legacy(), { merged_into: 'AAPL', updated_at: serverTimestamp() }));
+    await assertFails(updateDoc(doc(admin(), 'stocks/AAPL'), { symbol: 'APPL', updated_at: serverTimestamp() }));
+  });
+
+  it('are never deleted and need a signed-in user', async () => {
+    await assertFails(deleteDoc(doc(alice(), 'stocks/AAPL')));
+    await assertFails(getDoc(doc(anonymous(), 'stocks/AAPL')));
+    await assertFails(setDoc(doc(anonymous(), 'stocks/AMD'), stockData('AMD', '')));
+  });
+});
+
+describe('watchlists, alerts and notifications', () => {
+  it("keep other users out of a user's documents", async () => {
+    await assertSucceeds(getDoc(doc(alice(), 'watchlists/alice-watchlist')));
+    await assertFails(getDoc(doc(bob(), 'watchlists/alice-watchlist')));
+    await assertFails(getDoc(doc(bob(), 'alert_rules/alice-rule')));
+    await assertFails(updateDoc(doc(bob(), 'alert_rules/alice-rule'), { muted: true, updated_at: serverTimestamp() }));
+    await assertFails(getDoc(doc(bob(), 'notifications/alice-notification')));
+    await assertFails(setDoc(doc(bob(), 'alert_rules/for-alice'), alertRuleData('alice')));
+  });
+
+  it('let a user find the alert rules watching a portfolio, as purging it does', async () => {
+    const watching = (db: Firestore, userId: string) =>
+      query(collection(db, 'alert_rules'), where('user_id', '==', userId), where('portfolio_id', '==', 'alice-growth'));
+    await assertSucceeds(getDocs(watching(alice(), 'alice')));
+    await assertFails(getDocs(watching(bob(), 'alice')));
+    await assertFails(getDocs(query(collection(bob(), 'alert_rules'), where('portfolio_id', '==', 'alice-growth'))));
+  });
+
+  it('refuse bad alert rules', async () => {
+    await assertSucceeds(setDoc(doc(alice(), 'alert_rules/new'), alertRuleData('alice')));
+    await assertFails(setDoc(doc(alice(), 'alert_rules/bad-type'), alertRuleData('alice', { type: 'volume' })));
+    const { stock_id: _stockId, ...withoutStock } = alertRuleData('alice');
+    await assertFails(setDoc(doc(alice(), 'alert_rules/no-stock'), withoutStock));
+    await assertFails(setDoc(doc(alice(), 'alert_rules/extra'), alertRuleData('alice', { email: 'x@example.com' })));
+    await assertFails(setDoc(doc(alice(), 'alert_rules/old'), alertRuleData('alice', { created_at: clientTime() })));
+  });
+
+  it('only let a notification be marked read', async () => {
+    await assertSucceeds(updateDoc(doc(alice(), 'notifications/alice-notification'), { read: true }));
+    await assertFails(updateDoc(doc(alice(), 'notifications/alice-notification'), { title: 'Edited' }));
+  });
+});
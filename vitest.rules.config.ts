@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config'
+
+// Runs the Firestore rules tests, which need the emulator: use
+// `npm run test:rules` rather than calling this directly
+export default defineConfig({
+  test: {
+    include: ['test/**/*.rules.test.ts'],
+    // Every file shares the one emulator, which each test clears
+    fileParallelism: false,
+    testTimeout: 15000,
+    hookTimeout: 30000,
+  },
+})